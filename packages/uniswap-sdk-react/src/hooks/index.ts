@@ -4,6 +4,8 @@ export * from "./useUniswapSDK";
 export * from "./usePosition";
 export * from "./usePositionCollectFees";
 export * from "./usePositionRemoveLiquidity";
+export * from "./usePositionZapOut";
+export * from "./usePositionRebalance";
 export * from "./usePositionIncreaseLiquidity";
 export * from "./useCreatePosition";
 export * from "./useSwap";
@@ -2,12 +2,13 @@
 
 import { useCallback, useMemo } from "react";
 
-import type { PoolKey } from "@zahastudio/uniswap-sdk";
+import type { FeeAprEstimate, PoolKey } from "@zahastudio/uniswap-sdk";
 import type { Address, Hex } from "viem";
 
-import { type UseQueryResult } from "@tanstack/react-query";
+import { useQuery, type UseQueryResult } from "@tanstack/react-query";
 import { nearestUsableTick, TickMath } from "@uniswap/v3-sdk";
 import { Position } from "@uniswap/v4-sdk";
+import { hashFn } from "wagmi/query";
 
 import type { UseMutationHookOptions } from "@/types/hooks";
 
@@ -21,6 +22,13 @@ import {
 import { usePoolState, type UsePoolStateData } from "@/hooks/usePoolState";
 import { useUniswapSDK } from "@/hooks/useUniswapSDK";
 import { assertSdkInitialized } from "@/utils/assertions";
+import { feeAprKeys } from "@/utils/queryKeys";
+
+/**
+ * Liquidity the fee APR of a range is estimated for before scaling it to the position: the largest power of
+ * two a uint128 holds, so that the reference fees keep the precision of the range's fee growth.
+ */
+const FEE_APR_REFERENCE_LIQUIDITY = 2n ** 127n;
 
 /**
  * Arguments for creating a new position (passed at execution time).
@@ -46,6 +54,8 @@ export interface CalculatedPosition {
   formattedAmount0: string;
   /** Human-readable amount of token1 */
   formattedAmount1: string;
+  /** Liquidity of the position */
+  liquidity: bigint;
 }
 
 /**
@@ -70,6 +80,8 @@ export interface UseCreatePositionParams {
   tickLower?: number;
   /** Upper tick boundary (optional, defaults to full-range) */
   tickUpper?: number;
+  /** Blocks of fee history the fee APR estimate samples (optional, defaults to 7200) */
+  lookbackBlocks?: bigint;
 }
 
 /**
@@ -102,6 +114,11 @@ export interface UseCreatePositionReturn {
   position: CalculatedPosition | null;
   /** Resolved tick range, null while pool is loading */
   tickRange: ResolvedTickRange | null;
+  /**
+   * Fee APR estimate for the calculated position, from the pool's recent fee growth. The fee growth is
+   * fetched per pool, range and lookback window; changing the amounts only rescales the fees.
+   */
+  feeApr: UseQueryResult<FeeAprEstimate, Error>;
   /** The first incomplete required step */
   currentStep: AddLiquidityStep;
   /** Execute all remaining required steps sequentially. Returns tx hash. */
@@ -121,11 +138,15 @@ export interface UseCreatePositionReturn {
  * signing, and the mint transaction.
  *
  * The caller passes only the user-edited amount (`amount0` or `amount1`),
- * and the hook computes the complementary amount automatically.
+ * and the hook computes the complementary amount automatically. Once the
+ * amounts are known, it estimates the position's fee APR from the pool's
+ * recent fee growth via `sdk.estimateFeeApr()`. The estimate is fetched once per pool, range and
+ * lookback window for a reference liquidity and scaled to the position, so editing the amounts does
+ * not read the fee history again.
  *
- * @param params - Pool key, amounts, and tick range
+ * @param params - Pool key, amounts, tick range, and fee APR lookback window
  * @param options - Configuration: chainId, onSuccess
- * @returns Pool query, calculated position, pipeline steps, current step indicator, executeAll action, and reset
+ * @returns Pool query, calculated position, fee APR estimate, pipeline steps, current step indicator, executeAll action, and reset
  *
  * @example One-click with executeAll
  * ```tsx
@@ -148,7 +169,7 @@ export function useCreatePosition(
   params: UseCreatePositionParams,
   options: UseCreatePositionOptions = {},
 ): UseCreatePositionReturn {
-  const { poolKey, amount0, amount1, tickLower: paramTickLower, tickUpper: paramTickUpper } = params;
+  const { poolKey, amount0, amount1, tickLower: paramTickLower, tickUpper: paramTickUpper, lookbackBlocks } = params;
   const { chainId: overrideChainId, onSuccess } = options;
 
   const { sdk, chainId } = useUniswapSDK({ chainId: overrideChainId });
@@ -224,12 +245,55 @@ export function useCreatePosition(
         amount1: BigInt(pos.amount1.quotient.toString()),
         formattedAmount0: pos.amount0.toExact(),
         formattedAmount1: pos.amount1.toExact(),
+        liquidity: BigInt(pos.liquidity.toString()),
       };
     } catch {
       return null;
     }
   }, [poolQuery.data, tickRange, amount0, amount1]);
 
+  // Fees scale linearly with liquidity and the APR does not depend on it, so the estimate of the reference
+  // liquidity is scaled to the position instead of being refetched whenever the amounts change
+  const positionLiquidity = calculatedPosition?.liquidity;
+  const scaleFeeApr = useCallback(
+    (reference: FeeAprEstimate): FeeAprEstimate => {
+      if (positionLiquidity === undefined || reference.liquidity === 0n) {
+        return reference;
+      }
+      return {
+        ...reference,
+        fees0: (reference.fees0 * positionLiquidity) / reference.liquidity,
+        fees1: (reference.fees1 * positionLiquidity) / reference.liquidity,
+        liquidity: positionLiquidity,
+      };
+    },
+    [positionLiquidity],
+  );
+
+  const feeAprQuery = useQuery({
+    queryKey: feeAprKeys.detail(poolKey, tickRange?.tickLower ?? 0, tickRange?.tickUpper ?? 0, lookbackBlocks, chainId),
+    queryFn: async (): Promise<FeeAprEstimate> => {
+      assertSdkInitialized(sdk);
+      const reference = new Position({
+        pool: poolQuery.data!.pool,
+        tickLower: tickRange!.tickLower,
+        tickUpper: tickRange!.tickUpper,
+        liquidity: FEE_APR_REFERENCE_LIQUIDITY.toString(),
+      });
+      return sdk.estimateFeeApr({
+        poolKey,
+        tickLower: tickRange!.tickLower,
+        tickUpper: tickRange!.tickUpper,
+        amount0: BigInt(reference.amount0.quotient.toString()),
+        amount1: BigInt(reference.amount1.quotient.toString()),
+        lookbackBlocks,
+      });
+    },
+    select: scaleFeeApr,
+    enabled: !!sdk && !!poolQuery.data && !!tickRange && !!calculatedPosition,
+    queryKeyHashFn: hashFn,
+  });
+
   const buildCalldata = useCallback(
     async ({ batchPermit, args }: { batchPermit: unknown; args: CreatePositionArgs }) => {
       if (!poolQuery.data) {
@@ -273,6 +337,7 @@ export function useCreatePosition(
     steps: pipeline.steps,
     position: calculatedPosition,
     tickRange,
+    feeApr: feeAprQuery,
     currentStep: pipeline.currentStep,
     executeAll: pipeline.executeAll,
     executeBatch: pipeline.executeBatch,
@@ -0,0 +1,92 @@
+"use client";
+
+import { useCallback } from "react";
+
+import type { BuildRebalanceCallDataArgs } from "@zahastudio/uniswap-sdk";
+
+import { AtomicityNotSupportedError } from "viem";
+
+import type { UsePositionParams } from "@/hooks/usePosition";
+import type { UseMutationHookOptions } from "@/types/hooks";
+
+import {
+  type SendBatchTransactionAndConfirmResult,
+  useTransaction,
+  type UseTransactionReturn,
+} from "@/hooks/primitives/useTransaction";
+import { useUniswapSDK } from "@/hooks/useUniswapSDK";
+import { assertSdkInitialized } from "@/utils/assertions";
+
+/**
+ * Arguments for moving a position's liquidity into a new range.
+ */
+export type RebalanceArgs = Omit<BuildRebalanceCallDataArgs, "tokenId">;
+
+/**
+ * Options for the usePositionRebalance hook.
+ */
+export interface UsePositionRebalanceOptions extends UseMutationHookOptions {}
+
+/**
+ * Return type for the usePositionRebalance hook.
+ */
+export interface UsePositionRebalanceReturn {
+  /** Build the rebalance calls and send them as one atomic EIP-5792 batch. */
+  execute: (args: RebalanceArgs) => Promise<SendBatchTransactionAndConfirmResult>;
+  /** Full transaction lifecycle state */
+  transaction: UseTransactionReturn;
+}
+
+/**
+ * Hook to close a Uniswap v4 position and reopen its liquidity over a new range of the same pool.
+ *
+ * A rebalance is a PositionManager call followed by a Universal Router call that must run atomically,
+ * so `execute` only sends them as one EIP-5792 batch. It throws `AtomicityNotSupportedError` without
+ * building or sending anything when the wallet does not support atomic batching; there is no
+ * sequential fallback. The batch burns the position, so its data is not refetched.
+ *
+ * @param params - Operation parameters: tokenId
+ * @param options - Configuration options
+ * @returns Execute function and transaction lifecycle state
+ *
+ * @example
+ * ```tsx
+ * const rebalance = usePositionRebalance({ tokenId });
+ *
+ * if (rebalance.transaction.isAtomicBatchSupported) {
+ *   await rebalance.execute({ newTickLower: -600, newTickUpper: 600, recipient: address });
+ * }
+ * ```
+ */
+export function usePositionRebalance(
+  params: UsePositionParams,
+  options: UsePositionRebalanceOptions = {},
+): UsePositionRebalanceReturn {
+  const { tokenId } = params;
+  const { chainId: overrideChainId, onSuccess } = options;
+
+  const { sdk, chainId } = useUniswapSDK({ chainId: overrideChainId });
+
+  const transaction = useTransaction({ chainId });
+
+  const execute = useCallback(
+    async (args: RebalanceArgs): Promise<SendBatchTransactionAndConfirmResult> => {
+      assertSdkInitialized(sdk);
+      if (!transaction.isAtomicBatchSupported) {
+        throw new AtomicityNotSupportedError(
+          new Error("Rebalance calls must be sent as one atomic batch, which the wallet does not support."),
+        );
+      }
+
+      const { calls } = await sdk.buildRebalanceCallData({ ...args, tokenId });
+      const result = await transaction.sendBatchTransactionAndConfirm({ calls });
+
+      onSuccess?.();
+
+      return result;
+    },
+    [sdk, tokenId, transaction, onSuccess],
+  );
+
+  return { execute, transaction };
+}
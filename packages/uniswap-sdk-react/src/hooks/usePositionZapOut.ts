@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback } from "react";
+
+import type { BuildZapOutCallDataArgs } from "@zahastudio/uniswap-sdk";
+
+import { AtomicityNotSupportedError } from "viem";
+
+import type { UseMutationHookOptions } from "@/types/hooks";
+
+import {
+  type SendBatchTransactionAndConfirmResult,
+  useTransaction,
+  type UseTransactionReturn,
+} from "@/hooks/primitives/useTransaction";
+import { usePosition, type UsePositionParams } from "@/hooks/usePosition";
+import { useUniswapSDK } from "@/hooks/useUniswapSDK";
+import { assertSdkInitialized } from "@/utils/assertions";
+
+/**
+ * Arguments for removing liquidity from a position into a single currency.
+ */
+export type ZapOutArgs = Omit<BuildZapOutCallDataArgs, "tokenId">;
+
+/**
+ * Options for the usePositionZapOut hook.
+ */
+export interface UsePositionZapOutOptions extends UseMutationHookOptions {}
+
+/**
+ * Return type for the usePositionZapOut hook.
+ */
+export interface UsePositionZapOutReturn {
+  /** Build the zap-out calls and send them as one atomic EIP-5792 batch. */
+  execute: (args: ZapOutArgs) => Promise<SendBatchTransactionAndConfirmResult>;
+  /** Full transaction lifecycle state */
+  transaction: UseTransactionReturn;
+}
+
+/**
+ * Hook to remove liquidity from a Uniswap v4 position and receive a single currency.
+ *
+ * A zap-out is a PositionManager call followed by a Universal Router call that must run atomically,
+ * so `execute` only sends them as one EIP-5792 batch. It throws `AtomicityNotSupportedError` without
+ * building or sending anything when the wallet does not support atomic batching; there is no
+ * sequential fallback. Position data is refetched when the batch confirms.
+ *
+ * @param params - Operation parameters: tokenId
+ * @param options - Configuration options
+ * @returns Execute function and transaction lifecycle state
+ *
+ * @example
+ * ```tsx
+ * const zapOut = usePositionZapOut({ tokenId });
+ *
+ * if (zapOut.transaction.isAtomicBatchSupported) {
+ *   await zapOut.execute({ liquidityPercentage: 10000, outputCurrency: USDC, recipient: address });
+ * }
+ * ```
+ */
+export function usePositionZapOut(
+  params: UsePositionParams,
+  options: UsePositionZapOutOptions = {},
+): UsePositionZapOutReturn {
+  const { tokenId } = params;
+  const { chainId: overrideChainId, onSuccess } = options;
+
+  const { sdk, chainId } = useUniswapSDK({ chainId: overrideChainId });
+  const { query } = usePosition(params, { chainId });
+
+  const transaction = useTransaction({ chainId });
+
+  const execute = useCallback(
+    async (args: ZapOutArgs): Promise<SendBatchTransactionAndConfirmResult> => {
+      assertSdkInitialized(sdk);
+      if (!transaction.isAtomicBatchSupported) {
+        throw new AtomicityNotSupportedError(
+          new Error("Zap-out calls must be sent as one atomic batch, which the wallet does not support."),
+        );
+      }
+
+      const { calls } = await sdk.buildZapOutCallData({ ...args, tokenId });
+      const result = await transaction.sendBatchTransactionAndConfirm({ calls });
+
+      await query.refetch();
+      onSuccess?.();
+
+      return result;
+    },
+    [sdk, tokenId, transaction, query, onSuccess],
+  );
+
+  return { execute, transaction };
+}
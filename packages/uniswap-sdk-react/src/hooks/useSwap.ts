@@ -8,6 +8,8 @@ import { useQuery, type UseQueryResult } from "@tanstack/react-query";
 import {
   calculateMaximumInput,
   calculateMinimumOutput,
+  getRouteHookWarnings,
+  type HookWarning,
   mapRoute,
   type QuoteResponse,
   resolveSwapCurrencyMeta,
@@ -91,6 +93,8 @@ export type SwapStep = "quote" | "approval" | "permit2" | "swap" | "completed";
 export interface UseSwapReturn<TMode extends SwapMode = "exactInput"> {
   steps: UseSwapSteps<TMode>;
   meta: SwapMeta;
+  /** Route hops whose hooks can change the swapped amounts or the fee, available before the quote. */
+  hookWarnings: HookWarning[];
   currentStep: SwapStep;
   executeAll: () => Promise<Hex>;
   executeBatch: () => Promise<SendBatchTransactionAndConfirmResult>;
@@ -144,6 +148,7 @@ export function useSwap(
     resolvedCurrencyIn: currencyMeta.resolvedCurrencyIn,
     resolvedCurrencyOut: currencyMeta.resolvedCurrencyOut,
   };
+  const hookWarnings = getRouteHookWarnings(route);
 
   const quoteEnabled = enabled && exactAmount > 0n;
   const swapEnabled = quoteEnabled && !!connectedAddress;
@@ -397,6 +402,7 @@ export function useSwap(
       },
     },
     meta,
+    hookWarnings,
     currentStep,
     executeAll,
     executeBatch: swapExecuteBatch,
@@ -1,4 +1,4 @@
-import { normalizeHookData, type SwapRoute } from "@zahastudio/uniswap-sdk";
+import { normalizeHookData, type PoolKey, type SwapRoute } from "@zahastudio/uniswap-sdk";
 
 /**
  * Package key used as prefix for all query keys to ensure uniqueness.
@@ -30,6 +30,30 @@ export const poolKeys = {
     [...poolKeys.all, currencyA, currencyB, fee, tickSpacing, hooks, chainId] as const,
 };
 
+/**
+ * Query key factory for fee APR estimates.
+ * Enables efficient cache invalidation and prefetching.
+ */
+export const feeAprKeys = {
+  /** Base key for all fee APR queries */
+  all: [PACKAGE_KEY, "useFeeApr"] as const,
+
+  /** Key for the fee growth of a range by pool key, tick range, lookback window, and chainId */
+  detail: (poolKey: PoolKey, tickLower: number, tickUpper: number, lookbackBlocks?: bigint, chainId?: number) =>
+    [
+      ...feeAprKeys.all,
+      poolKey.currency0,
+      poolKey.currency1,
+      poolKey.fee,
+      poolKey.tickSpacing,
+      poolKey.hooks,
+      tickLower,
+      tickUpper,
+      lookbackBlocks,
+      chainId,
+    ] as const,
+};
+
 /**
  * Query key factory for token-related queries.
  * Enables efficient cache invalidation and prefetching.
@@ -1,4 +1,4 @@
-import type { SwapRoute } from "@zahastudio/uniswap-sdk";
+import type { HookWarning, SwapRoute } from "@zahastudio/uniswap-sdk";
 import type { Address, Hex } from "viem";
 
 import type { SendBatchTransactionAndConfirmResult } from "@/hooks/primitives/useTransaction";
@@ -53,6 +53,8 @@ type _UseSwapAcceptsHookDataRoute = Expect<Equal<typeof exactInputParamsWithHook
 
 type _UseSwapHasMeta = Expect<Equal<HasKey<typeof exactInputSwap, "meta">, true>>;
 type _UseSwapMetaResolvedIn = Expect<Equal<(typeof exactInputSwap.meta)["resolvedCurrencyIn"], Address>>;
+type _UseSwapHookWarnings = Expect<Equal<typeof exactInputSwap.hookWarnings, HookWarning[]>>;
+type _ExactInputQuoteHookWarnings = Expect<Equal<ExactInputQuote["hookWarnings"], HookWarning[]>>;
 type _UseSwapHasExecuteBatch = Expect<Equal<HasKey<typeof exactInputSwap, "executeBatch">, true>>;
 type _UseSwapExecuteBatchReturn = Expect<
   Equal<Awaited<ReturnType<typeof exactInputSwap.executeBatch>>, SendBatchTransactionAndConfirmResult>
@@ -0,0 +1,137 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+import type { Address, Hex } from "viem";
+
+/**
+ * Decoded revert of a contract call.
+ */
+export interface ContractRevert {
+  /** Raw revert data */
+  data: Hex;
+  /** Name of the innermost decoded error, e.g. `V4TooLittleReceived`. Undefined if it could not be decoded. */
+  errorName?: string;
+  /** Arguments of the innermost decoded error */
+  args?: readonly unknown[];
+  /** Human-readable reason, e.g. `V4TooLittleReceived(900, 850)` or a `require` message */
+  reason: string;
+  /** Contract whose revert was wrapped by the PoolManager, e.g. a hook or a token */
+  target?: Address;
+}
+
+/**
+ * Base class of every typed error thrown by the SDK. `cause` holds the underlying error, if any.
+ */
+export class UniswapSDKError extends Error {
+  override name = "UniswapSDKError";
+}
+
+/**
+ * Thrown when a pool is not initialized on the PoolManager. `blockNumber` is set when the pool was read
+ * at a historical block rather than the latest one.
+ */
+export class PoolNotFoundError extends UniswapSDKError {
+  override name = "PoolNotFoundError";
+
+  public readonly blockNumber?: bigint;
+
+  constructor(
+    public readonly poolKey: PoolKey,
+    public readonly poolId: Hex,
+    { blockNumber, ...options }: { blockNumber?: bigint } & ErrorOptions = {},
+  ) {
+    super(blockNumber === undefined ? "Pool does not exist" : `Pool does not exist at block ${blockNumber}`, options);
+    this.blockNumber = blockNumber;
+  }
+}
+
+/**
+ * Thrown when a position NFT does not exist or has been burned.
+ */
+export class PositionNotFoundError extends UniswapSDKError {
+  override name = "PositionNotFoundError";
+
+  constructor(
+    public readonly tokenId: string,
+    options?: ErrorOptions,
+  ) {
+    super(`Position ${tokenId} does not exist`, options);
+  }
+}
+
+/**
+ * Thrown when a swap route is malformed: empty, disconnected, or unsupported for the requested operation.
+ * `hop` is the 1-based index of the offending hop, when known.
+ */
+export class InvalidRouteError extends UniswapSDKError {
+  override name = "InvalidRouteError";
+
+  public readonly hop?: number;
+
+  constructor(message: string, { hop, ...options }: { hop?: number } & ErrorOptions = {}) {
+    super(message, options);
+    this.hop = hop;
+  }
+}
+
+/**
+ * Thrown when a pool or position does not hold enough liquidity for the operation.
+ */
+export class InsufficientLiquidityError extends UniswapSDKError {
+  override name = "InsufficientLiquidityError";
+
+  public readonly poolId?: Hex;
+  public readonly tokenId?: string;
+
+  constructor(
+    message: string,
+    { poolId, tokenId, ...options }: { poolId?: Hex; tokenId?: string } & ErrorOptions = {},
+  ) {
+    super(message, options);
+    this.poolId = poolId;
+    this.tokenId = tokenId;
+  }
+}
+
+/**
+ * Thrown when a contract call reverts. `revert` holds the decoded custom error of the
+ * PoolManager, Quoter, PositionManager, Universal Router or Permit2.
+ */
+export class ContractRevertedError extends UniswapSDKError {
+  override name = "ContractRevertedError";
+
+  constructor(
+    message: string,
+    public readonly revert: ContractRevert,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * Thrown when a Quoter call reverts.
+ */
+export class QuoteRevertedError extends ContractRevertedError {
+  override name = "QuoteRevertedError";
+}
+
+/**
+ * A revert caused by a slippage check, e.g. `V4TooLittleReceived` or `MaximumAmountExceeded`.
+ * `limit` is the caller's bound and `amount` the amount the swap or liquidity change required,
+ * when the contract reports them.
+ */
+export class SlippageExceededError extends ContractRevertedError {
+  override name = "SlippageExceededError";
+
+  public readonly limit?: bigint;
+  public readonly amount?: bigint;
+
+  constructor(message: string, revert: ContractRevert, options?: ErrorOptions) {
+    super(message, revert, options);
+
+    const [limit, amount] = revert.args ?? [];
+    if (typeof limit === "bigint" && typeof amount === "bigint") {
+      this.limit = limit;
+      this.amount = amount;
+    }
+  }
+}
@@ -1,9 +1,14 @@
-import type { Pool, PoolKey } from "@uniswap/v4-sdk";
+import type { PoolKey } from "@uniswap/v4-sdk";
 
 import { WETH_ADDRESS } from "@uniswap/universal-router-sdk";
 import { getUniswapContracts } from "hookmate";
 import { type Address, type PublicClient } from "viem";
 
+import type { PoolWithFees } from "@/helpers/pools";
+import type { PoolTickData } from "@/helpers/ticks";
+
+import { type HookAdapterRegistry, normalizeHookAdapters } from "@/helpers/hookAdapters";
+import { getHookInfo, type HookInfo } from "@/helpers/hooks";
 import { assertBasisPoints } from "@/helpers/percent";
 import {
   buildAddLiquidityCallData,
@@ -12,15 +17,74 @@ import {
   type BuildCallDataResult,
 } from "@/utils/buildAddLiquidityCallData";
 import { buildCollectFeesCallData, type BuildCollectFeesCallDataArgs } from "@/utils/buildCollectFeesCallData";
+import {
+  buildInitializePoolCallData,
+  type BuildInitializePoolCallDataArgs,
+  type BuildInitializePoolCallDataResult,
+} from "@/utils/buildInitializePoolCallData";
+import {
+  buildMigrateV3PositionCallData,
+  type BuildMigrateV3PositionCallDataArgs,
+  type BuildMigrateV3PositionCallDataResult,
+} from "@/utils/buildMigrateV3PositionCallData";
+import {
+  buildRangeOrderCallData,
+  type BuildRangeOrderCallDataArgs,
+  type BuildRangeOrderCallDataResult,
+} from "@/utils/buildRangeOrderCallData";
+import {
+  buildRebalanceCallData,
+  type BuildRebalanceCallDataArgs,
+  type BuildRebalanceCallDataResult,
+} from "@/utils/buildRebalanceCallData";
 import {
   buildRemoveLiquidityCallData,
   type BuildRemoveLiquidityCallDataArgs,
 } from "@/utils/buildRemoveLiquidityCallData";
 import { buildSwapCallData, type BuildSwapCallDataArgs, type BuildSwapCallDataResult } from "@/utils/buildSwapCallData";
+import {
+  buildZapInCallData,
+  type BuildZapInCallDataArgs,
+  type BuildZapInCallDataResult,
+} from "@/utils/buildZapInCallData";
+import {
+  buildZapOutCallData,
+  type BuildZapOutCallDataArgs,
+  type BuildZapOutCallDataResult,
+} from "@/utils/buildZapOutCallData";
+import { discoverPools, type DiscoveredPool, type DiscoverPoolsArgs } from "@/utils/discoverPools";
+import { estimateFeeApr, type EstimateFeeAprArgs, type FeeAprEstimate } from "@/utils/estimateFeeApr";
+import { findBestRoute, type FindBestRouteArgs, type RankedSwapRoute } from "@/utils/findBestRoute";
+import {
+  getLiquidityDistribution,
+  type GetLiquidityDistributionOptions,
+  type LiquidityDistribution,
+} from "@/utils/getLiquidityDistribution";
 import { getPool } from "@/utils/getPool";
+import { getPoolInitializationStatus, type PoolInitializationStatus } from "@/utils/getPoolInitializationStatus";
+import {
+  getPoolTickData,
+  type GetPoolTickDataArgs,
+  getPoolWithTicks,
+  type GetPoolWithTicksOptions,
+} from "@/utils/getPoolTickData";
 import { getPosition, type GetPositionResponse } from "@/utils/getPosition";
 import { getPositionInfo, type GetPositionInfoResponse } from "@/utils/getPositionInfo";
+import { getPositions, type PositionResult } from "@/utils/getPositions";
+import { getPositionsByOwner, type GetPositionsByOwnerOptions } from "@/utils/getPositionsByOwner";
+import {
+  getPositionValuation,
+  type GetPositionValuationOptions,
+  type PositionValuation,
+} from "@/utils/getPositionValuation";
 import { getQuote, type QuoteResponse, type SwapQuoteParams } from "@/utils/getQuote";
+import { getQuotes, type QuoteResult } from "@/utils/getQuotes";
+import {
+  getRangeOrderStatus,
+  type GetRangeOrderStatusOptions,
+  type RangeOrderStatus,
+} from "@/utils/getRangeOrderStatus";
+import { getSplitQuote, type GetSplitQuoteParams, type SplitQuoteResponse } from "@/utils/getSplitQuote";
 import { getTickInfo, type GetTickInfoArgs, type TickInfoResponse } from "@/utils/getTickInfo";
 import { getTokens, type GetTokensResult } from "@/utils/getTokens";
 import { getUncollectedFees, type GetUncollectedFeesResponse } from "@/utils/getUncollectedFees";
@@ -29,6 +93,7 @@ import {
   type PreparePermit2BatchDataArgs,
   type PreparePermit2BatchDataResult,
 } from "@/utils/preparePermit2BatchData";
+import { simulateCall, type SimulateCallArgs, type SimulateCallResult } from "@/utils/simulateCall";
 
 /**
  * Configuration for v4 contracts.
@@ -54,13 +119,18 @@ export interface V4Contracts {
 /**
  * Options for creating a UniswapSDK instance.
  */
-export interface UniswapSDKOptions {
+export interface UniswapSDKOptions<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> {
   /** Optional overrides for contract addresses */
   contracts?: V4Contracts;
   /** Default deadline offset in seconds (default: 600 = 10 minutes) */
   defaultDeadline?: number;
   /** Default slippage tolerance in basis points (default: 50 = 0.5%) */
   defaultSlippageTolerance?: number;
+  /**
+   * Hook adapters keyed by hook address, used to encode hookData for pools with those hooks. The builders'
+   * `hookArgs` are typed by the adapters of this registry.
+   */
+  hookAdapters?: TRegistry;
 }
 
 /**
@@ -78,6 +148,8 @@ export interface UniswapSDKInstance {
   defaultDeadline: number;
   /** Default slippage tolerance in basis points */
   defaultSlippageTolerance: number;
+  /** Hook adapters keyed by lowercase hook address */
+  hookAdapters?: HookAdapterRegistry;
 }
 
 function resolveHookmateContracts(chainId: number): V4Contracts {
@@ -98,8 +170,10 @@ function resolveHookmateContracts(chainId: number): V4Contracts {
  * Main class for interacting with Uniswap v4 contracts.
  * Provides a flexible and scalable way to interact with different chains
  * and contracts without requiring multiple instances.
+ *
+ * `TRegistry` is the registry of `hookAdapters` the SDK was created with, which types the builders' `hookArgs`.
  */
-export class UniswapSDK {
+export class UniswapSDK<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> {
   private instance: UniswapSDKInstance;
 
   private constructor(
@@ -108,6 +182,7 @@ export class UniswapSDK {
     contracts: V4Contracts,
     defaultDeadline: number,
     defaultSlippageTolerance: number,
+    hookAdapters: HookAdapterRegistry,
   ) {
     this.instance = {
       client,
@@ -115,6 +190,7 @@ export class UniswapSDK {
       contracts,
       defaultDeadline,
       defaultSlippageTolerance,
+      hookAdapters,
     };
   }
 
@@ -125,9 +201,13 @@ export class UniswapSDK {
    * @param chainId - Chain ID for the target network. This may intentionally differ from `client.chain?.id`
    * when using a forked RPC client while still targeting the original chain's contract addresses.
    * If `contracts` are provided, hookmate contract resolution is skipped.
-   * @param options - Optional configuration: contracts, defaultDeadline, defaultSlippageTolerance
+   * @param options - Optional configuration: contracts, defaultDeadline, defaultSlippageTolerance, hookAdapters
    */
-  public static create(client: PublicClient, chainId: number, options: UniswapSDKOptions = {}): UniswapSDK {
+  public static create<TRegistry extends HookAdapterRegistry = HookAdapterRegistry>(
+    client: PublicClient,
+    chainId: number,
+    options: UniswapSDKOptions<TRegistry> = {},
+  ): UniswapSDK<TRegistry> {
     if (!Number.isInteger(chainId) || chainId <= 0) {
       throw new Error(`Invalid chainId: ${chainId}. Must be a positive integer.`);
     }
@@ -136,6 +216,7 @@ export class UniswapSDK {
       contracts,
       defaultDeadline = 10 * 60, // 10 minutes
       defaultSlippageTolerance = 50, // 0.5%
+      hookAdapters,
     } = options;
 
     if (!Number.isInteger(defaultDeadline) || defaultDeadline <= 0) {
@@ -146,7 +227,14 @@ export class UniswapSDK {
 
     const resolvedContracts = contracts ?? resolveHookmateContracts(chainId);
 
-    return new UniswapSDK(client, chainId, resolvedContracts, defaultDeadline, defaultSlippageTolerance);
+    return new UniswapSDK<TRegistry>(
+      client,
+      chainId,
+      resolvedContracts,
+      defaultDeadline,
+      defaultSlippageTolerance,
+      normalizeHookAdapters(hookAdapters ?? {}),
+    );
   }
 
   /**
@@ -184,14 +272,113 @@ export class UniswapSDK {
    * calling getSlot0() and getLiquidity() in a single transaction. It then uses the Uniswap v4 SDK's
    * Pool constructor with the live data to create a fully initialized pool instance.
    *
+   * The `lpFee` and `protocolFee` from getSlot0() are attached to the pool. For dynamic-fee pools, `lpFee`
+   * is the fee in effect while `fee` keeps the flag of the pool key.
+   *
    * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
-   * @returns Promise<Pool> - A fully initialized Pool instance with current market state
-   * @throws Error if pool data cannot be fetched or pool doesn't exist
+   * @returns Promise<PoolWithFees> - A fully initialized Pool instance with current market state and fees
+   * @throws PoolNotFoundError if the pool is not initialized
+   * @throws Error if pool data cannot be fetched
    */
-  public async getPool(poolKey: PoolKey): Promise<Pool> {
+  public async getPool(poolKey: PoolKey): Promise<PoolWithFees> {
     return getPool(poolKey, this.instance);
   }
 
+  /**
+   * Reads whether a pool has been initialized and whether it has in-range liquidity.
+   *
+   * This method derives the pool id from the key and uses multicall to read getSlot0() and getLiquidity()
+   * from v4 StateView. Unlike `getPool`, it does not throw for uninitialized pools, which tells a pool that
+   * does not exist apart from one that was initialized but has no liquidity yet.
+   *
+   * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+   * @returns Promise<PoolInitializationStatus> - `uninitialized`, `empty` or `active`, with the pool id, price, tick and liquidity
+   * @throws Error if pool data cannot be fetched
+   */
+  public async getPoolInitializationStatus(poolKey: PoolKey): Promise<PoolInitializationStatus> {
+    return getPoolInitializationStatus(poolKey, this.instance);
+  }
+
+  /**
+   * Lists every v4 pool of a currency pair from PoolManager `Initialize` logs.
+   *
+   * This method scans the logs of the pair in chunks of `blockRange` blocks, filtered by their indexed
+   * currencies, and decodes the full pool key of each pool, hooks and tick spacing included. With
+   * `includeState`, the slot0 and liquidity of every pool are read in one StateView multicall at `toBlock`.
+   *
+   * @param args @type {DiscoverPoolsArgs} - Currency pair, block range to scan and whether to read pool state
+   * @returns Promise<DiscoveredPool[]> - Pools in the order they were initialized
+   * @throws Error if the currencies are equal, the block range is invalid or logs cannot be fetched
+   */
+  public async discoverPools(args: DiscoverPoolsArgs): Promise<DiscoveredPool[]> {
+    return discoverPools(args, this.instance);
+  }
+
+  /**
+   * Creates a Uniswap v4 Pool instance backed by the initialized ticks around its current price.
+   *
+   * This method fetches the pool like `getPool`, then loads the tick bitmap words around the current
+   * tick and the tick info of every initialized tick from v4 StateView, and attaches them as a
+   * `PoolTickDataProvider`. The returned pool can simulate swaps off-chain with `getOutputAmount` /
+   * `getInputAmount`, or be passed to `getQuote` with `simulation: "local"`.
+   *
+   * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+   * @param options @type {GetPoolWithTicksOptions} - Optional number of tick bitmap words to load on each side
+   * @returns Promise<PoolWithFees> - Pool instance with current state, fees and loaded tick data
+   * @throws Error if the pool doesn't exist or tick data cannot be fetched
+   */
+  public async getPoolWithTicks(poolKey: PoolKey, options?: GetPoolWithTicksOptions): Promise<PoolWithFees> {
+    return getPoolWithTicks(poolKey, this.instance, options);
+  }
+
+  /**
+   * Loads initialized ticks around a given tick from v4 StateView.
+   *
+   * This method uses multicall to read `getTickBitmap` for a window of bitmap words and then
+   * `getTickLiquidity` for every initialized tick in those words.
+   *
+   * @param args @type {GetPoolTickDataArgs} - Pool key, center tick and word radius
+   * @returns Promise<PoolTickData> - Initialized ticks and the range of loaded words
+   * @throws Error if the arguments are invalid or tick data cannot be fetched
+   */
+  public async getPoolTickData(args: GetPoolTickDataArgs): Promise<PoolTickData> {
+    return getPoolTickData(args, this.instance);
+  }
+
+  /**
+   * Computes the liquidity distribution of a pool around its current price.
+   *
+   * This method loads the initialized ticks around the current tick via `getPoolTickData()` and
+   * walks them from the pool's active liquidity to rebuild the liquidity and locked token amounts
+   * of every price bucket, ready for a depth chart.
+   *
+   * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+   * @param options @type {GetLiquidityDistributionOptions} - Tick range around the current tick and bucket width
+   * @returns Promise<LiquidityDistribution> - Pool and its liquidity buckets in ascending tick order
+   * @throws PoolNotFoundError if the pool does not exist
+   * @throws Error if the options are invalid or tick data cannot be fetched
+   */
+  public async getLiquidityDistribution(
+    poolKey: PoolKey,
+    options?: GetLiquidityDistributionOptions,
+  ): Promise<LiquidityDistribution> {
+    return getLiquidityDistribution(poolKey, this.instance, options);
+  }
+
+  /**
+   * Describes the hook of a pool from its pool key, without RPC calls.
+   *
+   * This method decodes the permission flags in the low 14 bits of the hook address into the enabled
+   * callbacks, and reports whether the hook can take or return deltas on swaps and whether the pool uses
+   * a dynamic fee. Either makes the pool's quotes unreliable, and local quoting unsafe.
+   *
+   * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+   * @returns HookInfo - Permissions, enabled callbacks and the risks the hook poses to quotes
+   */
+  public getHookInfo(poolKey: PoolKey): HookInfo {
+    return getHookInfo(poolKey);
+  }
+
   /**
    * Fetches ERC20 token metadata and creates Currency instances using Uniswap SDK-Core.
    *
@@ -215,15 +402,66 @@ export class UniswapSDK {
    * This method uses client.simulateContract() to call the appropriate v4 Quoter entrypoint
    * without executing a transaction. It supports SwapQuoteParams in both exact-input and
    * exact-output modes and returns quote amounts together with fetch metadata for route-based swaps.
+   * With `simulation: "local"`, hookless routes are quoted off-chain from tick data instead.
+   * The mid-price, execution price and price impact are derived from the route pools' sqrtPriceX96.
+   * The Quoter gas estimate is returned as well, and priced in the output currency with `gasPricing`.
    *
    * @param args - Swap parameters including the route and either an exact input or exact output amount
-   * @returns Promise<QuoteResponse> - Quote data including amountOut, amountIn, meta, and the fetch timestamp
-   * @throws Error if quote simulation fails or the contract call reverts
+   * @returns Promise<QuoteResponse> - Quote data including amountOut, amountIn, prices, meta, and the fetch timestamp
+   * @throws QuoteRevertedError if the Quoter call reverts, InsufficientLiquidityError if the route lacks liquidity
+   * @throws Error if quote simulation fails
    */
   public async getQuote(args: SwapQuoteParams): Promise<QuoteResponse> {
     return getQuote(args, this.instance);
   }
 
+  /**
+   * Fetches quotes for many routes and amounts in a single RPC round trip.
+   *
+   * This method bundles the v4 Quoter `quoteExactInput` / `quoteExactOutput` calls of every entry
+   * into one client.multicall() with `allowFailure: true`. Each entry is validated and its SwapMeta
+   * resolved exactly like `getQuote`, and entries with `simulation: "local"` are quoted off-chain.
+   *
+   * @param args @type {SwapQuoteParams[]} - Quote parameters, one entry per quote
+   * @returns Promise<QuoteResult[]> - A success (with QuoteResponse) or failure (with Error) per entry, in input order
+   * @throws Error if the multicall request itself fails
+   */
+  public async getQuotes(args: SwapQuoteParams[]): Promise<QuoteResult[]> {
+    return getQuotes(args, this.instance);
+  }
+
+  /**
+   * Finds the split of an exact swap amount across several routes with the best combined quote.
+   *
+   * This method quotes every route at each multiple of `stepBps` of the amount in one Quoter multicall
+   * and selects the allocation that maximizes total output (exact input) or minimizes total input
+   * (exact output). The returned splits can be passed as `splitRoutes` to `buildSwapCallData`.
+   *
+   * @param args @type {GetSplitQuoteParams} - Candidate routes, exact amount and allocation granularity
+   * @returns Promise<SplitQuoteResponse> - Combined amounts and the selected routes with their percentages and quotes
+   * @throws Error if the parameters are invalid or no allocation can be fully quoted
+   */
+  public async getSplitQuote(args: GetSplitQuoteParams): Promise<SplitQuoteResponse> {
+    return getSplitQuote(args, this.instance);
+  }
+
+  /**
+   * Discovers swap routes between two currencies and ranks them by quoted output.
+   *
+   * This method builds candidate pool keys from the input, output and base currencies combined
+   * with every fee tier and hook address, drops pools that are not initialized or hold no liquidity,
+   * and quotes every path of up to `maxHops` hops with one v4 Quoter multicall. Paths are validated with
+   * the same route resolution used by `getQuote` and `buildSwapCallData`. With `gasPricing`, exact-input
+   * routes are ranked by output net of gas.
+   *
+   * @param args @type {FindBestRouteArgs} - Currencies, amount, trade type, and candidate pool configuration
+   * @returns Promise<RankedSwapRoute[]> - Quoted routes, best first. Empty when no quotable route exists.
+   * @throws Error if the arguments are invalid or pool state cannot be fetched
+   */
+  public async findBestRoute(args: FindBestRouteArgs): Promise<RankedSwapRoute[]> {
+    return findBestRoute(args, this.instance);
+  }
+
   /**
    * Fetches tick information for a given pool key and tick from v4 StateView.
    *
@@ -240,6 +478,21 @@ export class UniswapSDK {
     return getTickInfo(args, this.instance);
   }
 
+  /**
+   * Estimates the fee APR of a proposed position from the pool's recent fee growth.
+   *
+   * This method reads StateView.getFeeGrowthGlobals(), getSlot0() and getTickInfo() of both range ticks
+   * at the start and end of a lookback window, multiplies the fee growth inside the range by the liquidity
+   * the given amounts would mint, and annualizes the result over the window's duration.
+   *
+   * @param args @type {EstimateFeeAprArgs} - Pool, tick range, deposit amounts and lookback window
+   * @returns Promise<FeeAprEstimate> - APR, fees over the window and in-range share
+   * @throws Error if no amount is given, the window is invalid, or pool data cannot be fetched
+   */
+  public async estimateFeeApr(args: EstimateFeeAprArgs): Promise<FeeAprEstimate> {
+    return estimateFeeApr(args, this.instance);
+  }
+
   /**
    * Retrieves a complete Uniswap v4 position instance with pool and token information.
    *
@@ -249,12 +502,28 @@ export class UniswapSDK {
    *
    * @param tokenId - The NFT token ID of the position
    * @returns Promise<GetPositionResponse> - Complete position data including position instance, pool, tokens, pool ID, and current tick
-   * @throws Error if position data cannot be fetched, position doesn't exist, or liquidity is 0
+   * @throws PositionNotFoundError if the position doesn't exist
+   * @throws InsufficientLiquidityError if the position's liquidity is 0
+   * @throws Error if position data cannot be fetched
    */
   public async getPosition(tokenId: string): Promise<GetPositionResponse> {
     return getPosition(tokenId, this.instance);
   }
 
+  /**
+   * Retrieves many positions with initialized SDK instances at once.
+   *
+   * This method reads the position data of every token ID in a single multicall, then fetches
+   * token metadata once and the state of each distinct pool once, so loading positions that share
+   * pools costs a constant number of RPC calls instead of three per position.
+   *
+   * @param tokenIds - The NFT token IDs of the positions
+   * @returns Promise<PositionResult[]> - One result per token ID, in input order
+   */
+  public async getPositions(tokenIds: string[]): Promise<PositionResult[]> {
+    return getPositions(tokenIds, this.instance);
+  }
+
   /**
    * Retrieves basic position information without SDK instances.
    *
@@ -272,12 +541,33 @@ export class UniswapSDK {
    *
    * @param tokenId - The NFT token ID of the position
    * @returns Promise<GetPositionInfoResponse> - Basic position information with pool state
-   * @throws Error if position data cannot be fetched or position doesn't exist
+   * @throws PositionNotFoundError if the position doesn't exist
+   * @throws Error if position data cannot be fetched
    */
   public async getPositionInfo(tokenId: string): Promise<GetPositionInfoResponse> {
     return getPositionInfo(tokenId, this.instance);
   }
 
+  /**
+   * Retrieves every v4 position currently owned by an address.
+   *
+   * This method rebuilds ownership from PositionManager ERC-721 `Transfer` logs, since the
+   * PositionManager is not enumerable, and keeps the tokens `ownerOf` still attributes to `owner`.
+   * Ownership, pool keys and liquidity of every candidate are loaded in a single multicall, followed
+   * by token metadata and pool state. Positions without liquidity are skipped unless `includeClosed` is set.
+   *
+   * @param owner - Address whose positions to list
+   * @param options @type {GetPositionsByOwnerOptions} - Block range to scan and whether to include closed positions
+   * @returns Promise<GetPositionInfoResponse[]> - Positions sorted by token ID
+   * @throws Error if the block range is invalid or logs or position data cannot be fetched
+   */
+  public async getPositionsByOwner(
+    owner: Address,
+    options?: GetPositionsByOwnerOptions,
+  ): Promise<GetPositionInfoResponse[]> {
+    return getPositionsByOwner(owner, this.instance, options);
+  }
+
   /**
    * Calculates uncollected (accrued but not yet collected) fees for a given position NFT.
    *
@@ -293,19 +583,58 @@ export class UniswapSDK {
     return getUncollectedFees(tokenId, this.instance);
   }
 
+  /**
+   * Values a position and its uncollected fees in a chosen quote currency.
+   *
+   * This method combines `getPosition()` and `getUncollectedFees()`, and prices both tokens at the
+   * mid-price of the position's pool or, when `quoteCurrency` is outside it, along `pricingRoute`.
+   * With `depositBlock`, it also reads the pool price at that block to report impermanent loss
+   * versus holding the deposited tokens.
+   *
+   * @param tokenId - The NFT token ID of the position
+   * @param options @type {GetPositionValuationOptions} - Quote currency, optional pricing route and deposit block
+   * @returns Promise<PositionValuation> - Token amounts, fees and their value in the quote currency
+   * @throws PositionNotFoundError if the position doesn't exist
+   * @throws InvalidRouteError if the quote currency cannot be reached from the position's currencies
+   * @throws PoolNotFoundError if the position's pool was not yet initialized at `depositBlock`
+   * @throws Error if position, fee or pool data cannot be fetched
+   */
+  public async getPositionValuation(tokenId: string, options: GetPositionValuationOptions): Promise<PositionValuation> {
+    return getPositionValuation(tokenId, this.instance, options);
+  }
+
+  /**
+   * Reports the fill state of a range order placed with `buildRangeOrderCallData`.
+   *
+   * This method fetches the position via `getPosition()` and compares its tick range with the pool's
+   * current tick, in the direction of the order's sell currency.
+   *
+   * @param tokenId - The NFT token ID of the order's position
+   * @param options @type {GetRangeOrderStatusOptions} - The currency the order sells
+   * @returns Promise<RangeOrderStatus> - Unfilled, partially filled or filled, with the position's current amounts
+   * @throws PositionNotFoundError if the position doesn't exist
+   * @throws InsufficientLiquidityError if the position has already been withdrawn
+   * @throws Error if position data cannot be fetched or the sell currency is not in the pool
+   */
+  public async getRangeOrderStatus(tokenId: string, options: GetRangeOrderStatusOptions): Promise<RangeOrderStatus> {
+    return getRangeOrderStatus(tokenId, this.instance, options);
+  }
+
   /**
    * Generates Universal Router calldata for executing token swaps using Uniswap v4.
    *
    * This method uses the V4Planner from the Uniswap v4 SDK to build swap actions and parameters.
    * It creates SWAP_EXACT_IN actions with settle and take operations, and optionally
    * includes Permit2 signatures for token approvals. Fetches the current block timestamp to
-   * compute the transaction deadline.
+   * compute the transaction deadline. With `splitRoutes`, every weighted route is encoded in the
+   * same V4_SWAP command with a single settle and take. Hops whose hook has a registered hook adapter
+   * get their hookData from it, with the per-call `hookArgs` of their hook address.
    *
    * @param args @type {BuildSwapCallDataArgs} - Swap configuration including pool, amounts, and recipient
    * @returns Promise<BuildSwapCallDataResult> - Calldata and value for the swap transaction
    * @throws Error if swap parameters are invalid or calldata generation fails
    */
-  public async buildSwapCallData(args: BuildSwapCallDataArgs): Promise<BuildSwapCallDataResult> {
+  public async buildSwapCallData(args: BuildSwapCallDataArgs<TRegistry>): Promise<BuildSwapCallDataResult> {
     return buildSwapCallData(args, this.instance);
   }
 
@@ -315,32 +644,158 @@ export class UniswapSDK {
    * This method uses Uniswap V3 SDK's Position.fromAmounts/fromAmount0/fromAmount1 to create positions,
    * and V4PositionManager.addCallParameters to generate the mint calldata. It handles both existing
    * pools and new pool creation, with support for Permit2 batch approvals and native currency handling.
-   * No blockchain calls are made - this is purely a calldata generation method.
+   * No blockchain calls are made - this is purely a calldata generation method. If the pool's hook has a
+   * registered hook adapter, the hookData is encoded by it with the per-call `hookArgs`.
    *
    * @param args @type {BuildAddLiquidityArgs} - Liquidity parameters including amounts, tick range, and slippage
    * @returns Promise<BuildAddLiquidityCallDataResult> - Calldata and value for the mint transaction
    * @throws Error if position creation fails or invalid parameters are provided
    */
-  public async buildAddLiquidityCallData(args: BuildAddLiquidityArgs): Promise<BuildAddLiquidityCallDataResult> {
+  public async buildAddLiquidityCallData(
+    args: BuildAddLiquidityArgs<TRegistry>,
+  ): Promise<BuildAddLiquidityCallDataResult> {
     return buildAddLiquidityCallData(args, this.instance);
   }
 
+  /**
+   * Generates calldata that creates a pool at a starting price without adding liquidity.
+   *
+   * This method converts `initialPrice` to a sqrtPriceX96 with the decimals of both currencies, or uses
+   * `sqrtPriceX96` as given, and encodes `PositionManager.initializePool` or, with `target: "poolManager"`,
+   * `PoolManager.initialize`. Fetches token metadata only when `initialPrice` is provided.
+   *
+   * @param args @type {BuildInitializePoolCallDataArgs} - Pool key, starting price and target contract
+   * @returns Promise<BuildInitializePoolCallDataResult> - Target address, calldata and value, with the starting sqrtPriceX96 and tick
+   * @throws Error if the pool key or the starting price is invalid
+   */
+  public async buildInitializePoolCallData(
+    args: BuildInitializePoolCallDataArgs,
+  ): Promise<BuildInitializePoolCallDataResult> {
+    return buildInitializePoolCallData(args, this.instance);
+  }
+
+  /**
+   * Generates Universal Router calldata for opening a position from a single currency.
+   *
+   * This method searches the swap amount that leaves the remaining input and the swap output in the
+   * range's ratio at the post-swap price, simulating the swap across initialized ticks when the pool
+   * comes from `getPoolWithTicks`. It encodes a V4_SWAP with a minimum output, followed by a
+   * V4_POSITION_MANAGER_CALL that mints, settles from the PositionManager and sweeps leftovers to the
+   * recipient. Fetches the current block timestamp to compute the transaction deadline. A registered hook
+   * adapter of the pool's hook encodes the swap and mint hookData, without `hookArgs`.
+   *
+   * @param args @type {BuildZapInCallDataArgs} - Pool, input currency and amount, tick range, recipient and slippage
+   * @returns Promise<BuildZapInCallDataResult> - Calldata and value for the Universal Router, with the planned amounts
+   * @throws InsufficientLiquidityError if the input must be partly swapped and the pool has no active liquidity
+   * @throws Error if the parameters are invalid or the input is too small to mint any liquidity
+   */
+  public async buildZapInCallData(args: BuildZapInCallDataArgs): Promise<BuildZapInCallDataResult> {
+    return buildZapInCallData(args, this.instance);
+  }
+
   /**
    * Fetches position data and generates V4PositionManager calldata for removing liquidity.
    *
    * This method fetches the position from the blockchain via `getPosition()`, then uses
    * V4PositionManager.removeCallParameters to create burn calldata for reducing or completely
    * removing liquidity from a position. If no deadline is provided, it fetches the current
-   * block timestamp to compute one.
+   * block timestamp to compute one. If the pool's hook has a registered hook adapter, the hookData
+   * is encoded by it with the per-call `hookArgs`.
    *
    * @param args @type {BuildRemoveLiquidityCallDataArgs} - Parameters for liquidity removal
    * @returns Promise<BuildCallDataResult> - Calldata and value for the burn transaction
    * @throws Error if position data cannot be fetched or removal parameters are incorrect
    */
-  public async buildRemoveLiquidityCallData(args: BuildRemoveLiquidityCallDataArgs): Promise<BuildCallDataResult> {
+  public async buildRemoveLiquidityCallData(
+    args: BuildRemoveLiquidityCallDataArgs<TRegistry>,
+  ): Promise<BuildCallDataResult> {
     return buildRemoveLiquidityCallData(args, this.instance);
   }
 
+  /**
+   * Fetches position data and generates the calls for removing liquidity into a single currency.
+   *
+   * This method fetches the position via `getPosition()` and its fees via `getUncollectedFees()`, and
+   * quotes the swap of the unwanted currency with `getQuote()`. A hookless route through the position's own
+   * pool is simulated locally against the pool without the removed liquidity. It returns a PositionManager call that
+   * decreases liquidity and takes both currencies to the Universal Router, and a Universal Router call
+   * that swaps the router's balance and sweeps the output currency with a minimum-output guard. The
+   * Universal Router cannot decrease liquidity itself, so both calls must be sent as one atomic EIP-5792
+   * batch; the result's `atomicRequired` is always true. Registered hook adapters encode the decrease and
+   * route hookData, without `hookArgs`.
+   *
+   * @param args @type {BuildZapOutCallDataArgs} - Position, share to remove, output currency, recipient, optional route and word radius
+   * @returns Promise<BuildZapOutCallDataResult> - Ordered calls for an atomic batch, with expected and minimum output
+   * @throws PositionNotFoundError if the position doesn't exist
+   * @throws InvalidRouteError if the route does not lead to the output currency
+   * @throws InsufficientLiquidityError if the removed liquidity is all of the swap pool's active liquidity
+   * @throws Error if position data cannot be fetched, parameters are invalid or the swap leaves the loaded ticks
+   */
+  public async buildZapOutCallData(args: BuildZapOutCallDataArgs): Promise<BuildZapOutCallDataResult> {
+    return buildZapOutCallData(args, this.instance);
+  }
+
+  /**
+   * Fetches position data and generates the calls for moving a position into a new tick range.
+   *
+   * This method fetches the position via `getPosition()` and its fees via `getUncollectedFees()`, then
+   * plans the swap that brings the withdrawn currencies to the new range's ratio. Hookless pools load
+   * their ticks via `getPoolTickData()` for the swap simulation; hooked pools are simulated within the
+   * current tick. It returns a PositionManager call that burns the position and takes both currencies to
+   * the Universal Router, and a Universal Router call that swaps, mints the new position and sweeps
+   * leftovers to the recipient. The Universal Router cannot burn positions itself, so both calls must be
+   * sent as one atomic EIP-5792 batch; the result's `atomicRequired` is always true. A registered hook adapter
+   * of the pool's hook encodes the burn, swap and mint hookData, without `hookArgs`.
+   *
+   * @param args @type {BuildRebalanceCallDataArgs} - Position, new tick range, recipient, optional slippage and word radius
+   * @returns Promise<BuildRebalanceCallDataResult> - Ordered calls for an atomic batch, with the new position's liquidity
+   * @throws PositionNotFoundError if the position doesn't exist
+   * @throws InsufficientLiquidityError if the pool has no other active liquidity to swap against
+   * @throws Error if position data cannot be fetched, parameters are invalid or the swap leaves the loaded ticks
+   */
+  public async buildRebalanceCallData(args: BuildRebalanceCallDataArgs): Promise<BuildRebalanceCallDataResult> {
+    return buildRebalanceCallData(args, this.instance);
+  }
+
+  /**
+   * Reads a Uniswap v3 position and generates Universal Router calldata that migrates it into a v4 pool.
+   *
+   * This method reads the position from the v3 NonfungiblePositionManager and its pool's state, and the
+   * v4 pool via `getPool()`. The router removes all of the v3 liquidity and fees to the v4
+   * PositionManager and burns the v3 NFT with V3_POSITION_MANAGER_CALL commands, then mints the v4
+   * position with a V4_POSITION_MANAGER_CALL. It also returns the EIP-712 v3 position permit to sign,
+   * and a builder for calldata that applies the signed permit with V3_POSITION_MANAGER_PERMIT.
+   *
+   * @param args @type {BuildMigrateV3PositionCallDataArgs} - v3 token ID, v4 pool key and tick range, optional recipient and slippage
+   * @returns Promise<BuildMigrateV3PositionCallDataResult> - Calldata, the permit to sign and the planned v4 liquidity
+   * @throws PositionNotFoundError if the v3 position doesn't exist
+   * @throws PoolNotFoundError if the v4 pool is not initialized
+   * @throws Error if the pools' currencies don't match or parameters are invalid
+   */
+  public async buildMigrateV3PositionCallData(
+    args: BuildMigrateV3PositionCallDataArgs,
+  ): Promise<BuildMigrateV3PositionCallDataResult> {
+    return buildMigrateV3PositionCallData(args, this.instance);
+  }
+
+  /**
+   * Fetches pool data and generates V4PositionManager calldata for placing a range order.
+   *
+   * This method fetches the pool via `getPool()`, snaps the target price to a usable tick with
+   * `nearestUsableTick` and mints a single-sided position one tick spacing wide just beyond the
+   * current price, holding only the sell currency. The order fills as the price crosses the range;
+   * follow it with `getRangeOrderStatus()` and withdraw it once filled. A registered hook adapter of the
+   * pool's hook encodes the mint hookData, without `hookArgs`.
+   *
+   * @param args @type {BuildRangeOrderCallDataArgs} - Pool key, sell currency and amount, target price and recipient
+   * @returns Promise<BuildRangeOrderCallDataResult> - Calldata and value for the mint, with the order's tick range and liquidity
+   * @throws PoolNotFoundError if the pool is not initialized
+   * @throws Error if the target price is not beyond the current price or parameters are invalid
+   */
+  public async buildRangeOrderCallData(args: BuildRangeOrderCallDataArgs): Promise<BuildRangeOrderCallDataResult> {
+    return buildRangeOrderCallData(args, this.instance);
+  }
+
   /**
    * Fetches position data and generates V4PositionManager calldata for collecting fees.
    *
@@ -348,13 +803,14 @@ export class UniswapSDK {
    * V4PositionManager.collectCallParameters to create calldata for collecting fees earned
    * by a liquidity position. It handles both currency0 and currency1 fee collection with
    * proper recipient addressing. If no deadline is provided, it fetches the current block
-   * timestamp to compute one.
+   * timestamp to compute one. If the pool's hook has a registered hook adapter, the hookData is
+   * encoded by its `encodeRemoveLiquidityHookData` with the per-call `hookArgs`.
    *
    * @param args @type {BuildCollectFeesCallDataArgs} - Fee collection parameters
    * @returns Promise<BuildCallDataResult> - Calldata and value for the collect transaction
    * @throws Error if position data cannot be fetched or collection parameters are incorrect
    */
-  public async buildCollectFeesCallData(args: BuildCollectFeesCallDataArgs): Promise<BuildCallDataResult> {
+  public async buildCollectFeesCallData(args: BuildCollectFeesCallDataArgs<TRegistry>): Promise<BuildCallDataResult> {
     return buildCollectFeesCallData(args, this.instance);
   }
 
@@ -373,4 +829,20 @@ export class UniswapSDK {
   public async preparePermit2BatchData(args: PreparePermit2BatchDataArgs): Promise<PreparePermit2BatchDataResult> {
     return preparePermit2BatchData(args, this.instance);
   }
+
+  /**
+   * Simulates a transaction before it is sent and previews its balance changes.
+   *
+   * This method uses `eth_simulateV1` with transfer tracing to net the ERC20 and native transfers
+   * of `account` and `recipient` into balance changes, and decodes the revert reason when the call
+   * fails. Nodes without `eth_simulateV1` fall back to `eth_call`, which reports success and the
+   * revert reason only. Accepts the `calldata`/`value` pairs returned by every `build*CallData` method.
+   *
+   * @param args @type {SimulateCallArgs} - Target, calldata, value, sender and optional recipient and state overrides
+   * @returns Promise<SimulateCallResult> - Success, balance changes and decoded revert reason
+   * @throws Error if calldata or value is malformed, or the RPC request fails
+   */
+  public async simulateCall(args: SimulateCallArgs): Promise<SimulateCallResult> {
+    return simulateCall(args, this.instance);
+  }
 }
@@ -0,0 +1,218 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+
+import { type Address, type Hex, isAddress } from "viem";
+
+/**
+ * Context passed to a hook adapter when encoding the hookData of one swap hop.
+ */
+export interface HookSwapContext<THookArgs = unknown> {
+  /** Pool key of the hop */
+  poolKey: PoolKey;
+  /** 1-based index of the hop in the route */
+  hop: number;
+  /** Recipient of the swap output */
+  recipient: Address;
+  /** Per-call arguments passed to the builder under this hook's address in `hookArgs` */
+  hookArgs?: THookArgs;
+}
+
+/**
+ * Context passed to a hook adapter when encoding the hookData of a liquidity change.
+ */
+export interface HookLiquidityContext<THookArgs = unknown> {
+  /** Pool key of the position */
+  poolKey: PoolKey;
+  tickLower: number;
+  tickUpper: number;
+  /** Token ID of the position, undefined when minting */
+  tokenId?: string;
+  /** Per-call arguments passed to the builder as `hookArgs` */
+  hookArgs?: THookArgs;
+}
+
+/**
+ * Encodes the hookData a hook contract expects. Every encoder is optional; actions without one
+ * send empty hookData.
+ *
+ * Fee collection is a zero-liquidity decrease in v4, so it is encoded by `encodeRemoveLiquidityHookData`.
+ * Type the arguments of encoders an adapter leaves out as `never`, e.g. `HookAdapter<SwapArgs, never, never>`,
+ * so that they don't widen the `hookArgs` of the liquidity builders.
+ */
+export interface HookAdapter<TSwapArgs = unknown, TAddLiquidityArgs = unknown, TRemoveLiquidityArgs = unknown> {
+  encodeSwapHookData?(context: HookSwapContext<TSwapArgs>): Hex;
+  encodeAddLiquidityHookData?(context: HookLiquidityContext<TAddLiquidityArgs>): Hex;
+  encodeRemoveLiquidityHookData?(context: HookLiquidityContext<TRemoveLiquidityArgs>): Hex;
+}
+
+/**
+ * Hook adapters keyed by hook address.
+ */
+export type HookAdapterRegistry = Record<Address, HookAdapter>;
+
+/**
+ * Type of the `hookArgs` an adapter's `TEncoder` reads, never if the adapter has no such encoder or its
+ * arguments are typed `never`.
+ */
+type EncoderHookArgs<TAdapter, TEncoder extends keyof HookAdapter> = TAdapter extends unknown
+  ? TEncoder extends keyof TAdapter
+    ? NonNullable<TAdapter[TEncoder]> extends (context: infer TContext) => Hex
+      ? TContext extends { hookArgs?: infer THookArgs }
+        ? Exclude<THookArgs, undefined>
+        : never
+      : never
+    : never
+  : never;
+
+/**
+ * Per-call swap hook arguments, keyed by the hook address of the hops they are for and typed by that
+ * hook's adapter in `TRegistry`.
+ */
+export type SwapHookArgs<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> = {
+  [THook in keyof TRegistry]?: EncoderHookArgs<TRegistry[THook], "encodeSwapHookData">;
+};
+
+/**
+ * Per-call add-liquidity hook arguments for the pool's hook: those of an adapter in `TRegistry` that
+ * encodes add-liquidity hookData.
+ */
+export type AddLiquidityHookArgs<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> = EncoderHookArgs<
+  TRegistry[keyof TRegistry],
+  "encodeAddLiquidityHookData"
+>;
+
+/**
+ * Per-call remove-liquidity hook arguments for the pool's hook: those of an adapter in `TRegistry` that
+ * encodes remove-liquidity hookData.
+ */
+export type RemoveLiquidityHookArgs<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> = EncoderHookArgs<
+  TRegistry[keyof TRegistry],
+  "encodeRemoveLiquidityHookData"
+>;
+
+/**
+ * Validates the addresses of a hook adapter registry and lowercases them for lookups.
+ *
+ * @param hookAdapters - Hook adapters keyed by hook address
+ * @returns The registry keyed by lowercase hook address
+ * @throws Error if a key is not an address
+ */
+export function normalizeHookAdapters(hookAdapters: HookAdapterRegistry): HookAdapterRegistry {
+  return Object.fromEntries(
+    Object.entries(hookAdapters).map(([hooks, adapter]) => {
+      if (!isAddress(hooks, { strict: false })) {
+        throw new Error(`Invalid hookAdapters key: ${hooks}. Must be a hook address.`);
+      }
+      return [hooks.toLowerCase(), adapter];
+    }),
+  );
+}
+
+/**
+ * Looks up the adapter registered for a hook address.
+ *
+ * @param hookAdapters - Hook adapters keyed by lowercase hook address, as returned by `normalizeHookAdapters`
+ * @param hooks - Hook address of the pool
+ * @returns The hook's adapter, undefined if none is registered
+ */
+export function getHookAdapter(hookAdapters: HookAdapterRegistry | undefined, hooks: string): HookAdapter | undefined {
+  return hookAdapters?.[hooks.toLowerCase() as Address];
+}
+
+/**
+ * Validates the hook addresses of per-call swap hook arguments and lowercases them for lookups.
+ *
+ * @param hookAdapters - Hook adapters keyed by lowercase hook address
+ * @param hookArgs - Swap hook arguments keyed by hook address
+ * @returns The arguments keyed by lowercase hook address
+ * @throws Error if a key is not the address of a hook with a swap hookData encoder
+ */
+export function normalizeSwapHookArgs(
+  hookAdapters: HookAdapterRegistry | undefined,
+  hookArgs: SwapHookArgs,
+): Record<Address, unknown> {
+  return Object.fromEntries(
+    Object.entries(hookArgs).map(([hooks, args]) => {
+      if (getHookAdapter(hookAdapters, hooks)?.encodeSwapHookData === undefined) {
+        throw new Error(`Invalid hookArgs: no hook adapter for ${hooks} encodes swap hookData.`);
+      }
+      return [hooks.toLowerCase(), args];
+    }),
+  );
+}
+
+/**
+ * Encodes the hookData of every hop of a swap route with the adapters registered for their hooks.
+ * Hops that already carry `hookData` keep it.
+ *
+ * @param hookAdapters - Hook adapters keyed by hook address
+ * @param route - Route hops with their pool keys and optional explicit hookData
+ * @param context - Swap recipient and the per-call `hookArgs` keyed by lowercase hook address, as returned
+ * by `normalizeSwapHookArgs`
+ * @returns The hookData of each hop, undefined for hops without explicit hookData or adapter
+ */
+export function encodeSwapRouteHookData(
+  hookAdapters: HookAdapterRegistry | undefined,
+  route: readonly { poolKey: PoolKey; hookData?: Hex }[],
+  { recipient, hookArgs }: { recipient: Address; hookArgs?: Record<Address, unknown> },
+): (Hex | undefined)[] {
+  return route.map(({ poolKey, hookData }, index) => {
+    if (hookData !== undefined) {
+      return hookData;
+    }
+
+    return getHookAdapter(hookAdapters, poolKey.hooks)?.encodeSwapHookData?.({
+      poolKey,
+      hop: index + 1,
+      recipient,
+      hookArgs: hookArgs?.[poolKey.hooks.toLowerCase() as Address],
+    });
+  });
+}
+
+/**
+ * Encodes the hookData of an add-liquidity action with the adapter registered for the pool's hook.
+ *
+ * @param hookAdapters - Hook adapters keyed by hook address
+ * @param context - Pool key, tick range, token ID and the per-call `hookArgs`
+ * @returns The encoded hookData, undefined if no adapter encodes it
+ * @throws Error if `hookArgs` is set but no adapter encodes add-liquidity hookData for the pool's hook
+ */
+export function encodeAddLiquidityHookData(
+  hookAdapters: HookAdapterRegistry | undefined,
+  context: HookLiquidityContext,
+): Hex | undefined {
+  const adapter = getHookAdapter(hookAdapters, context.poolKey.hooks);
+  if (adapter?.encodeAddLiquidityHookData === undefined) {
+    assertNoHookArgs(context, "add-liquidity");
+    return undefined;
+  }
+
+  return adapter.encodeAddLiquidityHookData(context);
+}
+
+/**
+ * Encodes the hookData of a remove-liquidity or collect action with the adapter registered for the pool's hook.
+ *
+ * @param hookAdapters - Hook adapters keyed by hook address
+ * @param context - Pool key, tick range, token ID and the per-call `hookArgs`
+ * @returns The encoded hookData, undefined if no adapter encodes it
+ * @throws Error if `hookArgs` is set but no adapter encodes remove-liquidity hookData for the pool's hook
+ */
+export function encodeRemoveLiquidityHookData(
+  hookAdapters: HookAdapterRegistry | undefined,
+  context: HookLiquidityContext,
+): Hex | undefined {
+  const adapter = getHookAdapter(hookAdapters, context.poolKey.hooks);
+  if (adapter?.encodeRemoveLiquidityHookData === undefined) {
+    assertNoHookArgs(context, "remove-liquidity");
+    return undefined;
+  }
+
+  return adapter.encodeRemoveLiquidityHookData(context);
+}
+
+function assertNoHookArgs({ poolKey, hookArgs }: HookLiquidityContext, action: string): void {
+  if (hookArgs !== undefined) {
+    throw new Error(`Invalid hookArgs: no hook adapter for ${poolKey.hooks} encodes ${action} hookData.`);
+  }
+}
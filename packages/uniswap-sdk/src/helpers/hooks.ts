@@ -0,0 +1,112 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+
+import { DYNAMIC_FEE_FLAG, Hook, type HookOptions } from "@uniswap/v4-sdk";
+
+/**
+ * Name of a hook callback, e.g. `beforeSwap` or `afterSwapReturnsDelta`.
+ */
+export type HookCallback = `${HookOptions}`;
+
+/**
+ * Whether each hook callback is enabled, as encoded in the low 14 bits of the hook address.
+ */
+export type HookPermissions = Record<HookCallback, boolean>;
+
+/**
+ * Reason a pool's hook makes quotes unreliable:
+ * - `swapReturnsDelta`: the hook can take or return deltas on swaps, changing the swapped amounts.
+ * - `dynamicFee`: the hook sets the LP fee, which can change between the quote and the swap.
+ */
+export type HookRisk = "swapReturnsDelta" | "dynamicFee";
+
+/**
+ * Hook configuration of a pool, decoded from its pool key.
+ */
+export interface HookInfo {
+  /** Hook address of the pool, the zero address for hookless pools */
+  hooks: Address;
+  permissions: HookPermissions;
+  /** Callbacks the hook implements */
+  enabledCallbacks: HookCallback[];
+  /** Whether the hook runs `beforeSwap` or `afterSwap` */
+  hasSwapCallbacks: boolean;
+  /** Whether the hook can take or return deltas on swaps, which makes local quoting unsafe */
+  swapReturnsDelta: boolean;
+  /** Whether the pool key carries the dynamic fee flag */
+  isDynamicFee: boolean;
+  /** Empty when swaps through the pool behave like those of a hookless pool with a fixed fee */
+  risks: HookRisk[];
+}
+
+/**
+ * Hook risks of one hop of a swap route.
+ */
+export interface HookWarning {
+  /** 1-based index of the hop in the route */
+  hop: number;
+  hooks: Address;
+  risks: HookRisk[];
+}
+
+/**
+ * Decodes which callbacks a v4 hook implements from the permission flags in the low 14 bits of its address.
+ *
+ * @param hooks - Hook address
+ * @returns Whether each callback is enabled
+ *
+ * @example
+ * ```ts
+ * const { beforeSwap, afterSwapReturnsDelta } = decodeHookPermissions(poolKey.hooks);
+ * ```
+ */
+export function decodeHookPermissions(hooks: Address): HookPermissions {
+  return Hook.permissions(hooks);
+}
+
+/**
+ * Describes the hook of a pool: its enabled callbacks, whether it can change swap amounts and whether
+ * the pool uses a dynamic fee. Decoded from the pool key alone, without RPC calls.
+ *
+ * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+ * @returns The hook's permissions and the risks it poses to quotes
+ */
+export function getHookInfo(poolKey: PoolKey): HookInfo {
+  const hooks = poolKey.hooks as Address;
+  const permissions = decodeHookPermissions(hooks);
+  const enabledCallbacks = (Object.keys(permissions) as HookCallback[]).filter((callback) => permissions[callback]);
+
+  const swapReturnsDelta = permissions.beforeSwapReturnsDelta || permissions.afterSwapReturnsDelta;
+  const isDynamicFee = poolKey.fee === DYNAMIC_FEE_FLAG;
+
+  const risks: HookRisk[] = [];
+  if (swapReturnsDelta) {
+    risks.push("swapReturnsDelta");
+  }
+  if (isDynamicFee) {
+    risks.push("dynamicFee");
+  }
+
+  return {
+    hooks,
+    permissions,
+    enabledCallbacks,
+    hasSwapCallbacks: permissions.beforeSwap || permissions.afterSwap,
+    swapReturnsDelta,
+    isDynamicFee,
+    risks,
+  };
+}
+
+/**
+ * Lists the hops of a swap route whose hooks make quotes unreliable.
+ *
+ * @param route - Route hops with their pool keys
+ * @returns One warning per risky hop, empty when every hop is safe to quote
+ */
+export function getRouteHookWarnings(route: readonly { poolKey: PoolKey }[]): HookWarning[] {
+  return route.flatMap(({ poolKey }, index) => {
+    const { hooks, risks } = getHookInfo(poolKey);
+    return risks.length > 0 ? [{ hop: index + 1, hooks, risks }] : [];
+  });
+}
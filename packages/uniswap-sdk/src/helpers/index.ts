@@ -1,4 +1,9 @@
+export * from "@/helpers/hookAdapters";
+export * from "@/helpers/hooks";
 export * from "@/helpers/percent";
+export * from "@/helpers/pools";
+export * from "@/helpers/prices";
 export * from "@/helpers/positions";
 export * from "@/helpers/swap";
+export * from "@/helpers/ticks";
 export * from "@/helpers/tokens";
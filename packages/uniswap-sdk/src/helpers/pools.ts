@@ -0,0 +1,108 @@
+import type { Address, Hex } from "viem";
+
+import { Pool, type PoolKey } from "@uniswap/v4-sdk";
+import { encodeAbiParameters, keccak256 } from "viem";
+
+/**
+ * Computes the v4 PoolId (`keccak256(abi.encode(poolKey))`) directly from a pool key.
+ *
+ * Unlike `Pool.getPoolId`, this does not require Currency instances, so it can be used
+ * to derive ids for many candidate pools without fetching token metadata first.
+ *
+ * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+ * @returns The 32-byte pool id
+ *
+ * @example
+ * ```ts
+ * const poolId = getPoolIdFromPoolKey(poolKey);
+ * ```
+ */
+export function getPoolIdFromPoolKey(poolKey: PoolKey): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "address", name: "currency0" },
+        { type: "address", name: "currency1" },
+        { type: "uint24", name: "fee" },
+        { type: "int24", name: "tickSpacing" },
+        { type: "address", name: "hooks" },
+      ],
+      [
+        poolKey.currency0 as Address,
+        poolKey.currency1 as Address,
+        poolKey.fee,
+        poolKey.tickSpacing,
+        poolKey.hooks as Address,
+      ],
+    ),
+  );
+}
+
+/**
+ * Fees a v4 pool charges on swaps, as read from `StateView.getSlot0`, in hundredths of a bip.
+ */
+export interface PoolFees {
+  /** LP fee. For dynamic-fee pools, the fee the hook last set rather than the flag in the pool key. */
+  lpFee: number;
+  /** Protocol fees of both directions: zeroForOne in the low 12 bits, oneForZero in the next 12. */
+  protocolFee: number;
+}
+
+/**
+ * Returns the protocol fee of one swap direction from the packed protocol fee of a pool.
+ *
+ * @param protocolFee - Packed protocol fee from `getSlot0`
+ * @param zeroForOne - Whether the swap sells currency0 for currency1
+ * @returns Protocol fee of the direction, in hundredths of a bip
+ */
+export function getDirectionalProtocolFee(protocolFee: number, zeroForOne: boolean): number {
+  return zeroForOne ? protocolFee & 0xfff : (protocolFee >> 12) & 0xfff;
+}
+
+/**
+ * Computes the total fee a swap pays on its input, in hundredths of a bip. Like the PoolManager, the
+ * protocol fee is taken first and the LP fee applies to the rest of the input.
+ *
+ * @param fees - LP fee and packed protocol fee of the pool
+ * @param zeroForOne - Whether the swap sells currency0 for currency1
+ * @returns The swap fee, e.g. 3000 for 0.3%
+ *
+ * @example
+ * ```ts
+ * const pool = await sdk.getPool(poolKey);
+ * const feePercent = calculateSwapFee(pool, true) / 10_000; // 0.3 for a 0.3% pool
+ * ```
+ */
+export function calculateSwapFee({ lpFee, protocolFee }: PoolFees, zeroForOne: boolean): number {
+  const directionalProtocolFee = getDirectionalProtocolFee(protocolFee, zeroForOne);
+  return directionalProtocolFee + lpFee - Math.floor((directionalProtocolFee * lpFee) / 1_000_000);
+}
+
+/**
+ * A v4 Pool carrying the LP and protocol fees read from slot0. For dynamic-fee pools, `fee` keeps the
+ * dynamic fee flag of the pool key while `lpFee` holds the fee in effect.
+ *
+ * Pools the v4-sdk derives from it, such as the pool returned by `getOutputAmount`, are plain `Pool`s:
+ * copies that need the fees are built with this constructor.
+ */
+export class PoolWithFees extends Pool implements PoolFees {
+  public readonly lpFee: number;
+  public readonly protocolFee: number;
+
+  /**
+   * @param fees - LP fee and packed protocol fee from `getSlot0`
+   * @param poolArgs - Arguments of the v4-sdk `Pool` constructor
+   */
+  public constructor(fees: PoolFees, ...poolArgs: ConstructorParameters<typeof Pool>) {
+    super(...poolArgs);
+    this.lpFee = fees.lpFee;
+    this.protocolFee = fees.protocolFee;
+  }
+}
+
+/**
+ * Returns whether a pool carries the fees read from slot0, as pools from `getPool` do.
+ */
+export function isPoolWithFees(pool: Pool): pool is PoolWithFees {
+  return pool instanceof PoolWithFees;
+}
@@ -0,0 +1,199 @@
+import type { Pool } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+
+import { computePriceImpact, type Currency, CurrencyAmount, type Percent, Price } from "@uniswap/sdk-core";
+import { encodeSqrtRatioX96, TickMath } from "@uniswap/v3-sdk";
+import { formatUnits, parseUnits } from "viem";
+
+import { InvalidRouteError } from "@/core/errors";
+
+export interface QuotePrices {
+  /** Price of the route before the swap: the product of each hop's current pool price. */
+  midPrice: Price<Currency, Currency>;
+  /** Realized price of the quote, `amountOut / amountIn`. */
+  executionPrice: Price<Currency, Currency>;
+  /** Relative difference between the mid-price output and the quoted output, LP fees included. */
+  priceImpact: Percent;
+}
+
+export interface GetQuotePricesArgs {
+  /** One pool per route hop, in route order. */
+  pools: readonly Pool[];
+  /** Input currency of the first hop. */
+  currencyIn: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Computes the mid-price of a route from the current price of each pool along it.
+ * @param pools - One pool per route hop, in route order
+ * @param currencyIn - Input currency of the first hop
+ * @returns Price of the route's output currency in terms of its input currency
+ * @throws Error if a pool does not connect to the previous hop's output currency
+ */
+export function getRouteMidPrice(pools: readonly Pool[], currencyIn: Address): Price<Currency, Currency> {
+  if (pools.length === 0) {
+    throw new InvalidRouteError("Invalid swap route: at least one pool is required.");
+  }
+
+  let currentCurrency = currencyIn.toLowerCase();
+  let midPrice: Price<Currency, Currency> | undefined;
+
+  pools.forEach((pool, index) => {
+    let hopPrice: Price<Currency, Currency>;
+
+    if (pool.poolKey.currency0.toLowerCase() === currentCurrency) {
+      hopPrice = pool.currency0Price;
+      currentCurrency = pool.poolKey.currency1.toLowerCase();
+    } else if (pool.poolKey.currency1.toLowerCase() === currentCurrency) {
+      hopPrice = pool.currency1Price;
+      currentCurrency = pool.poolKey.currency0.toLowerCase();
+    } else {
+      throw new InvalidRouteError(
+        `Invalid swap route: hop ${index + 1} does not connect to currency ${currentCurrency}.`,
+        {
+          hop: index + 1,
+        },
+      );
+    }
+
+    midPrice = midPrice === undefined ? hopPrice : midPrice.multiply(hopPrice);
+  });
+
+  return midPrice!;
+}
+
+/**
+ * Derives the mid-price, execution price and price impact of a quote from the pools it routes through.
+ * @param args - Route pools, input currency and quoted amounts
+ * @returns Mid-price, execution price and price impact of the quote
+ * @throws Error if the pools do not form a route from `currencyIn`
+ */
+export function getQuotePrices(args: GetQuotePricesArgs): QuotePrices {
+  const { pools, currencyIn, amountIn, amountOut } = args;
+  const midPrice = getRouteMidPrice(pools, currencyIn);
+  const { baseCurrency, quoteCurrency } = midPrice;
+
+  return {
+    midPrice,
+    executionPrice: new Price(baseCurrency, quoteCurrency, amountIn.toString(), amountOut.toString()),
+    priceImpact: computePriceImpact(
+      midPrice,
+      CurrencyAmount.fromRawAmount(baseCurrency, amountIn.toString()),
+      CurrencyAmount.fromRawAmount(quoteCurrency, amountOut.toString()),
+    ),
+  };
+}
+
+const Q192 = 2n ** 192n;
+const MIN_SQRT_PRICE_X96 = BigInt(TickMath.MIN_SQRT_RATIO.toString());
+const MAX_SQRT_PRICE_X96 = BigInt(TickMath.MAX_SQRT_RATIO.toString());
+
+/**
+ * Converts a human-readable price into the Q64.96 square root price v4 pools store.
+ *
+ * @param price - Price of currency0 in units of currency1 as a decimal string, e.g. `"3000.5"`
+ * @param decimals0 - Decimals of currency0
+ * @param decimals1 - Decimals of currency1
+ * @returns The sqrtPriceX96, rounded down
+ * @throws Error if the price is not a positive decimal string or is outside the v4 price range
+ *
+ * @example
+ * ```ts
+ * const sqrtPriceX96 = priceToSqrtPriceX96("3000", 18, 6); // 1 WETH = 3000 USDC
+ * ```
+ */
+export function priceToSqrtPriceX96(price: string, decimals0: number, decimals1: number): bigint {
+  assertDecimals(decimals0, "decimals0");
+  assertDecimals(decimals1, "decimals1");
+  if (!/^\d+(\.\d+)?$/.test(price)) {
+    throw new Error(`Invalid price: ${price}. Must be a positive decimal string.`);
+  }
+
+  const fractionDigits = price.split(".")[1]?.length ?? 0;
+  const amount1 = parseUnits(price, fractionDigits) * 10n ** BigInt(decimals1);
+  const amount0 = 10n ** BigInt(fractionDigits + decimals0);
+  if (amount1 === 0n) {
+    throw new Error(`Invalid price: ${price}. Must be a positive decimal string.`);
+  }
+
+  const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(amount1.toString(), amount0.toString()).toString());
+  if (sqrtPriceX96 < MIN_SQRT_PRICE_X96 || sqrtPriceX96 >= MAX_SQRT_PRICE_X96) {
+    throw new Error(`Invalid price: ${price} is outside the range of v4 prices.`);
+  }
+
+  return sqrtPriceX96;
+}
+
+/**
+ * Converts a Q64.96 square root price into a human-readable price of currency0 in units of currency1.
+ *
+ * @param sqrtPriceX96 - Square root price from slot0 or `priceToSqrtPriceX96`
+ * @param decimals0 - Decimals of currency0
+ * @param decimals1 - Decimals of currency1
+ * @param precision - Maximum number of fraction digits, rounded down (default: 18)
+ * @returns The price as a decimal string without trailing zeros
+ *
+ * @example
+ * ```ts
+ * const price = sqrtPriceX96ToPrice(pool.sqrtRatioX96, 18, 6, 2); // "3000"
+ * ```
+ */
+export function sqrtPriceX96ToPrice(
+  sqrtPriceX96: bigint,
+  decimals0: number,
+  decimals1: number,
+  precision: number = 18,
+): string {
+  assertDecimals(decimals0, "decimals0");
+  assertDecimals(decimals1, "decimals1");
+  assertDecimals(precision, "precision");
+
+  const scaled =
+    (sqrtPriceX96 * sqrtPriceX96 * 10n ** BigInt(decimals0 + precision)) / (Q192 * 10n ** BigInt(decimals1));
+  return formatUnits(scaled, precision);
+}
+
+/**
+ * Returns the tick of a square root price: the greatest tick whose price is at or below it, as
+ * `TickMath.getTickAtSqrtRatio` computes it.
+ *
+ * @param sqrtPriceX96 - Square root price within the v4 price range
+ * @returns The tick of the price
+ * @throws Error if the price is outside the v4 price range
+ */
+export function sqrtPriceX96ToTick(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_PRICE_X96 || sqrtPriceX96 >= MAX_SQRT_PRICE_X96) {
+    throw new Error(`Invalid sqrtPriceX96: ${sqrtPriceX96} is outside the range of v4 prices.`);
+  }
+
+  let low = TickMath.MIN_TICK;
+  let high = TickMath.MAX_TICK - 1;
+  while (low < high) {
+    const mid = low + Math.ceil((high - low) / 2);
+    if (tickToSqrtPriceX96(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Returns the square root price at a tick.
+ *
+ * @param tick - Tick between `TickMath.MIN_TICK` and `TickMath.MAX_TICK`
+ * @returns The sqrtPriceX96 at the tick
+ */
+export function tickToSqrtPriceX96(tick: number): bigint {
+  return BigInt(TickMath.getSqrtRatioAtTick(tick).toString());
+}
+
+function assertDecimals(decimals: number, name: string): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new Error(`Invalid ${name}: ${decimals}. Must be an integer between 0 and 255.`);
+  }
+}
@@ -0,0 +1,120 @@
+import type { TickDataProvider } from "@uniswap/v3-sdk";
+
+/**
+ * An initialized tick loaded from v4 StateView.
+ */
+export interface PoolTick {
+  index: number;
+  liquidityGross: bigint;
+  liquidityNet: bigint;
+}
+
+/**
+ * Initialized ticks of a pool within a contiguous range of tick bitmap words.
+ */
+export interface PoolTickData {
+  tickSpacing: number;
+  /** First loaded tick bitmap word (inclusive). */
+  minWord: number;
+  /** Last loaded tick bitmap word (inclusive). */
+  maxWord: number;
+  /** Initialized ticks inside the loaded words, sorted ascending by index. */
+  ticks: PoolTick[];
+}
+
+/**
+ * Returns the tick bitmap word that holds `tick`, matching v4 `TickBitmap.position`.
+ * Each word covers 256 consecutive multiples of `tickSpacing`.
+ *
+ * @param tick - Any tick, not necessarily a multiple of `tickSpacing`
+ * @param tickSpacing - Tick spacing of the pool
+ * @returns The int16 word position
+ *
+ * @example
+ * ```ts
+ * const word = getTickBitmapWordPosition(-200_000, 60); // -14
+ * ```
+ */
+export function getTickBitmapWordPosition(tick: number, tickSpacing: number): number {
+  return Math.floor(tick / tickSpacing) >> 8;
+}
+
+/**
+ * Decodes one tick bitmap word into the initialized ticks it marks.
+ *
+ * @param wordPosition - The int16 word position passed to `getTickBitmap`
+ * @param bitmap - The uint256 bitmap returned by `getTickBitmap`
+ * @param tickSpacing - Tick spacing of the pool
+ * @returns Initialized ticks in ascending order
+ *
+ * @example
+ * ```ts
+ * const ticks = decodeTickBitmap(0, 0b101n, 10); // [0, 20]
+ * ```
+ */
+export function decodeTickBitmap(wordPosition: number, bitmap: bigint, tickSpacing: number): number[] {
+  const ticks: number[] = [];
+
+  for (let bit = 0; bit < 256 && bitmap >> BigInt(bit) > 0n; bit += 1) {
+    if ((bitmap >> BigInt(bit)) & 1n) {
+      ticks.push((wordPosition * 256 + bit) * tickSpacing);
+    }
+  }
+
+  return ticks;
+}
+
+/**
+ * `TickDataProvider` backed by ticks loaded from a window of tick bitmap words.
+ *
+ * Mirrors v4 `TickBitmap.nextInitializedTickWithinOneWord`, so a `Pool` constructed with it
+ * swaps exactly like the on-chain pool while the price stays inside the loaded words. Leaving
+ * the window throws instead of silently treating unloaded ranges as empty.
+ *
+ * @example
+ * ```ts
+ * const provider = new PoolTickDataProvider(await sdk.getPoolTickData({ poolKey, tickCurrent: pool.tickCurrent }));
+ * ```
+ */
+export class PoolTickDataProvider implements TickDataProvider {
+  private readonly ticksByIndex: Map<number, PoolTick>;
+  private readonly compressedTicks: number[];
+
+  constructor(public readonly data: PoolTickData) {
+    this.ticksByIndex = new Map(data.ticks.map((tick) => [tick.index, tick]));
+    this.compressedTicks = data.ticks.map(({ index }) => index / data.tickSpacing).sort((a, b) => a - b);
+  }
+
+  async getTick(tick: number): Promise<{ liquidityNet: string }> {
+    const poolTick = this.ticksByIndex.get(tick);
+    if (poolTick === undefined) {
+      throw new Error(`Tick ${tick} is not initialized in the loaded tick data.`);
+    }
+
+    return { liquidityNet: poolTick.liquidityNet.toString() };
+  }
+
+  async nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number): Promise<[number, boolean]> {
+    if (tickSpacing !== this.data.tickSpacing) {
+      throw new Error(`Invalid tickSpacing: ${tickSpacing}. Loaded tick data uses ${this.data.tickSpacing}.`);
+    }
+
+    const compressed = Math.floor(tick / tickSpacing) + (lte ? 0 : 1);
+    const wordPosition = compressed >> 8;
+    if (wordPosition < this.data.minWord || wordPosition > this.data.maxWord) {
+      throw new Error(
+        `Swap left the loaded tick range (words ${this.data.minWord} to ${this.data.maxWord}). Load more tick bitmap words.`,
+      );
+    }
+
+    if (lte) {
+      const wordStart = wordPosition * 256;
+      const next = this.compressedTicks.findLast((candidate) => candidate <= compressed);
+      return next !== undefined && next >= wordStart ? [next * tickSpacing, true] : [wordStart * tickSpacing, false];
+    }
+
+    const wordEnd = wordPosition * 256 + 255;
+    const next = this.compressedTicks.find((candidate) => candidate >= compressed);
+    return next !== undefined && next <= wordEnd ? [next * tickSpacing, true] : [wordEnd * tickSpacing, false];
+  }
+}
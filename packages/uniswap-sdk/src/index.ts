@@ -1,3 +1,4 @@
+export * from "@/core/errors";
 export * from "@/core/sdk";
 export * from "@/helpers";
 export * from "@/utils";
@@ -0,0 +1,26 @@
+import type { AbiParameter, AbiParameterToPrimitiveType, Hex } from "viem";
+
+import { decodeAbiParameters } from "viem";
+
+/**
+ * Decoded ABI parameters as an object keyed by parameter name. A lone tuple parameter is
+ * unwrapped to its own fields, matching how routers encode a single params struct.
+ */
+export type DecodedAbiParameters<TParams extends readonly AbiParameter[]> = TParams extends readonly [
+  infer TParam extends AbiParameter & { type: "tuple" },
+]
+  ? AbiParameterToPrimitiveType<TParam>
+  : { [TParam in TParams[number] as TParam["name"] & string]: AbiParameterToPrimitiveType<TParam> };
+
+export function decodeNamedParameters<const TParams extends readonly AbiParameter[]>(
+  params: TParams,
+  data: Hex,
+): DecodedAbiParameters<TParams> {
+  const values = decodeAbiParameters(params, data) as readonly unknown[];
+
+  if (params.length === 1 && params[0]!.type === "tuple") {
+    return values[0] as DecodedAbiParameters<TParams>;
+  }
+
+  return Object.fromEntries(params.map(({ name }, index) => [name, values[index]])) as DecodedAbiParameters<TParams>;
+}
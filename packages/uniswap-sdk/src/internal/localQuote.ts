@@ -0,0 +1,123 @@
+import type { Currency } from "@uniswap/sdk-core";
+import type { Address } from "viem";
+
+import { CurrencyAmount } from "@uniswap/sdk-core";
+import { Pool } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import type { SwapRoute } from "@/utils/swapRoute";
+
+import { InvalidRouteError } from "@/core/errors";
+import { calculateSwapFee, isPoolWithFees } from "@/helpers/pools";
+
+interface LocalQuoteArgs {
+  route: SwapRoute;
+  /** One pool per route hop, each backed by tick data. */
+  pools: readonly Pool[];
+}
+
+export function assertLocalSimulationRoute(route: SwapRoute): void {
+  route.forEach(({ poolKey }, index) => {
+    if (poolKey.hooks.toLowerCase() !== zeroAddress) {
+      throw new InvalidRouteError(
+        `Local simulation only supports hookless pools: hop ${index + 1} uses hook ${poolKey.hooks}.`,
+        { hop: index + 1 },
+      );
+    }
+  });
+}
+
+export async function quoteExactInputLocally(
+  { route, pools }: LocalQuoteArgs,
+  currencyIn: Address,
+  amountIn: bigint,
+): Promise<bigint> {
+  let currentCurrency = currencyIn;
+  let amount = amountIn;
+
+  for (let index = 0; index < route.length; index += 1) {
+    const pool = pools[index]!;
+    const [inputCurrency, outputCurrency] = getHopCurrencies(pool, currentCurrency, index);
+    const [outputAmount] = await withSwapFee(pool, inputCurrency.equals(pool.currency0)).getOutputAmount(
+      CurrencyAmount.fromRawAmount(inputCurrency, amount.toString()),
+    );
+
+    amount = BigInt(outputAmount.quotient.toString());
+    currentCurrency = getCurrencyAddress(outputCurrency);
+  }
+
+  return amount;
+}
+
+export async function quoteExactOutputLocally(
+  { route, pools }: LocalQuoteArgs,
+  currencyOut: Address,
+  amountOut: bigint,
+): Promise<bigint> {
+  let currentCurrency = currencyOut;
+  let amount = amountOut;
+
+  for (let index = route.length - 1; index >= 0; index -= 1) {
+    const pool = pools[index]!;
+    const [outputCurrency, inputCurrency] = getHopCurrencies(pool, currentCurrency, index);
+    const [inputAmount] = await withSwapFee(pool, inputCurrency.equals(pool.currency0)).getInputAmount(
+      CurrencyAmount.fromRawAmount(outputCurrency, amount.toString()),
+    );
+
+    amount = BigInt(inputAmount.quotient.toString());
+    currentCurrency = getCurrencyAddress(inputCurrency);
+  }
+
+  return amount;
+}
+
+/**
+ * Returns a copy of the pool charging the total swap fee of the direction, protocol fee included, when the
+ * pool carries its slot0 fees. Pools without them are simulated at their key fee.
+ */
+export function withSwapFee(pool: Pool, zeroForOne: boolean): Pool {
+  if (!isPoolWithFees(pool)) {
+    return pool;
+  }
+
+  const swapFee = calculateSwapFee(pool, zeroForOne);
+  if (swapFee === pool.fee) {
+    return pool;
+  }
+
+  return new Pool(
+    pool.currency0,
+    pool.currency1,
+    swapFee,
+    pool.tickSpacing,
+    pool.hooks,
+    pool.sqrtRatioX96,
+    pool.liquidity,
+    pool.tickCurrent,
+    pool.tickDataProvider,
+  );
+}
+
+/**
+ * Returns [the pool currency matching `address`, the other pool currency].
+ */
+function getHopCurrencies(pool: Pool, address: Address, index: number): [Currency, Currency] {
+  const normalizedAddress = address.toLowerCase();
+
+  if (pool.poolKey.currency0.toLowerCase() === normalizedAddress) {
+    return [pool.currency0, pool.currency1];
+  }
+
+  if (pool.poolKey.currency1.toLowerCase() === normalizedAddress) {
+    return [pool.currency1, pool.currency0];
+  }
+
+  throw new InvalidRouteError(
+    `Invalid swap route: hop ${index + 1} does not connect to currency ${normalizedAddress}.`,
+    { hop: index + 1 },
+  );
+}
+
+function getCurrencyAddress(currency: Currency): Address {
+  return (currency.isNative ? zeroAddress : currency.address) as Address;
+}
@@ -0,0 +1,39 @@
+import { getUniswapContracts } from "hookmate";
+import { isAddressEqual } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+/**
+ * Default maximum block span of each `eth_getLogs` request. Most RPC providers cap log queries at 10,000 blocks.
+ */
+export const DEFAULT_LOG_BLOCK_RANGE = 10_000n;
+
+/**
+ * Deployment blocks of the canonical v4 PoolManager, keyed by chain id. The PositionManager of each chain
+ * was deployed after its PoolManager, so these blocks also bound PositionManager logs.
+ */
+const V4_DEPLOYMENT_BLOCKS: Partial<Record<number, bigint>> = {
+  1: 21_688_329n,
+  10: 130_947_675n,
+  56: 45_970_610n,
+  137: 66_980_384n,
+  480: 9_111_872n,
+  7777777: 25_343_035n,
+  8453: 25_350_988n,
+  42161: 297_842_872n,
+  43114: 56_195_376n,
+  81457: 14_377_311n,
+};
+
+/**
+ * Returns the first block v4 logs of the instance can appear in: the PoolManager deployment block when the
+ * instance uses the canonical PoolManager of a chain with a known deployment block, and 0 otherwise.
+ */
+export function getV4DeploymentBlock({ chainId, contracts }: UniswapSDKInstance): bigint {
+  const deploymentBlock = V4_DEPLOYMENT_BLOCKS[chainId];
+  if (deploymentBlock === undefined) {
+    return 0n;
+  }
+
+  return isAddressEqual(contracts.poolManager, getUniswapContracts(chainId).v4.poolManager) ? deploymentBlock : 0n;
+}
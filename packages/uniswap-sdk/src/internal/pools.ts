@@ -0,0 +1,51 @@
+import type { Currency } from "@uniswap/sdk-core";
+import type { PoolKey } from "@uniswap/v4-sdk";
+import type { Address, Hex } from "viem";
+
+import { v4 } from "hookmate/abi";
+
+import { PoolWithFees } from "@/helpers/pools";
+
+/**
+ * Slot0 of a pool as returned by `StateView.getSlot0`: sqrtPriceX96, tick, protocolFee, lpFee.
+ */
+export type PoolSlot0 = readonly [bigint, number, number, number];
+
+/**
+ * StateView reads of a pool's slot0 and active liquidity, to spread into a multicall.
+ */
+export function getPoolStateCalls(stateView: Address, poolId: Hex) {
+  return [
+    { address: stateView, abi: v4.StateViewArtifact.abi, functionName: "getSlot0", args: [poolId] },
+    { address: stateView, abi: v4.StateViewArtifact.abi, functionName: "getLiquidity", args: [poolId] },
+  ] as const;
+}
+
+/**
+ * Returns whether a slot0 belongs to an initialized pool. Uninitialized pools report a zero sqrtPriceX96.
+ */
+export function isInitializedSlot0(slot0: PoolSlot0): boolean {
+  return slot0[0] !== 0n;
+}
+
+/**
+ * Builds the pool of `poolKey` from its currencies and the StateView reads of `getPoolStateCalls`.
+ */
+export function toPoolWithFees(
+  poolKey: PoolKey,
+  [currency0, currency1]: readonly [Currency, Currency],
+  [sqrtPriceX96, tick, protocolFee, lpFee]: PoolSlot0,
+  liquidity: bigint,
+): PoolWithFees {
+  return new PoolWithFees(
+    { lpFee, protocolFee },
+    currency0,
+    currency1,
+    poolKey.fee,
+    poolKey.tickSpacing,
+    poolKey.hooks,
+    sqrtPriceX96.toString(),
+    liquidity.toString(),
+    tick,
+  );
+}
@@ -0,0 +1,179 @@
+import type { Currency } from "@uniswap/sdk-core";
+import type { Address, Hex } from "viem";
+
+import { type PoolKey, Position as V4Position } from "@uniswap/v4-sdk";
+import { v4 } from "hookmate/abi";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { GetPositionResponse } from "@/utils/getPosition";
+import type { GetPositionInfoResponse } from "@/utils/getPositionInfo";
+
+import { getPoolIdFromPoolKey, PoolWithFees } from "@/helpers/pools";
+import { decodePositionInfo } from "@/helpers/positions";
+import { getTokens } from "@/utils/getTokens";
+
+/** PositionManager data of a position, as returned by `getPoolAndPositionInfo` and `getPositionLiquidity`. */
+export interface RawPosition {
+  tokenId: string;
+  poolKey: PoolKey;
+  info: bigint;
+  liquidity: bigint;
+}
+
+interface PoolState {
+  slot0: readonly [bigint, number, number, number];
+  poolLiquidity: bigint;
+}
+
+/**
+ * Resolves the currencies and pool state of many positions. Currencies are fetched with one
+ * `getTokens` call and the state of each distinct pool is read once, in a single multicall.
+ * A pool whose state cannot be read fails only the positions in it.
+ */
+export async function loadPositionInfos(
+  positions: RawPosition[],
+  instance: UniswapSDKInstance,
+  blockNumber?: bigint,
+): Promise<(GetPositionInfoResponse | Error)[]> {
+  if (positions.length === 0) {
+    return [];
+  }
+
+  const { client, contracts } = instance;
+  const poolIds = positions.map(({ poolKey }) => getPoolIdFromPoolKey(poolKey));
+  const uniquePoolIds = [...new Set(poolIds)];
+  const currencyAddresses = [
+    ...new Set(positions.flatMap(({ poolKey }) => [poolKey.currency0, poolKey.currency1] as Address[])),
+  ];
+
+  const [currencies, poolStates] = await Promise.all([
+    getTokens({ addresses: currencyAddresses as [Address, ...Address[]] }, instance).catch((error: unknown) =>
+      error instanceof Error ? error : new Error(String(error)),
+    ),
+    client.multicall({
+      allowFailure: true,
+      blockNumber,
+      contracts: uniquePoolIds.flatMap((poolId) => [
+        {
+          address: contracts.stateView,
+          abi: v4.StateViewArtifact.abi,
+          functionName: "getSlot0",
+          args: [poolId],
+        } as const,
+        {
+          address: contracts.stateView,
+          abi: v4.StateViewArtifact.abi,
+          functionName: "getLiquidity",
+          args: [poolId],
+        } as const,
+      ]),
+    }),
+  ]);
+
+  if (currencies instanceof Error) {
+    return positions.map(() => currencies);
+  }
+
+  const currencyByAddress = new Map<string, Currency>(
+    currencyAddresses.map((address, index) => [address.toLowerCase(), currencies[index]!]),
+  );
+  const poolStateById = new Map(
+    uniquePoolIds.map((poolId, index): [Hex, PoolState | Error] => {
+      const [slot0Result, liquidityResult] = [poolStates[index * 2]!, poolStates[index * 2 + 1]!];
+      if (slot0Result.status === "failure" || liquidityResult.status === "failure") {
+        return [
+          poolId,
+          new Error(`Failed to fetch pool state for ${poolId}`, {
+            cause: slot0Result.error ?? liquidityResult.error,
+          }),
+        ];
+      }
+      return [
+        poolId,
+        {
+          slot0: slot0Result.result as readonly [bigint, number, number, number],
+          poolLiquidity: liquidityResult.result as bigint,
+        },
+      ];
+    }),
+  );
+
+  return positions.map(({ tokenId, poolKey, info, liquidity }, index) => {
+    const poolId = poolIds[index]!;
+    const poolState = poolStateById.get(poolId)!;
+    if (poolState instanceof Error) {
+      return poolState;
+    }
+
+    const { tickLower, tickUpper } = decodePositionInfo(info);
+    const { slot0, poolLiquidity } = poolState;
+
+    return {
+      tokenId,
+      tickLower,
+      tickUpper,
+      liquidity,
+      poolKey,
+      currentTick: Number(slot0[1]),
+      slot0,
+      poolLiquidity,
+      lpFee: slot0[3],
+      protocolFee: slot0[2],
+      poolId,
+      currency0: currencyByAddress.get(poolKey.currency0.toLowerCase())!,
+      currency1: currencyByAddress.get(poolKey.currency1.toLowerCase())!,
+    };
+  });
+}
+
+/**
+ * Builds the Pool and Position instances of a position from its info.
+ */
+export function toPositionResponse(positionInfo: GetPositionInfoResponse): GetPositionResponse {
+  const {
+    tokenId,
+    poolKey,
+    liquidity,
+    tickLower,
+    tickUpper,
+    slot0,
+    poolLiquidity,
+    lpFee,
+    protocolFee,
+    poolId,
+    currency0,
+    currency1,
+  } = positionInfo;
+  const [sqrtPriceX96, tick] = slot0;
+
+  // Create Pool instance with current state and fees
+  const pool = new PoolWithFees(
+    { lpFee, protocolFee },
+    currency0,
+    currency1,
+    poolKey.fee,
+    poolKey.tickSpacing,
+    poolKey.hooks,
+    sqrtPriceX96.toString(),
+    poolLiquidity.toString(),
+    tick,
+  );
+
+  // Create Position instance
+  const position = new V4Position({
+    pool,
+    liquidity: liquidity.toString(),
+    tickLower,
+    tickUpper,
+  });
+
+  return {
+    position,
+    pool,
+    currency0,
+    currency1,
+    poolId,
+    tokenId,
+    currentTick: Number(tick),
+  };
+}
@@ -0,0 +1,457 @@
+import type { Currency } from "@uniswap/sdk-core";
+import type { Pool, PoolKey } from "@uniswap/v4-sdk";
+import type { Address, Hex } from "viem";
+
+import { CurrencyAmount } from "@uniswap/sdk-core";
+import { v4 } from "hookmate/abi";
+import { zeroAddress } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { PoolWithFees } from "@/helpers/pools";
+import type { QuoteGasPricing, QuoteHopFees, QuoteResponse, QuoteSimulation, SwapQuoteParams } from "@/utils/getQuote";
+
+import { InsufficientLiquidityError, InvalidRouteError, QuoteRevertedError, UniswapSDKError } from "@/core/errors";
+import { getRouteHookWarnings } from "@/helpers/hooks";
+import { calculateSwapFee, getDirectionalProtocolFee, getPoolIdFromPoolKey, isPoolWithFees } from "@/helpers/pools";
+import { getQuotePrices } from "@/helpers/prices";
+import { assertLocalSimulationRoute, quoteExactInputLocally, quoteExactOutputLocally } from "@/internal/localQuote";
+import { getPoolStateCalls, isInitializedSlot0, type PoolSlot0, toPoolWithFees } from "@/internal/pools";
+import { decodeRevertData, getRevertData, toRevertError } from "@/internal/revert";
+import {
+  hasExactInputAmount,
+  hasExactOutputAmount,
+  resolveSwapCurrencyMeta,
+  type SwapCurrencyMeta,
+} from "@/internal/swap";
+import { getPoolWithTicks } from "@/utils/getPoolTickData";
+import { getTokens } from "@/utils/getTokens";
+import {
+  resolveSwapRouteExactInput,
+  resolveSwapRouteExactOutput,
+  type RoutePathKey,
+  type SwapRoute,
+} from "@/utils/swapRoute";
+
+export interface QuoterCall {
+  address: Address;
+  abi: typeof v4.QuoterArtifact.abi;
+  functionName: "quoteExactInput" | "quoteExactOutput";
+  args: readonly [{ exactCurrency: Address; path: RoutePathKey[]; exactAmount: bigint }];
+}
+
+/**
+ * A validated quote request: the exact side, its amount, the resolved currencies and the
+ * Quoter call that prices the other side.
+ */
+export interface PreparedQuote {
+  params: SwapQuoteParams;
+  tradeType: "exactInput" | "exactOutput";
+  exactAmount: bigint;
+  simulation: QuoteSimulation;
+  meta: SwapCurrencyMeta;
+  quoterCall: QuoterCall;
+  gasPricing?: PreparedGasPricing;
+}
+
+export interface PreparedGasPricing {
+  /** Gas price in wei, when provided by the caller. */
+  gasPrice?: bigint;
+  /** Converts a gas cost in wei to the output currency. */
+  toOutputAmount: (gasCost: bigint) => bigint;
+}
+
+/**
+ * Amounts and state a quote resolved to, before they are shaped into a `QuoteResponse`.
+ */
+export interface QuoteOutcome {
+  quotedAmount: bigint;
+  /** Route pools the price fields are derived from; undefined when they could not be read. */
+  pools?: readonly Pool[];
+  /** Gas estimate of the Quoter; undefined for local simulation. */
+  gasEstimate?: bigint;
+  gasPrice?: bigint;
+}
+
+export function prepareQuote(params: SwapQuoteParams, instance: UniswapSDKInstance): PreparedQuote {
+  const { quoter, weth } = instance.contracts;
+  const exactOutputConfig = params.exactOutput;
+  const exactInputConfig = params.exactInput;
+
+  if (hasExactOutputAmount(exactOutputConfig) && hasExactInputAmount(exactInputConfig)) {
+    throw new Error("Conflicting swap parameters: provide exactInput or exactOutput, not both.");
+  }
+  if (!hasExactOutputAmount(exactOutputConfig) && !hasExactInputAmount(exactInputConfig)) {
+    throw new Error("Missing swap parameters: provide either exactInput or exactOutput.");
+  }
+
+  const meta = resolveSwapCurrencyMeta({ ...params, wethAddress: weth });
+  const { simulation = "quoter" } = params;
+  if (simulation !== "quoter" && simulation !== "local") {
+    throw new Error(`Invalid simulation: ${String(simulation)}. Must be "quoter" or "local".`);
+  }
+  if (simulation === "local") {
+    assertLocalSimulationRoute(params.route);
+  }
+  if (params.pools !== undefined) {
+    assertRoutePools(params.route, params.pools);
+  }
+  const gasPricing =
+    params.gasPricing === undefined ? undefined : resolveGasPricing(params.gasPricing, meta.requestedCurrencyOut, weth);
+
+  if (hasExactOutputAmount(exactOutputConfig)) {
+    const amountOut = BigInt(exactOutputConfig.amount);
+    if (amountOut <= 0n) {
+      throw new Error(`Invalid exactOutput.amount: ${amountOut}. Must be a positive value.`);
+    }
+    const { path } = resolveSwapRouteExactOutput(meta.requestedCurrencyOut, params.route);
+
+    return {
+      params,
+      tradeType: "exactOutput",
+      exactAmount: amountOut,
+      simulation,
+      meta,
+      gasPricing,
+      quoterCall: {
+        address: quoter,
+        abi: v4.QuoterArtifact.abi,
+        functionName: "quoteExactOutput",
+        args: [{ exactCurrency: meta.requestedCurrencyOut, path, exactAmount: amountOut }],
+      },
+    };
+  }
+
+  const amountIn = BigInt(exactInputConfig!.amount);
+  if (amountIn <= 0n) {
+    throw new Error(`Invalid exactInput.amount: ${amountIn}. Must be a positive value.`);
+  }
+  const { path } = resolveSwapRouteExactInput(meta.requestedCurrencyIn, params.route);
+
+  return {
+    params,
+    tradeType: "exactInput",
+    exactAmount: amountIn,
+    simulation,
+    meta,
+    gasPricing,
+    quoterCall: {
+      address: quoter,
+      abi: v4.QuoterArtifact.abi,
+      functionName: "quoteExactInput",
+      args: [{ exactCurrency: meta.requestedCurrencyIn, path, exactAmount: amountIn }],
+    },
+  };
+}
+
+/**
+ * Returns the pools a local simulation swaps through: the provided `pools`, or pools fetched with
+ * `getPoolWithTicks`.
+ */
+export async function loadQuotePools(prepared: PreparedQuote, instance: UniswapSDKInstance): Promise<readonly Pool[]> {
+  const { route, pools } = prepared.params;
+  if (pools !== undefined) {
+    return pools;
+  }
+
+  return Promise.all(route.map(({ poolKey }) => getPoolWithTicks(poolKey, instance)));
+}
+
+/**
+ * Quoter outcome of one entry of `quoteWithQuoter`, with the route pools its price fields are derived from.
+ * `pools` is undefined when a pool of the route could not be read.
+ */
+export type QuoterEntryResult =
+  | { status: "success"; quotedAmount: bigint; gasEstimate: bigint; pools?: readonly Pool[] }
+  | { status: "failure"; error: unknown };
+
+/**
+ * Sends the Quoter call of every entry in one multicall, together with the StateView slot0 and liquidity
+ * reads of each distinct pool the entries route through. Entries with provided `pools` skip the reads.
+ *
+ * The pool currencies are resolved with one `getTokens` call alongside the multicall, which the token cache
+ * answers without RPC once a pair has been quoted. Only the Quoter result decides whether an entry fails:
+ * a failed pool read leaves the entry without `pools`.
+ *
+ * @returns One result per entry, in input order
+ */
+export async function quoteWithQuoter(
+  entries: readonly PreparedQuote[],
+  instance: UniswapSDKInstance,
+): Promise<QuoterEntryResult[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const poolKeys = new Map<Hex, PoolKey>();
+  for (const { params } of entries) {
+    if (params.pools === undefined) {
+      for (const { poolKey } of params.route) {
+        poolKeys.set(getPoolIdFromPoolKey(poolKey), poolKey);
+      }
+    }
+  }
+  const poolIds = [...poolKeys.keys()];
+
+  const [results, currencies] = await Promise.all([
+    instance.client.multicall({
+      allowFailure: true,
+      contracts: [
+        ...entries.map(({ quoterCall }) => quoterCall),
+        ...poolIds.flatMap((poolId) => getPoolStateCalls(instance.contracts.stateView, poolId)),
+      ],
+    }),
+    loadPoolCurrencies([...poolKeys.values()], instance),
+  ]);
+
+  // The multicall mixes Quoter and StateView calls, so each result is typed by its position.
+  const poolsById = new Map(
+    poolIds.map((poolId, index): [Hex, PoolWithFees | undefined] => {
+      const slot0 = results[entries.length + index * 2]!;
+      const liquidity = results[entries.length + index * 2 + 1]!;
+      if (slot0.status === "failure" || liquidity.status === "failure") {
+        return [poolId, undefined];
+      }
+      return [
+        poolId,
+        toRoutePool(poolKeys.get(poolId)!, currencies, slot0.result as PoolSlot0, liquidity.result as bigint),
+      ];
+    }),
+  );
+
+  return entries.map(({ params }, index): QuoterEntryResult => {
+    const quoterResult = results[index]!;
+    if (quoterResult.status === "failure") {
+      return { status: "failure", error: quoterResult.error };
+    }
+
+    const pools = params.pools ?? params.route.map(({ poolKey }) => poolsById.get(getPoolIdFromPoolKey(poolKey)));
+    const [quotedAmount, gasEstimate] = quoterResult.result as readonly [bigint, bigint];
+    return {
+      status: "success",
+      quotedAmount,
+      gasEstimate,
+      pools: pools.every((pool) => pool !== undefined) ? pools : undefined,
+    };
+  });
+}
+
+/**
+ * Reads the route pools a single quote derives its price fields from: slot0 and liquidity with one StateView
+ * multicall, and the currencies with `getTokens`.
+ *
+ * @returns The pools in route order, or undefined when any of them could not be read
+ */
+export async function readRoutePools(route: SwapRoute, instance: UniswapSDKInstance): Promise<Pool[] | undefined> {
+  const poolKeys = route.map(({ poolKey }) => poolKey);
+
+  try {
+    const [results, currencies] = await Promise.all([
+      instance.client.multicall({
+        allowFailure: false,
+        contracts: poolKeys.flatMap((poolKey) =>
+          getPoolStateCalls(instance.contracts.stateView, getPoolIdFromPoolKey(poolKey)),
+        ),
+      }),
+      loadPoolCurrencies(poolKeys, instance),
+    ]);
+
+    const pools = poolKeys.map((poolKey, index) =>
+      toRoutePool(poolKey, currencies, results[index * 2] as PoolSlot0, results[index * 2 + 1] as bigint),
+    );
+    return pools.every((pool) => pool !== undefined) ? pools : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds a route pool from its StateView reads, or returns undefined when the pool is not initialized or its
+ * currencies could not be resolved.
+ */
+function toRoutePool(
+  poolKey: PoolKey,
+  currencies: Map<string, Currency> | undefined,
+  slot0: PoolSlot0,
+  liquidity: bigint,
+): PoolWithFees | undefined {
+  const currency0 = currencies?.get(poolKey.currency0.toLowerCase());
+  const currency1 = currencies?.get(poolKey.currency1.toLowerCase());
+  if (currency0 === undefined || currency1 === undefined || !isInitializedSlot0(slot0)) {
+    return undefined;
+  }
+
+  return toPoolWithFees(poolKey, [currency0, currency1], slot0, liquidity);
+}
+
+/**
+ * Resolves the currencies of `poolKeys` by lowercase address, or undefined when `getTokens` fails.
+ */
+async function loadPoolCurrencies(
+  poolKeys: readonly PoolKey[],
+  instance: UniswapSDKInstance,
+): Promise<Map<string, Currency> | undefined> {
+  const [firstAddress, ...addresses] = [
+    ...new Set(poolKeys.flatMap(({ currency0, currency1 }) => [currency0.toLowerCase(), currency1.toLowerCase()])),
+  ] as Address[];
+  if (firstAddress === undefined) {
+    return new Map();
+  }
+
+  try {
+    const currencies = await getTokens({ addresses: [firstAddress, ...addresses] }, instance);
+    return new Map([firstAddress, ...addresses].map((address, index) => [address, currencies[index]!]));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Computes the quoted (non-exact) amount off-chain from the tick data of the route pools.
+ */
+export async function quoteLocally(prepared: PreparedQuote, pools: readonly Pool[]): Promise<bigint> {
+  const { route } = prepared.params;
+
+  return prepared.tradeType === "exactOutput"
+    ? quoteExactOutputLocally({ route, pools }, prepared.meta.requestedCurrencyOut, prepared.exactAmount)
+    : quoteExactInputLocally({ route, pools }, prepared.meta.requestedCurrencyIn, prepared.exactAmount);
+}
+
+/**
+ * Returns whether the gas price has to be fetched before the quote can be priced net of gas.
+ */
+export function needsGasPrice(prepared: PreparedQuote): boolean {
+  return (
+    prepared.simulation === "quoter" && prepared.gasPricing !== undefined && prepared.gasPricing.gasPrice === undefined
+  );
+}
+
+export function toQuoteResponse(prepared: PreparedQuote, outcome: QuoteOutcome, timestamp: number): QuoteResponse {
+  const { tradeType, exactAmount, meta, gasPricing } = prepared;
+  const { quotedAmount, pools, gasEstimate } = outcome;
+  const amountIn = tradeType === "exactOutput" ? quotedAmount : exactAmount;
+  const amountOut = tradeType === "exactOutput" ? exactAmount : quotedAmount;
+  const gasPrice = gasPricing?.gasPrice ?? outcome.gasPrice;
+
+  return {
+    amountIn,
+    amountOut,
+    ...(pools === undefined
+      ? {}
+      : getQuotePrices({ pools, currencyIn: meta.requestedCurrencyIn, amountIn, amountOut })),
+    gasEstimate,
+    netAmountOut:
+      gasPricing !== undefined && gasEstimate !== undefined && gasPrice !== undefined
+        ? amountOut - gasPricing.toOutputAmount(gasEstimate * gasPrice)
+        : undefined,
+    fees: pools === undefined ? undefined : getQuoteFees(pools, meta.requestedCurrencyIn),
+    hookWarnings: getRouteHookWarnings(prepared.params.route),
+    timestamp,
+    meta: {
+      resolvedCurrencyIn: meta.resolvedCurrencyIn,
+      resolvedCurrencyOut: meta.resolvedCurrencyOut,
+    },
+  };
+}
+
+/**
+ * Typed SDK errors pass through. Quoter reverts become `QuoteRevertedError`, or `InsufficientLiquidityError`
+ * for `NotEnoughLiquidity`; anything else is wrapped with the quote failure prefix.
+ */
+export function toQuoteError(error: unknown): Error {
+  if (error instanceof UniswapSDKError) {
+    return error;
+  }
+
+  const revertData = getRevertData(error);
+  if (revertData !== undefined) {
+    const revert = decodeRevertData(revertData);
+    const message = `Failed to fetch quote: ${revert.reason}`;
+
+    if (revert.errorName === "NotEnoughLiquidity") {
+      return new InsufficientLiquidityError(message, { poolId: revert.args?.[0] as Hex, cause: error });
+    }
+    return toRevertError(message, revert, error, QuoteRevertedError);
+  }
+
+  return new UniswapSDKError(`Failed to fetch quote: ${error instanceof Error ? error.message : String(error)}`, {
+    cause: error,
+  });
+}
+
+/**
+ * Returns the fees of each hop in the direction the route swaps through it, or undefined when a pool
+ * does not carry its slot0 fees.
+ */
+function getQuoteFees(pools: readonly Pool[], currencyIn: Address): QuoteHopFees[] | undefined {
+  if (!pools.every(isPoolWithFees)) {
+    return undefined;
+  }
+
+  let currentCurrency = currencyIn.toLowerCase();
+  return pools.map((pool) => {
+    const zeroForOne = pool.poolKey.currency0.toLowerCase() === currentCurrency;
+    currentCurrency = (zeroForOne ? pool.poolKey.currency1 : pool.poolKey.currency0).toLowerCase();
+
+    return {
+      lpFee: pool.lpFee,
+      protocolFee: getDirectionalProtocolFee(pool.protocolFee, zeroForOne),
+      swapFee: calculateSwapFee(pool, zeroForOne),
+    };
+  });
+}
+
+function assertRoutePools(route: SwapRoute, pools: readonly Pool[]): void {
+  if (pools.length !== route.length) {
+    throw new InvalidRouteError(`Invalid pools: expected ${route.length} pools, received ${pools.length}.`);
+  }
+
+  route.forEach(({ poolKey }, index) => {
+    if (pools[index]!.poolId.toLowerCase() !== getPoolIdFromPoolKey(poolKey).toLowerCase()) {
+      throw new InvalidRouteError(`Invalid pools: pool ${index + 1} does not match the route hop pool key.`, {
+        hop: index + 1,
+      });
+    }
+  });
+}
+
+export function resolveGasPricing(
+  { pricePool, gasPrice }: QuoteGasPricing,
+  currencyOut: Address,
+  wethAddress: Address,
+): PreparedGasPricing {
+  const isNativeCurrency = (currency: string) =>
+    currency.toLowerCase() === zeroAddress || currency.toLowerCase() === wethAddress.toLowerCase();
+
+  if (gasPrice !== undefined && gasPrice < 0n) {
+    throw new Error(`Invalid gasPricing.gasPrice: ${gasPrice}. Must be a non-negative value.`);
+  }
+
+  // Gas is paid in the native currency, so native and WETH outputs need no conversion.
+  if (isNativeCurrency(currencyOut)) {
+    return { gasPrice, toOutputAmount: (gasCost) => gasCost };
+  }
+
+  if (pricePool === undefined) {
+    throw new Error("Missing gasPricing.pricePool: required when the output currency is not native.");
+  }
+
+  const { currency0, currency1 } = pricePool.poolKey;
+  const normalizedCurrencyOut = currencyOut.toLowerCase();
+  const nativeCurrency =
+    currency0.toLowerCase() === normalizedCurrencyOut && isNativeCurrency(currency1)
+      ? pricePool.currency1
+      : currency1.toLowerCase() === normalizedCurrencyOut && isNativeCurrency(currency0)
+        ? pricePool.currency0
+        : undefined;
+
+  if (nativeCurrency === undefined) {
+    throw new Error("Invalid gasPricing.pricePool: must pair the native currency or WETH with the output currency.");
+  }
+
+  const nativePrice = pricePool.priceOf(nativeCurrency);
+  return {
+    gasPrice,
+    toOutputAmount: (gasCost) =>
+      BigInt(nativePrice.quote(CurrencyAmount.fromRawAmount(nativeCurrency, gasCost.toString())).quotient.toString()),
+  };
+}
@@ -0,0 +1,94 @@
+import type { Address, Hex } from "viem";
+
+import { utility, v4 } from "hookmate/abi";
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, parseAbi } from "viem";
+
+import { type ContractRevert, ContractRevertedError, SlippageExceededError } from "@/core/errors";
+
+/** Custom errors of the contracts the SDK talks to, plus v4's `CustomRevert` wrapper. */
+const REVERT_ABI = [
+  ...utility.UniversalRouterArtifact.abi,
+  ...v4.PositionManagerArtifact.abi,
+  ...v4.PoolManagerArtifact.abi,
+  ...v4.QuoterArtifact.abi,
+  ...utility.Permit2Artifact.abi,
+  ...parseAbi(["error WrappedError(address target, bytes4 selector, bytes reason, bytes details)"]),
+].filter((item) => item.type === "error");
+
+/** Router and PositionManager errors raised when an amount falls outside the caller's slippage bound. */
+const SLIPPAGE_ERRORS = new Set([
+  "V4TooLittleReceived",
+  "V4TooMuchRequested",
+  "V3TooLittleReceived",
+  "V3TooMuchRequested",
+  "V2TooLittleReceived",
+  "V2TooMuchRequested",
+  "MaximumAmountExceeded",
+  "MinimumAmountInsufficient",
+]);
+
+/**
+ * Decodes revert data, unwrapping Universal Router `ExecutionFailed`, Quoter `UnexpectedRevertBytes`
+ * and v4 `WrappedError` errors down to the error that caused them.
+ */
+export function decodeRevertData(data: Hex, target?: Address): ContractRevert {
+  if (data === "0x") {
+    return { data, reason: "Reverted without a reason.", target };
+  }
+
+  let decoded: { errorName: string; args?: readonly unknown[] };
+  try {
+    decoded = decodeErrorResult({ abi: REVERT_ABI, data });
+  } catch {
+    return { data, reason: `Unknown revert: ${data}`, target };
+  }
+
+  const { errorName, args = [] } = decoded;
+  if (errorName === "ExecutionFailed") {
+    return { ...decodeRevertData(args[1] as Hex, target), data };
+  }
+  if (errorName === "UnexpectedRevertBytes") {
+    return { ...decodeRevertData(args[0] as Hex, target), data };
+  }
+  if (errorName === "WrappedError") {
+    return { ...decodeRevertData(args[2] as Hex, args[0] as Address), data };
+  }
+
+  const reason = errorName === "Error" ? String(args[0]) : `${errorName}(${args.map(String).join(", ")})`;
+  return { data, errorName, args, reason, target };
+}
+
+/**
+ * Extracts the revert data carried by a viem call error, if any.
+ */
+export function getRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+
+  const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError && reverted.raw !== undefined) {
+    return reverted.raw;
+  }
+
+  const cause = error.walk() as { data?: unknown };
+  const data = typeof cause.data === "object" ? (cause.data as { data?: unknown } | null)?.data : cause.data;
+  return typeof data === "string" && data.startsWith("0x") ? (data as Hex) : undefined;
+}
+
+/**
+ * Wraps a decoded revert in its typed error: `SlippageExceededError` for slippage checks,
+ * otherwise `ErrorClass`.
+ */
+export function toRevertError(
+  message: string,
+  revert: ContractRevert,
+  cause?: unknown,
+  ErrorClass: typeof ContractRevertedError = ContractRevertedError,
+): ContractRevertedError {
+  if (revert.errorName !== undefined && SLIPPAGE_ERRORS.has(revert.errorName)) {
+    return new SlippageExceededError(message, revert, { cause });
+  }
+
+  return new ErrorClass(message, revert, { cause });
+}
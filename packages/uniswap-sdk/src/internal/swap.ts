@@ -2,6 +2,7 @@ import type { Address } from "viem";
 
 import { zeroAddress } from "viem";
 
+import { assertBasisPoints, BIPS_BASE } from "@/helpers/percent";
 import {
   mapRoute,
   resolveSwapRouteExactInput,
@@ -116,3 +117,37 @@ export function resolveSwapCurrencyMeta(args: ResolveSwapCurrencyMetaArgs): Swap
     resolvedCurrencyOut,
   };
 }
+
+export function assertSplitPercentages(percentages: readonly number[]): void {
+  if (percentages.length === 0) {
+    throw new Error("Invalid split routes: at least one route is required.");
+  }
+
+  let total = 0;
+  percentages.forEach((percentage, index) => {
+    assertBasisPoints(percentage, `split route ${index + 1} percentage`);
+    if (percentage === 0) {
+      throw new Error(`Invalid split route ${index + 1} percentage: 0. Must be greater than zero.`);
+    }
+    total += percentage;
+  });
+
+  if (total !== BIPS_BASE) {
+    throw new Error(`Invalid split routes: percentages add up to ${total}. Must add up to ${BIPS_BASE} basis points.`);
+  }
+}
+
+/**
+ * Splits `amount` by basis-point percentages. Every share is rounded down and the last share
+ * absorbs the rounding remainder, so the shares always add up to `amount`.
+ */
+export function splitAmountByPercentages(amount: bigint, percentages: readonly number[]): bigint[] {
+  let allocated = 0n;
+
+  return percentages.map((percentage, index) => {
+    const share =
+      index === percentages.length - 1 ? amount - allocated : (amount * BigInt(percentage)) / BigInt(BIPS_BASE);
+    allocated += share;
+    return share;
+  });
+}
@@ -0,0 +1,321 @@
+import type { Address } from "viem";
+
+import { CurrencyAmount } from "@uniswap/sdk-core";
+import { CommandType, ROUTER_AS_RECIPIENT, type RoutePlanner } from "@uniswap/universal-router-sdk";
+import { TickMath } from "@uniswap/v3-sdk";
+import { Actions, Pool, Position, V4Planner, V4PositionManager, V4PositionPlanner } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { HookAdapterRegistry } from "@/helpers/hookAdapters";
+
+import { encodeAddLiquidityHookData, encodeSwapRouteHookData } from "@/helpers/hookAdapters";
+import { BIPS_BASE, percentFromBips } from "@/helpers/percent";
+import { PoolWithFees } from "@/helpers/pools";
+import { sqrtPriceX96ToTick } from "@/helpers/prices";
+import { PoolTickDataProvider } from "@/helpers/ticks";
+import { withSwapFee } from "@/internal/localQuote";
+import { getPoolTickData } from "@/utils/getPoolTickData";
+
+const Q96 = 2n ** 96n;
+const FEE_BASE = 1_000_000n;
+
+interface ZapPlanArgs {
+  pool: Pool;
+  /** Amounts of currency0 and currency1 available to the position */
+  amount0: bigint;
+  amount1: bigint;
+  tickLower: number;
+  tickUpper: number;
+  /** Basis points applied to the swap output and to the mint's price range */
+  slippageTolerance: number;
+}
+
+/**
+ * Swap and mint that turn two currency amounts into a position over a range.
+ */
+export interface ZapPlan {
+  zeroForOne: boolean;
+  /** Exact input of the swap, 0 when the amounts already match the range */
+  swapAmount: bigint;
+  minAmountOut: bigint;
+  /** Liquidity to mint, payable from `amount0Max` / `amount1Max` at any price within the slippage tolerance */
+  liquidity: bigint;
+  amount0Max: bigint;
+  amount1Max: bigint;
+}
+
+interface SwapSimulation {
+  amountOut: bigint;
+  /** Pool state after the swap */
+  pool: Pool;
+}
+
+interface ZapCommandsArgs {
+  pool: Pool;
+  tickLower: number;
+  tickUpper: number;
+  plan: ZapPlan;
+  /** Owner of the new position and receiver of leftovers */
+  recipient: Address;
+  positionManager: Address;
+  deadline: bigint;
+  /** Adapters encoding the swap and mint hookData for the pool's hook, called without `hookArgs` */
+  hookAdapters?: HookAdapterRegistry;
+}
+
+/**
+ * Plans the swap that leaves `amount0` and `amount1` in the range's ratio at the post-swap price, and
+ * the liquidity the result can mint.
+ *
+ * Pools backed by `PoolTickDataProvider` simulate the swap across initialized ticks; other pools
+ * assume it stays within the current tick's liquidity.
+ */
+export async function planZap({
+  pool,
+  amount0,
+  amount1,
+  tickLower,
+  tickUpper,
+  slippageTolerance,
+}: ZapPlanArgs): Promise<ZapPlan> {
+  const sqrtLower = BigInt(TickMath.getSqrtRatioAtTick(tickLower).toString());
+  const sqrtUpper = BigInt(TickMath.getSqrtRatioAtTick(tickUpper).toString());
+  const [need0, need1] = getUnitAmounts(BigInt(pool.sqrtRatioX96.toString()), sqrtLower, sqrtUpper);
+
+  // Swap away from the currency held in excess of the range's ratio
+  const zeroForOne = amount0 * need1 > amount1 * need0;
+  const [amountIn, amountHeld] = zeroForOne ? [amount0, amount1] : [amount1, amount0];
+  const excess = zeroForOne ? amount0 * need1 - amount1 * need0 : amount1 * need0 - amount0 * need1;
+
+  let best = { swapAmount: 0n, amountOut: 0n, pool };
+  let [low, high] = [1n, excess > 0n ? amountIn : 0n];
+  while (low <= high) {
+    const swapAmount = (low + high) / 2n;
+    const simulation = await simulateSwap(pool, zeroForOne, swapAmount);
+    const [after0, after1] = getUnitAmounts(BigInt(simulation.pool.sqrtRatioX96.toString()), sqrtLower, sqrtUpper);
+    const [needIn, needOut] = zeroForOne ? [after0, after1] : [after1, after0];
+
+    if ((amountIn - swapAmount) * needOut >= (amountHeld + simulation.amountOut) * needIn) {
+      best = { swapAmount, ...simulation };
+      low = swapAmount + 1n;
+    } else {
+      high = swapAmount - 1n;
+    }
+  }
+
+  const minAmountOut = (best.amountOut * BigInt(BIPS_BASE - slippageTolerance)) / BigInt(BIPS_BASE);
+  // The mint can only spend what is held in the worst case of the swap
+  const [amount0Max, amount1Max] = zeroForOne
+    ? [amountIn - best.swapAmount, amountHeld + minAmountOut]
+    : [amountHeld + minAmountOut, amountIn - best.swapAmount];
+
+  return {
+    zeroForOne,
+    swapAmount: best.swapAmount,
+    minAmountOut,
+    liquidity: getMintLiquidity(best.pool, tickLower, tickUpper, amount0Max, amount1Max, slippageTolerance),
+    amount0Max,
+    amount1Max,
+  };
+}
+
+/**
+ * Adds the Universal Router commands that swap and mint a `ZapPlan` from currencies held by the router:
+ * a V4_SWAP when there is something to swap, a SWEEP of each token to the PositionManager, and a
+ * V4_POSITION_MANAGER_CALL that mints, settles from the PositionManager's balance and sweeps leftovers
+ * to the recipient. Native currency is forwarded with the V4_POSITION_MANAGER_CALL instead of swept.
+ * The swap and mint hookData come from the adapter registered for the pool's hook, if any.
+ */
+export function addZapCommands(
+  routePlanner: RoutePlanner,
+  { pool, tickLower, tickUpper, plan, recipient, positionManager, deadline, hookAdapters }: ZapCommandsArgs,
+): void {
+  const { zeroForOne, swapAmount, minAmountOut, liquidity, amount0Max, amount1Max } = plan;
+  const [currencyIn, currencyOut] = zeroForOne ? [pool.currency0, pool.currency1] : [pool.currency1, pool.currency0];
+  const { poolKey } = pool;
+
+  if (swapAmount > 0n) {
+    const swapPlanner = new V4Planner();
+    swapPlanner.addAction(Actions.SWAP_EXACT_IN_SINGLE, [
+      {
+        poolKey,
+        zeroForOne,
+        amountIn: swapAmount.toString(),
+        amountOutMinimum: minAmountOut.toString(),
+        hookData: encodeSwapRouteHookData(hookAdapters, [{ poolKey }], { recipient })[0] ?? "0x",
+      },
+    ]);
+    swapPlanner.addSettle(currencyIn, false);
+    swapPlanner.addTake(currencyOut, ROUTER_AS_RECIPIENT);
+    routePlanner.addCommand(CommandType.V4_SWAP, [swapPlanner.finalize()]);
+  }
+
+  const positionPlanner = new V4PositionPlanner();
+  positionPlanner.addMint(
+    pool,
+    tickLower,
+    tickUpper,
+    liquidity.toString(),
+    amount0Max.toString(),
+    amount1Max.toString(),
+    recipient,
+    encodeAddLiquidityHookData(hookAdapters, { poolKey, tickLower, tickUpper }),
+  );
+  // The PositionManager pays the pool from the balance the router moved to it
+  positionPlanner.addSettle(pool.currency0, false);
+  positionPlanner.addSettle(pool.currency1, false);
+  positionPlanner.addSweep(pool.currency0, recipient);
+  positionPlanner.addSweep(pool.currency1, recipient);
+
+  for (const currency of [pool.currency0, pool.currency1]) {
+    if (!currency.isNative) {
+      routePlanner.addCommand(CommandType.SWEEP, [currency.address, positionManager, "0"]);
+    }
+  }
+  routePlanner.addCommand(CommandType.V4_POSITION_MANAGER_CALL, [
+    V4PositionManager.encodeModifyLiquidities(positionPlanner.finalize(), deadline.toString()),
+  ]);
+}
+
+/**
+ * Returns the pool as a swap sees it once `removed` has left it, e.g. after the decrease or burn that
+ * precedes the swap in the same batch. Removed liquidity in range no longer backs the active liquidity.
+ *
+ * For hookless pools, the initialized ticks around the price are loaded with `getPoolTickData`, less the
+ * removed liquidity at its boundary ticks, dropping the ticks it was the only liquidity of. Hooked pools can
+ * change swaps in ways the ticks do not show, so they are returned without tick data.
+ */
+export async function getPoolAfterRemoval(
+  pool: PoolWithFees,
+  removed: Position,
+  wordRadius: number | undefined,
+  instance: UniswapSDKInstance,
+): Promise<PoolWithFees> {
+  const liquidity = BigInt(removed.liquidity.toString());
+  const inRange = removed.tickLower <= pool.tickCurrent && pool.tickCurrent < removed.tickUpper;
+  const activeLiquidity = BigInt(pool.liquidity.toString()) - (inRange ? liquidity : 0n);
+
+  let tickDataProvider: PoolTickDataProvider | undefined;
+  if (pool.hooks.toLowerCase() === zeroAddress) {
+    const tickData = await getPoolTickData(
+      { poolKey: pool.poolKey, tickCurrent: pool.tickCurrent, wordRadius },
+      instance,
+    );
+    const ticks = tickData.ticks.flatMap((tick) => {
+      if (tick.index !== removed.tickLower && tick.index !== removed.tickUpper) {
+        return [tick];
+      }
+      const liquidityGross = tick.liquidityGross - liquidity;
+      const liquidityNet =
+        tick.index === removed.tickLower ? tick.liquidityNet - liquidity : tick.liquidityNet + liquidity;
+      return liquidityGross > 0n ? [{ index: tick.index, liquidityGross, liquidityNet }] : [];
+    });
+    tickDataProvider = new PoolTickDataProvider({ ...tickData, ticks });
+  }
+
+  return new PoolWithFees(
+    { lpFee: pool.lpFee, protocolFee: pool.protocolFee },
+    pool.currency0,
+    pool.currency1,
+    pool.fee,
+    pool.tickSpacing,
+    pool.hooks,
+    pool.sqrtRatioX96.toString(),
+    (activeLiquidity > 0n ? activeLiquidity : 0n).toString(),
+    pool.tickCurrent,
+    tickDataProvider,
+  );
+}
+
+/**
+ * Simulates an exact-input swap at the pool's swap fee. Pools backed by `PoolTickDataProvider` are swapped
+ * through their initialized ticks; otherwise the pool's active liquidity is assumed to cover the whole swap,
+ * and a pool without active liquidity fills nothing.
+ */
+async function simulateSwap(poolWithFees: Pool, zeroForOne: boolean, amountIn: bigint): Promise<SwapSimulation> {
+  const pool = withSwapFee(poolWithFees, zeroForOne);
+  if (pool.tickDataProvider instanceof PoolTickDataProvider) {
+    const [outputAmount, poolAfterSwap] = await pool.getOutputAmount(
+      CurrencyAmount.fromRawAmount(zeroForOne ? pool.currency0 : pool.currency1, amountIn.toString()),
+    );
+    return { amountOut: BigInt(outputAmount.quotient.toString()), pool: poolAfterSwap };
+  }
+
+  const liquidity = BigInt(pool.liquidity.toString());
+  if (liquidity === 0n) {
+    return { amountOut: 0n, pool: poolWithFees };
+  }
+
+  const sqrtPrice = BigInt(pool.sqrtRatioX96.toString());
+  const amountInLessFee = (amountIn * (FEE_BASE - BigInt(pool.fee))) / FEE_BASE;
+
+  let sqrtPriceAfter: bigint;
+  let amountOut: bigint;
+  if (zeroForOne) {
+    const numerator = liquidity * Q96 * sqrtPrice;
+    const denominator = liquidity * Q96 + amountInLessFee * sqrtPrice;
+    sqrtPriceAfter = (numerator + denominator - 1n) / denominator;
+    amountOut = (liquidity * (sqrtPrice - sqrtPriceAfter)) / Q96;
+  } else {
+    sqrtPriceAfter = sqrtPrice + (amountInLessFee * Q96) / liquidity;
+    amountOut = (liquidity * Q96 * (sqrtPriceAfter - sqrtPrice)) / sqrtPriceAfter / sqrtPrice;
+  }
+
+  return {
+    amountOut,
+    pool: new Pool(
+      pool.currency0,
+      pool.currency1,
+      pool.fee,
+      pool.tickSpacing,
+      pool.hooks,
+      sqrtPriceAfter.toString(),
+      liquidity.toString(),
+      sqrtPriceX96ToTick(sqrtPriceAfter),
+    ),
+  };
+}
+
+/**
+ * Token amounts per `Q96` units of liquidity in a range at a price, without rounding to integers.
+ */
+function getUnitAmounts(sqrtPrice: bigint, sqrtLower: bigint, sqrtUpper: bigint): [bigint, bigint] {
+  const price = sqrtPrice < sqrtLower ? sqrtLower : sqrtPrice > sqrtUpper ? sqrtUpper : sqrtPrice;
+  return [(Q96 * Q96 * (sqrtUpper - price)) / sqrtUpper / price, price - sqrtLower];
+}
+
+/**
+ * Liquidity that `amount0Max` / `amount1Max` can pay for at any price within the slippage tolerance.
+ */
+export function getMintLiquidity(
+  pool: Pool,
+  tickLower: number,
+  tickUpper: number,
+  amount0Max: bigint,
+  amount1Max: bigint,
+  slippageTolerance: number,
+): bigint {
+  const position = Position.fromAmounts({
+    pool,
+    tickLower,
+    tickUpper,
+    amount0: amount0Max.toString(),
+    amount1: amount1Max.toString(),
+    useFullPrecision: true,
+  });
+  const liquidity = BigInt(position.liquidity.toString());
+  const worstCase = position.mintAmountsWithSlippage(percentFromBips(slippageTolerance));
+
+  // Amounts scale linearly with liquidity, so shrink it until the worst case fits both maximums
+  let scaled = liquidity;
+  for (const [available, required] of [
+    [amount0Max, BigInt(worstCase.amount0.toString())],
+    [amount1Max, BigInt(worstCase.amount1.toString())],
+  ] as const) {
+    if (required > available && (liquidity * available) / required < scaled) {
+      scaled = (liquidity * available) / required;
+    }
+  }
+  return scaled;
+}
@@ -5,14 +5,16 @@ import { encodeSqrtRatioX96, nearestUsableTick, TickMath } from "@uniswap/v3-sdk
 import { Position, V4PositionManager } from "@uniswap/v4-sdk";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
+import type { AddLiquidityHookArgs, HookAdapterRegistry } from "@/helpers/hookAdapters";
 
+import { encodeAddLiquidityHookData } from "@/helpers/hookAdapters";
 import { assertBasisPoints, percentFromBips } from "@/helpers/percent";
 import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
 
 /**
  * Parameters for building add liquidity call data.
  */
-export interface BuildAddLiquidityArgs {
+export interface BuildAddLiquidityArgs<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> {
   /**
    * The Uniswap v4 pool to add liquidity to.
    */
@@ -62,6 +64,11 @@ export interface BuildAddLiquidityArgs {
    * Optional Permit2 batch signature for token approvals.
    */
   permit2BatchSignature?: BatchPermitOptions;
+
+  /**
+   * Arguments for the hook adapter registered for the pool's hook.
+   */
+  hookArgs?: AddLiquidityHookArgs<TRegistry>;
 }
 
 /**
@@ -101,7 +108,8 @@ export interface BuildAddLiquidityCallDataResult extends BuildCallDataResult {}
  * - The amounts must be in the same decimals as the pool's currency0 and currency1.
  *
  * The function also supports optional parameters for tick range, slippage tolerance,
- * deadline, and Permit2 batch signature for token approvals.
+ * deadline, and Permit2 batch signature for token approvals. If the pool's hook has an adapter in the
+ * instance's `hookAdapters`, the mint's hookData is encoded by it with `hookArgs`.
  *
  * @param params - The full set of parameters for building the add liquidity calldata.
  * @param instance - UniswapSDKInstance providing access to the connected RPC client.
@@ -113,6 +121,7 @@ export interface BuildAddLiquidityCallDataResult extends BuildCallDataResult {}
  * @throws If neither `amount0` nor `amount1` is provided.
  * @throws If the pool has no liquidity and only one of the amounts is provided.
  * @throws If tick bounds or permit2 data is invalid during calldata generation.
+ * @throws If `hookArgs` is provided but no hook adapter encodes add-liquidity hookData for the pool.
  * @example
  * ```typescript
  * const params = {
@@ -148,6 +157,7 @@ export async function buildAddLiquidityCallData(
     slippageTolerance = instance.defaultSlippageTolerance,
     deadlineDuration,
     permit2BatchSignature,
+    hookArgs,
   } = params;
 
   assertBasisPoints(slippageTolerance, "slippageTolerance");
@@ -222,6 +232,13 @@ export async function buildAddLiquidityCallData(
     throw new Error("Invalid input: at least one of amount0 or amount1 must be defined.");
   }
 
+  const hookData = encodeAddLiquidityHookData(instance.hookAdapters, {
+    poolKey: pool.poolKey,
+    tickLower,
+    tickUpper,
+    hookArgs,
+  });
+
   return V4PositionManager.addCallParameters(position, {
     recipient,
     deadline: deadline.toString(),
@@ -230,5 +247,6 @@ export async function buildAddLiquidityCallData(
     sqrtPriceX96,
     useNative: pool.currency0.isNative ? pool.currency0 : undefined, // Only token0 can be native
     batchPermit: permit2BatchSignature,
+    hookData,
   });
 }
@@ -3,8 +3,10 @@ import type { Address } from "viem";
 import { V4PositionManager } from "@uniswap/v4-sdk";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
+import type { HookAdapterRegistry, RemoveLiquidityHookArgs } from "@/helpers/hookAdapters";
 import type { BuildCallDataResult } from "@/utils/buildAddLiquidityCallData";
 
+import { encodeRemoveLiquidityHookData } from "@/helpers/hookAdapters";
 import { percentFromBips } from "@/helpers/percent";
 import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
 import { getPosition } from "@/utils/getPosition";
@@ -12,7 +14,7 @@ import { getPosition } from "@/utils/getPosition";
 /**
  * Parameters required to build the calldata for collecting fees from a Uniswap v4 position.
  */
-export interface BuildCollectFeesCallDataArgs {
+export interface BuildCollectFeesCallDataArgs<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> {
   /**
    * The tokenId of the position to collect fees from.
    */
@@ -28,10 +30,17 @@ export interface BuildCollectFeesCallDataArgs {
    * Defaults to the SDK instance's defaultDeadline (600 = 10 minutes).
    */
   deadlineDuration?: number;
+
+  /**
+   * Arguments for the hook adapter registered for the pool's hook. Collecting is a zero-liquidity
+   * decrease, so the adapter's `encodeRemoveLiquidityHookData` encodes it.
+   */
+  hookArgs?: RemoveLiquidityHookArgs<TRegistry>;
 }
 
 /**
  * Builds the calldata and value required to collect fees from a Uniswap v4 position.
+ * If the pool's hook has an adapter in the instance's `hookAdapters`, the hookData is encoded by it.
  *
  * @param params - The parameters for collecting fees.
  * @param instance - UniswapSDKInstance for accessing pool state.
@@ -53,18 +62,25 @@ export interface BuildCollectFeesCallDataArgs {
  * ```
  */
 export async function buildCollectFeesCallData(
-  { tokenId, recipient, deadlineDuration }: BuildCollectFeesCallDataArgs,
+  { tokenId, recipient, deadlineDuration, hookArgs }: BuildCollectFeesCallDataArgs,
   instance: UniswapSDKInstance,
 ): Promise<BuildCallDataResult> {
-  const positionData = await getPosition(tokenId, instance, { allowZeroLiquidity: true });
+  const { position } = await getPosition(tokenId, instance, { allowZeroLiquidity: true });
+  const hookData = encodeRemoveLiquidityHookData(instance.hookAdapters, {
+    poolKey: position.pool.poolKey,
+    tickLower: position.tickLower,
+    tickUpper: position.tickUpper,
+    tokenId,
+    hookArgs,
+  });
 
   const deadline = (await getDefaultDeadline(instance, deadlineDuration)).toString();
 
-  return V4PositionManager.collectCallParameters(positionData.position, {
+  return V4PositionManager.collectCallParameters(position, {
     tokenId,
     recipient,
     slippageTolerance: percentFromBips(0),
     deadline,
-    hookData: "0x",
+    hookData: hookData ?? "0x",
   });
 }
@@ -0,0 +1,133 @@
+import type { Address } from "viem";
+
+import { DYNAMIC_FEE_FLAG, type PoolKey, V4PositionManager } from "@uniswap/v4-sdk";
+import { v4 } from "hookmate/abi";
+import { encodeFunctionData } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { BuildCallDataResult } from "@/utils/buildAddLiquidityCallData";
+
+import { priceToSqrtPriceX96, sqrtPriceX96ToTick } from "@/helpers/prices";
+import { getTokens } from "@/utils/getTokens";
+
+const MAX_LP_FEE = 1_000_000;
+const MAX_TICK_SPACING = 32_767;
+
+interface BuildInitializePoolCallDataCommonArgs {
+  /** Key of the pool to create */
+  poolKey: PoolKey;
+  /**
+   * Contract that initializes the pool. `positionManager` (default) calls `initializePool`, which does not
+   * revert for a pool that is already initialized and can be batched with a mint. `poolManager` calls
+   * `initialize` directly and reverts for an initialized pool.
+   */
+  target?: "positionManager" | "poolManager";
+}
+
+interface BuildInitializePoolCallDataInitialPriceArgs extends BuildInitializePoolCallDataCommonArgs {
+  /**
+   * Starting price of currency0 in units of currency1 as a decimal string, e.g. `"3000"` for
+   * 1 WETH = 3000 USDC. Converted with the decimals of both currencies.
+   */
+  initialPrice: string;
+  sqrtPriceX96?: never;
+}
+
+interface BuildInitializePoolCallDataSqrtPriceArgs extends BuildInitializePoolCallDataCommonArgs {
+  /** Starting Q64.96 square root price */
+  sqrtPriceX96: bigint;
+  initialPrice?: never;
+}
+
+export type BuildInitializePoolCallDataArgs =
+  | BuildInitializePoolCallDataInitialPriceArgs
+  | BuildInitializePoolCallDataSqrtPriceArgs;
+
+export interface BuildInitializePoolCallDataResult extends BuildCallDataResult {
+  /** Address of the contract to send the calldata to */
+  to: Address;
+  /** Starting square root price of the pool */
+  sqrtPriceX96: bigint;
+  /** Starting tick of the pool */
+  tick: number;
+}
+
+/**
+ * Builds the calldata that creates a v4 pool at a starting price without adding liquidity, e.g. for hook
+ * launchers that create pools before anyone provides liquidity.
+ *
+ * Use `getPoolInitializationStatus` to check whether the pool already exists.
+ *
+ * @param params - Pool key, starting price as `initialPrice` or `sqrtPriceX96`, and the target contract
+ * @param instance - UniswapSDKInstance
+ * @returns Calldata, value and target address, with the starting sqrtPriceX96 and tick
+ * @throws Error if the pool key or the price is invalid
+ *
+ * @example
+ * ```ts
+ * const { to, calldata, value } = await buildInitializePoolCallData({
+ *   poolKey: { currency0: WETH, currency1: USDC, fee: 3000, tickSpacing: 60, hooks: HOOKS },
+ *   initialPrice: "3000",
+ * }, instance);
+ *
+ * const tx = await sendTransaction({ to, data: calldata, value: BigInt(value) });
+ * ```
+ */
+export async function buildInitializePoolCallData(
+  params: BuildInitializePoolCallDataArgs,
+  instance: UniswapSDKInstance,
+): Promise<BuildInitializePoolCallDataResult> {
+  const { poolKey, target = "positionManager" } = params;
+  assertPoolKey(poolKey);
+
+  let sqrtPriceX96: bigint;
+  if (params.initialPrice !== undefined) {
+    const [currency0, currency1] = await getTokens(
+      { addresses: [poolKey.currency0 as Address, poolKey.currency1 as Address] },
+      instance,
+    );
+    sqrtPriceX96 = priceToSqrtPriceX96(params.initialPrice, currency0.decimals, currency1.decimals);
+  } else if (params.sqrtPriceX96 !== undefined) {
+    sqrtPriceX96 = params.sqrtPriceX96;
+  } else {
+    throw new Error("Missing starting price: provide either initialPrice or sqrtPriceX96.");
+  }
+
+  const tick = sqrtPriceX96ToTick(sqrtPriceX96);
+
+  if (target === "poolManager") {
+    const calldata = encodeFunctionData({
+      abi: v4.PoolManagerArtifact.abi,
+      functionName: "initialize",
+      args: [
+        {
+          currency0: poolKey.currency0 as Address,
+          currency1: poolKey.currency1 as Address,
+          fee: poolKey.fee,
+          tickSpacing: poolKey.tickSpacing,
+          hooks: poolKey.hooks as Address,
+        },
+        sqrtPriceX96,
+      ],
+    });
+
+    return { to: instance.contracts.poolManager, calldata, value: "0", sqrtPriceX96, tick };
+  }
+
+  const { calldata, value } = V4PositionManager.createCallParameters(poolKey, sqrtPriceX96.toString());
+  return { to: instance.contracts.positionManager, calldata, value, sqrtPriceX96, tick };
+}
+
+function assertPoolKey({ currency0, currency1, fee, tickSpacing }: PoolKey): void {
+  if (BigInt(currency0) >= BigInt(currency1)) {
+    throw new Error(`Invalid poolKey: currency0 (${currency0}) must sort before currency1 (${currency1}).`);
+  }
+
+  if (fee !== DYNAMIC_FEE_FLAG && (!Number.isInteger(fee) || fee < 0 || fee > MAX_LP_FEE)) {
+    throw new Error(`Invalid poolKey fee: ${fee}. Must be at most ${MAX_LP_FEE} or the dynamic fee flag.`);
+  }
+
+  if (!Number.isInteger(tickSpacing) || tickSpacing < 1 || tickSpacing > MAX_TICK_SPACING) {
+    throw new Error(`Invalid poolKey tickSpacing: ${tickSpacing}. Must be an integer from 1 to ${MAX_TICK_SPACING}.`);
+  }
+}
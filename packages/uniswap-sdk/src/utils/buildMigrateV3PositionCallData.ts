@@ -0,0 +1,402 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+
+import { CurrencyAmount, NONFUNGIBLE_POSITION_MANAGER_ADDRESSES, Percent, type Token } from "@uniswap/sdk-core";
+import { CommandType, RoutePlanner } from "@uniswap/universal-router-sdk";
+import {
+  computePoolAddress,
+  Multicall,
+  NonfungiblePositionManager,
+  Pool as V3Pool,
+  Position as V3Position,
+} from "@uniswap/v3-sdk";
+import { Position, V4PositionManager } from "@uniswap/v4-sdk";
+import { utility } from "hookmate/abi";
+import { type Address, encodeFunctionData, type Hex, isHex, parseSignature } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { BuildCallDataResult } from "@/utils/buildAddLiquidityCallData";
+
+import { PositionNotFoundError } from "@/core/errors";
+import { encodeAddLiquidityHookData } from "@/helpers/hookAdapters";
+import { assertBasisPoints, percentFromBips } from "@/helpers/percent";
+import { getMintLiquidity } from "@/internal/zap";
+import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
+import { getPool } from "@/utils/getPool";
+import { getTokens } from "@/utils/getTokens";
+
+/**
+ * Parameters for migrating a Uniswap v3 position into a v4 pool.
+ */
+export interface BuildMigrateV3PositionCallDataArgs {
+  /** The NFT token ID of the v3 position. All of its liquidity and fees are migrated. */
+  v3TokenId: string;
+  /** Key of the v4 pool to mint into. Must hold the v3 position's tokens, with native ETH in place of WETH. */
+  v4PoolKey: PoolKey;
+  /** Lower tick boundary of the v4 position. Must be a multiple of the v4 pool's tick spacing. */
+  tickLower: number;
+  /** Upper tick boundary of the v4 position. Must be a multiple of the v4 pool's tick spacing. */
+  tickUpper: number;
+  /** Address that receives the v4 position NFT and any leftover tokens. Defaults to the v3 position's owner. */
+  recipient?: Address;
+  /**
+   * Maximum acceptable slippage for the v3 removal and the v4 mint (in basis points).
+   * Defaults to the SDK instance's `defaultSlippageTolerance`.
+   */
+  slippageTolerance?: number;
+  /** Deadline duration in seconds from now, for the transaction and the permit. Defaults to the SDK instance's `defaultDeadline`. */
+  deadlineDuration?: number;
+  /**
+   * Address of the v3 NonfungiblePositionManager. Defaults to the canonical deployment for the chain, which is
+   * the one the Universal Router is configured with.
+   */
+  v3PositionManager?: Address;
+}
+
+export interface BuildMigrateV3PositionCallDataResult extends BuildCallDataResult {
+  /** Owner of the v3 position, who must sign the permit or send the transaction */
+  owner: Address;
+  /** Liquidity of the v4 position */
+  liquidity: bigint;
+  /** Maximum amounts of the v4 pool's currency0 and currency1 the mint may spend */
+  amount0Max: bigint;
+  amount1Max: bigint;
+  /** EIP-712 data for the v3 position permit that lets the Universal Router remove the position */
+  toSign: {
+    /** Domain of the v3 NonfungiblePositionManager */
+    domain: {
+      name: string;
+      version: string;
+      chainId: number;
+      verifyingContract: Address;
+    };
+    /** Types of the permit data */
+    types: Record<"Permit", { name: string; type: string }[]>;
+    /** Values of the permit data */
+    values: V3PositionPermit;
+    /** Primary type of the permit data */
+    primaryType: "Permit";
+    /** Message of the permit data (Permit values for wagmi signTypedData) */
+    message: V3PositionPermit;
+  };
+  /** Builds the migration calldata that applies the signed permit before removing the position */
+  buildCallDataWithSignature: (signature: Hex) => BuildCallDataResult;
+}
+
+/**
+ * ERC-721 permit of the v3 NonfungiblePositionManager. A type alias, so that it can be passed as
+ * typed-data `message` to viem.
+ */
+export type V3PositionPermit = {
+  spender: Address;
+  tokenId: bigint;
+  nonce: bigint;
+  deadline: bigint;
+};
+
+const V3_POSITION_PERMIT_TYPES: BuildMigrateV3PositionCallDataResult["toSign"]["types"] = {
+  Permit: [
+    { name: "spender", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const v3PositionManagerAbi = [
+  {
+    name: "positions",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tokenId", type: "uint256" }],
+    outputs: [
+      { name: "nonce", type: "uint96" },
+      { name: "operator", type: "address" },
+      { name: "token0", type: "address" },
+      { name: "token1", type: "address" },
+      { name: "fee", type: "uint24" },
+      { name: "tickLower", type: "int24" },
+      { name: "tickUpper", type: "int24" },
+      { name: "liquidity", type: "uint128" },
+      { name: "feeGrowthInside0LastX128", type: "uint256" },
+      { name: "feeGrowthInside1LastX128", type: "uint256" },
+      { name: "tokensOwed0", type: "uint128" },
+      { name: "tokensOwed1", type: "uint128" },
+    ],
+  },
+  {
+    name: "ownerOf",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tokenId", type: "uint256" }],
+    outputs: [{ name: "owner", type: "address" }],
+  },
+  {
+    name: "factory",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "factory", type: "address" }],
+  },
+  {
+    name: "permit",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "tokenId", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+const v3PoolAbi = [
+  {
+    name: "slot0",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "sqrtPriceX96", type: "uint160" },
+      { name: "tick", type: "int24" },
+      { name: "observationIndex", type: "uint16" },
+      { name: "observationCardinality", type: "uint16" },
+      { name: "observationCardinalityNext", type: "uint16" },
+      { name: "feeProtocol", type: "uint8" },
+      { name: "unlocked", type: "bool" },
+    ],
+  },
+  {
+    name: "liquidity",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "liquidity", type: "uint128" }],
+  },
+] as const;
+
+/**
+ * Builds a Universal Router transaction that migrates a Uniswap v3 position into a v4 pool.
+ *
+ * The transaction removes all of the v3 position's liquidity, collects its tokens and fees to the v4
+ * PositionManager and burns the v3 NFT with V3_POSITION_MANAGER_CALL commands, then mints the v4
+ * position from the PositionManager's balance with a V4_POSITION_MANAGER_CALL. WETH is unwrapped
+ * when the v4 pool uses native ETH, and any leftover is swept to the recipient.
+ *
+ * The v4 position is sized from the amounts the removal guarantees at the slippage tolerance plus
+ * the fees the v3 position has recorded, so that it stays payable at any price within the tolerance.
+ * If the v4 pool's hook has an adapter in the instance's `hookAdapters`, it encodes the mint hookData,
+ * called without `hookArgs`.
+ *
+ * The Universal Router needs approval for the v3 NFT. Either approve it beforehand and send `calldata`,
+ * or sign `toSign` and send the calldata from `buildCallDataWithSignature`, which adds a
+ * V3_POSITION_MANAGER_PERMIT command:
+ * ```typescript
+ * const migration = await buildMigrateV3PositionCallData({ v3TokenId, v4PoolKey, tickLower, tickUpper }, instance)
+ * const signature = await walletClient.signTypedData({
+ *   domain: migration.toSign.domain,
+ *   types: migration.toSign.types,
+ *   primaryType: migration.toSign.primaryType,
+ *   message: migration.toSign.message,
+ * })
+ * const { calldata, value } = migration.buildCallDataWithSignature(signature)
+ * ```
+ *
+ * @param params - v3 position, v4 pool key and tick range, optional recipient, slippage and deadline
+ * @param instance - UniswapSDKInstance
+ * @returns Calldata and value for the Universal Router, the v3 permit to sign and the planned v4 mint
+ * @throws PositionNotFoundError if the v3 position doesn't exist
+ * @throws PoolNotFoundError if the v4 pool is not initialized
+ * @throws Error if the parameters are invalid, the pools' currencies don't match or the position is too small
+ */
+export async function buildMigrateV3PositionCallData(
+  params: BuildMigrateV3PositionCallDataArgs,
+  instance: UniswapSDKInstance,
+): Promise<BuildMigrateV3PositionCallDataResult> {
+  const {
+    v3TokenId,
+    v4PoolKey,
+    tickLower,
+    tickUpper,
+    recipient: recipientParam,
+    slippageTolerance = instance.defaultSlippageTolerance,
+    deadlineDuration,
+    v3PositionManager = NONFUNGIBLE_POSITION_MANAGER_ADDRESSES[instance.chainId] as Address | undefined,
+  } = params;
+  const { client, chainId, contracts } = instance;
+
+  assertBasisPoints(slippageTolerance, "slippageTolerance");
+  if (!v3PositionManager) {
+    throw new Error(`No v3 NonfungiblePositionManager known for chain ${chainId}. Pass v3PositionManager.`);
+  }
+  if (tickLower >= tickUpper) {
+    throw new Error(`tickLower (${tickLower}) must be less than tickUpper (${tickUpper}).`);
+  }
+  if (tickLower % v4PoolKey.tickSpacing !== 0) {
+    throw new Error(`tickLower (${tickLower}) is not a multiple of tickSpacing (${v4PoolKey.tickSpacing}).`);
+  }
+  if (tickUpper % v4PoolKey.tickSpacing !== 0) {
+    throw new Error(`tickUpper (${tickUpper}) is not a multiple of tickSpacing (${v4PoolKey.tickSpacing}).`);
+  }
+
+  const [positionResult, ownerResult, factory] = await client.multicall({
+    contracts: [
+      { address: v3PositionManager, abi: v3PositionManagerAbi, functionName: "positions", args: [BigInt(v3TokenId)] },
+      { address: v3PositionManager, abi: v3PositionManagerAbi, functionName: "ownerOf", args: [BigInt(v3TokenId)] },
+      { address: v3PositionManager, abi: v3PositionManagerAbi, functionName: "factory" },
+    ],
+  });
+  // positions() and ownerOf() revert for unminted and burned tokens
+  if (positionResult.status === "failure" || ownerResult.status === "failure") {
+    throw new PositionNotFoundError(v3TokenId, { cause: positionResult.error ?? ownerResult.error });
+  }
+  if (factory.status === "failure") {
+    throw new Error(`Failed to fetch the v3 factory from ${v3PositionManager}`, { cause: factory.error });
+  }
+  const [nonce, , token0Address, token1Address, fee, v3TickLower, v3TickUpper, v3Liquidity, , , owed0, owed1] =
+    positionResult.result;
+  const owner = ownerResult.result;
+  const recipient = recipientParam ?? owner;
+
+  const [[token0, token1], v4Pool, deadline] = await Promise.all([
+    getTokens({ addresses: [token0Address, token1Address] }, instance) as Promise<[Token, Token]>,
+    getPool(v4PoolKey, instance),
+    getDefaultDeadline(instance, deadlineDuration),
+  ]);
+
+  // v4 pools hold native ETH where v3 pools hold WETH
+  const v4Tokens = [v4Pool.currency0, v4Pool.currency1].map((currency) =>
+    (currency.isNative ? contracts.weth : currency.address).toLowerCase(),
+  );
+  const v3Tokens = [token0.address.toLowerCase(), token1.address.toLowerCase()];
+  if (!v4Tokens.every((token) => v3Tokens.includes(token)) || v4Tokens[0] === v4Tokens[1]) {
+    throw new Error(`v4 pool currencies do not match the tokens of v3 position ${v3TokenId}.`);
+  }
+
+  const v3PoolAddress = computePoolAddress({ factoryAddress: factory.result, tokenA: token0, tokenB: token1, fee });
+  const [[sqrtPriceX96, tick], poolLiquidity] = await client.multicall({
+    allowFailure: false,
+    contracts: [
+      { address: v3PoolAddress as Address, abi: v3PoolAbi, functionName: "slot0" },
+      { address: v3PoolAddress as Address, abi: v3PoolAbi, functionName: "liquidity" },
+    ],
+  });
+  const v3Position = new V3Position({
+    pool: new V3Pool(token0, token1, fee, sqrtPriceX96.toString(), poolLiquidity.toString(), tick),
+    liquidity: v3Liquidity.toString(),
+    tickLower: v3TickLower,
+    tickUpper: v3TickUpper,
+  });
+
+  const slippagePercent = percentFromBips(slippageTolerance);
+  const removeParams = NonfungiblePositionManager.removeCallParameters(v3Position, {
+    tokenId: v3TokenId,
+    liquidityPercentage: new Percent(1),
+    slippageTolerance: slippagePercent,
+    deadline: deadline.toString(),
+    burnToken: true,
+    collectOptions: {
+      expectedCurrencyOwed0: CurrencyAmount.fromRawAmount(token0, owed0.toString()),
+      expectedCurrencyOwed1: CurrencyAmount.fromRawAmount(token1, owed1.toString()),
+      recipient: contracts.positionManager,
+    },
+  });
+
+  // The mint can only spend what the removal guarantees plus the fees the position has recorded
+  const { amount0: amount0Min, amount1: amount1Min } = v3Position.burnAmountsWithSlippage(slippagePercent);
+  const v3Amounts = [BigInt(amount0Min.toString()) + owed0, BigInt(amount1Min.toString()) + owed1];
+  const [amount0Available, amount1Available] = v4Tokens.map((token) => v3Amounts[v3Tokens.indexOf(token)]!) as [
+    bigint,
+    bigint,
+  ];
+
+  const liquidity = getMintLiquidity(
+    v4Pool,
+    tickLower,
+    tickUpper,
+    amount0Available,
+    amount1Available,
+    slippageTolerance,
+  );
+  if (liquidity === 0n) {
+    throw new Error(`v3 position ${v3TokenId} is too small to mint liquidity in the v4 range.`);
+  }
+  const v4Position = new Position({ pool: v4Pool, liquidity: liquidity.toString(), tickLower, tickUpper });
+  const { amount0: amount0Max, amount1: amount1Max } = v4Position.mintAmountsWithSlippage(slippagePercent);
+
+  // Without a permit or createPool option, the mint encodes to a single modifyLiquidities call
+  const { calldata: mintCalldata } = V4PositionManager.addCallParameters(v4Position, {
+    recipient,
+    deadline: deadline.toString(),
+    slippageTolerance: slippagePercent,
+    migrate: true,
+    useNative: v4Pool.currency0.isNative ? v4Pool.currency0 : undefined,
+    hookData: encodeAddLiquidityHookData(instance.hookAdapters, { poolKey: v4Pool.poolKey, tickLower, tickUpper }),
+  });
+
+  const encodeMigration = (permitCalldata?: Hex): BuildCallDataResult => {
+    const routePlanner = new RoutePlanner();
+    if (permitCalldata) {
+      routePlanner.addCommand(CommandType.V3_POSITION_MANAGER_PERMIT, [permitCalldata]);
+    }
+    for (const v3Call of Multicall.decodeMulticall(removeParams.calldata)) {
+      routePlanner.addCommand(CommandType.V3_POSITION_MANAGER_CALL, [v3Call]);
+    }
+    routePlanner.addCommand(CommandType.V4_POSITION_MANAGER_CALL, [mintCalldata]);
+
+    if (!isHex(routePlanner.commands) || !routePlanner.inputs.every((input) => isHex(input))) {
+      throw new Error("Invalid encoded route planner commands.");
+    }
+
+    return {
+      calldata: encodeFunctionData({
+        abi: utility.UniversalRouterArtifact.abi,
+        functionName: "execute",
+        args: [routePlanner.commands, routePlanner.inputs, deadline],
+      }),
+      value: "0",
+    };
+  };
+
+  const permit: V3PositionPermit = {
+    spender: contracts.universalRouter,
+    tokenId: BigInt(v3TokenId),
+    nonce,
+    deadline,
+  };
+
+  const buildCallDataWithSignature = (signature: Hex): BuildCallDataResult => {
+    const { r, s, v, yParity } = parseSignature(signature);
+    return encodeMigration(
+      encodeFunctionData({
+        abi: v3PositionManagerAbi,
+        functionName: "permit",
+        args: [permit.spender, permit.tokenId, permit.deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+      }),
+    );
+  };
+
+  return {
+    ...encodeMigration(),
+    owner,
+    liquidity,
+    amount0Max: BigInt(amount0Max.toString()),
+    amount1Max: BigInt(amount1Max.toString()),
+    toSign: {
+      domain: {
+        name: "Uniswap V3 Positions NFT-V1",
+        version: "1",
+        chainId,
+        verifyingContract: v3PositionManager,
+      },
+      types: V3_POSITION_PERMIT_TYPES,
+      values: permit,
+      primaryType: "Permit",
+      message: permit,
+    },
+    buildCallDataWithSignature,
+  };
+}
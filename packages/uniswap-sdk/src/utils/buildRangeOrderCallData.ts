@@ -0,0 +1,143 @@
+import type { Currency, Price } from "@uniswap/sdk-core";
+import type { BatchPermitOptions, PoolKey } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+
+import { nearestUsableTick, TickMath } from "@uniswap/v3-sdk";
+import { Position, priceToClosestTick, V4PositionManager } from "@uniswap/v4-sdk";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { BuildCallDataResult } from "@/utils/buildAddLiquidityCallData";
+
+import { encodeAddLiquidityHookData } from "@/helpers/hookAdapters";
+import { assertBasisPoints, percentFromBips } from "@/helpers/percent";
+import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
+import { getPool } from "@/utils/getPool";
+
+/**
+ * Parameters for placing a range order.
+ */
+export interface BuildRangeOrderCallDataArgs {
+  /** Key of the pool to place the order in */
+  poolKey: PoolKey;
+  /** Currency to sell. Must be one of the pool's currencies. */
+  sellCurrency: Address;
+  /** Amount of `sellCurrency` to sell */
+  amount: bigint;
+  /**
+   * Price at which the order starts filling, in either orientation of the pool's currencies.
+   * It is snapped to the nearest usable tick.
+   */
+  targetPrice: Price<Currency, Currency>;
+  /** Address that receives the position NFT */
+  recipient: Address;
+  /**
+   * Maximum acceptable slippage for the mint (in basis points).
+   * Defaults to the SDK instance's `defaultSlippageTolerance`.
+   */
+  slippageTolerance?: number;
+  /** Deadline duration in seconds from now. Defaults to the SDK instance's `defaultDeadline`. */
+  deadlineDuration?: number;
+  /** Optional Permit2 batch signature approving the PositionManager to pull `sellCurrency` */
+  permit2BatchSignature?: BatchPermitOptions;
+}
+
+export interface BuildRangeOrderCallDataResult extends BuildCallDataResult {
+  /** Lower tick of the order's position */
+  tickLower: number;
+  /** Upper tick of the order's position */
+  tickUpper: number;
+  /** Liquidity of the order's position */
+  liquidity: bigint;
+}
+
+/**
+ * Builds PositionManager calldata that places a range order: a single-sided position one tick
+ * spacing wide, just beyond the current price, that converts `sellCurrency` into the pool's other
+ * currency as the price crosses it.
+ *
+ * The target price is snapped with `nearestUsableTick`. A currency0 order covers
+ * `[targetTick, targetTick + tickSpacing]` and fills as the price rises; a currency1 order covers
+ * `[targetTick - tickSpacing, targetTick]` and fills as the price falls. The order is filled once the
+ * price has crossed the whole range, and must then be withdrawn, e.g. with
+ * `buildRemoveLiquidityCallData`, or it converts back if the price returns. Track it with
+ * `getRangeOrderStatus`.
+ *
+ * If the pool's hook has an adapter in the instance's `hookAdapters`, it encodes the mint hookData. A range
+ * order takes no `hookArgs`, so the adapter is called without them.
+ *
+ * @param params - Pool key, currency and amount to sell, target price, recipient and slippage
+ * @param instance - UniswapSDKInstance
+ * @returns Calldata and value for the PositionManager, with the order's tick range and liquidity
+ * @throws PoolNotFoundError if the pool is not initialized
+ * @throws Error if the parameters are invalid or the target price is not beyond the current price
+ */
+export async function buildRangeOrderCallData(
+  params: BuildRangeOrderCallDataArgs,
+  instance: UniswapSDKInstance,
+): Promise<BuildRangeOrderCallDataResult> {
+  const {
+    poolKey,
+    sellCurrency,
+    amount,
+    targetPrice,
+    recipient,
+    slippageTolerance = instance.defaultSlippageTolerance,
+    deadlineDuration,
+    permit2BatchSignature,
+  } = params;
+
+  assertBasisPoints(slippageTolerance, "slippageTolerance");
+  if (amount <= 0n) {
+    throw new Error(`Invalid amount: ${amount}. Must be a positive value.`);
+  }
+
+  const sell = sellCurrency.toLowerCase();
+  const sellCurrency0 = sell === poolKey.currency0.toLowerCase();
+  if (!sellCurrency0 && sell !== poolKey.currency1.toLowerCase()) {
+    throw new Error(`Invalid sellCurrency: ${sellCurrency} is not a currency of the pool.`);
+  }
+
+  const [pool, deadline] = await Promise.all([
+    getPool(poolKey, instance),
+    getDefaultDeadline(instance, deadlineDuration),
+  ]);
+
+  if (!pool.involvesCurrency(targetPrice.baseCurrency) || !pool.involvesCurrency(targetPrice.quoteCurrency)) {
+    throw new Error("Invalid targetPrice: its currencies are not the pool's currencies.");
+  }
+
+  const { tickSpacing } = pool;
+  const targetTick = nearestUsableTick(priceToClosestTick(targetPrice), tickSpacing);
+  const [tickLower, tickUpper] = sellCurrency0
+    ? [targetTick, targetTick + tickSpacing]
+    : [targetTick - tickSpacing, targetTick];
+
+  if (tickLower < TickMath.MIN_TICK || tickUpper > TickMath.MAX_TICK) {
+    throw new Error(`Invalid targetPrice: the order range [${tickLower}, ${tickUpper}] is outside the tick bounds.`);
+  }
+  // A range the price is in or below (above for currency1) would also require the other currency
+  if (sellCurrency0 ? tickLower <= pool.tickCurrent : tickUpper > pool.tickCurrent) {
+    throw new Error(
+      `Invalid targetPrice: the order range [${tickLower}, ${tickUpper}] must be ${sellCurrency0 ? "above" : "below"} the current tick (${pool.tickCurrent}).`,
+    );
+  }
+
+  const position = sellCurrency0
+    ? Position.fromAmount0({ pool, tickLower, tickUpper, amount0: amount.toString(), useFullPrecision: true })
+    : Position.fromAmount1({ pool, tickLower, tickUpper, amount1: amount.toString() });
+  const liquidity = BigInt(position.liquidity.toString());
+  if (liquidity === 0n) {
+    throw new Error(`Invalid amount: ${amount} is too small to mint liquidity in the order range.`);
+  }
+
+  const { calldata, value } = V4PositionManager.addCallParameters(position, {
+    recipient,
+    deadline: deadline.toString(),
+    slippageTolerance: percentFromBips(slippageTolerance),
+    useNative: pool.currency0.isNative ? pool.currency0 : undefined,
+    batchPermit: permit2BatchSignature,
+    hookData: encodeAddLiquidityHookData(instance.hookAdapters, { poolKey: pool.poolKey, tickLower, tickUpper }),
+  });
+
+  return { calldata, value, tickLower, tickUpper, liquidity };
+}
@@ -0,0 +1,213 @@
+import type { Address, Hex } from "viem";
+
+import { RoutePlanner } from "@uniswap/universal-router-sdk";
+import { V4PositionManager, V4PositionPlanner } from "@uniswap/v4-sdk";
+import { utility } from "hookmate/abi";
+import { encodeFunctionData, isHex } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { WalletBatchCall } from "@/utils/eip5792";
+
+import { InsufficientLiquidityError } from "@/core/errors";
+import { encodeRemoveLiquidityHookData } from "@/helpers/hookAdapters";
+import { assertBasisPoints, percentFromBips } from "@/helpers/percent";
+import { addZapCommands, getPoolAfterRemoval, planZap } from "@/internal/zap";
+import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
+import { getPosition } from "@/utils/getPosition";
+import { getUncollectedFees } from "@/utils/getUncollectedFees";
+
+/**
+ * Parameters for moving a position's liquidity into a new range.
+ */
+export interface BuildRebalanceCallDataArgs {
+  /** The NFT token ID of the position to close */
+  tokenId: string;
+  /** Lower tick boundary of the new position. Must be a multiple of the pool's tick spacing. */
+  newTickLower: number;
+  /** Upper tick boundary of the new position. Must be a multiple of the pool's tick spacing. */
+  newTickUpper: number;
+  /** Address that receives the new position NFT and any leftover currency. */
+  recipient: Address;
+  /**
+   * Maximum acceptable slippage for the burn, the swap and the mint (in basis points).
+   * Defaults to the SDK instance's `defaultSlippageTolerance`.
+   */
+  slippageTolerance?: number;
+  /** Deadline duration in seconds from now. Defaults to the SDK instance's `defaultDeadline`. */
+  deadlineDuration?: number;
+  /**
+   * Tick bitmap words loaded on each side of the current word to simulate the swap of hookless pools
+   * (default: 2). Raise it when the swap moves the price out of the loaded ticks.
+   */
+  wordRadius?: number;
+}
+
+export interface BuildRebalanceCallDataResult {
+  /**
+   * PositionManager and Universal Router calls, in order. The first call leaves the old position's
+   * currencies in the router for the second, so they must be sent as one atomic batch.
+   */
+  calls: [WalletBatchCall, WalletBatchCall];
+  /**
+   * Always true: `calls` must be sent as one atomic EIP-5792 batch, i.e. `wallet_sendCalls` with
+   * `atomicRequired` (viem's `forceAtomic`). Never send them as separate transactions.
+   */
+  atomicRequired: true;
+  /** Liquidity of the new position */
+  liquidity: bigint;
+  /** Whether the swap sells currency0 for currency1 */
+  zeroForOne: boolean;
+  /** Amount swapped to reach the new range's ratio, 0 when no swap is needed */
+  swapAmount: bigint;
+  /** Minimum output of the swap */
+  minAmountOut: bigint;
+  /** Maximum amounts of currency0 and currency1 the mint may spend */
+  amount0Max: bigint;
+  amount1Max: bigint;
+}
+
+/**
+ * Builds the calls that close a position and reopen its liquidity over a new range of the same pool.
+ *
+ * The Universal Router only forwards mints to the PositionManager, so the flow is two calls. The
+ * PositionManager call burns the position, which removes all of its liquidity and collects its fees,
+ * and takes both currencies to the Universal Router. The router call swaps the excess currency to the
+ * new range's ratio, moves both currencies to the PositionManager and mints the new position, sweeping
+ * any leftover to the recipient.
+ *
+ * The plan is sized from the amounts the burn guarantees at the slippage tolerance plus the uncollected
+ * fees, and the swap is simulated against the pool without the burned liquidity. For hookless pools,
+ * the initialized ticks around the price are loaded with `getPoolTickData` so the simulation crosses
+ * them. Hooked pools can change swaps in ways the ticks do not show, so their swap is simulated within
+ * the current tick's liquidity: a swap that crosses ticks is mis-sized, and `minAmountOut` can make the
+ * router call revert.
+ *
+ * If the pool's hook has an adapter in the instance's `hookAdapters`, it encodes the burn, swap and mint
+ * hookData. A rebalance takes no `hookArgs`, so the adapter is called without them.
+ *
+ * The calls must be sent as one atomic EIP-5792 batch (`atomicRequired`, see `isAtomicBatchSupported`):
+ * tokens left in the router between two separate transactions can be swept by anyone.
+ *
+ * @param params - Position, new tick range, recipient, optional slippage, deadline and word radius
+ * @param instance - UniswapSDKInstance
+ * @returns The PositionManager and Universal Router calls, with the planned swap and new liquidity
+ * @throws PositionNotFoundError if the position doesn't exist
+ * @throws InsufficientLiquidityError if the pool has no other active liquidity to swap against
+ * @throws Error if the parameters are invalid, the swap leaves the loaded ticks or the position is too
+ * small to mint in the new range
+ */
+export async function buildRebalanceCallData(
+  params: BuildRebalanceCallDataArgs,
+  instance: UniswapSDKInstance,
+): Promise<BuildRebalanceCallDataResult> {
+  const {
+    tokenId,
+    newTickLower,
+    newTickUpper,
+    recipient,
+    slippageTolerance = instance.defaultSlippageTolerance,
+    deadlineDuration,
+    wordRadius,
+  } = params;
+  const { positionManager, universalRouter } = instance.contracts;
+
+  assertBasisPoints(slippageTolerance, "slippageTolerance");
+  if (newTickLower >= newTickUpper) {
+    throw new Error(`newTickLower (${newTickLower}) must be less than newTickUpper (${newTickUpper}).`);
+  }
+
+  const [{ position, pool }, fees] = await Promise.all([
+    getPosition(tokenId, instance),
+    getUncollectedFees(tokenId, instance),
+  ]);
+
+  if (newTickLower % pool.tickSpacing !== 0) {
+    throw new Error(`newTickLower (${newTickLower}) is not a multiple of tickSpacing (${pool.tickSpacing}).`);
+  }
+  if (newTickUpper % pool.tickSpacing !== 0) {
+    throw new Error(`newTickUpper (${newTickUpper}) is not a multiple of tickSpacing (${pool.tickSpacing}).`);
+  }
+
+  const { amount0: amount0Min, amount1: amount1Min } = position.burnAmountsWithSlippage(
+    percentFromBips(slippageTolerance),
+  );
+
+  // The swap runs after the burn, so an in-range position no longer backs the pool's active liquidity
+  const poolAfterBurn = await getPoolAfterRemoval(pool, position, wordRadius, instance);
+  if (poolAfterBurn.liquidity.toString() === "0") {
+    throw new InsufficientLiquidityError("Pool has no other active liquidity to swap against", {
+      poolId: pool.poolId as Hex,
+      tokenId,
+    });
+  }
+
+  const plan = await planZap({
+    pool: poolAfterBurn,
+    amount0: BigInt(amount0Min.toString()) + fees.amount0,
+    amount1: BigInt(amount1Min.toString()) + fees.amount1,
+    tickLower: newTickLower,
+    tickUpper: newTickUpper,
+    slippageTolerance,
+  });
+  if (plan.liquidity === 0n) {
+    throw new Error(`Position ${tokenId} is too small to mint liquidity in the new range.`);
+  }
+
+  const deadline = await getDefaultDeadline(instance, deadlineDuration);
+
+  const positionPlanner = new V4PositionPlanner();
+  positionPlanner.addBurn(
+    tokenId,
+    amount0Min.toString(),
+    amount1Min.toString(),
+    encodeRemoveLiquidityHookData(instance.hookAdapters, {
+      poolKey: pool.poolKey,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      tokenId,
+    }),
+  );
+  positionPlanner.addTakePair(pool.currency0, pool.currency1, universalRouter);
+
+  const routePlanner = new RoutePlanner();
+  addZapCommands(routePlanner, {
+    pool,
+    tickLower: newTickLower,
+    tickUpper: newTickUpper,
+    plan,
+    recipient,
+    positionManager,
+    deadline,
+    hookAdapters: instance.hookAdapters,
+  });
+
+  if (!isHex(routePlanner.commands) || !routePlanner.inputs.every((input) => isHex(input))) {
+    throw new Error("Invalid encoded route planner commands.");
+  }
+
+  return {
+    calls: [
+      {
+        to: positionManager,
+        data: V4PositionManager.encodeModifyLiquidities(positionPlanner.finalize(), deadline.toString()) as Hex,
+        value: 0n,
+      },
+      {
+        to: universalRouter,
+        data: encodeFunctionData({
+          abi: utility.UniversalRouterArtifact.abi,
+          functionName: "execute",
+          args: [routePlanner.commands, routePlanner.inputs, deadline],
+        }),
+        value: 0n,
+      },
+    ],
+    atomicRequired: true,
+    liquidity: plan.liquidity,
+    zeroForOne: plan.zeroForOne,
+    swapAmount: plan.swapAmount,
+    minAmountOut: plan.minAmountOut,
+    amount0Max: plan.amount0Max,
+    amount1Max: plan.amount1Max,
+  };
+}
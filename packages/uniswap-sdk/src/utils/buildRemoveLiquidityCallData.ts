@@ -1,8 +1,10 @@
 import { V4PositionManager } from "@uniswap/v4-sdk";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
+import type { HookAdapterRegistry, RemoveLiquidityHookArgs } from "@/helpers/hookAdapters";
 import type { BuildCallDataResult } from "@/utils/buildAddLiquidityCallData";
 
+import { encodeRemoveLiquidityHookData } from "@/helpers/hookAdapters";
 import { assertBasisPoints, percentFromBips } from "@/helpers/percent";
 import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
 import { getPosition } from "@/utils/getPosition";
@@ -10,7 +12,7 @@ import { getPosition } from "@/utils/getPosition";
 /**
  * Parameters required to build the calldata for removing liquidity from a Uniswap v4 position.
  */
-export interface BuildRemoveLiquidityCallDataArgs {
+export interface BuildRemoveLiquidityCallDataArgs<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> {
   /**
    * The percentage of liquidity to remove from the position.
    */
@@ -31,10 +33,16 @@ export interface BuildRemoveLiquidityCallDataArgs {
    * Defaults to the SDK instance's defaultDeadline (600 = 10 minutes).
    */
   deadlineDuration?: number;
+
+  /**
+   * Arguments for the hook adapter registered for the pool's hook.
+   */
+  hookArgs?: RemoveLiquidityHookArgs<TRegistry>;
 }
 
 /**
  * Builds the calldata and value required to remove liquidity from a Uniswap v4 position.
+ * If the pool's hook has an adapter in the instance's `hookAdapters`, the hookData is encoded by it.
  *
  * @param params - The parameters for removing liquidity.
  * @returns An object containing the calldata and the value to send with the transaction.
@@ -54,7 +62,7 @@ export interface BuildRemoveLiquidityCallDataArgs {
  * ```
  */
 export async function buildRemoveLiquidityCallData(
-  { liquidityPercentage, deadlineDuration, slippageTolerance, tokenId }: BuildRemoveLiquidityCallDataArgs,
+  { liquidityPercentage, deadlineDuration, slippageTolerance, tokenId, hookArgs }: BuildRemoveLiquidityCallDataArgs,
   instance: UniswapSDKInstance,
 ): Promise<BuildCallDataResult> {
   assertBasisPoints(liquidityPercentage, "liquidityPercentage");
@@ -64,12 +72,22 @@ export async function buildRemoveLiquidityCallData(
 
   const positionData = await getPosition(tokenId, instance);
 
+  const { position } = positionData;
+  const hookData = encodeRemoveLiquidityHookData(instance.hookAdapters, {
+    poolKey: position.pool.poolKey,
+    tickLower: position.tickLower,
+    tickUpper: position.tickUpper,
+    tokenId,
+    hookArgs,
+  });
+
   const deadline = (await getDefaultDeadline(instance, deadlineDuration)).toString();
 
-  return V4PositionManager.removeCallParameters(positionData.position, {
+  return V4PositionManager.removeCallParameters(position, {
     slippageTolerance: percentFromBips(resolvedSlippage),
     deadline,
     liquidityPercentage: percentFromBips(liquidityPercentage),
     tokenId,
+    hookData,
   });
 }
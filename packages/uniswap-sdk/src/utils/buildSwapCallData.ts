@@ -7,17 +7,47 @@ import { utility } from "hookmate/abi";
 import { encodeFunctionData, isHex, zeroAddress } from "viem";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
-
-import { hasExactOutputAmount, resolveSwapCurrencyMeta, routeWithPoolsToSwapRoute } from "@/internal/swap";
+import type { HookAdapterRegistry, SwapHookArgs } from "@/helpers/hookAdapters";
+
+import { InvalidRouteError } from "@/core/errors";
+import { encodeSwapRouteHookData, normalizeSwapHookArgs } from "@/helpers/hookAdapters";
+import { BIPS_BASE } from "@/helpers/percent";
+import {
+  assertSplitPercentages,
+  hasExactOutputAmount,
+  resolveSwapCurrencyMeta,
+  routeWithPoolsToSwapRoute,
+  splitAmountByPercentages,
+} from "@/internal/swap";
 import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
-import { resolveSwapRouteExactInput, resolveSwapRouteExactOutput, type SwapRouteWithPools } from "@/utils/swapRoute";
+import {
+  mapRoute,
+  resolveSwapRouteExactInput,
+  resolveSwapRouteExactOutput,
+  type SplitSwapRouteWithPools,
+  type SwapRoute,
+  type SwapRouteWithPools,
+} from "@/utils/swapRoute";
+
+interface BuildSwapCallDataSingleRouteArgs {
+  /** Ordered list of pools to route through. A single-hop swap is a route with one entry. */
+  route: SwapRouteWithPools;
+  splitRoutes?: never;
+}
+
+interface BuildSwapCallDataSplitRouteArgs {
+  /**
+   * Weighted routes that share the same input and output currencies. The exact amount is divided
+   * between them by `percentage` (basis points, adding up to 10000).
+   */
+  splitRoutes: readonly [SplitSwapRouteWithPools, ...SplitSwapRouteWithPools[]];
+  route?: never;
+}
 
 /**
  * Parameters for building a v4 swap
  */
-interface BuildSwapCallDataCommonArgs {
-  /** Ordered list of pools to route through. A single-hop swap is a route with one entry. */
-  route: SwapRouteWithPools;
+interface BuildSwapCallDataCommonArgs<TRegistry extends HookAdapterRegistry> {
   recipient: Address;
   /** Deadline duration in seconds from now. Defaults to the SDK instance's `defaultDeadline`. */
   deadlineDuration?: number;
@@ -25,9 +55,16 @@ interface BuildSwapCallDataCommonArgs {
   permit2Signature?: BatchPermitOptions;
   /** When true, wraps/unwraps the native token for WETH-denominated pools. */
   useNativeToken?: boolean;
+  /**
+   * Arguments for the hook adapters registered for the route's hooks, keyed by hook address. Each hop is
+   * encoded with the arguments of its own hook. Hops with explicit `hookData` are not encoded by their adapter.
+   */
+  hookArgs?: SwapHookArgs<TRegistry>;
 }
 
-interface BuildSwapCallDataExactInputArgs extends BuildSwapCallDataCommonArgs {
+interface BuildSwapCallDataExactInputArgs<
+  TRegistry extends HookAdapterRegistry,
+> extends BuildSwapCallDataCommonArgs<TRegistry> {
   exactInput: {
     /** Input currency for the first hop in the route. */
     currency: Address;
@@ -38,7 +75,9 @@ interface BuildSwapCallDataExactInputArgs extends BuildSwapCallDataCommonArgs {
   maxAmountIn?: never;
 }
 
-interface BuildSwapCallDataExactOutputArgs extends BuildSwapCallDataCommonArgs {
+interface BuildSwapCallDataExactOutputArgs<
+  TRegistry extends HookAdapterRegistry,
+> extends BuildSwapCallDataCommonArgs<TRegistry> {
   exactOutput: {
     /** Output currency for the final hop in the route. */
     currency: Address;
@@ -49,7 +88,11 @@ interface BuildSwapCallDataExactOutputArgs extends BuildSwapCallDataCommonArgs {
   minAmountOut?: never;
 }
 
-export type BuildSwapCallDataArgs = BuildSwapCallDataExactInputArgs | BuildSwapCallDataExactOutputArgs;
+export type BuildSwapCallDataArgs<TRegistry extends HookAdapterRegistry = HookAdapterRegistry> = (
+  | BuildSwapCallDataExactInputArgs<TRegistry>
+  | BuildSwapCallDataExactOutputArgs<TRegistry>
+) &
+  (BuildSwapCallDataSingleRouteArgs | BuildSwapCallDataSplitRouteArgs);
 
 export interface BuildSwapCallDataResult {
   /** Encoded Universal Router calldata for the swap transaction. */
@@ -74,30 +117,67 @@ type ExactOutputSwapPlan = {
 
 type SwapPlan = ExactInputSwapPlan | ExactOutputSwapPlan;
 
+type SwapLeg = {
+  route: SwapRouteWithPools;
+  routeWithPoolKeys: SwapRoute;
+  /** Exact amount of this leg: input for exact-input swaps, output for exact-output swaps. */
+  amount: bigint;
+};
+
 /**
  * Builds calldata for a Uniswap v4 swap.
+ *
+ * Split swaps (`splitRoutes`) execute every leg inside one V4_SWAP command with a single settle
+ * and a single take. Per-leg limits are left open and the aggregate limit is enforced instead:
+ * exact-input output is taken by the router and swept to the recipient with `minAmountOut`, and
+ * exact-output input is pulled into the router up to `maxAmountIn` with the unused part refunded.
+ *
+ * Hops whose hook has an adapter in the instance's `hookAdapters` get their hookData from it, with the
+ * `hookArgs` entry of their hook address.
  */
 export async function buildSwapCallData(
   params: BuildSwapCallDataArgs,
   instance: UniswapSDKInstance,
 ): Promise<BuildSwapCallDataResult> {
-  const { route, permit2Signature, recipient, deadlineDuration, useNativeToken } = params;
+  const { permit2Signature, recipient, deadlineDuration, useNativeToken } = params;
   const swapPlan = resolveSwapPlan(params);
+  const legs = resolveSwapLegs(params, swapPlan, instance);
+  const isSplit = legs.length > 1;
 
   const v4Planner = new V4Planner();
   const routePlanner = new RoutePlanner();
-  const routeWithPoolKeys = routeWithPoolsToSwapRoute(route);
-  const inputPool = route[0].pool;
-  const outputHop = route.at(-1);
+  const firstLeg = legs[0]!;
+  const inputPool = firstLeg.route[0].pool;
+  const outputHop = firstLeg.route.at(-1);
   if (outputHop === undefined) {
-    throw new Error("Swap route must contain at least one hop.");
+    throw new InvalidRouteError("Swap route must contain at least one hop.");
   }
   const outputPool = outputHop.pool;
-  const meta = resolveSwapCurrencyMeta({ ...params, route: routeWithPoolKeys, wethAddress: instance.contracts.weth });
+  const meta = resolveSwapCurrencyMeta({
+    ...params,
+    route: firstLeg.routeWithPoolKeys,
+    wethAddress: instance.contracts.weth,
+  });
 
   const inputCurrency = meta.requestedCurrencyIn;
   const outputCurrency = meta.requestedCurrencyOut;
 
+  legs.slice(1).forEach(({ routeWithPoolKeys }, index) => {
+    const legMeta = resolveSwapCurrencyMeta({
+      ...params,
+      route: routeWithPoolKeys,
+      wethAddress: instance.contracts.weth,
+    });
+    if (
+      legMeta.requestedCurrencyIn.toLowerCase() !== inputCurrency.toLowerCase() ||
+      legMeta.requestedCurrencyOut.toLowerCase() !== outputCurrency.toLowerCase()
+    ) {
+      throw new InvalidRouteError(
+        `Invalid split routes: route ${index + 2} does not share the input and output currencies of route 1.`,
+      );
+    }
+  });
+
   const inputCurrencyObject = getCurrencyFromPool(inputPool, inputCurrency);
   const outputCurrencyObject = getCurrencyFromPool(outputPool, outputCurrency);
 
@@ -107,34 +187,44 @@ export async function buildSwapCallData(
   const inputIsNative = inputCurrency.toLowerCase() === zeroAddress.toLowerCase();
   const sendsNativeInput = wrapInput || inputIsNative;
   const inputCurrencyPaymentAmount = getInputCurrencyPaymentAmount(swapPlan);
+  // Split exact-output swaps pay from router custody so the combined input is capped at maxAmountIn.
+  const pullsInputToRouter = isSplit && swapPlan.tradeType === "exactOutput" && !sendsNativeInput;
+  // Split exact-input swaps collect output in the router so the combined output is checked against minAmountOut.
+  const takesOutputToRouter = unwrapOutput || (isSplit && swapPlan.tradeType === "exactInput");
+
+  for (const { routeWithPoolKeys, amount } of legs) {
+    if (swapPlan.tradeType === "exactOutput") {
+      const { path } = resolveSwapRouteExactOutput(outputCurrency, routeWithPoolKeys);
+      v4Planner.addAction(Actions.SWAP_EXACT_OUT, [
+        {
+          currencyOut: outputCurrency,
+          path,
+          amountOut: amount.toString(),
+          amountInMaximum: swapPlan.maxAmountIn.toString(),
+        },
+      ]);
+    } else {
+      const { path } = resolveSwapRouteExactInput(inputCurrency, routeWithPoolKeys);
+      v4Planner.addAction(Actions.SWAP_EXACT_IN, [
+        {
+          currencyIn: inputCurrency,
+          path,
+          amountIn: amount.toString(),
+          amountOutMinimum: isSplit ? "0" : swapPlan.minAmountOut.toString(),
+        },
+      ]);
+    }
+  }
 
-  if (swapPlan.tradeType === "exactOutput") {
-    const { path } = resolveSwapRouteExactOutput(outputCurrency, routeWithPoolKeys);
-    v4Planner.addAction(Actions.SWAP_EXACT_OUT, [
-      {
-        currencyOut: outputCurrency,
-        path,
-        amountOut: swapPlan.amountOut.toString(),
-        amountInMaximum: swapPlan.maxAmountIn.toString(),
-      },
-    ]);
+  if (isSplit && swapPlan.tradeType === "exactOutput") {
+    v4Planner.addSettle(inputCurrencyObject, false);
   } else {
-    const { path } = resolveSwapRouteExactInput(inputCurrency, routeWithPoolKeys);
-    v4Planner.addAction(Actions.SWAP_EXACT_IN, [
-      {
-        currencyIn: inputCurrency,
-        path,
-        amountIn: swapPlan.amountIn.toString(),
-        amountOutMinimum: swapPlan.minAmountOut.toString(),
-      },
-    ]);
+    const settleAmount = sendsNativeInput
+      ? (inputCurrencyPaymentAmount.toString() as unknown as Parameters<typeof v4Planner.addSettle>[2])
+      : undefined;
+    v4Planner.addSettle(inputCurrencyObject, !sendsNativeInput, settleAmount);
   }
-
-  const settleAmount = sendsNativeInput
-    ? (inputCurrencyPaymentAmount.toString() as unknown as Parameters<typeof v4Planner.addSettle>[2])
-    : undefined;
-  v4Planner.addSettle(inputCurrencyObject, !sendsNativeInput, settleAmount);
-  v4Planner.addTake(outputCurrencyObject, unwrapOutput ? ROUTER_AS_RECIPIENT : recipient);
+  v4Planner.addTake(outputCurrencyObject, takesOutputToRouter ? ROUTER_AS_RECIPIENT : recipient);
 
   const deadline = await getDefaultDeadline(instance, deadlineDuration);
   const encodedActions = v4Planner.finalize();
@@ -153,12 +243,24 @@ export async function buildSwapCallData(
     finalInputs.push(getLastPlannerInput(routePlanner));
   }
 
+  if (pullsInputToRouter) {
+    routePlanner.addCommand(CommandType.PERMIT2_TRANSFER_FROM, [
+      inputCurrency,
+      ROUTER_AS_RECIPIENT,
+      inputCurrencyPaymentAmount.toString(),
+    ]);
+    finalInputs.push(getLastPlannerInput(routePlanner));
+  }
+
   routePlanner.addCommand(CommandType.V4_SWAP, [encodedActions]);
   finalInputs.push(getLastPlannerInput(routePlanner));
 
   if (unwrapOutput) {
     routePlanner.addCommand(CommandType.UNWRAP_WETH, [recipient, swapPlan.unwrapAmountMinimum.toString()]);
     finalInputs.push(getLastPlannerInput(routePlanner));
+  } else if (takesOutputToRouter) {
+    routePlanner.addCommand(CommandType.SWEEP, [outputCurrency, recipient, swapPlan.unwrapAmountMinimum.toString()]);
+    finalInputs.push(getLastPlannerInput(routePlanner));
   }
 
   if (swapPlan.tradeType === "exactOutput" && wrapInput) {
@@ -166,8 +268,8 @@ export async function buildSwapCallData(
     finalInputs.push(getLastPlannerInput(routePlanner));
   }
 
-  if (swapPlan.tradeType === "exactOutput" && inputCurrency.toLowerCase() === zeroAddress.toLowerCase()) {
-    routePlanner.addCommand(CommandType.SWEEP, [zeroAddress, recipient, "0"]);
+  if (swapPlan.tradeType === "exactOutput" && (inputIsNative || pullsInputToRouter)) {
+    routePlanner.addCommand(CommandType.SWEEP, [inputCurrency, recipient, "0"]);
     finalInputs.push(getLastPlannerInput(routePlanner));
   }
 
@@ -183,6 +285,59 @@ export async function buildSwapCallData(
   };
 }
 
+function resolveSwapLegs(params: BuildSwapCallDataArgs, swapPlan: SwapPlan, instance: UniswapSDKInstance): SwapLeg[] {
+  const { recipient, hookArgs } = params;
+  const exactAmount = swapPlan.tradeType === "exactInput" ? swapPlan.amountIn : swapPlan.amountOut;
+  const routes = params.splitRoutes?.map(({ route }) => route) ?? (params.route ? [params.route] : []);
+  const hookArgsByHook = hookArgs === undefined ? undefined : normalizeSwapHookArgs(instance.hookAdapters, hookArgs);
+  const routeHooks = new Set(routes.flatMap((route) => route.map(({ pool }) => pool.poolKey.hooks.toLowerCase())));
+  const unusedHook = Object.keys(hookArgsByHook ?? {}).find((hooks) => !routeHooks.has(hooks));
+  if (unusedHook !== undefined) {
+    throw new Error(`Invalid hookArgs: the route has no pool with hook ${unusedHook}.`);
+  }
+
+  const toSwapRoute = (route: SwapRouteWithPools): SwapRoute => {
+    const routeWithPoolKeys = routeWithPoolsToSwapRoute(route);
+    const hookData = encodeSwapRouteHookData(instance.hookAdapters, routeWithPoolKeys, {
+      recipient,
+      hookArgs: hookArgsByHook,
+    });
+    return mapRoute(routeWithPoolKeys, (hop, index) => ({ ...hop, hookData: hookData[index] }));
+  };
+
+  if (params.splitRoutes === undefined) {
+    if (params.route === undefined) {
+      throw new Error("Missing swap route: provide either route or splitRoutes.");
+    }
+
+    return [{ route: params.route, routeWithPoolKeys: toSwapRoute(params.route), amount: exactAmount }];
+  }
+
+  if (params.route !== undefined) {
+    throw new Error("Conflicting swap routes: provide route or splitRoutes, not both.");
+  }
+
+  const percentages = params.splitRoutes.map(({ percentage }) => percentage);
+  assertSplitPercentages(percentages);
+
+  const amounts = splitAmountByPercentages(exactAmount, percentages);
+  const legs = params.splitRoutes.map(({ route }, index) => ({
+    route,
+    routeWithPoolKeys: toSwapRoute(route),
+    amount: amounts[index]!,
+  }));
+
+  legs.forEach(({ amount }, index) => {
+    if (amount === 0n) {
+      throw new Error(
+        `Invalid split route ${index + 1}: ${percentages[index]} of ${BIPS_BASE} basis points rounds to a zero amount.`,
+      );
+    }
+  });
+
+  return legs;
+}
+
 function getInputCurrencyPaymentAmount(swapPlan: SwapPlan): bigint {
   return swapPlan.tradeType === "exactInput" ? swapPlan.amountIn : swapPlan.maxAmountIn;
 }
@@ -263,5 +418,7 @@ function getCurrencyFromPool(pool: Pool, address: Address) {
     return pool.currency1;
   }
 
-  throw new Error(`Invalid swap route: first hop does not include currency ${address.toLowerCase()}.`);
+  throw new InvalidRouteError(`Invalid swap route: first hop does not include currency ${address.toLowerCase()}.`, {
+    hop: 1,
+  });
 }
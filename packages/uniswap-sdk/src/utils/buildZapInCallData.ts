@@ -0,0 +1,182 @@
+import type { BatchPermitOptions, Pool } from "@uniswap/v4-sdk";
+import type { Address, Hex } from "viem";
+
+import { CommandType, ROUTER_AS_RECIPIENT, RoutePlanner } from "@uniswap/universal-router-sdk";
+import { utility } from "hookmate/abi";
+import { encodeFunctionData, isHex } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { InsufficientLiquidityError } from "@/core/errors";
+import { assertBasisPoints } from "@/helpers/percent";
+import { addZapCommands, planZap } from "@/internal/zap";
+import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
+
+/**
+ * Parameters for zapping a single currency into a new position.
+ */
+export interface BuildZapInCallDataArgs {
+  /**
+   * Pool to provide liquidity to. Pools from `getPoolWithTicks` simulate the swap leg across
+   * initialized ticks; other pools assume it stays within the current tick's liquidity.
+   */
+  pool: Pool;
+  /** Currency to zap in with. Must be one of the pool's currencies. */
+  inputCurrency: Address;
+  /** Total amount of `inputCurrency` to spend, part of which is swapped for the other currency. */
+  inputAmount: bigint;
+  /** Lower tick boundary of the position. Must be a multiple of the pool's tick spacing. */
+  tickLower: number;
+  /** Upper tick boundary of the position. Must be a multiple of the pool's tick spacing. */
+  tickUpper: number;
+  /** Address that receives the position NFT and any leftover currency. */
+  recipient: Address;
+  /**
+   * Maximum acceptable slippage for both the swap and the mint (in basis points).
+   * Defaults to the SDK instance's `defaultSlippageTolerance`.
+   */
+  slippageTolerance?: number;
+  /** Deadline duration in seconds from now. Defaults to the SDK instance's `defaultDeadline`. */
+  deadlineDuration?: number;
+  /** Optional Permit2 batch signature approving the Universal Router to pull `inputCurrency`. */
+  permit2Signature?: BatchPermitOptions;
+}
+
+export interface BuildZapInCallDataResult {
+  /** Encoded Universal Router calldata for the zap transaction. */
+  calldata: Hex;
+  /** Native currency value to send with the transaction. */
+  value: string;
+  /** Part of `inputAmount` swapped for the other currency. */
+  swapAmount: bigint;
+  /** Minimum output of the swap leg. */
+  minAmountOut: bigint;
+  /** Liquidity of the minted position. */
+  liquidity: bigint;
+  /** Maximum amounts of currency0 and currency1 the mint may spend. */
+  amount0Max: bigint;
+  amount1Max: bigint;
+}
+
+/**
+ * Builds a Universal Router transaction that adds liquidity to a range from a single currency.
+ *
+ * Part of the input is swapped for the other currency so that the remainder matches the token
+ * ratio of the range at the post-swap price. The transaction pulls the input into the router,
+ * runs the swap in a V4_SWAP command with a minimum output, moves both currencies to the
+ * PositionManager and mints the position in a V4_POSITION_MANAGER_CALL. The mint is sized to
+ * stay payable if the price moves within the slippage tolerance, and any leftover of either
+ * currency is swept to the recipient.
+ *
+ * If the pool's hook has an adapter in the instance's `hookAdapters`, it encodes the swap and mint
+ * hookData. A zap takes no `hookArgs`, so the adapter is called without them.
+ *
+ * @param params - Pool, input currency and amount, tick range, recipient and slippage
+ * @param instance - UniswapSDKInstance
+ * @returns Calldata and value for the Universal Router, with the planned swap and mint amounts
+ * @throws InsufficientLiquidityError if the input must be partly swapped and the pool has no active liquidity
+ * to swap against
+ * @throws Error if the parameters are invalid or the input is too small to mint any liquidity
+ */
+export async function buildZapInCallData(
+  params: BuildZapInCallDataArgs,
+  instance: UniswapSDKInstance,
+): Promise<BuildZapInCallDataResult> {
+  const {
+    pool,
+    inputCurrency,
+    inputAmount,
+    tickLower,
+    tickUpper,
+    recipient,
+    slippageTolerance = instance.defaultSlippageTolerance,
+    deadlineDuration,
+    permit2Signature,
+  } = params;
+
+  assertBasisPoints(slippageTolerance, "slippageTolerance");
+
+  if (inputAmount <= 0n) {
+    throw new Error(`Invalid inputAmount: ${inputAmount}. Must be a positive value.`);
+  }
+  if (tickLower >= tickUpper) {
+    throw new Error(`tickLower (${tickLower}) must be less than tickUpper (${tickUpper}).`);
+  }
+  if (tickLower % pool.tickSpacing !== 0) {
+    throw new Error(`tickLower (${tickLower}) is not a multiple of tickSpacing (${pool.tickSpacing}).`);
+  }
+  if (tickUpper % pool.tickSpacing !== 0) {
+    throw new Error(`tickUpper (${tickUpper}) is not a multiple of tickSpacing (${pool.tickSpacing}).`);
+  }
+
+  const input = inputCurrency.toLowerCase();
+  const inputIsCurrency0 = input === pool.poolKey.currency0.toLowerCase();
+  if (!inputIsCurrency0 && input !== pool.poolKey.currency1.toLowerCase()) {
+    throw new Error(`Invalid inputCurrency: ${inputCurrency} is not a currency of the pool.`);
+  }
+  const plan = await planZap({
+    pool,
+    amount0: inputIsCurrency0 ? inputAmount : 0n,
+    amount1: inputIsCurrency0 ? 0n : inputAmount,
+    tickLower,
+    tickUpper,
+    slippageTolerance,
+  });
+  // A range entirely above or below the price funded with the currency it holds mints without a swap
+  if (plan.swapAmount > 0n && pool.liquidity.toString() === "0") {
+    throw new InsufficientLiquidityError("Pool has no active liquidity to swap against", {
+      poolId: pool.poolId as Hex,
+    });
+  }
+  if (plan.liquidity === 0n) {
+    throw new Error(`Invalid inputAmount: ${inputAmount} is too small to mint liquidity in the range.`);
+  }
+
+  const deadline = await getDefaultDeadline(instance, deadlineDuration);
+  const currencyIn = inputIsCurrency0 ? pool.currency0 : pool.currency1;
+
+  const routePlanner = new RoutePlanner();
+  if (permit2Signature) {
+    routePlanner.addCommand(CommandType.PERMIT2_PERMIT_BATCH, [
+      permit2Signature.permitBatch,
+      permit2Signature.signature,
+    ]);
+  }
+  if (!currencyIn.isNative) {
+    routePlanner.addCommand(CommandType.PERMIT2_TRANSFER_FROM, [
+      inputCurrency,
+      ROUTER_AS_RECIPIENT,
+      inputAmount.toString(),
+    ]);
+  }
+  addZapCommands(routePlanner, {
+    pool,
+    tickLower,
+    tickUpper,
+    plan,
+    recipient,
+    positionManager: instance.contracts.positionManager,
+    deadline,
+    hookAdapters: instance.hookAdapters,
+  });
+
+  if (!isHex(routePlanner.commands) || !routePlanner.inputs.every((input) => isHex(input))) {
+    throw new Error("Invalid encoded route planner commands.");
+  }
+
+  const calldata = encodeFunctionData({
+    abi: utility.UniversalRouterArtifact.abi,
+    functionName: "execute",
+    args: [routePlanner.commands, routePlanner.inputs, deadline],
+  });
+
+  return {
+    calldata,
+    value: currencyIn.isNative ? inputAmount.toString() : "0",
+    swapAmount: plan.swapAmount,
+    minAmountOut: plan.minAmountOut,
+    liquidity: plan.liquidity,
+    amount0Max: plan.amount0Max,
+    amount1Max: plan.amount1Max,
+  };
+}
@@ -0,0 +1,273 @@
+import type { Address, Hex } from "viem";
+
+import { CommandType, ROUTER_AS_RECIPIENT, RoutePlanner } from "@uniswap/universal-router-sdk";
+import { Actions, Position, V4Planner, V4PositionManager, V4PositionPlanner } from "@uniswap/v4-sdk";
+import { utility } from "hookmate/abi";
+import { encodeFunctionData, isHex, zeroAddress } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { PoolWithFees } from "@/helpers/pools";
+import type { WalletBatchCall } from "@/utils/eip5792";
+
+import { InsufficientLiquidityError, InvalidRouteError } from "@/core/errors";
+import { encodeRemoveLiquidityHookData, encodeSwapRouteHookData } from "@/helpers/hookAdapters";
+import { assertBasisPoints, BIPS_BASE, percentFromBips } from "@/helpers/percent";
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { getPoolAfterRemoval } from "@/internal/zap";
+import { getDefaultDeadline } from "@/utils/getDefaultDeadline";
+import { getPoolWithTicks } from "@/utils/getPoolTickData";
+import { getPosition } from "@/utils/getPosition";
+import { getQuote, type QuoteResponse } from "@/utils/getQuote";
+import { getUncollectedFees } from "@/utils/getUncollectedFees";
+import { mapRoute, resolveSwapRouteExactInput, type SwapRoute } from "@/utils/swapRoute";
+
+/** Universal Router amount placeholder for the router's whole balance of a currency. */
+const CONTRACT_BALANCE = 2n ** 255n;
+
+/**
+ * Parameters for removing liquidity into a single currency.
+ */
+export interface BuildZapOutCallDataArgs {
+  /** The NFT token ID of the position */
+  tokenId: string;
+  /** Share of the position's liquidity to remove, in basis points (10000 = 100%). */
+  liquidityPercentage: number;
+  /** Currency to receive. Must be one of the position's currencies. */
+  outputCurrency: Address;
+  /** Address that receives `outputCurrency`. */
+  recipient: Address;
+  /**
+   * Route from the position's other currency to `outputCurrency`.
+   * Defaults to swapping through the position's own pool.
+   */
+  route?: SwapRoute;
+  /**
+   * Maximum acceptable slippage for the decrease and the total output (in basis points).
+   * Defaults to the SDK instance's `defaultSlippageTolerance`.
+   */
+  slippageTolerance?: number;
+  /** Deadline duration in seconds from now. Defaults to the SDK instance's `defaultDeadline`. */
+  deadlineDuration?: number;
+  /**
+   * Tick bitmap words loaded on each side of the current word of each pool to simulate a swap through
+   * the position's own pool (default: 2). Raise it when the swap moves the price out of the loaded ticks.
+   */
+  wordRadius?: number;
+}
+
+interface ZapOutSwapArgs {
+  route: SwapRoute;
+  inputCurrency: Address;
+  amountIn: bigint;
+  /** Pool of the position and the liquidity the decrease removes from it */
+  pool: PoolWithFees;
+  removedPosition: Position;
+  wordRadius: number | undefined;
+}
+
+export interface BuildZapOutCallDataResult {
+  /**
+   * PositionManager and Universal Router calls, in order. The first call leaves the removed currencies
+   * in the router for the second, so they must be sent as one atomic batch.
+   */
+  calls: [WalletBatchCall, WalletBatchCall];
+  /**
+   * Always true: `calls` must be sent as one atomic EIP-5792 batch, i.e. `wallet_sendCalls` with
+   * `atomicRequired` (viem's `forceAtomic`). Never send them as separate transactions.
+   */
+  atomicRequired: true;
+  /** Removed amount of the other currency plus its fees, swapped into `outputCurrency` */
+  swapAmountIn: bigint;
+  /** Amount of `outputCurrency` expected once the liquidity is removed, fees included */
+  expectedAmountOut: bigint;
+  /** Minimum amount of `outputCurrency` delivered to the recipient */
+  minAmountOut: bigint;
+}
+
+/**
+ * Builds the calls that remove liquidity from a position and deliver a single currency.
+ *
+ * The Universal Router only forwards mints to the PositionManager, so the decrease and the swap are
+ * two calls. The PositionManager call decreases the liquidity, which also collects all of the
+ * position's fees, and takes both currencies to the Universal Router. The router call swaps its whole
+ * balance of the other currency along `route` and sweeps `outputCurrency` to the recipient, reverting
+ * below `minAmountOut`.
+ *
+ * The swap runs after the decrease, so a route through the position's own pool is quoted against the pool
+ * without the removed liquidity: when every hop is hookless, the route is simulated locally over the
+ * initialized ticks around each pool's price, loaded with `getPoolTickData`. Other routes are quoted by
+ * the Quoter at the current state. Hooks can change swaps in ways the ticks do not show, so a hooked route
+ * through the position's own pool is also quoted at the current state, which overstates the output of a
+ * position that holds much of the pool's liquidity; `minAmountOut` can then make the router call revert.
+ *
+ * Hook adapters in the instance's `hookAdapters` encode the decrease hookData for the position's hook and
+ * the hookData of route hops without explicit `hookData`. A zap-out takes no `hookArgs`, so the adapters
+ * are called without them.
+ *
+ * The calls must be sent as one atomic EIP-5792 batch (`atomicRequired`, see `isAtomicBatchSupported`):
+ * tokens left in the router between two separate transactions can be swept by anyone.
+ *
+ * @param params - Position, share to remove, output currency, recipient, optional route, slippage and word radius
+ * @param instance - UniswapSDKInstance
+ * @returns The PositionManager and Universal Router calls, with the expected and minimum output
+ * @throws PositionNotFoundError if the position doesn't exist
+ * @throws InvalidRouteError if `route` does not lead from the other currency to `outputCurrency`
+ * @throws InsufficientLiquidityError if a hookless route goes through the position's own pool and the
+ * removed liquidity is all of its active liquidity
+ * @throws Error if the parameters are invalid, the swap leaves the loaded ticks, or position, fee or
+ * quote data cannot be fetched
+ */
+export async function buildZapOutCallData(
+  params: BuildZapOutCallDataArgs,
+  instance: UniswapSDKInstance,
+): Promise<BuildZapOutCallDataResult> {
+  const {
+    tokenId,
+    liquidityPercentage,
+    outputCurrency,
+    recipient,
+    route: routeParam,
+    slippageTolerance = instance.defaultSlippageTolerance,
+    deadlineDuration,
+    wordRadius,
+  } = params;
+  const { positionManager, universalRouter } = instance.contracts;
+
+  assertBasisPoints(liquidityPercentage, "liquidityPercentage");
+  assertBasisPoints(slippageTolerance, "slippageTolerance");
+  if (liquidityPercentage === 0) {
+    throw new Error("Invalid liquidityPercentage: 0. Must remove some liquidity.");
+  }
+
+  const [{ position, pool }, fees] = await Promise.all([
+    getPosition(tokenId, instance),
+    getUncollectedFees(tokenId, instance),
+  ]);
+
+  const output = outputCurrency.toLowerCase();
+  const outputIsCurrency0 = output === pool.poolKey.currency0.toLowerCase();
+  if (!outputIsCurrency0 && output !== pool.poolKey.currency1.toLowerCase()) {
+    throw new Error(`Invalid outputCurrency: ${outputCurrency} is not a currency of the position.`);
+  }
+  const inputCurrency = (outputIsCurrency0 ? pool.poolKey.currency1 : pool.poolKey.currency0) as Address;
+
+  const routeHops: SwapRoute = routeParam ?? [{ poolKey: pool.poolKey }];
+  const routeHookData = encodeSwapRouteHookData(instance.hookAdapters, routeHops, { recipient });
+  const route = mapRoute(routeHops, (hop, index) => ({ ...hop, hookData: routeHookData[index] }));
+  const { path, outputCurrency: routeOutput } = resolveSwapRouteExactInput(inputCurrency, route);
+  if (routeOutput.toLowerCase() !== output) {
+    throw new InvalidRouteError(`Invalid swap route: route does not end in output currency ${outputCurrency}.`);
+  }
+
+  const liquidity = (BigInt(position.liquidity.toString()) * BigInt(liquidityPercentage)) / BigInt(BIPS_BASE);
+  const removedPosition = new Position({
+    pool,
+    liquidity: liquidity.toString(),
+    tickLower: position.tickLower,
+    tickUpper: position.tickUpper,
+  });
+  const { amount0: amount0Min, amount1: amount1Min } = removedPosition.burnAmountsWithSlippage(
+    percentFromBips(slippageTolerance),
+  );
+
+  // Decreasing any liquidity collects all of the position's fees
+  const removed0 = BigInt(removedPosition.amount0.quotient.toString()) + fees.amount0;
+  const removed1 = BigInt(removedPosition.amount1.quotient.toString()) + fees.amount1;
+  const [swapAmountIn, keptAmount] = outputIsCurrency0 ? [removed1, removed0] : [removed0, removed1];
+
+  const [quote, deadline] = await Promise.all([
+    swapAmountIn > 0n
+      ? quoteZapOutSwap({ route, inputCurrency, amountIn: swapAmountIn, pool, removedPosition, wordRadius }, instance)
+      : undefined,
+    getDefaultDeadline(instance, deadlineDuration),
+  ]);
+  const expectedAmountOut = keptAmount + (quote?.amountOut ?? 0n);
+  const minAmountOut = (expectedAmountOut * BigInt(BIPS_BASE - slippageTolerance)) / BigInt(BIPS_BASE);
+
+  const positionPlanner = new V4PositionPlanner();
+  positionPlanner.addDecrease(
+    tokenId,
+    liquidity.toString(),
+    amount0Min.toString(),
+    amount1Min.toString(),
+    encodeRemoveLiquidityHookData(instance.hookAdapters, {
+      poolKey: pool.poolKey,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      tokenId,
+    }),
+  );
+  positionPlanner.addTakePair(pool.currency0, pool.currency1, universalRouter);
+
+  const routePlanner = new RoutePlanner();
+  if (swapAmountIn > 0n) {
+    // Settling the router's balance first lets the swap spend the exact amount the decrease delivered
+    const swapPlanner = new V4Planner();
+    swapPlanner.addAction(Actions.SETTLE, [inputCurrency, CONTRACT_BALANCE.toString(), false]);
+    swapPlanner.addAction(Actions.SWAP_EXACT_IN, [
+      { currencyIn: inputCurrency, path, amountIn: "0", amountOutMinimum: "0" },
+    ]);
+    swapPlanner.addAction(Actions.TAKE, [outputCurrency, ROUTER_AS_RECIPIENT, "0"]);
+    routePlanner.addCommand(CommandType.V4_SWAP, [swapPlanner.finalize()]);
+  } else {
+    // Nothing to swap: return any fees of the other currency accrued since the build with the output
+    routePlanner.addCommand(CommandType.SWEEP, [inputCurrency, recipient, "0"]);
+  }
+  routePlanner.addCommand(CommandType.SWEEP, [outputCurrency, recipient, minAmountOut.toString()]);
+
+  if (!isHex(routePlanner.commands) || !routePlanner.inputs.every((input) => isHex(input))) {
+    throw new Error("Invalid encoded route planner commands.");
+  }
+
+  return {
+    calls: [
+      {
+        to: positionManager,
+        data: V4PositionManager.encodeModifyLiquidities(positionPlanner.finalize(), deadline.toString()) as Hex,
+        value: 0n,
+      },
+      {
+        to: universalRouter,
+        data: encodeFunctionData({
+          abi: utility.UniversalRouterArtifact.abi,
+          functionName: "execute",
+          args: [routePlanner.commands, routePlanner.inputs, deadline],
+        }),
+        value: 0n,
+      },
+    ],
+    atomicRequired: true,
+    swapAmountIn,
+    expectedAmountOut,
+    minAmountOut,
+  };
+}
+
+/**
+ * Quotes the swap of the removed currency along `route`. Hookless routes through the position's own pool
+ * are simulated locally against the pool without the removed liquidity.
+ */
+async function quoteZapOutSwap(
+  { route, inputCurrency, amountIn, pool, removedPosition, wordRadius }: ZapOutSwapArgs,
+  instance: UniswapSDKInstance,
+): Promise<QuoteResponse> {
+  const exactInput = { currency: inputCurrency, amount: amountIn };
+  const isPositionPool = route.map(({ poolKey }) => getPoolIdFromPoolKey(poolKey) === pool.poolId.toLowerCase());
+  const isHooked = route.some(({ poolKey }) => poolKey.hooks.toLowerCase() !== zeroAddress);
+  if (!isPositionPool.includes(true) || isHooked) {
+    return getQuote({ route, exactInput }, instance);
+  }
+
+  const poolAfterDecrease = await getPoolAfterRemoval(pool, removedPosition, wordRadius, instance);
+  if (poolAfterDecrease.liquidity.toString() === "0") {
+    throw new InsufficientLiquidityError("Pool has no other active liquidity to swap against", {
+      poolId: pool.poolId as Hex,
+    });
+  }
+  const pools = await Promise.all(
+    route.map(({ poolKey }, index) =>
+      isPositionPool[index] ? poolAfterDecrease : getPoolWithTicks(poolKey, instance, { wordRadius }),
+    ),
+  );
+  return getQuote({ route, exactInput, simulation: "local", pools }, instance);
+}
@@ -0,0 +1,61 @@
+import type { DecodeFunctionDataReturnType, Hex } from "viem";
+
+import { v4 } from "hookmate/abi";
+import { decodeFunctionData, encodeAbiParameters, parseAbiParameters } from "viem";
+
+import { decodeV4Actions, type V4Action } from "@/utils/v4Actions";
+
+type PositionManagerFunctionCall = DecodeFunctionDataReturnType<typeof v4.PositionManagerArtifact.abi>;
+
+/**
+ * A decoded PositionManager call. `modifyLiquidities` and `modifyLiquiditiesWithoutUnlock` carry their
+ * decoded v4 actions; every other function keeps viem's typed `args`.
+ */
+export type PositionManagerCall =
+  | { functionName: "modifyLiquidities"; actions: V4Action[]; deadline: bigint }
+  | { functionName: "modifyLiquiditiesWithoutUnlock"; actions: V4Action[] }
+  | Exclude<
+      PositionManagerFunctionCall,
+      { functionName: "multicall" | "modifyLiquidities" | "modifyLiquiditiesWithoutUnlock" }
+    >;
+
+export type PositionManagerFunctionName = PositionManagerCall["functionName"];
+
+export interface DecodedPositionManagerCalldata {
+  /** Calls in execution order, with any `multicall` flattened. */
+  calls: PositionManagerCall[];
+}
+
+/**
+ * Decodes PositionManager calldata into its calls.
+ *
+ * `multicall` batches (e.g. `initializePool` and `permitBatch` ahead of a mint) are unpacked, and the
+ * unlock data of `modifyLiquidities` is decoded into typed v4 actions such as `MINT_POSITION`,
+ * `DECREASE_LIQUIDITY`, `SETTLE_PAIR` and `TAKE_PAIR`.
+ *
+ * @param calldata - Calldata of a PositionManager call, e.g. from `buildAddLiquidityCallData`
+ * @returns Decoded calls in execution order
+ * @throws Error if the calldata does not match a PositionManager function or its actions are malformed
+ */
+export function decodePositionManagerCalldata(calldata: Hex): DecodedPositionManagerCalldata {
+  return { calls: decodeCalls(calldata) };
+}
+
+function decodeCalls(calldata: Hex): PositionManagerCall[] {
+  const call = decodeFunctionData({ abi: v4.PositionManagerArtifact.abi, data: calldata });
+
+  switch (call.functionName) {
+    case "multicall":
+      return call.args[0].flatMap((data) => decodeCalls(data));
+    case "modifyLiquidities": {
+      const [unlockData, deadline] = call.args;
+      return [{ functionName: "modifyLiquidities", actions: decodeV4Actions(unlockData), deadline }];
+    }
+    case "modifyLiquiditiesWithoutUnlock": {
+      const unlockData = encodeAbiParameters(parseAbiParameters("bytes actions, bytes[] params"), call.args);
+      return [{ functionName: "modifyLiquiditiesWithoutUnlock", actions: decodeV4Actions(unlockData) }];
+    }
+    default:
+      return [call];
+  }
+}
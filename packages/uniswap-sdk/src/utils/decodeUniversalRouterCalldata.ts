@@ -0,0 +1,193 @@
+import type { Hex } from "viem";
+
+import { CommandType } from "@uniswap/universal-router-sdk";
+import { utility } from "hookmate/abi";
+import { decodeFunctionData, parseAbiParameters } from "viem";
+
+import { decodeNamedParameters, type DecodedAbiParameters } from "@/internal/abi";
+import { decodeV4Actions, type V4Action } from "@/utils/v4Actions";
+
+const ALLOW_REVERT_FLAG = 0x80;
+const COMMAND_TYPE_MASK = 0x7f;
+
+const PERMIT_DETAILS_STRUCT = "(address token, uint160 amount, uint48 expiration, uint48 nonce)";
+const POOL_KEY_STRUCT = "(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)";
+
+/**
+ * Parameter layout of each Universal Router command that carries plain ABI-encoded inputs.
+ * V4_SWAP and EXECUTE_SUB_PLAN are decoded recursively instead, and the position manager commands
+ * (V3_POSITION_MANAGER_PERMIT, V3_POSITION_MANAGER_CALL, V4_POSITION_MANAGER_CALL) carry raw calldata.
+ */
+const COMMAND_DEFINITIONS = {
+  [CommandType.V3_SWAP_EXACT_IN]: {
+    type: "V3_SWAP_EXACT_IN",
+    params: parseAbiParameters(
+      "address recipient, uint256 amountIn, uint256 amountOutMin, bytes path, bool payerIsUser",
+    ),
+  },
+  [CommandType.V3_SWAP_EXACT_OUT]: {
+    type: "V3_SWAP_EXACT_OUT",
+    params: parseAbiParameters(
+      "address recipient, uint256 amountOut, uint256 amountInMax, bytes path, bool payerIsUser",
+    ),
+  },
+  [CommandType.PERMIT2_TRANSFER_FROM]: {
+    type: "PERMIT2_TRANSFER_FROM",
+    params: parseAbiParameters("address token, address recipient, uint160 amount"),
+  },
+  [CommandType.PERMIT2_PERMIT_BATCH]: {
+    type: "PERMIT2_PERMIT_BATCH",
+    params: parseAbiParameters([
+      `(${PERMIT_DETAILS_STRUCT}[] details, address spender, uint256 sigDeadline) permitBatch, bytes signature`,
+    ]),
+  },
+  [CommandType.SWEEP]: {
+    type: "SWEEP",
+    params: parseAbiParameters("address token, address recipient, uint256 amountMin"),
+  },
+  [CommandType.TRANSFER]: {
+    type: "TRANSFER",
+    params: parseAbiParameters("address token, address recipient, uint256 value"),
+  },
+  [CommandType.PAY_PORTION]: {
+    type: "PAY_PORTION",
+    params: parseAbiParameters("address token, address recipient, uint256 bips"),
+  },
+  [CommandType.PAY_PORTION_FULL_PRECISION]: {
+    type: "PAY_PORTION_FULL_PRECISION",
+    params: parseAbiParameters("address token, address recipient, uint256 portion"),
+  },
+  [CommandType.V2_SWAP_EXACT_IN]: {
+    type: "V2_SWAP_EXACT_IN",
+    params: parseAbiParameters(
+      "address recipient, uint256 amountIn, uint256 amountOutMin, address[] path, bool payerIsUser",
+    ),
+  },
+  [CommandType.V2_SWAP_EXACT_OUT]: {
+    type: "V2_SWAP_EXACT_OUT",
+    params: parseAbiParameters(
+      "address recipient, uint256 amountOut, uint256 amountInMax, address[] path, bool payerIsUser",
+    ),
+  },
+  [CommandType.PERMIT2_PERMIT]: {
+    type: "PERMIT2_PERMIT",
+    params: parseAbiParameters([
+      `(${PERMIT_DETAILS_STRUCT} details, address spender, uint256 sigDeadline) permitSingle, bytes signature`,
+    ]),
+  },
+  [CommandType.WRAP_ETH]: {
+    type: "WRAP_ETH",
+    params: parseAbiParameters("address recipient, uint256 amount"),
+  },
+  [CommandType.UNWRAP_WETH]: {
+    type: "UNWRAP_WETH",
+    params: parseAbiParameters("address recipient, uint256 amountMin"),
+  },
+  [CommandType.PERMIT2_TRANSFER_FROM_BATCH]: {
+    type: "PERMIT2_TRANSFER_FROM_BATCH",
+    params: parseAbiParameters(["(address from, address to, uint160 amount, address token)[] transferDetails"]),
+  },
+  [CommandType.BALANCE_CHECK_ERC20]: {
+    type: "BALANCE_CHECK_ERC20",
+    params: parseAbiParameters("address owner, address token, uint256 minBalance"),
+  },
+  [CommandType.V4_INITIALIZE_POOL]: {
+    type: "V4_INITIALIZE_POOL",
+    params: parseAbiParameters([`${POOL_KEY_STRUCT} poolKey, uint160 sqrtPriceX96`]),
+  },
+} as const;
+
+type CommandDefinition = (typeof COMMAND_DEFINITIONS)[keyof typeof COMMAND_DEFINITIONS];
+
+/**
+ * A decoded Universal Router command. `allowRevert` mirrors the command's revert flag bit.
+ */
+export type UniversalRouterCommand = { allowRevert: boolean } & (
+  | (CommandDefinition extends infer TDefinition
+      ? TDefinition extends CommandDefinition
+        ? { type: TDefinition["type"]; params: DecodedAbiParameters<TDefinition["params"]> }
+        : never
+      : never)
+  | { type: "V4_SWAP"; actions: V4Action[] }
+  | { type: "V3_POSITION_MANAGER_PERMIT" | "V3_POSITION_MANAGER_CALL"; params: { calldata: Hex } }
+  | { type: "V4_POSITION_MANAGER_CALL"; params: { calldata: Hex } }
+  | { type: "EXECUTE_SUB_PLAN"; commands: UniversalRouterCommand[] }
+  | { type: "UNKNOWN"; commandType: number; input: Hex }
+);
+
+export type UniversalRouterCommandType = UniversalRouterCommand["type"];
+
+export interface DecodedUniversalRouterCalldata {
+  commands: UniversalRouterCommand[];
+  /** Execution deadline in seconds, or undefined for the `execute(commands, inputs)` overload. */
+  deadline?: bigint;
+}
+
+/**
+ * Decodes Universal Router `execute` calldata into its commands.
+ *
+ * Every command input is ABI-decoded into named fields. `V4_SWAP` inputs are decoded into their
+ * v4 actions and `EXECUTE_SUB_PLAN` into nested commands. Recipients `0x…01` and `0x…02` are the
+ * router's `MSG_SENDER` and `ADDRESS_THIS` placeholders.
+ *
+ * @param calldata - Calldata of a Universal Router `execute` call, e.g. from `buildSwapCallData`
+ * @returns Decoded commands in execution order, and the deadline when present
+ * @throws Error if the calldata is not an `execute` call or a command input is malformed
+ */
+export function decodeUniversalRouterCalldata(calldata: Hex): DecodedUniversalRouterCalldata {
+  const { functionName, args } = decodeFunctionData({ abi: utility.UniversalRouterArtifact.abi, data: calldata });
+  if (functionName !== "execute") {
+    throw new Error(`Invalid Universal Router calldata: expected execute, received ${functionName}.`);
+  }
+
+  const [commands, inputs, deadline] = args;
+  return { commands: decodeCommands(commands, inputs), deadline };
+}
+
+function decodeCommands(commands: Hex, inputs: readonly Hex[]): UniversalRouterCommand[] {
+  const commandBytes = Array.from({ length: (commands.length - 2) / 2 }, (_, index) =>
+    parseInt(commands.slice(2 + index * 2, 4 + index * 2), 16),
+  );
+
+  if (commandBytes.length !== inputs.length) {
+    throw new Error(`Invalid Universal Router calldata: ${commandBytes.length} commands but ${inputs.length} inputs.`);
+  }
+
+  return commandBytes.map((commandByte, index) => {
+    const input = inputs[index]!;
+    const allowRevert = (commandByte & ALLOW_REVERT_FLAG) !== 0;
+    const commandType = commandByte & COMMAND_TYPE_MASK;
+
+    if (commandType === CommandType.V4_SWAP) {
+      return { type: "V4_SWAP", allowRevert, actions: decodeV4Actions(input) };
+    }
+
+    if (commandType === CommandType.V3_POSITION_MANAGER_PERMIT) {
+      return { type: "V3_POSITION_MANAGER_PERMIT", allowRevert, params: { calldata: input } };
+    }
+
+    if (commandType === CommandType.V3_POSITION_MANAGER_CALL) {
+      return { type: "V3_POSITION_MANAGER_CALL", allowRevert, params: { calldata: input } };
+    }
+
+    if (commandType === CommandType.V4_POSITION_MANAGER_CALL) {
+      return { type: "V4_POSITION_MANAGER_CALL", allowRevert, params: { calldata: input } };
+    }
+
+    if (commandType === CommandType.EXECUTE_SUB_PLAN) {
+      const subPlan = decodeNamedParameters(parseAbiParameters("bytes commands, bytes[] inputs"), input);
+      return { type: "EXECUTE_SUB_PLAN", allowRevert, commands: decodeCommands(subPlan.commands, subPlan.inputs) };
+    }
+
+    const definition = COMMAND_DEFINITIONS[commandType as keyof typeof COMMAND_DEFINITIONS];
+    if (definition === undefined) {
+      return { type: "UNKNOWN", allowRevert, commandType, input };
+    }
+
+    return {
+      type: definition.type,
+      allowRevert,
+      params: decodeNamedParameters(definition.params, input),
+    } as UniversalRouterCommand;
+  });
+}
@@ -0,0 +1,159 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+import type { Address, Hex } from "viem";
+
+import { v4 } from "hookmate/abi";
+import { isAddressEqual, parseAbiItem } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { sortTokens } from "@/helpers/tokens";
+import { DEFAULT_LOG_BLOCK_RANGE, getV4DeploymentBlock } from "@/internal/logs";
+
+const INITIALIZE_EVENT = parseAbiItem(
+  "event Initialize(bytes32 indexed id, address indexed currency0, address indexed currency1, uint24 fee, int24 tickSpacing, address hooks, uint160 sqrtPriceX96, int24 tick)",
+);
+
+/**
+ * Parameters for listing the v4 pools of a currency pair.
+ */
+export interface DiscoverPoolsArgs {
+  /** One currency of the pair, the zero address for the native currency */
+  currencyA: Address;
+  /** The other currency of the pair, in any order */
+  currencyB: Address;
+  /**
+   * First block to scan for PoolManager `Initialize` logs. Defaults to the PoolManager deployment block of the
+   * chain when the instance uses its canonical contracts, and to 0 otherwise.
+   */
+  fromBlock?: bigint;
+  /** Last block to scan, and the block pool state is read at. Defaults to the latest block. */
+  toBlock?: bigint;
+  /** Maximum block span of each `eth_getLogs` request, for RPCs that cap log ranges. Defaults to 10,000 blocks. */
+  blockRange?: bigint;
+  /** Read the current slot0 and liquidity of every pool found. Defaults to false. */
+  includeState?: boolean;
+}
+
+/**
+ * State of a discovered pool at `toBlock`.
+ */
+export interface DiscoveredPoolState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  /** Packed protocol fee from slot0 */
+  protocolFee: number;
+  /** LP fee in effect, set by the hook for dynamic-fee pools */
+  lpFee: number;
+  /** In-range liquidity */
+  liquidity: bigint;
+}
+
+/**
+ * A v4 pool found from its `Initialize` log.
+ */
+export interface DiscoveredPool {
+  poolKey: PoolKey;
+  poolId: Hex;
+  /** sqrtPriceX96 the pool was initialized at */
+  initialSqrtPriceX96: bigint;
+  /** Tick the pool was initialized at */
+  initialTick: number;
+  /** Block of the `Initialize` log */
+  blockNumber: bigint;
+  /** Transaction that initialized the pool */
+  transactionHash: Hex;
+  /** Current state, only set with `includeState` */
+  state?: DiscoveredPoolState;
+}
+
+/**
+ * Lists every v4 pool of a currency pair, whatever its fee, tick spacing or hooks.
+ *
+ * Pool keys cannot be enumerated on-chain, so they are decoded from the PoolManager `Initialize` logs
+ * of the pair, which are filtered by their indexed currencies. With `includeState`, the slot0 and
+ * liquidity of every pool are read in two parallel StateView multicalls.
+ *
+ * @param args - Currency pair, block range to scan and whether to read pool state
+ * @param instance - UniswapSDKInstance
+ * @returns Promise<DiscoveredPool[]> - Pools in the order they were initialized
+ * @throws Error if the currencies are equal, the block range is invalid or logs cannot be fetched
+ */
+export async function discoverPools(args: DiscoverPoolsArgs, instance: UniswapSDKInstance): Promise<DiscoveredPool[]> {
+  const { client, contracts } = instance;
+  const {
+    currencyA,
+    currencyB,
+    fromBlock = getV4DeploymentBlock(instance),
+    blockRange = DEFAULT_LOG_BLOCK_RANGE,
+    includeState = false,
+  } = args;
+
+  if (isAddressEqual(currencyA, currencyB)) {
+    throw new Error(`Invalid currency pair: currencyA and currencyB are both ${currencyA}.`);
+  }
+  if (blockRange <= 0n) {
+    throw new Error(`Invalid blockRange: ${blockRange}. Must be a positive number of blocks.`);
+  }
+
+  const toBlock = args.toBlock ?? (await client.getBlockNumber());
+  if (fromBlock > toBlock) {
+    throw new Error(`Invalid block range: fromBlock ${fromBlock} is after toBlock ${toBlock}.`);
+  }
+
+  const [currency0, currency1] = sortTokens(currencyA, currencyB);
+  const pools: DiscoveredPool[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = start + blockRange - 1n < toBlock ? start + blockRange - 1n : toBlock;
+    const logs = await client.getLogs({
+      address: contracts.poolManager,
+      event: INITIALIZE_EVENT,
+      args: { currency0, currency1 },
+      fromBlock: start,
+      toBlock: end,
+      strict: true,
+    });
+
+    for (const { args: log, blockNumber, transactionHash } of logs) {
+      pools.push({
+        poolKey: {
+          currency0: log.currency0,
+          currency1: log.currency1,
+          fee: log.fee,
+          tickSpacing: log.tickSpacing,
+          hooks: log.hooks,
+        },
+        poolId: log.id,
+        initialSqrtPriceX96: log.sqrtPriceX96,
+        initialTick: log.tick,
+        blockNumber,
+        transactionHash,
+      });
+    }
+  }
+
+  if (!includeState || pools.length === 0) {
+    return pools;
+  }
+
+  const stateCalls = { address: contracts.stateView, abi: v4.StateViewArtifact.abi } as const;
+  const [slot0Results, liquidityResults] = await Promise.all([
+    client.multicall({
+      allowFailure: false,
+      blockNumber: toBlock,
+      contracts: pools.map(({ poolId }) => ({ ...stateCalls, functionName: "getSlot0", args: [poolId] }) as const),
+    }),
+    client.multicall({
+      allowFailure: false,
+      blockNumber: toBlock,
+      contracts: pools.map(({ poolId }) => ({ ...stateCalls, functionName: "getLiquidity", args: [poolId] }) as const),
+    }),
+  ]);
+
+  return pools.map((pool, index) => {
+    const [sqrtPriceX96, tick, protocolFee, lpFee] = slot0Results[index]!;
+    const liquidity = liquidityResults[index]!;
+
+    return { ...pool, state: { sqrtPriceX96, tick, protocolFee, lpFee, liquidity } };
+  });
+}
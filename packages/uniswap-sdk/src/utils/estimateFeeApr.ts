@@ -0,0 +1,270 @@
+import type { Hex } from "viem";
+
+import { CurrencyAmount, Percent } from "@uniswap/sdk-core";
+import { type Pool, type PoolKey, Position } from "@uniswap/v4-sdk";
+import { v4 } from "hookmate/abi";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { getPool } from "@/utils/getPool";
+
+const Q128 = 2n ** 128n;
+const MASK_256 = (1n << 256n) - 1n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+/**
+ * Parameters for estimating the fee APR of a proposed position.
+ */
+export interface EstimateFeeAprArgs {
+  /** Pool to provide liquidity to */
+  poolKey: PoolKey;
+  /** Lower tick boundary of the proposed position */
+  tickLower: number;
+  /** Upper tick boundary of the proposed position */
+  tickUpper: number;
+  /** Amount of currency0 to deposit. The other amount is derived from the current price when omitted. */
+  amount0?: bigint;
+  /** Amount of currency1 to deposit. The other amount is derived from the current price when omitted. */
+  amount1?: bigint;
+  /** Number of blocks to sample fee growth over, ending at the latest block. Defaults to 7200. */
+  lookbackBlocks?: bigint;
+}
+
+export interface FeeAprEstimate {
+  /** Annualized fees earned over the window, relative to the position's value at the current price */
+  apr: Percent;
+  /** Fees in currency0 the position would have earned over the window */
+  fees0: bigint;
+  /** Fees in currency1 the position would have earned over the window */
+  fees1: bigint;
+  /** Liquidity of the proposed position */
+  liquidity: bigint;
+  /**
+   * Fee growth inside the range relative to the pool-wide fee growth, valued at the current price.
+   * 100% means the range was in range for the whole window.
+   */
+  inRangeShare: Percent;
+  fromBlock: bigint;
+  toBlock: bigint;
+  /** Seconds between the timestamps of `fromBlock` and `toBlock` */
+  elapsedSeconds: number;
+}
+
+/** Per-currency values of a fee growth counter */
+type FeeGrowth = readonly [bigint, bigint];
+
+interface TickFeeGrowth {
+  /** Whether the tick is referenced by a position. Uninitialized ticks report a zero `feeGrowthOutside`. */
+  initialized: boolean;
+  feeGrowthOutside: FeeGrowth;
+}
+
+interface FeeGrowthSample {
+  tick: number;
+  feeGrowthGlobal: FeeGrowth;
+  lower: TickFeeGrowth;
+  upper: TickFeeGrowth;
+  timestamp: bigint;
+}
+
+/**
+ * Estimates the fee APR of a proposed position from the pool's recent fee growth.
+ *
+ * Reads the pool's fee growth, current tick and the `feeGrowthOutside` of both range ticks from StateView at
+ * the start and end of the lookback window. The growth inside the range is the fees earned per unit of
+ * liquidity, which is multiplied by the proposed position's liquidity and annualized over the window's duration.
+ *
+ * Ticks no position references are uninitialized and carry no fee growth history. For those, the growth is
+ * attributed to the side of the tick the price was on at both samples, and split evenly when the price
+ * crossed the tick during the window, since the time of the crossing is unknown.
+ *
+ * Past fees do not guarantee future ones: the estimate assumes the same volume, and that the
+ * position's own liquidity would not have diluted the other LPs' share. Windows that start before
+ * the pool was initialized understate the APR. Reading old blocks requires an archive node.
+ *
+ * @param args - Pool, tick range, deposit amounts and lookback window
+ * @param instance - UniswapSDKInstance
+ * @returns Promise<FeeAprEstimate> - APR, fees over the window and in-range share
+ * @throws Error if no amount is given, the window is invalid, or pool data cannot be fetched
+ */
+export async function estimateFeeApr(args: EstimateFeeAprArgs, instance: UniswapSDKInstance): Promise<FeeAprEstimate> {
+  const { poolKey, tickLower, tickUpper, amount0, amount1, lookbackBlocks = 7200n } = args;
+  const { client } = instance;
+
+  if (amount0 === undefined && amount1 === undefined) {
+    throw new Error("Invalid amounts: at least one of amount0 or amount1 must be provided.");
+  }
+  if (lookbackBlocks <= 0n) {
+    throw new Error(`Invalid lookbackBlocks: ${lookbackBlocks}. Must be a positive number of blocks.`);
+  }
+
+  const [pool, toBlock] = await Promise.all([getPool(poolKey, instance), client.getBlockNumber()]);
+  const fromBlock = toBlock - lookbackBlocks;
+  if (fromBlock < 0n) {
+    throw new Error(`Invalid lookbackBlocks: ${lookbackBlocks}. Exceeds the chain height ${toBlock}.`);
+  }
+
+  const position = getProposedPosition(pool, tickLower, tickUpper, amount0, amount1);
+  const poolId = getPoolIdFromPoolKey(poolKey);
+
+  const [start, end] = await Promise.all([
+    getFeeGrowthSample(poolId, tickLower, tickUpper, fromBlock, instance),
+    getFeeGrowthSample(poolId, tickLower, tickUpper, toBlock, instance),
+  ]);
+
+  const liquidity = BigInt(position.liquidity.toString());
+  const growth0 = getFeeGrowthDelta(start, end, tickLower, tickUpper, 0);
+  const growth1 = getFeeGrowthDelta(start, end, tickLower, tickUpper, 1);
+  const fees0 = (growth0.inside * liquidity) / Q128;
+  const fees1 = (growth1.inside * liquidity) / Q128;
+
+  // Values are expressed in currency1 at the current pool price
+  const valueOf = (value0: bigint, value1: bigint) =>
+    BigInt(
+      pool.currency0Price
+        .quote(CurrencyAmount.fromRawAmount(pool.currency0, value0.toString()))
+        .add(CurrencyAmount.fromRawAmount(pool.currency1, value1.toString()))
+        .quotient.toString(),
+    );
+  const positionValue = valueOf(
+    BigInt(position.amount0.quotient.toString()),
+    BigInt(position.amount1.quotient.toString()),
+  );
+  const feesValue = valueOf(fees0, fees1);
+  const insideGrowthValue = valueOf(growth0.inside, growth1.inside);
+  const globalGrowthValue = valueOf(growth0.global, growth1.global);
+  const elapsedSeconds = end.timestamp - start.timestamp;
+
+  return {
+    apr:
+      positionValue === 0n || elapsedSeconds === 0n
+        ? new Percent(0)
+        : new Percent((feesValue * SECONDS_PER_YEAR).toString(), (positionValue * elapsedSeconds).toString()),
+    fees0,
+    fees1,
+    liquidity,
+    inRangeShare:
+      globalGrowthValue === 0n
+        ? new Percent(0)
+        : new Percent(insideGrowthValue.toString(), globalGrowthValue.toString()),
+    fromBlock,
+    toBlock,
+    elapsedSeconds: Number(elapsedSeconds),
+  };
+}
+
+function getProposedPosition(
+  pool: Pool,
+  tickLower: number,
+  tickUpper: number,
+  amount0: bigint | undefined,
+  amount1: bigint | undefined,
+): Position {
+  if (amount0 !== undefined && amount1 !== undefined) {
+    return Position.fromAmounts({
+      pool,
+      tickLower,
+      tickUpper,
+      amount0: amount0.toString(),
+      amount1: amount1.toString(),
+      useFullPrecision: true,
+    });
+  }
+  if (amount0 !== undefined) {
+    return Position.fromAmount0({ pool, tickLower, tickUpper, amount0: amount0.toString(), useFullPrecision: true });
+  }
+  return Position.fromAmount1({ pool, tickLower, tickUpper, amount1: amount1!.toString() });
+}
+
+/**
+ * Fee growth counters are uint256 and may overflow, so deltas use modular arithmetic.
+ */
+function delta(from: bigint, to: bigint): bigint {
+  return (to - from) & MASK_256;
+}
+
+/**
+ * Returns the pool-wide fee growth of one currency between two samples, and the part of it accrued while
+ * the price was inside `[tickLower, tickUpper)`: the growth below the upper tick minus the growth below the lower tick.
+ */
+function getFeeGrowthDelta(
+  start: FeeGrowthSample,
+  end: FeeGrowthSample,
+  tickLower: number,
+  tickUpper: number,
+  index: 0 | 1,
+): { global: bigint; inside: bigint } {
+  const global = delta(start.feeGrowthGlobal[index], end.feeGrowthGlobal[index]);
+  const inside =
+    getGrowthBelowDelta(start, end, "upper", tickUpper, index, global) -
+    getGrowthBelowDelta(start, end, "lower", tickLower, index, global);
+
+  return { global, inside: inside > 0n ? inside : 0n };
+}
+
+/**
+ * Returns the fee growth of one currency accrued while the price was below `tick` between two samples,
+ * bounded by the pool-wide growth.
+ */
+function getGrowthBelowDelta(
+  start: FeeGrowthSample,
+  end: FeeGrowthSample,
+  side: "lower" | "upper",
+  tick: number,
+  index: 0 | 1,
+  globalDelta: bigint,
+): bigint {
+  if (!start[side].initialized || !end[side].initialized) {
+    const startBelow = start.tick < tick;
+    const endBelow = end.tick < tick;
+    if (startBelow !== endBelow) {
+      return globalDelta / 2n;
+    }
+    return startBelow ? globalDelta : 0n;
+  }
+
+  const growthBelow = ({ tick: currentTick, feeGrowthGlobal, [side]: tickFeeGrowth }: FeeGrowthSample) => {
+    const outside = tickFeeGrowth.feeGrowthOutside[index];
+    return currentTick >= tick ? outside : delta(outside, feeGrowthGlobal[index]);
+  };
+  // A tick cleared and re-initialized within the window restarts its counters, which would exceed the global growth
+  const belowDelta = delta(growthBelow(start), growthBelow(end));
+  return belowDelta < globalDelta ? belowDelta : globalDelta;
+}
+
+async function getFeeGrowthSample(
+  poolId: Hex,
+  tickLower: number,
+  tickUpper: number,
+  blockNumber: bigint,
+  { client, contracts }: UniswapSDKInstance,
+): Promise<FeeGrowthSample> {
+  const stateView = { address: contracts.stateView, abi: v4.StateViewArtifact.abi } as const;
+  const [[feeGrowthGlobal, [, tick], lowerInfo, upperInfo], block] = await Promise.all([
+    client.multicall({
+      allowFailure: false,
+      blockNumber,
+      contracts: [
+        { ...stateView, functionName: "getFeeGrowthGlobals", args: [poolId] },
+        { ...stateView, functionName: "getSlot0", args: [poolId] },
+        { ...stateView, functionName: "getTickInfo", args: [poolId, tickLower] },
+        { ...stateView, functionName: "getTickInfo", args: [poolId, tickUpper] },
+      ],
+    }),
+    client.getBlock({ blockNumber }),
+  ]);
+
+  const toTickFeeGrowth = ([liquidityGross, , outside0, outside1]: readonly [bigint, bigint, bigint, bigint]) => ({
+    initialized: liquidityGross > 0n,
+    feeGrowthOutside: [outside0, outside1] as const,
+  });
+
+  return {
+    tick,
+    feeGrowthGlobal,
+    lower: toTickFeeGrowth(lowerInfo),
+    upper: toTickFeeGrowth(upperInfo),
+    timestamp: block.timestamp,
+  };
+}
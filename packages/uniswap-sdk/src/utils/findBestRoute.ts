@@ -0,0 +1,283 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+
+import { v4 } from "hookmate/abi";
+import { zeroAddress } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { QuoteGasPricing, QuoteResponse, SwapQuoteParams } from "@/utils/getQuote";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { sortTokens } from "@/helpers/tokens";
+import { resolveGasPricing } from "@/internal/quote";
+import { getQuotes } from "@/utils/getQuotes";
+import {
+  mapRoute,
+  resolveSwapRouteExactInput,
+  resolveSwapRouteExactOutput,
+  type SwapRoute,
+  type SwapRouteHop,
+} from "@/utils/swapRoute";
+
+/**
+ * A fee / tick spacing pairing used to build candidate pool keys.
+ */
+export interface FeeTier {
+  /** LP fee in hundredths of a bip (e.g. 3000 = 0.3%) */
+  fee: number;
+  /** Tick spacing used by pools in this tier */
+  tickSpacing: number;
+}
+
+/**
+ * Standard fee tiers used when no custom tiers are supplied.
+ */
+export const DEFAULT_FEE_TIERS: readonly FeeTier[] = [
+  { fee: 100, tickSpacing: 1 },
+  { fee: 500, tickSpacing: 10 },
+  { fee: 3000, tickSpacing: 60 },
+  { fee: 10_000, tickSpacing: 200 },
+];
+
+export const DEFAULT_MAX_HOPS = 2;
+export const MAX_ROUTE_HOPS = 4;
+
+export type SwapTradeType = "exactInput" | "exactOutput";
+
+/**
+ * Parameters for discovering the best swap routes between two currencies.
+ */
+export interface FindBestRouteArgs {
+  /** Input currency of the swap. */
+  currencyIn: Address;
+  /** Output currency of the swap. */
+  currencyOut: Address;
+  /** Exact amount on the `tradeType` side, as bigint or numberish string. */
+  amount: bigint | string;
+  /** Whether `amount` is the exact input or the exact output. */
+  tradeType: SwapTradeType;
+  /** Maximum number of hops per route (default: 2). */
+  maxHops?: number;
+  /** Intermediate currencies to route through. Defaults to the native token and WETH. */
+  baseCurrencies?: Address[];
+  /** Fee tiers to build candidate pool keys from. Defaults to `DEFAULT_FEE_TIERS`. */
+  feeTiers?: readonly FeeTier[];
+  /** Hook addresses to build candidate pool keys with. Defaults to hookless pools only. */
+  hooks?: Address[];
+  /** Additional explicit pool keys to consider (e.g. hooked pools with non-standard tick spacing). */
+  candidatePools?: PoolKey[];
+  /** When true, resolves WETH-denominated route edges as the native token. */
+  useNativeToken?: boolean;
+  /** Prices each route's gas estimate so exact-input routes are ranked by `netAmountOut`. */
+  gasPricing?: QuoteGasPricing;
+}
+
+/**
+ * A candidate route together with its quote.
+ */
+export interface RankedSwapRoute {
+  route: SwapRoute;
+  quote: QuoteResponse;
+}
+
+/**
+ * Discovers and ranks swap routes between two currencies.
+ *
+ * Candidate pool keys are built from every pair of {currencyIn, currencyOut, ...baseCurrencies}
+ * combined with each fee tier and hook address. Pools that are not initialized or hold no
+ * liquidity are filtered out with a single StateView multicall, every path of up to `maxHops`
+ * through the remaining pools is quoted through the v4 Quoter, and the successful quotes are
+ * returned best-first (highest `amountOut` for exact input, lowest `amountIn` for exact output).
+ * With `gasPricing`, exact-input routes are ranked by `netAmountOut` instead, so a longer route only
+ * wins when its extra output covers its extra gas.
+ *
+ * @param args - Route discovery parameters
+ * @param instance - UniswapSDKInstance
+ * @returns Ranked routes with their quotes. Empty when no quotable route exists.
+ * @throws Error if the arguments are invalid or pool state cannot be fetched
+ */
+export async function findBestRoute(args: FindBestRouteArgs, instance: UniswapSDKInstance): Promise<RankedSwapRoute[]> {
+  const {
+    currencyIn,
+    currencyOut,
+    amount,
+    tradeType,
+    maxHops = DEFAULT_MAX_HOPS,
+    baseCurrencies = [zeroAddress, instance.contracts.weth],
+    feeTiers = DEFAULT_FEE_TIERS,
+    hooks = [zeroAddress],
+    candidatePools = [],
+    useNativeToken,
+    gasPricing,
+  } = args;
+
+  if (currencyIn.toLowerCase() === currencyOut.toLowerCase()) {
+    throw new Error("Invalid route search: currencyIn and currencyOut must differ.");
+  }
+
+  if (!Number.isInteger(maxHops) || maxHops < 1 || maxHops > MAX_ROUTE_HOPS) {
+    throw new Error(`Invalid maxHops: ${maxHops}. Must be an integer between 1 and ${MAX_ROUTE_HOPS}.`);
+  }
+
+  if (BigInt(amount) <= 0n) {
+    throw new Error(`Invalid amount: ${amount}. Must be a positive value.`);
+  }
+
+  // Every quote would fail on invalid gas pricing, so surface it instead of returning no routes.
+  if (gasPricing !== undefined) {
+    resolveGasPricing(gasPricing, currencyOut, instance.contracts.weth);
+  }
+
+  const poolKeys = buildCandidatePoolKeys(
+    [currencyIn, currencyOut, ...baseCurrencies],
+    feeTiers,
+    hooks,
+    candidatePools,
+  );
+  const livePoolKeys = await filterLivePoolKeys(poolKeys, instance);
+  const routes = enumerateRoutes(currencyIn, currencyOut, livePoolKeys, maxHops);
+
+  const quotes = await getQuotes(
+    routes.map(
+      (route): SwapQuoteParams =>
+        tradeType === "exactOutput"
+          ? { route, exactOutput: { currency: currencyOut, amount }, useNativeToken, gasPricing }
+          : { route, exactInput: { currency: currencyIn, amount }, useNativeToken, gasPricing },
+    ),
+    instance,
+  );
+
+  const rankedRoutes: RankedSwapRoute[] = [];
+  quotes.forEach((quote, index) => {
+    if (quote.status === "success") {
+      rankedRoutes.push({ route: routes[index]!, quote: quote.result });
+    }
+  });
+
+  return rankedRoutes.sort((a, b) => compareQuotes(a.quote, b.quote, tradeType));
+}
+
+function compareQuotes(a: QuoteResponse, b: QuoteResponse, tradeType: SwapTradeType): number {
+  if (tradeType === "exactOutput") {
+    return a.amountIn === b.amountIn ? 0 : a.amountIn < b.amountIn ? -1 : 1;
+  }
+
+  const outputA = a.netAmountOut ?? a.amountOut;
+  const outputB = b.netAmountOut ?? b.amountOut;
+  return outputA === outputB ? 0 : outputA > outputB ? -1 : 1;
+}
+
+function buildCandidatePoolKeys(
+  currencies: Address[],
+  feeTiers: readonly FeeTier[],
+  hooks: Address[],
+  candidatePools: PoolKey[],
+): PoolKey[] {
+  const uniqueCurrencies = [...new Map(currencies.map((currency) => [currency.toLowerCase(), currency])).values()];
+  const poolKeysById = new Map<string, PoolKey>();
+
+  for (let i = 0; i < uniqueCurrencies.length; i += 1) {
+    for (let j = i + 1; j < uniqueCurrencies.length; j += 1) {
+      const [currency0, currency1] = sortTokens(uniqueCurrencies[i]!, uniqueCurrencies[j]!);
+
+      for (const { fee, tickSpacing } of feeTiers) {
+        for (const hook of hooks) {
+          const poolKey: PoolKey = { currency0, currency1, fee, tickSpacing, hooks: hook };
+          poolKeysById.set(getPoolIdFromPoolKey(poolKey), poolKey);
+        }
+      }
+    }
+  }
+
+  for (const poolKey of candidatePools) {
+    poolKeysById.set(getPoolIdFromPoolKey(poolKey), poolKey);
+  }
+
+  return [...poolKeysById.values()];
+}
+
+async function filterLivePoolKeys(poolKeys: PoolKey[], instance: UniswapSDKInstance): Promise<PoolKey[]> {
+  if (poolKeys.length === 0) {
+    return [];
+  }
+
+  const { client, contracts } = instance;
+  const { stateView } = contracts;
+
+  const results = await client.multicall({
+    allowFailure: true,
+    contracts: poolKeys.flatMap((poolKey) => {
+      const poolId = getPoolIdFromPoolKey(poolKey);
+      return [
+        {
+          address: stateView,
+          abi: v4.StateViewArtifact.abi,
+          functionName: "getSlot0",
+          args: [poolId],
+        } as const,
+        {
+          address: stateView,
+          abi: v4.StateViewArtifact.abi,
+          functionName: "getLiquidity",
+          args: [poolId],
+        } as const,
+      ];
+    }),
+  });
+
+  return poolKeys.filter((_, index) => {
+    const slot0 = results[index * 2];
+    const liquidity = results[index * 2 + 1];
+    if (slot0?.status !== "success" || liquidity?.status !== "success") {
+      return false;
+    }
+
+    const [sqrtPriceX96] = slot0.result as readonly [bigint, number, number, number];
+    return sqrtPriceX96 > 0n && (liquidity.result as bigint) > 0n;
+  });
+}
+
+function enumerateRoutes(currencyIn: Address, currencyOut: Address, poolKeys: PoolKey[], maxHops: number): SwapRoute[] {
+  const target = currencyOut.toLowerCase();
+  const routes: SwapRoute[] = [];
+
+  const visit = (currentCurrency: string, hops: SwapRouteHop[], visitedCurrencies: Set<string>) => {
+    for (const poolKey of poolKeys) {
+      const currency0 = poolKey.currency0.toLowerCase();
+      const currency1 = poolKey.currency1.toLowerCase();
+
+      let nextCurrency: string;
+      if (currency0 === currentCurrency) {
+        nextCurrency = currency1;
+      } else if (currency1 === currentCurrency) {
+        nextCurrency = currency0;
+      } else {
+        continue;
+      }
+
+      if (visitedCurrencies.has(nextCurrency)) {
+        continue;
+      }
+
+      const nextHops = [...hops, { poolKey }];
+      if (nextCurrency === target) {
+        routes.push(mapRoute(nextHops as [SwapRouteHop, ...SwapRouteHop[]], (hop) => hop));
+      } else if (nextHops.length < maxHops) {
+        visit(nextCurrency, nextHops, new Set([...visitedCurrencies, nextCurrency]));
+      }
+    }
+  };
+
+  visit(currencyIn.toLowerCase(), [], new Set([currencyIn.toLowerCase()]));
+
+  // Every enumerated path must resolve in both directions; this also guards custom candidate pools.
+  return routes.filter((route) => {
+    try {
+      resolveSwapRouteExactInput(currencyIn, route);
+      resolveSwapRouteExactOutput(currencyOut, route);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
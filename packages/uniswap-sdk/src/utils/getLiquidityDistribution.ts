@@ -0,0 +1,174 @@
+import type { Currency, Price } from "@uniswap/sdk-core";
+
+import { nearestUsableTick, TickMath } from "@uniswap/v3-sdk";
+import { type Pool, type PoolKey, tickToPrice } from "@uniswap/v4-sdk";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { PoolTick } from "@/helpers/ticks";
+
+import { getTickBitmapWordPosition } from "@/helpers/ticks";
+import { getPool } from "@/utils/getPool";
+import { getPoolTickData } from "@/utils/getPoolTickData";
+
+const Q96 = 2n ** 96n;
+
+export interface GetLiquidityDistributionOptions {
+  /** Ticks to cover on each side of the current tick (default: 100 buckets on each side). */
+  tickRange?: number;
+  /** Width of each bucket in ticks, a multiple of the pool's tick spacing (default: the tick spacing). */
+  bucketSize?: number;
+}
+
+/**
+ * Liquidity and locked token amounts within one price bucket.
+ */
+export interface LiquidityBucket {
+  tickLower: number;
+  tickUpper: number;
+  /** Price of currency0 in currency1 at `tickLower` */
+  priceLower: Price<Currency, Currency>;
+  /** Price of currency0 in currency1 at `tickUpper` */
+  priceUpper: Price<Currency, Currency>;
+  /** Active liquidity at `tickLower`. Buckets wider than the tick spacing may change liquidity inside. */
+  liquidity: bigint;
+  /** Amount of currency0 locked in the bucket */
+  amount0: bigint;
+  /** Amount of currency1 locked in the bucket */
+  amount1: bigint;
+}
+
+export interface LiquidityDistribution {
+  pool: Pool;
+  bucketSize: number;
+  /** Buckets in ascending tick order. The current tick falls in the bucket whose range contains it. */
+  buckets: LiquidityBucket[];
+}
+
+/**
+ * Computes the liquidity distribution of a pool around its current price, for depth charts.
+ *
+ * Loads the initialized ticks covering the range with `getPoolTickData`, then walks them outwards
+ * from the pool's active liquidity to rebuild the liquidity of every bucket. Token amounts are the
+ * reserves locked between each bucket's bounds: currency0 above the current price, currency1 below.
+ *
+ * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+ * @param instance - UniswapSDKInstance
+ * @param options - Tick range around the current tick and bucket width
+ * @returns Promise<LiquidityDistribution> - Pool and its liquidity buckets
+ * @throws PoolNotFoundError if the pool does not exist
+ * @throws Error if the options are invalid or StateView reads fail
+ */
+export async function getLiquidityDistribution(
+  poolKey: PoolKey,
+  instance: UniswapSDKInstance,
+  options: GetLiquidityDistributionOptions = {},
+): Promise<LiquidityDistribution> {
+  const { tickSpacing } = poolKey;
+  const { bucketSize = tickSpacing } = options;
+  const { tickRange = bucketSize * 100 } = options;
+
+  if (!Number.isInteger(bucketSize) || bucketSize <= 0 || bucketSize % tickSpacing !== 0) {
+    throw new Error(
+      `Invalid bucketSize: ${bucketSize}. Must be a positive multiple of the tick spacing ${tickSpacing}.`,
+    );
+  }
+  if (!Number.isInteger(tickRange) || tickRange <= 0) {
+    throw new Error(`Invalid tickRange: ${tickRange}. Must be a positive integer.`);
+  }
+
+  const pool = await getPool(poolKey, instance);
+  const { tickCurrent } = pool;
+
+  const minTick = nearestUsableTick(TickMath.MIN_TICK, tickSpacing);
+  const maxTick = nearestUsableTick(TickMath.MAX_TICK, tickSpacing);
+  const startTick = Math.max(Math.floor((tickCurrent - tickRange) / bucketSize) * bucketSize, minTick);
+  const endTick = Math.min(Math.ceil((tickCurrent + tickRange + 1) / bucketSize) * bucketSize, maxTick);
+
+  const currentWord = getTickBitmapWordPosition(tickCurrent, tickSpacing);
+  const wordRadius = Math.max(
+    currentWord - getTickBitmapWordPosition(startTick, tickSpacing),
+    getTickBitmapWordPosition(endTick, tickSpacing) - currentWord,
+  );
+  const { ticks } = await getPoolTickData({ poolKey, tickCurrent, wordRadius }, instance);
+
+  return { pool, bucketSize, buckets: toLiquidityBuckets(pool, ticks, startTick, endTick, bucketSize) };
+}
+
+function toLiquidityBuckets(
+  pool: Pool,
+  ticks: PoolTick[],
+  startTick: number,
+  endTick: number,
+  bucketSize: number,
+): LiquidityBucket[] {
+  const { tickCurrent, currency0, currency1 } = pool;
+  const sqrtPriceX96 = BigInt(pool.sqrtRatioX96.toString());
+  const netByTick = new Map(
+    ticks
+      .filter(({ index }) => index > startTick && index < endTick)
+      .map(({ index, liquidityNet }) => [index, liquidityNet]),
+  );
+
+  // Active liquidity at startTick: undo every tick crossed between it and the current tick
+  let liquidity = BigInt(pool.liquidity.toString());
+  for (const [index, liquidityNet] of netByTick) {
+    if (index <= tickCurrent) {
+      liquidity -= liquidityNet;
+    }
+  }
+
+  const bucketCount = Math.ceil((endTick - startTick) / bucketSize);
+  const bounds = [
+    ...new Set([
+      ...Array.from({ length: bucketCount }, (_, index) => startTick + index * bucketSize),
+      ...netByTick.keys(),
+      endTick,
+    ]),
+  ].sort((a, b) => a - b);
+
+  const buckets: LiquidityBucket[] = [];
+  for (let index = 0; index < bounds.length - 1; index++) {
+    const lower = bounds[index]!;
+    const upper = bounds[index + 1]!;
+    liquidity += netByTick.get(lower) ?? 0n;
+
+    if ((lower - startTick) % bucketSize === 0) {
+      buckets.push({
+        tickLower: lower,
+        tickUpper: Math.min(lower + bucketSize, endTick),
+        priceLower: tickToPrice(currency0, currency1, lower),
+        priceUpper: tickToPrice(currency0, currency1, Math.min(lower + bucketSize, endTick)),
+        liquidity,
+        amount0: 0n,
+        amount1: 0n,
+      });
+    }
+
+    const bucket = buckets[buckets.length - 1]!;
+    const [amount0, amount1] = getSegmentAmounts(liquidity, lower, upper, sqrtPriceX96);
+    bucket.amount0 += amount0;
+    bucket.amount1 += amount1;
+  }
+
+  return buckets;
+}
+
+/**
+ * Token amounts locked by `liquidity` between two ticks, rounded down as in v4 `SqrtPriceMath`.
+ */
+function getSegmentAmounts(
+  liquidity: bigint,
+  tickLower: number,
+  tickUpper: number,
+  sqrtPriceX96: bigint,
+): [bigint, bigint] {
+  const sqrtLower = BigInt(TickMath.getSqrtRatioAtTick(tickLower).toString());
+  const sqrtUpper = BigInt(TickMath.getSqrtRatioAtTick(tickUpper).toString());
+  const sqrtPrice = sqrtPriceX96 < sqrtLower ? sqrtLower : sqrtPriceX96 > sqrtUpper ? sqrtUpper : sqrtPriceX96;
+
+  // currency0 is held above the current price, currency1 below it
+  const amount0 = sqrtPrice < sqrtUpper ? (liquidity * Q96 * (sqrtUpper - sqrtPrice)) / sqrtUpper / sqrtPrice : 0n;
+  const amount1 = sqrtPrice > sqrtLower ? (liquidity * (sqrtPrice - sqrtLower)) / Q96 : 0n;
+
+  return [amount0, amount1];
+}
@@ -1,23 +1,26 @@
 import type { Address, Hex } from "viem";
 
 import { Pool, type PoolKey } from "@uniswap/v4-sdk";
-import { v4 } from "hookmate/abi";
 import { zeroAddress } from "viem";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
+import type { PoolWithFees } from "@/helpers/pools";
 
+import { PoolNotFoundError } from "@/core/errors";
+import { getPoolStateCalls, isInitializedSlot0, toPoolWithFees } from "@/internal/pools";
 import { getTokens } from "@/utils/getTokens";
 
 export const DEFAULT_HOOKS = zeroAddress;
 
 /**
- * Retrieves a Uniswap v4 pool instance for a given pool key.
+ * Retrieves a Uniswap v4 pool instance for a given pool key, with the LP and protocol fees from slot0.
  * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
  * @param instance - UniswapSDKInstance
  * @returns Promise resolving to pool data
+ * @throws PoolNotFoundError if the pool is not initialized
  * @throws Error if SDK instance or token instances are not found or if pool data is not found
  */
-export async function getPool(poolKey: PoolKey, instance: UniswapSDKInstance): Promise<Pool> {
+export async function getPool(poolKey: PoolKey, instance: UniswapSDKInstance): Promise<PoolWithFees> {
   const { currency0, currency1, fee, tickSpacing, hooks } = poolKey;
 
   const tokenInstances = await getTokens(
@@ -34,20 +37,7 @@ export async function getPool(poolKey: PoolKey, instance: UniswapSDKInstance): P
 
   const poolData = await client.multicall({
     allowFailure: false,
-    contracts: [
-      {
-        address: stateView,
-        abi: v4.StateViewArtifact.abi,
-        functionName: "getSlot0",
-        args: [poolId32Bytes],
-      },
-      {
-        address: stateView,
-        abi: v4.StateViewArtifact.abi,
-        functionName: "getLiquidity",
-        args: [poolId32Bytes],
-      },
-    ],
+    contracts: getPoolStateCalls(stateView, poolId32Bytes),
   });
 
   if (!poolData) {
@@ -55,25 +45,14 @@ export async function getPool(poolKey: PoolKey, instance: UniswapSDKInstance): P
   }
 
   const [slot0Data, liquidityData] = poolData;
-  const poolExists = slot0Data != null && liquidityData != null;
+  const poolExists = slot0Data != null && liquidityData != null && isInitializedSlot0(slot0Data);
 
   if (!poolExists) {
-    throw new Error("Pool does not exist");
+    throw new PoolNotFoundError(poolKey, poolId32Bytes);
   }
 
   try {
-    const pool = new Pool(
-      tokenInstances[0],
-      tokenInstances[1],
-      fee,
-      tickSpacing,
-      hooks,
-      slot0Data[0].toString(),
-      liquidityData.toString(),
-      slot0Data[1],
-    );
-
-    return pool;
+    return toPoolWithFees(poolKey, tokenInstances, slot0Data, liquidityData);
   } catch (error) {
     throw new Error(`Error creating pool instance: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -0,0 +1,72 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+import type { Hex } from "viem";
+
+import { v4 } from "hookmate/abi";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+
+/**
+ * Initialization state of a v4 pool.
+ */
+export interface PoolInitializationStatus {
+  /**
+   * `uninitialized` until `initialize` has been called for the pool key, `empty` once it has a price
+   * but no in-range liquidity, and `active` while it has in-range liquidity. Liquidity outside the
+   * current tick does not count, so a pool with only out-of-range positions is `empty`.
+   */
+  status: "uninitialized" | "empty" | "active";
+  poolId: Hex;
+  /** Current sqrtPriceX96, 0 while uninitialized */
+  sqrtPriceX96: bigint;
+  /** Current tick, 0 while uninitialized */
+  tick: number;
+  /** In-range liquidity */
+  liquidity: bigint;
+}
+
+/**
+ * Reads whether a pool has been initialized and whether it holds in-range liquidity. Unlike `getPool`,
+ * it does not throw for uninitialized pools and does not fetch token metadata.
+ *
+ * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+ * @param instance - UniswapSDKInstance
+ * @returns The pool's status, id, price, tick and in-range liquidity
+ */
+export async function getPoolInitializationStatus(
+  poolKey: PoolKey,
+  instance: UniswapSDKInstance,
+): Promise<PoolInitializationStatus> {
+  const { client, contracts } = instance;
+  const poolId = getPoolIdFromPoolKey(poolKey);
+
+  const [slot0, liquidity] = await client.multicall({
+    allowFailure: false,
+    contracts: [
+      {
+        address: contracts.stateView,
+        abi: v4.StateViewArtifact.abi,
+        functionName: "getSlot0",
+        args: [poolId],
+      },
+      {
+        address: contracts.stateView,
+        abi: v4.StateViewArtifact.abi,
+        functionName: "getLiquidity",
+        args: [poolId],
+      },
+    ],
+  });
+
+  const [sqrtPriceX96, tick] = slot0;
+
+  return {
+    // Uninitialized pools report a zero sqrtPriceX96
+    status: sqrtPriceX96 === 0n ? "uninitialized" : liquidity === 0n ? "empty" : "active",
+    poolId,
+    sqrtPriceX96,
+    tick,
+    liquidity,
+  };
+}
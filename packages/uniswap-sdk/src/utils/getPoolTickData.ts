@@ -0,0 +1,132 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+
+import { TickMath } from "@uniswap/v3-sdk";
+import { v4 } from "hookmate/abi";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { getPoolIdFromPoolKey, PoolWithFees } from "@/helpers/pools";
+import { decodeTickBitmap, getTickBitmapWordPosition, PoolTickDataProvider, type PoolTickData } from "@/helpers/ticks";
+import { getPool } from "@/utils/getPool";
+
+/**
+ * Number of tick bitmap words loaded on each side of the current word by default.
+ */
+export const DEFAULT_TICK_WORD_RADIUS = 2;
+
+export interface GetPoolTickDataArgs {
+  poolKey: PoolKey;
+  /** Tick to center the loaded range on, usually the pool's current tick. */
+  tickCurrent: number;
+  /** Tick bitmap words to load on each side of the current word (default: 2). */
+  wordRadius?: number;
+}
+
+export interface GetPoolWithTicksOptions {
+  /** Tick bitmap words to load on each side of the current word (default: 2). */
+  wordRadius?: number;
+}
+
+/**
+ * Loads the initialized ticks around `tickCurrent` from v4 StateView.
+ *
+ * Tick bitmap words are read with one multicall of `getTickBitmap`, then `getTickLiquidity` is read
+ * for every initialized tick with a second multicall. Each word covers `256 * tickSpacing` ticks.
+ *
+ * @param args - Pool key, center tick and word radius
+ * @param instance - UniswapSDKInstance
+ * @returns Initialized ticks within the loaded words
+ * @throws Error if the word radius is invalid or StateView reads fail
+ */
+export async function getPoolTickData(args: GetPoolTickDataArgs, instance: UniswapSDKInstance): Promise<PoolTickData> {
+  const { poolKey, tickCurrent, wordRadius = DEFAULT_TICK_WORD_RADIUS } = args;
+  const { tickSpacing } = poolKey;
+  const { client, contracts } = instance;
+  const { stateView } = contracts;
+
+  if (!Number.isInteger(wordRadius) || wordRadius < 0) {
+    throw new Error(`Invalid wordRadius: ${wordRadius}. Must be a non-negative integer.`);
+  }
+
+  const poolId = getPoolIdFromPoolKey(poolKey);
+  const currentWord = getTickBitmapWordPosition(tickCurrent, tickSpacing);
+  const minWord = Math.max(currentWord - wordRadius, getTickBitmapWordPosition(TickMath.MIN_TICK, tickSpacing));
+  const maxWord = Math.min(currentWord + wordRadius, getTickBitmapWordPosition(TickMath.MAX_TICK, tickSpacing));
+  const words = Array.from({ length: maxWord - minWord + 1 }, (_, index) => minWord + index);
+
+  const bitmaps = await client.multicall({
+    allowFailure: false,
+    contracts: words.map(
+      (word) =>
+        ({
+          address: stateView,
+          abi: v4.StateViewArtifact.abi,
+          functionName: "getTickBitmap",
+          args: [poolId, word],
+        }) as const,
+    ),
+  });
+
+  const tickIndexes = words.flatMap((word, index) => decodeTickBitmap(word, bitmaps[index]!, tickSpacing));
+  if (tickIndexes.length === 0) {
+    return { tickSpacing, minWord, maxWord, ticks: [] };
+  }
+
+  const tickLiquidities = await client.multicall({
+    allowFailure: false,
+    contracts: tickIndexes.map(
+      (tick) =>
+        ({
+          address: stateView,
+          abi: v4.StateViewArtifact.abi,
+          functionName: "getTickLiquidity",
+          args: [poolId, tick],
+        }) as const,
+    ),
+  });
+
+  return {
+    tickSpacing,
+    minWord,
+    maxWord,
+    ticks: tickIndexes.map((index, position) => {
+      const [liquidityGross, liquidityNet] = tickLiquidities[position]!;
+      return { index, liquidityGross, liquidityNet };
+    }),
+  };
+}
+
+/**
+ * Fetches a pool like `getPool` and attaches a `PoolTickDataProvider` with the initialized ticks
+ * around its current price, so `pool.getOutputAmount` / `pool.getInputAmount` work off-chain.
+ *
+ * @param poolKey - v4 pool key: currency0, currency1, fee, tickSpacing, hooks
+ * @param instance - UniswapSDKInstance
+ * @param options - Optional word radius of the loaded tick range
+ * @returns Pool instance backed by the loaded tick data, with the fees from slot0
+ * @throws Error if the pool does not exist or StateView reads fail
+ */
+export async function getPoolWithTicks(
+  poolKey: PoolKey,
+  instance: UniswapSDKInstance,
+  options: GetPoolWithTicksOptions = {},
+): Promise<PoolWithFees> {
+  const pool = await getPool(poolKey, instance);
+  const tickData = await getPoolTickData(
+    { poolKey, tickCurrent: pool.tickCurrent, wordRadius: options.wordRadius },
+    instance,
+  );
+
+  return new PoolWithFees(
+    { lpFee: pool.lpFee, protocolFee: pool.protocolFee },
+    pool.currency0,
+    pool.currency1,
+    pool.fee,
+    pool.tickSpacing,
+    pool.hooks,
+    pool.sqrtRatioX96,
+    pool.liquidity,
+    pool.tickCurrent,
+    new PoolTickDataProvider(tickData),
+  );
+}
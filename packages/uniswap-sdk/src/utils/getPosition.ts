@@ -1,11 +1,12 @@
 import type { Currency } from "@uniswap/sdk-core";
-
-import { Pool, Position as V4Position } from "@uniswap/v4-sdk";
+import type { Position as V4Position } from "@uniswap/v4-sdk";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
+import type { PoolWithFees } from "@/helpers/pools";
 
+import { InsufficientLiquidityError } from "@/core/errors";
+import { toPositionResponse } from "@/internal/positions";
 import { getPositionInfo } from "@/utils/getPositionInfo";
-import { getTokens } from "@/utils/getTokens";
 
 /**
  * Complete position data with initialized SDK instances.
@@ -14,8 +15,8 @@ import { getTokens } from "@/utils/getTokens";
 export interface GetPositionResponse {
   /** The position instance from Uniswap v4 SDK */
   position: V4Position;
-  /** The pool instance from Uniswap v4 SDK with current state */
-  pool: Pool;
+  /** The pool instance from Uniswap v4 SDK with current state and the fees from slot0 */
+  pool: PoolWithFees;
   /** The first token in the pool pair */
   currency0: Currency;
   /** The second token in the pool pair */
@@ -43,7 +44,9 @@ export interface GetPositionOptions {
  * @param tokenId - The NFT token ID of the position
  * @param instance - UniswapSDKInstance
  * @returns Promise<GetPositionResponse> - Complete position with SDK instances
- * @throws Error if position data cannot be fetched, position doesn't exist, or liquidity is 0
+ * @throws PositionNotFoundError if the position doesn't exist
+ * @throws InsufficientLiquidityError if the position's liquidity is 0
+ * @throws Error if position data cannot be fetched
  */
 export async function getPosition(
   tokenId: string,
@@ -53,61 +56,10 @@ export async function getPosition(
   // Get position info (includes slot0 and poolLiquidity to avoid redundant calls)
   const positionInfo = await getPositionInfo(tokenId, instance);
 
-  const { poolKey, liquidity, tickLower, tickUpper, slot0, poolLiquidity } = positionInfo;
-  const { currency0: currency0Address, currency1: currency1Address, fee, tickSpacing, hooks } = poolKey;
-
   // Validate that position has liquidity
-  if (liquidity === 0n && !options.allowZeroLiquidity) {
-    throw new Error("Position has no liquidity");
-  }
-
-  // Get token instances
-  const tokens = await getTokens(
-    {
-      addresses: [currency0Address as `0x${string}`, currency1Address as `0x${string}`],
-    },
-    instance,
-  );
-
-  if (!tokens || tokens.length < 2) {
-    throw new Error("Failed to fetch token instances");
+  if (positionInfo.liquidity === 0n && !options.allowZeroLiquidity) {
+    throw new InsufficientLiquidityError("Position has no liquidity", { tokenId });
   }
 
-  const [currency0, currency1] = tokens;
-
-  // Compute pool ID
-  const poolId = Pool.getPoolId(currency0, currency1, fee, tickSpacing, hooks) as `0x${string}`;
-
-  // Extract slot0 data (already fetched in getPositionInfo)
-  const [sqrtPriceX96, tick] = slot0;
-
-  // Create Pool instance with current state
-  const pool = new Pool(
-    currency0,
-    currency1,
-    fee,
-    tickSpacing,
-    hooks,
-    sqrtPriceX96.toString(),
-    poolLiquidity.toString(),
-    tick,
-  );
-
-  // Create Position instance
-  const position = new V4Position({
-    pool,
-    liquidity: liquidity.toString(),
-    tickLower,
-    tickUpper,
-  });
-
-  return {
-    position,
-    pool,
-    currency0,
-    currency1,
-    poolId,
-    tokenId,
-    currentTick: Number(tick),
-  };
+  return toPositionResponse(positionInfo);
 }
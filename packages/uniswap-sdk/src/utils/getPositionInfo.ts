@@ -5,6 +5,7 @@ import { v4 } from "hookmate/abi";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
 
+import { PositionNotFoundError } from "@/core/errors";
 import { decodePositionInfo } from "@/helpers/positions";
 import { getTokens } from "@/utils/getTokens";
 
@@ -29,6 +30,10 @@ export interface GetPositionInfoResponse {
   slot0: readonly [bigint, number, number, number];
   /** Current total liquidity in the pool */
   poolLiquidity: bigint;
+  /** LP fee in effect, from slot0. Differs from `poolKey.fee` for dynamic-fee pools. */
+  lpFee: number;
+  /** Packed protocol fees of both swap directions, from slot0 */
+  protocolFee: number;
   /** The unique identifier of the pool */
   poolId: `0x${string}`;
   /** The first token in the pool pair */
@@ -54,7 +59,8 @@ export interface GetPositionInfoResponse {
  * @param tokenId - The NFT token ID of the position
  * @param instance - UniswapSDKInstance
  * @returns Promise<GetPositionInfoResponse> - Basic position information with pool state
- * @throws Error if position data cannot be fetched or position doesn't exist
+ * @throws PositionNotFoundError if the position doesn't exist
+ * @throws Error if position data cannot be fetched
  */
 export async function getPositionInfo(tokenId: string, instance: UniswapSDKInstance): Promise<GetPositionInfoResponse> {
   const { client, contracts } = instance;
@@ -84,6 +90,11 @@ export async function getPositionInfo(tokenId: string, instance: UniswapSDKInsta
   const positionInfo = decodePositionInfo(poolAndPositionInfo[1]);
   const poolKey = poolAndPositionInfo[0];
 
+  // Unminted and burned positions have an empty pool key
+  if (poolKey.tickSpacing === 0) {
+    throw new PositionNotFoundError(tokenId);
+  }
+
   // Get token instances to compute poolId
   const tokens = await getTokens(
     {
@@ -120,7 +131,7 @@ export async function getPositionInfo(tokenId: string, instance: UniswapSDKInsta
     ],
   });
 
-  const [, tick] = slot0Result;
+  const [, tick, protocolFee, lpFee] = slot0Result;
 
   return {
     tokenId,
@@ -131,6 +142,8 @@ export async function getPositionInfo(tokenId: string, instance: UniswapSDKInsta
     currentTick: Number(tick),
     slot0: slot0Result,
     poolLiquidity: poolLiquidityResult,
+    lpFee,
+    protocolFee,
     poolId,
     currency0,
     currency1,
@@ -0,0 +1,219 @@
+import type { Address } from "viem";
+
+import { type Currency, CurrencyAmount, Percent, Price } from "@uniswap/sdk-core";
+import { Pool, Position as V4Position } from "@uniswap/v4-sdk";
+import { v4 } from "hookmate/abi";
+import { zeroAddress } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { SwapRoute } from "@/utils/swapRoute";
+
+import { InvalidRouteError, PoolNotFoundError } from "@/core/errors";
+import { getRouteMidPrice } from "@/helpers/prices";
+import { getPool } from "@/utils/getPool";
+import { getPosition } from "@/utils/getPosition";
+import { getUncollectedFees } from "@/utils/getUncollectedFees";
+
+/**
+ * Options for valuing a position.
+ */
+export interface GetPositionValuationOptions {
+  /** Currency to express values in. Either pool currency, or the output of `pricingRoute`. */
+  quoteCurrency: Address;
+  /**
+   * Route from one of the position's currencies to `quoteCurrency`, priced at the mid-price of its pools.
+   * Required when `quoteCurrency` is not one of the position's currencies.
+   */
+  pricingRoute?: SwapRoute;
+  /**
+   * Block the position was opened at. When set, the valuation includes impermanent loss versus holding
+   * the deposited tokens. Reading pool state at an old block requires an archive node.
+   */
+  depositBlock?: bigint;
+}
+
+/**
+ * Impermanent loss of a position versus holding the tokens it was opened with.
+ */
+export interface ImpermanentLoss {
+  depositBlock: bigint;
+  /** Amount of currency0 the position's current liquidity held at the deposit price */
+  depositAmount0: CurrencyAmount<Currency>;
+  /** Amount of currency1 the position's current liquidity held at the deposit price */
+  depositAmount1: CurrencyAmount<Currency>;
+  /** Current value of the deposited amounts, had they been held instead */
+  hodlValue: CurrencyAmount<Currency>;
+  /** `hodlValue` minus the current value of the position, fees excluded */
+  loss: CurrencyAmount<Currency>;
+  /** `loss` relative to `hodlValue` */
+  lossPercent: Percent;
+}
+
+export interface PositionValuation {
+  tokenId: string;
+  poolId: `0x${string}`;
+  quoteCurrency: Currency;
+  /** Price of currency0 in `quoteCurrency` */
+  price0: Price<Currency, Currency>;
+  /** Price of currency1 in `quoteCurrency` */
+  price1: Price<Currency, Currency>;
+  /** Token amounts the position's liquidity is worth at the current price */
+  amount0: CurrencyAmount<Currency>;
+  amount1: CurrencyAmount<Currency>;
+  /** Accrued but uncollected fees */
+  fees0: CurrencyAmount<Currency>;
+  fees1: CurrencyAmount<Currency>;
+  /** Value of `amount0` and `amount1` in `quoteCurrency` */
+  positionValue: CurrencyAmount<Currency>;
+  /** Value of `fees0` and `fees1` in `quoteCurrency` */
+  feesValue: CurrencyAmount<Currency>;
+  /** `positionValue` plus `feesValue` */
+  totalValue: CurrencyAmount<Currency>;
+  /** Only set when `depositBlock` is given */
+  impermanentLoss?: ImpermanentLoss;
+}
+
+/**
+ * Values a position and its uncollected fees in a chosen quote currency.
+ *
+ * Prices come from the mid-price of the position's pool and, when `quoteCurrency` is not one of the
+ * pool's currencies, of the pools along `pricingRoute`. With `depositBlock`, the pool price at that
+ * block is used to compare the position against holding the tokens it was opened with.
+ *
+ * @param tokenId - The NFT token ID of the position
+ * @param instance - UniswapSDKInstance
+ * @param options - Quote currency, optional pricing route and deposit block
+ * @returns Promise<PositionValuation> - Token amounts, fees and their value in `quoteCurrency`
+ * @throws PositionNotFoundError if the position doesn't exist
+ * @throws InvalidRouteError if `quoteCurrency` cannot be reached from the position's currencies
+ * @throws PoolNotFoundError if the position's pool was not yet initialized at `depositBlock`
+ * @throws Error if position, fee or pool data cannot be fetched
+ */
+export async function getPositionValuation(
+  tokenId: string,
+  instance: UniswapSDKInstance,
+  options: GetPositionValuationOptions,
+): Promise<PositionValuation> {
+  const { quoteCurrency, pricingRoute, depositBlock } = options;
+
+  const [{ position, pool, currency0, currency1, poolId }, fees, routePools] = await Promise.all([
+    getPosition(tokenId, instance, { allowZeroLiquidity: true }),
+    getUncollectedFees(tokenId, instance),
+    pricingRoute ? Promise.all(pricingRoute.map(({ poolKey }) => getPool(poolKey, instance))) : undefined,
+  ]);
+
+  const [price0, price1] = getPricesInQuoteCurrency(pool, quoteCurrency, routePools);
+  const valueOf = (amount0: CurrencyAmount<Currency>, amount1: CurrencyAmount<Currency>) =>
+    price0.quote(amount0).add(price1.quote(amount1));
+
+  const fees0 = CurrencyAmount.fromRawAmount(currency0, fees.amount0.toString());
+  const fees1 = CurrencyAmount.fromRawAmount(currency1, fees.amount1.toString());
+  const positionValue = valueOf(position.amount0, position.amount1);
+  const feesValue = valueOf(fees0, fees1);
+
+  let impermanentLoss: ImpermanentLoss | undefined;
+  if (depositBlock !== undefined) {
+    const [sqrtPriceX96, tick] = await instance.client.readContract({
+      address: instance.contracts.stateView,
+      abi: v4.StateViewArtifact.abi,
+      functionName: "getSlot0",
+      args: [poolId],
+      blockNumber: depositBlock,
+    });
+    // The pool was initialized after depositBlock, so the position cannot have been opened then.
+    if (sqrtPriceX96 === 0n) {
+      throw new PoolNotFoundError(pool.poolKey, poolId, { blockNumber: depositBlock });
+    }
+    const depositPosition = new V4Position({
+      pool: new Pool(
+        currency0,
+        currency1,
+        pool.fee,
+        pool.tickSpacing,
+        pool.hooks,
+        sqrtPriceX96.toString(),
+        pool.liquidity.toString(),
+        tick,
+      ),
+      liquidity: position.liquidity.toString(),
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+    });
+    const hodlValue = valueOf(depositPosition.amount0, depositPosition.amount1);
+    const loss = hodlValue.subtract(positionValue);
+
+    impermanentLoss = {
+      depositBlock,
+      depositAmount0: depositPosition.amount0,
+      depositAmount1: depositPosition.amount1,
+      hodlValue,
+      loss,
+      lossPercent: hodlValue.equalTo(0)
+        ? new Percent(0)
+        : new Percent(loss.quotient.toString(), hodlValue.quotient.toString()),
+    };
+  }
+
+  return {
+    tokenId,
+    poolId,
+    quoteCurrency: price0.quoteCurrency,
+    price0,
+    price1,
+    amount0: position.amount0,
+    amount1: position.amount1,
+    fees0,
+    fees1,
+    positionValue,
+    feesValue,
+    totalValue: positionValue.add(feesValue),
+    impermanentLoss,
+  };
+}
+
+/**
+ * Returns the prices of the pool's currencies in `quoteCurrency`, routing through `routePools` when
+ * `quoteCurrency` is not in the pool.
+ */
+function getPricesInQuoteCurrency(
+  pool: Pool,
+  quoteCurrency: Address,
+  routePools: readonly Pool[] | undefined,
+): [Price<Currency, Currency>, Price<Currency, Currency>] {
+  const quote = quoteCurrency.toLowerCase();
+  const currency0 = pool.poolKey.currency0.toLowerCase();
+  const currency1 = pool.poolKey.currency1.toLowerCase();
+  const unit = (currency: Currency) => new Price(currency, currency, 1, 1);
+
+  if (quote === currency0) {
+    return [unit(pool.currency0), pool.currency1Price];
+  }
+  if (quote === currency1) {
+    return [pool.currency0Price, unit(pool.currency1)];
+  }
+  if (routePools === undefined) {
+    throw new InvalidRouteError(
+      `Quote currency ${quoteCurrency} is not in the position's pool. Provide a pricingRoute to it.`,
+    );
+  }
+
+  const firstHop = routePools[0]!.poolKey;
+  const routeStart = [currency0, currency1].find(
+    (currency) => currency === firstHop.currency0.toLowerCase() || currency === firstHop.currency1.toLowerCase(),
+  );
+  if (routeStart === undefined) {
+    throw new InvalidRouteError("Invalid pricing route: hop 1 does not connect to the position's currencies.", {
+      hop: 1,
+    });
+  }
+
+  const routePrice = getRouteMidPrice(routePools, routeStart as Address);
+  const routeEnd = routePrice.quoteCurrency.isNative ? zeroAddress : routePrice.quoteCurrency.address.toLowerCase();
+  if (routeEnd !== quote) {
+    throw new InvalidRouteError(`Invalid pricing route: route does not end in quote currency ${quoteCurrency}.`);
+  }
+
+  return routeStart === currency0
+    ? [routePrice, pool.currency1Price.multiply(routePrice)]
+    : [pool.currency0Price.multiply(routePrice), routePrice];
+}
@@ -0,0 +1,105 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+
+import { v4 } from "hookmate/abi";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { GetPositionOptions, GetPositionResponse } from "@/utils/getPosition";
+
+import { InsufficientLiquidityError, PositionNotFoundError } from "@/core/errors";
+import { loadPositionInfos, toPositionResponse, type RawPosition } from "@/internal/positions";
+
+/**
+ * Outcome of one entry of a batch position load, in the shape of viem multicall results.
+ */
+export type PositionResult = { status: "success"; result: GetPositionResponse } | { status: "failure"; error: Error };
+
+/**
+ * Retrieves many Uniswap v4 positions with initialized SDK instances at once.
+ *
+ * `getPoolAndPositionInfo` and `getPositionLiquidity` of every token ID are read in a single
+ * multicall. Currencies are then fetched with one `getTokens` call, and `getSlot0` / `getLiquidity`
+ * are read once per distinct pool, so positions sharing a pool cost no extra pool reads.
+ *
+ * @param tokenIds - The NFT token IDs of the positions
+ * @param instance - UniswapSDKInstance
+ * @param options - Same options as `getPosition`, applied to every position
+ * @returns One result per token ID, in input order. Failures carry the error `getPosition` would throw.
+ */
+export async function getPositions(
+  tokenIds: string[],
+  instance: UniswapSDKInstance,
+  options: GetPositionOptions = {},
+): Promise<PositionResult[]> {
+  const { client, contracts } = instance;
+
+  const ids = tokenIds.map((tokenId): bigint | Error => {
+    try {
+      return BigInt(tokenId);
+    } catch {
+      return new Error(`Invalid tokenId: ${tokenId}`);
+    }
+  });
+  const validIds = ids.filter((id): id is bigint => !(id instanceof Error));
+
+  // getPoolAndPositionInfo and getPositionLiquidity for every valid id
+  const positionResults =
+    validIds.length > 0
+      ? await client.multicall({
+          allowFailure: true,
+          contracts: validIds.flatMap((id) =>
+            (["getPoolAndPositionInfo", "getPositionLiquidity"] as const).map((functionName) => ({
+              address: contracts.positionManager,
+              abi: v4.PositionManagerArtifact.abi,
+              functionName,
+              args: [id],
+            })),
+          ),
+        })
+      : [];
+
+  let resultIndex = 0;
+  const entries = tokenIds.map((tokenId, index): RawPosition | Error => {
+    const id = ids[index]!;
+    if (id instanceof Error) {
+      return id;
+    }
+
+    const infoResult = positionResults[resultIndex++]!;
+    const liquidityResult = positionResults[resultIndex++]!;
+    if (infoResult.status === "failure" || liquidityResult.status === "failure") {
+      return new Error(`Failed to fetch position data for token ${tokenId}`, {
+        cause: infoResult.error ?? liquidityResult.error,
+      });
+    }
+
+    const [poolKey, info] = infoResult.result as readonly [PoolKey, bigint];
+    const liquidity = liquidityResult.result as bigint;
+
+    // Unminted and burned positions have an empty pool key
+    if (poolKey.tickSpacing === 0) {
+      return new PositionNotFoundError(tokenId);
+    }
+    if (liquidity === 0n && !options.allowZeroLiquidity) {
+      return new InsufficientLiquidityError("Position has no liquidity", { tokenId });
+    }
+
+    return { tokenId, poolKey, info, liquidity };
+  });
+
+  const positions = entries.filter((entry): entry is RawPosition => !(entry instanceof Error));
+  const positionInfos = await loadPositionInfos(positions, instance);
+  const positionInfoByEntry = new Map(positions.map((entry, index) => [entry, positionInfos[index]!]));
+
+  return entries.map((entry): PositionResult => {
+    const positionInfo = entry instanceof Error ? entry : positionInfoByEntry.get(entry)!;
+    if (positionInfo instanceof Error) {
+      return { status: "failure", error: positionInfo };
+    }
+
+    try {
+      return { status: "success", result: toPositionResponse(positionInfo) };
+    } catch (error) {
+      return { status: "failure", error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  });
+}
@@ -0,0 +1,160 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+import type { Address } from "viem";
+
+import { v4 } from "hookmate/abi";
+import { isAddressEqual, parseAbiItem } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { GetPositionInfoResponse } from "@/utils/getPositionInfo";
+
+import { DEFAULT_LOG_BLOCK_RANGE, getV4DeploymentBlock } from "@/internal/logs";
+import { loadPositionInfos, type RawPosition } from "@/internal/positions";
+
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 indexed id)");
+
+/**
+ * Options for enumerating the positions of an owner.
+ */
+export interface GetPositionsByOwnerOptions {
+  /**
+   * First block to scan for PositionManager transfers. Defaults to the v4 deployment block of the chain
+   * when the instance uses its canonical contracts, and to 0 otherwise.
+   */
+  fromBlock?: bigint;
+  /** Last block to scan, and the block position state is read at. Defaults to the latest block. */
+  toBlock?: bigint;
+  /** Maximum block span of each `eth_getLogs` request, for RPCs that cap log ranges. Defaults to 10,000 blocks. */
+  blockRange?: bigint;
+  /** Include positions the owner still holds but that have no liquidity. Defaults to false. */
+  includeClosed?: boolean;
+}
+
+type PoolAndPositionInfo = readonly [PoolKey, bigint];
+
+/**
+ * Retrieves every v4 position currently owned by an address.
+ *
+ * The PositionManager is not ERC-721 enumerable, so ownership is rebuilt from its `Transfer` logs:
+ * every token ever sent to `owner` is a candidate, and `ownerOf` filters out tokens that have since
+ * been transferred away or burned. Ownership, pool keys and liquidity of all candidates are loaded in
+ * a single multicall, followed by one `getTokens` call and one multicall for the state of the pools.
+ *
+ * @param owner - Address whose positions to list
+ * @param instance - UniswapSDKInstance
+ * @param options - Block range to scan and whether to include closed positions
+ * @returns Promise<GetPositionInfoResponse[]> - Positions sorted by token ID
+ * @throws Error if the block range is invalid or logs or position data cannot be fetched
+ */
+export async function getPositionsByOwner(
+  owner: Address,
+  instance: UniswapSDKInstance,
+  options: GetPositionsByOwnerOptions = {},
+): Promise<GetPositionInfoResponse[]> {
+  const { client, contracts } = instance;
+  const { positionManager } = contracts;
+  const {
+    fromBlock = getV4DeploymentBlock(instance),
+    blockRange = DEFAULT_LOG_BLOCK_RANGE,
+    includeClosed = false,
+  } = options;
+
+  if (blockRange <= 0n) {
+    throw new Error(`Invalid blockRange: ${blockRange}. Must be a positive number of blocks.`);
+  }
+
+  const toBlock = options.toBlock ?? (await client.getBlockNumber());
+  if (fromBlock > toBlock) {
+    throw new Error(`Invalid block range: fromBlock ${fromBlock} is after toBlock ${toBlock}.`);
+  }
+
+  const balance = await client.readContract({
+    address: positionManager,
+    abi: v4.PositionManagerArtifact.abi,
+    functionName: "balanceOf",
+    args: [owner],
+    blockNumber: toBlock,
+  });
+  if (balance === 0n) {
+    return [];
+  }
+
+  const candidateIds = await getReceivedTokenIds(owner, instance, fromBlock, toBlock, blockRange);
+  if (candidateIds.length === 0) {
+    return [];
+  }
+
+  // ownerOf, getPoolAndPositionInfo and getPositionLiquidity for every candidate
+  const positionResults = await client.multicall({
+    allowFailure: true,
+    blockNumber: toBlock,
+    contracts: candidateIds.flatMap((tokenId) =>
+      (["ownerOf", "getPoolAndPositionInfo", "getPositionLiquidity"] as const).map((functionName) => ({
+        address: positionManager,
+        abi: v4.PositionManagerArtifact.abi,
+        functionName,
+        args: [tokenId],
+      })),
+    ),
+  });
+
+  const positions = candidateIds.flatMap((tokenId, index): RawPosition[] => {
+    const [ownerResult, infoResult, liquidityResult] = positionResults.slice(index * 3, index * 3 + 3);
+    // ownerOf reverts for burned tokens
+    if (ownerResult?.status !== "success" || !isAddressEqual(ownerResult.result as Address, owner)) {
+      return [];
+    }
+    if (infoResult?.status !== "success" || liquidityResult?.status !== "success") {
+      throw new Error(`Failed to fetch position data for token ${tokenId}`, {
+        cause: infoResult?.error ?? liquidityResult?.error,
+      });
+    }
+
+    const [poolKey, info] = infoResult.result as PoolAndPositionInfo;
+    const liquidity = liquidityResult.result as bigint;
+    if (liquidity === 0n && !includeClosed) {
+      return [];
+    }
+
+    return [{ tokenId: tokenId.toString(), poolKey, info, liquidity }];
+  });
+
+  const positionInfos = await loadPositionInfos(positions, instance, toBlock);
+  return positionInfos.map((positionInfo) => {
+    if (positionInfo instanceof Error) {
+      throw positionInfo;
+    }
+    return positionInfo;
+  });
+}
+
+/**
+ * Returns the unique ids of PositionManager tokens transferred to `owner`, in ascending order.
+ */
+async function getReceivedTokenIds(
+  owner: Address,
+  { client, contracts }: UniswapSDKInstance,
+  fromBlock: bigint,
+  toBlock: bigint,
+  blockRange: bigint,
+): Promise<bigint[]> {
+  const tokenIds = new Set<bigint>();
+
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = start + blockRange - 1n < toBlock ? start + blockRange - 1n : toBlock;
+    const logs = await client.getLogs({
+      address: contracts.positionManager,
+      event: TRANSFER_EVENT,
+      args: { to: owner },
+      fromBlock: start,
+      toBlock: end,
+    });
+
+    for (const { args } of logs) {
+      if (args.id !== undefined) {
+        tokenIds.add(args.id);
+      }
+    }
+  }
+
+  return [...tokenIds].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
@@ -1,11 +1,38 @@
+import type { Currency, Percent, Price } from "@uniswap/sdk-core";
+import type { Pool } from "@uniswap/v4-sdk";
 import type { Address } from "viem";
 
-import { v4 } from "hookmate/abi";
-
 import type { UniswapSDKInstance } from "@/core/sdk";
+import type { HookWarning } from "@/helpers/hooks";
+import type { SwapRoute } from "@/utils/swapRoute";
+
+import {
+  loadQuotePools,
+  needsGasPrice,
+  prepareQuote,
+  quoteLocally,
+  readRoutePools,
+  toQuoteError,
+  toQuoteResponse,
+} from "@/internal/quote";
+
+/**
+ * Quote source: the on-chain v4 Quoter (via RPC simulation) or local swap math over loaded tick data.
+ */
+export type QuoteSimulation = "quoter" | "local";
 
-import { hasExactInputAmount, hasExactOutputAmount, resolveSwapCurrencyMeta } from "@/internal/swap";
-import { resolveSwapRouteExactInput, resolveSwapRouteExactOutput, type SwapRoute } from "@/utils/swapRoute";
+/**
+ * Gas pricing used to compute `netAmountOut`, the quoted output minus the gas cost in the output currency.
+ */
+export interface QuoteGasPricing {
+  /**
+   * Pool pairing the native currency (or WETH) with the output currency, used to convert the gas cost.
+   * Not needed when the output currency is native or WETH.
+   */
+  pricePool?: Pool;
+  /** Gas price in wei. Fetched with `getGasPrice` when omitted. */
+  gasPrice?: bigint;
+}
 
 /**
  * Effective swap currencies after applying native ETH wrapping or unwrapping.
@@ -28,6 +55,12 @@ interface SwapQuoteExactInputParams {
   exactOutput?: never;
   /** When true, resolves WETH-denominated route edges as the native token. */
   useNativeToken?: boolean;
+  /** Quote source (default: "quoter"). "local" only supports hookless pools. */
+  simulation?: QuoteSimulation;
+  /** Pools along the route, one per hop, used for prices and local simulation. Loaded when omitted. */
+  pools?: readonly Pool[];
+  /** Prices the Quoter gas estimate in the output currency to compute `netAmountOut`. */
+  gasPricing?: QuoteGasPricing;
 }
 
 interface SwapQuoteExactOutputParams {
@@ -43,16 +76,54 @@ interface SwapQuoteExactOutputParams {
   exactInput?: never;
   /** When true, resolves WETH-denominated route edges as the native token. */
   useNativeToken?: boolean;
+  /** Quote source (default: "quoter"). "local" only supports hookless pools. */
+  simulation?: QuoteSimulation;
+  /** Pools along the route, one per hop, used for prices and local simulation. Loaded when omitted. */
+  pools?: readonly Pool[];
+  /** Prices the Quoter gas estimate in the output currency to compute `netAmountOut`. */
+  gasPricing?: QuoteGasPricing;
 }
 
 export type SwapQuoteParams = SwapQuoteExactInputParams | SwapQuoteExactOutputParams;
 
+/**
+ * Fees charged by one hop of a quoted route, in hundredths of a bip.
+ */
+export interface QuoteHopFees {
+  /** LP fee in effect, the hook-set fee for dynamic-fee pools */
+  lpFee: number;
+  /** Protocol fee of the hop's swap direction */
+  protocolFee: number;
+  /** Total fee on the hop's input, see `calculateSwapFee` */
+  swapFee: number;
+}
+
 /**
  * Response structure for a successful quote simulation.
  */
 export interface QuoteResponse {
   amountIn: bigint;
   amountOut: bigint;
+  /**
+   * Route price before the swap, derived from each pool's sqrtPriceX96. Denominated in route (pool) currencies.
+   * Undefined, like `executionPrice` and `priceImpact`, when the route pools could not be read.
+   */
+  midPrice?: Price<Currency, Currency>;
+  /** Realized price of the quote, `amountOut / amountIn`. */
+  executionPrice?: Price<Currency, Currency>;
+  /** Shortfall of `amountOut` against the mid-price output, LP fees included. */
+  priceImpact?: Percent;
+  /** Gas units estimated by the Quoter for the swap. Undefined for local simulation. */
+  gasEstimate?: bigint;
+  /** `amountOut` minus the gas cost in the output currency, when `gasPricing` is set. Can be negative. */
+  netAmountOut?: bigint;
+  /**
+   * Fees of each route hop, from slot0. Undefined when the route pools could not be read or a provided pool
+   * was not loaded with `getPool`.
+   */
+  fees?: QuoteHopFees[];
+  /** Route hops whose hooks can change the swapped amounts or the fee, making the quote unreliable. */
+  hookWarnings: HookWarning[];
   timestamp: number;
   meta: SwapMeta;
 }
@@ -61,90 +132,36 @@ export interface QuoteResponse {
  * Fetches a quote for a token swap using the v4 Quoter contract.
  * This function uses the provided pool instance to simulate the quote.
  *
+ * With `simulation: "local"`, the swap is computed off-chain from each pool's tick data instead.
+ * Passing preloaded `pools` makes the quote free of RPC calls, which suits re-quoting on every input change.
+ *
+ * The mid-price, execution price and price impact are derived from the state of the route pools. Unless
+ * `pools` is provided, their slot0 and liquidity are read alongside the Quoter call. Only the Quoter decides
+ * whether the quote succeeds: when the pool reads fail, those fields and `fees` are undefined. With
+ * `gasPricing`, the Quoter gas estimate is priced in the output currency to return `netAmountOut`.
+ *
  * @param params - The parameters required for the quote, including route and exact amount.
  * @param instance - UniswapSDKInstance for contract interaction
- * @returns A Promise that resolves to the quote result, including amounts, meta, and fetch timestamp.
+ * @returns A Promise that resolves to the quote result, including amounts, prices, meta, and fetch timestamp.
  */
 export async function getQuote(params: SwapQuoteParams, instance: UniswapSDKInstance): Promise<QuoteResponse> {
-  const { client, contracts } = instance;
-  const { quoter, weth } = contracts;
-  const exactOutputConfig = params.exactOutput;
-  const exactInputConfig = params.exactInput;
-
   try {
-    if (hasExactOutputAmount(exactOutputConfig) && hasExactInputAmount(exactInputConfig)) {
-      throw new Error("Conflicting swap parameters: provide exactInput or exactOutput, not both.");
-    }
-    if (!hasExactOutputAmount(exactOutputConfig) && !hasExactInputAmount(exactInputConfig)) {
-      throw new Error("Missing swap parameters: provide either exactInput or exactOutput.");
-    }
-
-    const meta = resolveSwapCurrencyMeta({ ...params, wethAddress: weth });
-
-    if (hasExactOutputAmount(exactOutputConfig)) {
-      const amountOut = BigInt(exactOutputConfig.amount);
-      if (amountOut <= 0n) {
-        throw new Error(`Invalid exactOutput.amount: ${amountOut}. Must be a positive value.`);
-      }
-      const { path } = resolveSwapRouteExactOutput(meta.requestedCurrencyOut, params.route);
+    const prepared = prepareQuote(params, instance);
 
-      const simulation = await client.simulateContract({
-        address: quoter,
-        abi: v4.QuoterArtifact.abi,
-        functionName: "quoteExactOutput",
-        args: [
-          {
-            exactCurrency: meta.requestedCurrencyOut,
-            path,
-            exactAmount: amountOut,
-          },
-        ],
-      });
-
-      const [amountIn] = simulation.result;
-
-      return {
-        amountIn,
-        amountOut,
-        timestamp: Date.now(),
-        meta: {
-          resolvedCurrencyIn: meta.resolvedCurrencyIn,
-          resolvedCurrencyOut: meta.resolvedCurrencyOut,
-        },
-      };
+    if (prepared.simulation === "local") {
+      const pools = await loadQuotePools(prepared, instance);
+      return toQuoteResponse(prepared, { quotedAmount: await quoteLocally(prepared, pools), pools }, Date.now());
     }
 
-    const amountIn = BigInt(exactInputConfig!.amount);
-    if (amountIn <= 0n) {
-      throw new Error(`Invalid exactInput.amount: ${amountIn}. Must be a positive value.`);
-    }
-    const { path } = resolveSwapRouteExactInput(meta.requestedCurrencyIn, params.route);
-
-    const simulation = await client.simulateContract({
-      address: quoter,
-      abi: v4.QuoterArtifact.abi,
-      functionName: "quoteExactInput",
-      args: [
-        {
-          exactCurrency: meta.requestedCurrencyIn,
-          path,
-          exactAmount: amountIn,
-        },
-      ],
-    });
-
-    const [amountOut] = simulation.result;
+    const [simulation, pools, gasPrice] = await Promise.all([
+      instance.client.simulateContract(prepared.quoterCall),
+      prepared.params.pools ?? readRoutePools(prepared.params.route, instance),
+      needsGasPrice(prepared) ? instance.client.getGasPrice() : undefined,
+    ]);
+    const [quotedAmount, gasEstimate] = simulation.result;
 
-    return {
-      amountIn,
-      amountOut,
-      timestamp: Date.now(),
-      meta: {
-        resolvedCurrencyIn: meta.resolvedCurrencyIn,
-        resolvedCurrencyOut: meta.resolvedCurrencyOut,
-      },
-    };
+    return toQuoteResponse(prepared, { quotedAmount, gasEstimate, pools, gasPrice }, Date.now());
   } catch (error) {
-    throw new Error(`Failed to fetch quote: ${error instanceof Error ? error.message : String(error)}`);
+    throw toQuoteError(error);
   }
 }
@@ -0,0 +1,86 @@
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { QuoteResponse, SwapQuoteParams } from "@/utils/getQuote";
+
+import {
+  loadQuotePools,
+  needsGasPrice,
+  prepareQuote,
+  quoteLocally,
+  quoteWithQuoter,
+  toQuoteError,
+  toQuoteResponse,
+  type PreparedQuote,
+} from "@/internal/quote";
+
+/**
+ * Outcome of one entry of a batch quote, in the shape of viem multicall results.
+ */
+export type QuoteResult = { status: "success"; result: QuoteResponse } | { status: "failure"; error: Error };
+
+/**
+ * Fetches quotes for many routes and amounts at once.
+ *
+ * Every Quoter-backed entry is bundled into a single `multicall` with `allowFailure: true`, so one
+ * reverting route (e.g. not enough liquidity) does not fail the batch. The same multicall reads the state
+ * of each distinct route pool once for the price fields. Entries with `simulation: "local"` are computed
+ * off-chain as in `getQuote`, and the gas price is fetched once for entries with `gasPricing`.
+ *
+ * @param params - Quote parameters, one entry per quote
+ * @param instance - UniswapSDKInstance for contract interaction
+ * @returns One result per entry, in input order. Failures carry the same error message `getQuote` would throw.
+ */
+export async function getQuotes(params: SwapQuoteParams[], instance: UniswapSDKInstance): Promise<QuoteResult[]> {
+  const prepared = params.map((entry): PreparedQuote | Error => {
+    try {
+      return prepareQuote(entry, instance);
+    } catch (error) {
+      return toQuoteError(error);
+    }
+  });
+
+  const quoterEntries = prepared.filter(
+    (entry): entry is PreparedQuote => !(entry instanceof Error) && entry.simulation === "quoter",
+  );
+
+  const [quoterResults, gasPrice] = await Promise.all([
+    quoteWithQuoter(quoterEntries, instance),
+    quoterEntries.some(needsGasPrice) ? instance.client.getGasPrice() : undefined,
+  ]);
+  const quoterResultByEntry = new Map(quoterEntries.map((entry, index) => [entry, quoterResults[index]!]));
+  const timestamp = Date.now();
+
+  return Promise.all(
+    prepared.map(async (entry): Promise<QuoteResult> => {
+      if (entry instanceof Error) {
+        return { status: "failure", error: entry };
+      }
+
+      if (entry.simulation === "local") {
+        try {
+          const pools = await loadQuotePools(entry, instance);
+          return {
+            status: "success",
+            result: toQuoteResponse(entry, { quotedAmount: await quoteLocally(entry, pools), pools }, timestamp),
+          };
+        } catch (error) {
+          return { status: "failure", error: toQuoteError(error) };
+        }
+      }
+
+      const quoterResult = quoterResultByEntry.get(entry)!;
+      if (quoterResult.status === "failure") {
+        return { status: "failure", error: toQuoteError(quoterResult.error) };
+      }
+
+      const { quotedAmount, gasEstimate, pools } = quoterResult;
+      try {
+        return {
+          status: "success",
+          result: toQuoteResponse(entry, { quotedAmount, gasEstimate, pools, gasPrice }, timestamp),
+        };
+      } catch (error) {
+        return { status: "failure", error: toQuoteError(error) };
+      }
+    }),
+  );
+}
@@ -0,0 +1,74 @@
+import type { Address } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { getPosition } from "@/utils/getPosition";
+
+export interface GetRangeOrderStatusOptions {
+  /**
+   * Currency the order sells. A position does not record which currency it was minted with, so
+   * the direction of the order has to be supplied.
+   */
+  sellCurrency: Address;
+}
+
+/**
+ * Fill state of a range order.
+ */
+export interface RangeOrderStatus {
+  /**
+   * `unfilled` while the price has not reached the range, `partiallyFilled` while it is inside it,
+   * and `filled` once it has crossed the whole range.
+   */
+  status: "unfilled" | "partiallyFilled" | "filled";
+  tickLower: number;
+  tickUpper: number;
+  /** Current tick of the pool */
+  currentTick: number;
+  /** Amount of currency0 the position holds at the current price, fees excluded */
+  amount0: bigint;
+  /** Amount of currency1 the position holds at the current price, fees excluded */
+  amount1: bigint;
+}
+
+/**
+ * Reports how far a range order has filled, from the position's tick range and the pool's current tick.
+ *
+ * A filled order converts back if the price returns into its range, so withdraw it once `filled`.
+ *
+ * @param tokenId - The NFT token ID of the order's position
+ * @param instance - UniswapSDKInstance
+ * @param options - The currency the order sells
+ * @returns The fill state, tick range, current tick and the amounts the position holds
+ * @throws PositionNotFoundError if the position doesn't exist
+ * @throws InsufficientLiquidityError if the position has already been withdrawn
+ * @throws Error if `sellCurrency` is not a currency of the position's pool
+ */
+export async function getRangeOrderStatus(
+  tokenId: string,
+  instance: UniswapSDKInstance,
+  options: GetRangeOrderStatusOptions,
+): Promise<RangeOrderStatus> {
+  const { position, pool, currentTick } = await getPosition(tokenId, instance);
+  const { tickLower, tickUpper } = position;
+
+  const sell = options.sellCurrency.toLowerCase();
+  const sellCurrency0 = sell === pool.poolKey.currency0.toLowerCase();
+  if (!sellCurrency0 && sell !== pool.poolKey.currency1.toLowerCase()) {
+    throw new Error(`Invalid sellCurrency: ${options.sellCurrency} is not a currency of the pool.`);
+  }
+
+  // A currency0 order fills as the price rises through the range, a currency1 order as it falls
+  const [reached, crossed] = sellCurrency0
+    ? [currentTick >= tickLower, currentTick >= tickUpper]
+    : [currentTick < tickUpper, currentTick < tickLower];
+
+  return {
+    status: crossed ? "filled" : reached ? "partiallyFilled" : "unfilled",
+    tickLower,
+    tickUpper,
+    currentTick,
+    amount0: BigInt(position.amount0.quotient.toString()),
+    amount1: BigInt(position.amount1.quotient.toString()),
+  };
+}
@@ -0,0 +1,228 @@
+import type { Address } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+import type { SplitSwapRoute, SwapRoute } from "@/utils/swapRoute";
+
+import { assertBasisPoints, BIPS_BASE } from "@/helpers/percent";
+import { hasExactInputAmount, hasExactOutputAmount, splitAmountByPercentages } from "@/internal/swap";
+import { getQuote, type QuoteResponse, type SwapQuoteParams } from "@/utils/getQuote";
+import { getQuotes } from "@/utils/getQuotes";
+
+/**
+ * Default allocation granularity of the split optimizer, in basis points (5%).
+ */
+export const DEFAULT_SPLIT_STEP_BPS = 500;
+
+interface GetSplitQuoteCommonParams {
+  /** Candidate routes that share the same input and output currencies. */
+  routes: readonly [SwapRoute, ...SwapRoute[]];
+  /** Allocation granularity in basis points. Must divide 10000 evenly. Defaults to 500 (5%). */
+  stepBps?: number;
+  /** When true, resolves WETH-denominated route edges as the native token. */
+  useNativeToken?: boolean;
+}
+
+interface GetSplitQuoteExactInputParams extends GetSplitQuoteCommonParams {
+  /** Exact-input swap configuration. The amount is divided between the routes. */
+  exactInput: {
+    currency: Address;
+    amount: bigint | string;
+  };
+  exactOutput?: never;
+}
+
+interface GetSplitQuoteExactOutputParams extends GetSplitQuoteCommonParams {
+  /** Exact-output swap configuration. The amount is divided between the routes. */
+  exactOutput: {
+    currency: Address;
+    amount: bigint | string;
+  };
+  exactInput?: never;
+}
+
+export type GetSplitQuoteParams = GetSplitQuoteExactInputParams | GetSplitQuoteExactOutputParams;
+
+/**
+ * A route selected by the split optimizer together with the quote for its share.
+ */
+export interface SplitQuote extends SplitSwapRoute {
+  quote: QuoteResponse;
+}
+
+/**
+ * Combined result of the split optimizer.
+ */
+export interface SplitQuoteResponse {
+  /** Total input across all selected routes. */
+  amountIn: bigint;
+  /** Total output across all selected routes. */
+  amountOut: bigint;
+  /** Selected routes with their percentage (basis points) and per-route quote, in input order. */
+  splits: SplitQuote[];
+  timestamp: number;
+}
+
+/**
+ * Finds the split of an exact amount across several routes that maximizes the output
+ * (exact input) or minimizes the input (exact output).
+ *
+ * Every route is quoted at each multiple of `stepBps` of the amount in one batch, then a dynamic program picks
+ * the allocation with the best combined result. Quotes are computed per route, so routes that
+ * share a pool are treated as if they did not affect each other's price.
+ *
+ * @param params - Candidate routes, exact amount and optimizer granularity
+ * @param instance - UniswapSDKInstance for contract interaction
+ * @returns The best allocation with per-route quotes, ready to pass as `splitRoutes` to `buildSwapCallData`
+ * @throws Error if the parameters are invalid or no allocation can be fully quoted
+ */
+export async function getSplitQuote(
+  params: GetSplitQuoteParams,
+  instance: UniswapSDKInstance,
+): Promise<SplitQuoteResponse> {
+  const { routes, stepBps = DEFAULT_SPLIT_STEP_BPS, useNativeToken } = params;
+  const exactOutputConfig = params.exactOutput;
+  const exactInputConfig = params.exactInput;
+
+  if (hasExactOutputAmount(exactOutputConfig) && hasExactInputAmount(exactInputConfig)) {
+    throw new Error("Conflicting swap parameters: provide exactInput or exactOutput, not both.");
+  }
+  if (!hasExactOutputAmount(exactOutputConfig) && !hasExactInputAmount(exactInputConfig)) {
+    throw new Error("Missing swap parameters: provide either exactInput or exactOutput.");
+  }
+  if (routes.length === 0) {
+    throw new Error("Invalid split quote: at least one route is required.");
+  }
+
+  assertBasisPoints(stepBps, "stepBps");
+  if (stepBps === 0 || BIPS_BASE % stepBps !== 0) {
+    throw new Error(`Invalid stepBps: ${stepBps}. Must be greater than zero and divide ${BIPS_BASE} evenly.`);
+  }
+
+  const isExactOutput = hasExactOutputAmount(exactOutputConfig);
+  const { currency, amount: rawAmount } = isExactOutput ? exactOutputConfig : exactInputConfig!;
+  const amount = BigInt(rawAmount as bigint | string);
+  if (amount <= 0n) {
+    throw new Error(
+      `Invalid ${isExactOutput ? "exactOutput" : "exactInput"}.amount: ${amount}. Must be a positive value.`,
+    );
+  }
+
+  const toQuoteParams = (routeIndex: number, legAmount: bigint): SwapQuoteParams => {
+    const route = routes[routeIndex]!;
+    return isExactOutput
+      ? { route, exactOutput: { currency, amount: legAmount }, useNativeToken }
+      : { route, exactInput: { currency, amount: legAmount }, useNativeToken };
+  };
+
+  const steps = BIPS_BASE / stepBps;
+  const stepAmount = (step: number) => (amount * BigInt(step * stepBps)) / BigInt(BIPS_BASE);
+
+  // Every (route, step) pair is quoted in one batch; zero amounts (dust inputs) are never quoted.
+  const stepRequests = routes
+    .flatMap((_, routeIndex) =>
+      Array.from({ length: steps }, (_, index) => ({ routeIndex, step: index + 1, legAmount: stepAmount(index + 1) })),
+    )
+    .filter(({ legAmount }) => legAmount > 0n);
+  const stepResults = await getQuotes(
+    stepRequests.map(({ routeIndex, legAmount }) => toQuoteParams(routeIndex, legAmount)),
+    instance,
+  );
+
+  const quoteCache = new Map<string, QuoteResponse>();
+  // stepQuotes[route][step] holds the quoted result for `step` allocation steps, or null if it could not be quoted.
+  const stepQuotes: (QuoteResponse | null)[][] = routes.map(() => Array.from({ length: steps + 1 }, () => null));
+  stepRequests.forEach(({ routeIndex, step, legAmount }, index) => {
+    const stepResult = stepResults[index]!;
+    if (stepResult.status === "success") {
+      stepQuotes[routeIndex]![step] = stepResult.result;
+      quoteCache.set(`${routeIndex}:${legAmount}`, stepResult.result);
+    }
+  });
+
+  const allocation = findBestAllocation(stepQuotes, steps, isExactOutput);
+  if (allocation === null) {
+    throw new Error("Failed to fetch split quote: no allocation of the amount could be quoted across the routes.");
+  }
+
+  const selected = allocation.flatMap((step, routeIndex) =>
+    step > 0 ? [{ routeIndex, step, percentage: step * stepBps }] : [],
+  );
+  const legAmounts = splitAmountByPercentages(
+    amount,
+    selected.map(({ percentage }) => percentage),
+  );
+
+  // The last leg absorbs rounding, so its amount can differ from the step quote; the cache reuses exact matches.
+  const splits = await Promise.all(
+    selected.map(async ({ routeIndex, percentage }, index) => ({
+      route: routes[routeIndex]!,
+      percentage,
+      quote:
+        quoteCache.get(`${routeIndex}:${legAmounts[index]!}`) ??
+        (await getQuote(toQuoteParams(routeIndex, legAmounts[index]!), instance)),
+    })),
+  );
+
+  return {
+    amountIn: splits.reduce((total, { quote }) => total + quote.amountIn, 0n),
+    amountOut: splits.reduce((total, { quote }) => total + quote.amountOut, 0n),
+    splits,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Allocates `steps` units across routes to maximize total output (exact input) or minimize
+ * total input (exact output). Returns the number of steps per route, or null if infeasible.
+ */
+function findBestAllocation(
+  stepQuotes: (QuoteResponse | null)[][],
+  steps: number,
+  isExactOutput: boolean,
+): number[] | null {
+  const valueOf = (quote: QuoteResponse) => (isExactOutput ? quote.amountIn : quote.amountOut);
+  const isBetter = (candidate: bigint, current: bigint | null) =>
+    current === null || (isExactOutput ? candidate < current : candidate > current);
+
+  // best[u] is the best total using the routes processed so far with exactly u steps allocated.
+  let best: (bigint | null)[] = Array.from({ length: steps + 1 }, (_, used) => (used === 0 ? 0n : null));
+  const choices: number[][] = [];
+
+  for (const quotes of stepQuotes) {
+    const next: (bigint | null)[] = Array.from({ length: steps + 1 }, () => null);
+    const choice: number[] = Array.from({ length: steps + 1 }, () => 0);
+
+    for (let used = 0; used <= steps; used += 1) {
+      for (let step = 0; step <= used; step += 1) {
+        const previous = best[used - step] ?? null;
+        const quote = quotes[step] ?? null;
+        if (previous === null || (step > 0 && quote === null)) {
+          continue;
+        }
+
+        const total = previous + (quote === null ? 0n : valueOf(quote));
+        if (isBetter(total, next[used] ?? null)) {
+          next[used] = total;
+          choice[used] = step;
+        }
+      }
+    }
+
+    best = next;
+    choices.push(choice);
+  }
+
+  if (best[steps] === null) {
+    return null;
+  }
+
+  const allocation: number[] = [];
+  let remaining = steps;
+  for (let routeIndex = choices.length - 1; routeIndex >= 0; routeIndex -= 1) {
+    const step = choices[routeIndex]![remaining]!;
+    allocation.unshift(step);
+    remaining -= step;
+  }
+
+  return allocation;
+}
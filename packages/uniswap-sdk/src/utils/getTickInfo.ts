@@ -49,6 +49,13 @@ export async function getTickInfo(args: GetTickInfoArgs, instance: UniswapSDKIns
     args: [poolId32Bytes, tick],
   });
 
+  return toTickInfoResponse(result);
+}
+
+/**
+ * Maps a raw StateView `getTickInfo` result to a TickInfoResponse.
+ */
+export function toTickInfoResponse(result: readonly [bigint, bigint, bigint, bigint]): TickInfoResponse {
   // v4 StateView getTickInfo returns:
   // (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128)
   const [liquidityGross, liquidityNet, feeGrowthOutside0X128, feeGrowthOutside1X128] = result;
@@ -1,18 +1,40 @@
 export * from "@/utils/buildAddLiquidityCallData";
 export * from "@/utils/buildCollectFeesCallData";
+export * from "@/utils/buildInitializePoolCallData";
+export * from "@/utils/buildMigrateV3PositionCallData";
+export * from "@/utils/buildRangeOrderCallData";
+export * from "@/utils/buildRebalanceCallData";
 export * from "@/utils/buildRemoveLiquidityCallData";
 export * from "@/utils/buildSwapCallData";
+export * from "@/utils/buildZapInCallData";
+export * from "@/utils/buildZapOutCallData";
 export * from "@/utils/chains";
+export * from "@/utils/decodePositionManagerCalldata";
+export * from "@/utils/decodeUniversalRouterCalldata";
+export * from "@/utils/discoverPools";
 export * from "@/utils/eip5792";
+export * from "@/utils/estimateFeeApr";
+export * from "@/utils/findBestRoute";
 export * from "@/utils/getDefaultDeadline";
+export * from "@/utils/getLiquidityDistribution";
 export * from "@/utils/getPool";
+export * from "@/utils/getPoolInitializationStatus";
 export * from "@/utils/getPoolKeyFromPoolId";
+export * from "@/utils/getPoolTickData";
 export * from "@/utils/getPosition";
 export * from "@/utils/getPositionInfo";
+export * from "@/utils/getPositions";
+export * from "@/utils/getPositionsByOwner";
+export * from "@/utils/getPositionValuation";
 export * from "@/utils/getQuote";
+export * from "@/utils/getQuotes";
+export * from "@/utils/getRangeOrderStatus";
+export * from "@/utils/getSplitQuote";
 export * from "@/utils/getTickInfo";
 export * from "@/utils/getTokens";
 export * from "@/utils/getUncollectedFees";
 export * from "@/utils/preparePermit2BatchData";
+export * from "@/utils/simulateCall";
 export * from "@/utils/swapRoute";
+export * from "@/utils/v4Actions";
 export * from "@/internal/swap";
@@ -0,0 +1,175 @@
+import type { Address, Hex, Log, StateOverride } from "viem";
+
+import {
+  BaseError,
+  erc20Abi,
+  getAddress,
+  isAddressEqual,
+  isHex,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  parseEventLogs,
+  zeroAddress,
+} from "viem";
+
+import type { ContractRevert, ContractRevertedError } from "@/core/errors";
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { decodeRevertData, getRevertData, toRevertError } from "@/internal/revert";
+
+/** Emitter of the synthetic Transfer logs `eth_simulateV1` reports for native transfers. */
+const NATIVE_TRANSFER_EMITTER = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+/**
+ * Parameters for simulating a transaction.
+ */
+export interface SimulateCallArgs {
+  /** Contract to call, e.g. the Universal Router or the PositionManager */
+  to: Address;
+  /** Calldata, e.g. the `calldata` returned by a `build*CallData` method */
+  data: Hex | string;
+  /** Native value in wei, e.g. the `value` returned by a `build*CallData` method. Defaults to 0. */
+  value?: bigint | string;
+  /** Sender of the transaction */
+  account: Address;
+  /** Second address to report balance changes for, typically the swap or position recipient. Defaults to `account`. */
+  recipient?: Address;
+  /** State overrides applied before the call, e.g. to fund `account` */
+  stateOverride?: StateOverride;
+}
+
+export interface BalanceChange {
+  /** Token address, or the zero address for the native currency */
+  token: Address;
+  /** Signed balance change in the token's smallest unit */
+  delta: bigint;
+}
+
+export interface SimulateCallResult {
+  /** Whether the call would succeed */
+  success: boolean;
+  /** RPC method used. `eth_call` is the fallback for nodes without `eth_simulateV1`. */
+  method: "eth_simulateV1" | "eth_call";
+  /** Gas used by the call. Only reported by `eth_simulateV1`. */
+  gasUsed?: bigint;
+  /**
+   * Non-zero token and native balance changes, excluding gas fees.
+   * Only reported by `eth_simulateV1`, whose transfer tracing is needed to observe them. Undefined for
+   * `eth_call`, which cannot observe them: a missing value means unknown, not that no balance changes.
+   */
+  balanceChanges?: {
+    account: BalanceChange[];
+    recipient: BalanceChange[];
+  };
+  /** Decoded revert when the call fails */
+  revert?: ContractRevert;
+  /** Typed error for the revert, e.g. `SlippageExceededError`, ready to be thrown */
+  error?: ContractRevertedError;
+}
+
+/**
+ * Simulates a transaction against the latest block and previews its balance changes.
+ *
+ * Uses `eth_simulateV1` with transfer tracing, so ERC20 and native transfers into and out of
+ * `account` and `recipient` are netted into balance changes. Nodes that do not support `eth_simulateV1`
+ * fall back to `eth_call`, which reports success and the revert reason only, without balance changes.
+ *
+ * @param args - Transaction to simulate
+ * @param instance - UniswapSDKInstance
+ * @returns Promise<SimulateCallResult> - Success, balance changes and decoded revert reason
+ * @throws Error if `data` or `value` is malformed, or an RPC request fails for any other reason than
+ * `eth_simulateV1` being unsupported
+ */
+export async function simulateCall(args: SimulateCallArgs, instance: UniswapSDKInstance): Promise<SimulateCallResult> {
+  const { to, data, account, recipient = account, stateOverride } = args;
+
+  if (!isHex(data)) {
+    throw new Error(`Invalid data: ${data}. Must be hex-encoded calldata.`);
+  }
+
+  const value = BigInt(args.value ?? 0n);
+  if (value < 0n) {
+    throw new Error(`Invalid value: ${value}. Must be non-negative.`);
+  }
+
+  let simulation;
+  try {
+    simulation = await instance.client.simulateBlocks({
+      blocks: [{ calls: [{ account, to, data, value }], stateOverrides: stateOverride }],
+      traceTransfers: true,
+    });
+  } catch (error) {
+    if (!isUnsupportedMethodError(error)) {
+      throw error;
+    }
+    return simulateWithCall({ to, data, value, account, stateOverride }, instance);
+  }
+
+  const call = simulation[0]!.calls[0]!;
+  const logs = call.logs ?? [];
+
+  return {
+    success: call.status === "success",
+    method: "eth_simulateV1",
+    gasUsed: call.gasUsed,
+    balanceChanges: {
+      account: getBalanceChanges(logs, account),
+      recipient: getBalanceChanges(logs, recipient),
+    },
+    ...(call.status === "success" ? {} : toRevertResult(call.data, call.error)),
+  };
+}
+
+async function simulateWithCall(
+  {
+    to,
+    data,
+    value,
+    account,
+    stateOverride,
+  }: Omit<SimulateCallArgs, "data" | "value" | "recipient"> & { data: Hex; value: bigint },
+  instance: UniswapSDKInstance,
+): Promise<SimulateCallResult> {
+  try {
+    await instance.client.call({ account, to, data, value, stateOverride });
+    return { success: true, method: "eth_call", balanceChanges: undefined };
+  } catch (error) {
+    const revertData = getRevertData(error);
+    if (revertData === undefined) {
+      throw error;
+    }
+
+    return { success: false, method: "eth_call", balanceChanges: undefined, ...toRevertResult(revertData, error) };
+  }
+}
+
+function isUnsupportedMethodError(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    error.walk((cause) => cause instanceof MethodNotFoundRpcError || cause instanceof MethodNotSupportedRpcError) !==
+      null
+  );
+}
+
+function toRevertResult(data: Hex, cause: unknown): Pick<SimulateCallResult, "revert" | "error"> {
+  const revert = decodeRevertData(data);
+  return { revert, error: toRevertError(`Simulated call reverted: ${revert.reason}`, revert, cause) };
+}
+
+function getBalanceChanges(logs: Log[], owner: Address): BalanceChange[] {
+  const deltas = new Map<Address, bigint>();
+
+  for (const { address, args } of parseEventLogs({ abi: erc20Abi, eventName: "Transfer", logs })) {
+    const token = isAddressEqual(address, NATIVE_TRANSFER_EMITTER) ? zeroAddress : getAddress(address);
+    let delta = deltas.get(token) ?? 0n;
+    if (isAddressEqual(args.from, owner)) {
+      delta -= args.value;
+    }
+    if (isAddressEqual(args.to, owner)) {
+      delta += args.value;
+    }
+    deltas.set(token, delta);
+  }
+
+  return [...deltas].filter(([, delta]) => delta !== 0n).map(([token, delta]) => ({ token, delta }));
+}
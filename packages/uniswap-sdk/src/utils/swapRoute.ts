@@ -1,6 +1,8 @@
 import type { Pool, PoolKey } from "@uniswap/v4-sdk";
 import type { Address, Hex } from "viem";
 
+import { InvalidRouteError } from "@/core/errors";
+
 export const EMPTY_HOOK_DATA = "0x" as const;
 
 export interface SwapRouteHop {
@@ -17,6 +19,20 @@ export interface SwapRoutePoolHop {
 
 export type SwapRouteWithPools = readonly [SwapRoutePoolHop, ...SwapRoutePoolHop[]];
 
+/**
+ * One leg of a split swap. `percentage` is the share of the exact amount routed through `route`,
+ * in basis points; the percentages of all legs must add up to 10000.
+ */
+export interface SplitSwapRoute {
+  route: SwapRoute;
+  percentage: number;
+}
+
+export interface SplitSwapRouteWithPools {
+  route: SwapRouteWithPools;
+  percentage: number;
+}
+
 export interface RoutePathKey {
   intermediateCurrency: Address;
   fee: number;
@@ -43,7 +59,7 @@ export function mapRoute<TRoute extends readonly [unknown, ...unknown[]], TOutpu
   const [firstHop, ...remainingHops] = mappedRoute;
 
   if (firstHop === undefined) {
-    throw new Error("Invalid swap route: route must contain at least one hop.");
+    throw new InvalidRouteError("Invalid swap route: route must contain at least one hop.");
   }
 
   return [firstHop, ...remainingHops];
@@ -69,7 +85,10 @@ export function resolveSwapRouteExactInput(currencyIn: Address, route: SwapRoute
     } else if (currentCurrency === currency1) {
       intermediateCurrency = poolKey.currency0 as Address;
     } else {
-      throw new Error(`Invalid swap route: hop ${hopIndex + 1} does not connect to currency ${currentCurrency}.`);
+      throw new InvalidRouteError(
+        `Invalid swap route: hop ${hopIndex + 1} does not connect to currency ${currentCurrency}.`,
+        { hop: hopIndex + 1 },
+      );
     }
 
     currentCurrency = intermediateCurrency.toLowerCase();
@@ -104,8 +123,9 @@ export function resolveSwapRouteExactOutput(currencyOut: Address, route: SwapRou
     } else if (currentCurrency === currency1) {
       previousCurrency = poolKey.currency0 as Address;
     } else {
-      throw new Error(
+      throw new InvalidRouteError(
         `Invalid swap route: reverse hop ${route.length - reverseHopIndex} does not connect to currency ${currentCurrency}.`,
+        { hop: route.length - reverseHopIndex },
       );
     }
 
@@ -124,7 +144,7 @@ export function resolveSwapRouteExactOutput(currencyOut: Address, route: SwapRou
   const [firstHop, ...remainingHops] = path;
 
   if (firstHop === undefined) {
-    throw new Error("Invalid swap route: route must contain at least one hop.");
+    throw new InvalidRouteError("Invalid swap route: route must contain at least one hop.");
   }
 
   return {
@@ -0,0 +1,194 @@
+import type { Hex } from "viem";
+
+import { Actions } from "@uniswap/v4-sdk";
+import { decodeAbiParameters, parseAbiParameters } from "viem";
+
+import { decodeNamedParameters, type DecodedAbiParameters } from "@/internal/abi";
+
+const POOL_KEY_STRUCT = "(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)";
+const PATH_KEY_STRUCT = "(address intermediateCurrency, uint24 fee, int24 tickSpacing, address hooks, bytes hookData)";
+
+/**
+ * v4-periphery action ids that the v4 SDK `Actions` enum leaves out.
+ */
+const PERIPHERY_ACTIONS = {
+  INCREASE_LIQUIDITY_FROM_DELTAS: 0x04,
+  MINT_POSITION_FROM_DELTAS: 0x05,
+  DONATE: 0x0a,
+  CLEAR_OR_TAKE: 0x13,
+  WRAP: 0x15,
+  MINT_6909: 0x17,
+  BURN_6909: 0x18,
+} as const;
+
+/**
+ * Actions reserved by v4-periphery that neither the router nor the PositionManager handles, so they have
+ * no parameter layout to decode.
+ */
+const UNSUPPORTED_ACTIONS = {
+  [PERIPHERY_ACTIONS.DONATE]: "DONATE",
+  [PERIPHERY_ACTIONS.MINT_6909]: "MINT_6909",
+  [PERIPHERY_ACTIONS.BURN_6909]: "BURN_6909",
+} as const;
+
+/**
+ * Parameter layout of each v4 router / position manager action, as encoded by the v4 SDK `V4Planner`
+ * and the v4-periphery `CalldataDecoder` (Universal Router 2.0 swap structs, without `minHopPriceX36`).
+ */
+const V4_ACTION_DEFINITIONS = {
+  [Actions.INCREASE_LIQUIDITY]: {
+    type: "INCREASE_LIQUIDITY",
+    params: parseAbiParameters(
+      "uint256 tokenId, uint256 liquidity, uint128 amount0Max, uint128 amount1Max, bytes hookData",
+    ),
+  },
+  [Actions.DECREASE_LIQUIDITY]: {
+    type: "DECREASE_LIQUIDITY",
+    params: parseAbiParameters(
+      "uint256 tokenId, uint256 liquidity, uint128 amount0Min, uint128 amount1Min, bytes hookData",
+    ),
+  },
+  [Actions.MINT_POSITION]: {
+    type: "MINT_POSITION",
+    params: parseAbiParameters([
+      `${POOL_KEY_STRUCT} poolKey, int24 tickLower, int24 tickUpper, uint256 liquidity, uint128 amount0Max, uint128 amount1Max, address owner, bytes hookData`,
+    ]),
+  },
+  [Actions.BURN_POSITION]: {
+    type: "BURN_POSITION",
+    params: parseAbiParameters("uint256 tokenId, uint128 amount0Min, uint128 amount1Min, bytes hookData"),
+  },
+  [PERIPHERY_ACTIONS.INCREASE_LIQUIDITY_FROM_DELTAS]: {
+    type: "INCREASE_LIQUIDITY_FROM_DELTAS",
+    params: parseAbiParameters("uint256 tokenId, uint128 amount0Max, uint128 amount1Max, bytes hookData"),
+  },
+  [PERIPHERY_ACTIONS.MINT_POSITION_FROM_DELTAS]: {
+    type: "MINT_POSITION_FROM_DELTAS",
+    params: parseAbiParameters([
+      `${POOL_KEY_STRUCT} poolKey, int24 tickLower, int24 tickUpper, uint128 amount0Max, uint128 amount1Max, address owner, bytes hookData`,
+    ]),
+  },
+  [Actions.SWAP_EXACT_IN_SINGLE]: {
+    type: "SWAP_EXACT_IN_SINGLE",
+    params: parseAbiParameters([
+      `(${POOL_KEY_STRUCT} poolKey, bool zeroForOne, uint128 amountIn, uint128 amountOutMinimum, bytes hookData)`,
+    ]),
+  },
+  [Actions.SWAP_EXACT_IN]: {
+    type: "SWAP_EXACT_IN",
+    params: parseAbiParameters([
+      `(address currencyIn, ${PATH_KEY_STRUCT}[] path, uint128 amountIn, uint128 amountOutMinimum)`,
+    ]),
+  },
+  [Actions.SWAP_EXACT_OUT_SINGLE]: {
+    type: "SWAP_EXACT_OUT_SINGLE",
+    params: parseAbiParameters([
+      `(${POOL_KEY_STRUCT} poolKey, bool zeroForOne, uint128 amountOut, uint128 amountInMaximum, bytes hookData)`,
+    ]),
+  },
+  [Actions.SWAP_EXACT_OUT]: {
+    type: "SWAP_EXACT_OUT",
+    params: parseAbiParameters([
+      `(address currencyOut, ${PATH_KEY_STRUCT}[] path, uint128 amountOut, uint128 amountInMaximum)`,
+    ]),
+  },
+  [Actions.SETTLE]: {
+    type: "SETTLE",
+    params: parseAbiParameters("address currency, uint256 amount, bool payerIsUser"),
+  },
+  [Actions.SETTLE_ALL]: {
+    type: "SETTLE_ALL",
+    params: parseAbiParameters("address currency, uint256 maxAmount"),
+  },
+  [Actions.SETTLE_PAIR]: {
+    type: "SETTLE_PAIR",
+    params: parseAbiParameters("address currency0, address currency1"),
+  },
+  [Actions.TAKE]: {
+    type: "TAKE",
+    params: parseAbiParameters("address currency, address recipient, uint256 amount"),
+  },
+  [Actions.TAKE_ALL]: {
+    type: "TAKE_ALL",
+    params: parseAbiParameters("address currency, uint256 minAmount"),
+  },
+  [Actions.TAKE_PORTION]: {
+    type: "TAKE_PORTION",
+    params: parseAbiParameters("address currency, address recipient, uint256 bips"),
+  },
+  [Actions.TAKE_PAIR]: {
+    type: "TAKE_PAIR",
+    params: parseAbiParameters("address currency0, address currency1, address recipient"),
+  },
+  [Actions.CLOSE_CURRENCY]: {
+    type: "CLOSE_CURRENCY",
+    params: parseAbiParameters("address currency"),
+  },
+  [PERIPHERY_ACTIONS.CLEAR_OR_TAKE]: {
+    type: "CLEAR_OR_TAKE",
+    params: parseAbiParameters("address currency, uint256 amountMax"),
+  },
+  [Actions.SWEEP]: {
+    type: "SWEEP",
+    params: parseAbiParameters("address currency, address recipient"),
+  },
+  [PERIPHERY_ACTIONS.WRAP]: {
+    type: "WRAP",
+    params: parseAbiParameters("uint256 amount"),
+  },
+  [Actions.UNWRAP]: {
+    type: "UNWRAP",
+    params: parseAbiParameters("uint256 amount"),
+  },
+} as const;
+
+type V4ActionDefinition = (typeof V4_ACTION_DEFINITIONS)[keyof typeof V4_ACTION_DEFINITIONS];
+
+/**
+ * A decoded v4 action. Amounts of `0` in SETTLE / TAKE mean "the full open delta". DONATE, MINT_6909 and
+ * BURN_6909 are reserved action ids that no v4 contract executes, so they keep their raw input.
+ */
+export type V4Action =
+  | (V4ActionDefinition extends infer TDefinition
+      ? TDefinition extends V4ActionDefinition
+        ? { type: TDefinition["type"]; params: DecodedAbiParameters<TDefinition["params"]> }
+        : never
+      : never)
+  | { type: (typeof UNSUPPORTED_ACTIONS)[keyof typeof UNSUPPORTED_ACTIONS]; input: Hex }
+  | { type: "UNKNOWN"; actionType: number; input: Hex };
+
+export type V4ActionType = V4Action["type"];
+
+/**
+ * Decodes the `abi.encode(bytes actions, bytes[] params)` payload of a v4 `V4_SWAP` command or a
+ * PositionManager `modifyLiquidities` call into typed actions, in execution order.
+ *
+ * @param data - Encoded actions and params, as produced by `V4Planner.finalize()`
+ * @returns Decoded actions. Action ids outside the v4-periphery `Actions` list are returned as `UNKNOWN` with their raw input.
+ * @throws Error if the payload is malformed or the action and param counts differ
+ */
+export function decodeV4Actions(data: Hex): V4Action[] {
+  const [actions, params] = decodeAbiParameters(parseAbiParameters("bytes actions, bytes[] params"), data);
+  const actionTypes = Array.from({ length: (actions.length - 2) / 2 }, (_, index) =>
+    parseInt(actions.slice(2 + index * 2, 4 + index * 2), 16),
+  );
+
+  if (actionTypes.length !== params.length) {
+    throw new Error(`Invalid v4 actions: ${actionTypes.length} actions but ${params.length} params.`);
+  }
+
+  return actionTypes.map((actionType, index) => {
+    const input = params[index]!;
+    const unsupportedType = UNSUPPORTED_ACTIONS[actionType as keyof typeof UNSUPPORTED_ACTIONS];
+    if (unsupportedType !== undefined) {
+      return { type: unsupportedType, input };
+    }
+
+    const definition = V4_ACTION_DEFINITIONS[actionType as keyof typeof V4_ACTION_DEFINITIONS];
+    if (definition === undefined) {
+      return { type: "UNKNOWN", actionType, input };
+    }
+
+    return { type: definition.type, params: decodeNamedParameters(definition.params, input) } as V4Action;
+  });
+}
@@ -0,0 +1,15 @@
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+interface MockInstanceFields extends Partial<Omit<UniswapSDKInstance, "client" | "contracts">> {
+  /** Client methods the code under test calls, usually `vi.fn()` mocks */
+  client?: Record<string, unknown>;
+  contracts?: Partial<UniswapSDKInstance["contracts"]>;
+}
+
+/**
+ * Builds a `UniswapSDKInstance` stand-in from the fields a test reads. Fields that are not set stay
+ * undefined, so code reading them fails instead of silently using a default.
+ */
+export function createMockInstance({ client = {}, contracts = {}, ...fields }: MockInstanceFields): UniswapSDKInstance {
+  return { client, contracts, ...fields } as unknown as UniswapSDKInstance;
+}
@@ -0,0 +1,88 @@
+import { Ether, Token } from "@uniswap/sdk-core";
+import { TickMath } from "@uniswap/v3-sdk";
+import { DYNAMIC_FEE_FLAG, type PoolKey } from "@uniswap/v4-sdk";
+import { type Address, type Hex, zeroAddress } from "viem";
+
+import type { GetTokensResult } from "@/utils/getTokens";
+
+import { getPoolIdFromPoolKey, type PoolFees, PoolWithFees } from "@/helpers/pools";
+
+const currencyFor = (address: string) =>
+  address.toLowerCase() === zeroAddress ? Ether.onChain(1) : new Token(1, address as Address, 18);
+
+/**
+ * Builds an 18-decimals pool for `poolKey` at `tick`, as `getPool` would return it. Without `fees`, the
+ * pool charges its key fee (nothing for dynamic-fee keys) and no protocol fee.
+ */
+export function createPoolAtTick(poolKey: PoolKey, tick = 0, fees?: Partial<PoolFees>): PoolWithFees {
+  return new PoolWithFees(
+    { lpFee: poolKey.fee === DYNAMIC_FEE_FLAG ? 0 : poolKey.fee, protocolFee: 0, ...fees },
+    currencyFor(poolKey.currency0),
+    currencyFor(poolKey.currency1),
+    poolKey.fee,
+    poolKey.tickSpacing,
+    poolKey.hooks,
+    TickMath.getSqrtRatioAtTick(tick).toString(),
+    (10n ** 21n).toString(),
+    tick,
+  );
+}
+
+/**
+ * Stand-in for `getTokens` resolving the currencies `createPoolAtTick` builds.
+ */
+export async function getFixtureTokens<const TAddresses extends readonly [Address, ...Address[]]>({
+  addresses,
+}: {
+  addresses: TAddresses;
+}): Promise<GetTokensResult<TAddresses>> {
+  return addresses.map(currencyFor) as GetTokensResult<TAddresses>;
+}
+
+interface MulticallCall {
+  functionName: string;
+  args: readonly unknown[];
+}
+
+type MulticallCallResult = { status: "success"; result: unknown } | { status: "failure"; error: Error };
+
+/**
+ * Implementation of a multicall mock over `createPoolAtTick(poolKey)` pools: StateView `getSlot0` / `getLiquidity`
+ * reads get the state of those pools, and every other call is answered by `answer`. Like viem, `allowFailure: false`
+ * unwraps the results and rejects with the first failure.
+ */
+export function answerPoolStateCalls(
+  poolKeys: readonly PoolKey[],
+  answer: (call: MulticallCall) => MulticallCallResult,
+): (args: { allowFailure?: boolean; contracts: readonly MulticallCall[] }) => Promise<unknown[]> {
+  const poolsById = new Map(poolKeys.map((poolKey) => [getPoolIdFromPoolKey(poolKey), createPoolAtTick(poolKey)]));
+
+  return async ({ allowFailure = true, contracts }) => {
+    const results = contracts.map((call): MulticallCallResult => {
+      if (call.functionName !== "getSlot0" && call.functionName !== "getLiquidity") {
+        return answer(call);
+      }
+
+      const pool = poolsById.get(call.args[0] as Hex);
+      if (pool === undefined) {
+        return { status: "failure", error: new Error(`Unknown pool ${String(call.args[0])}`) };
+      }
+      return call.functionName === "getSlot0"
+        ? {
+            status: "success",
+            result: [BigInt(pool.sqrtRatioX96.toString()), pool.tickCurrent, pool.protocolFee, pool.lpFee],
+          }
+        : { status: "success", result: BigInt(pool.liquidity.toString()) };
+    });
+    if (allowFailure) {
+      return results;
+    }
+
+    return results.map((result) => {
+      if (result.status === "failure") {
+        throw result.error;
+      }
+      return result.result;
+    });
+  };
+}
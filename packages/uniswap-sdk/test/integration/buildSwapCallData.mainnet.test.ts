@@ -416,4 +416,115 @@ describe("buildSwapCallData (unichain rpc)", () => {
     expect(value).toBe("10000000000000000");
     expect(calldata).toMatch(/^0x[0-9a-f]+$/);
   });
+
+  it("encodes split exact-input routes with a single settle, take and minimum-output sweep", async () => {
+    const client = createPinnedUnichainClient();
+    const sdk = UniswapSDK.create(client, unichain.id);
+    const pool = await sdk.getPool(UNICHAIN_POOL_KEY);
+
+    const { calldata, value } = await sdk.buildSwapCallData({
+      splitRoutes: [
+        { route: [{ pool }], percentage: 6000 },
+        { route: [{ pool }], percentage: 4000 },
+      ],
+      exactInput: {
+        currency: UNICHAIN_TOKENS.USDC,
+        amount: 1_000_001n,
+      },
+      minAmountOut: 123n,
+      recipient: TEST_RECIPIENT,
+    });
+
+    const decoded = decodeFunctionData({
+      abi: utility.UniversalRouterArtifact.abi,
+      data: calldata,
+    });
+
+    const [commands, inputs] = decoded.args as [Hex, Hex[], bigint];
+    const [actions, v4Params] = decodeAbiParameters([{ type: "bytes" }, { type: "bytes[]" }], inputs[0]!);
+    const [firstSwap, secondSwap] = [v4Params[0]!, v4Params[1]!].map(
+      (encoded) =>
+        decodeAbiParameters(
+          [
+            {
+              type: "tuple",
+              components: [
+                { type: "address", name: "currencyIn" },
+                {
+                  type: "tuple[]",
+                  name: "path",
+                  components: [
+                    { type: "address", name: "intermediateCurrency" },
+                    { type: "uint24", name: "fee" },
+                    { type: "int24", name: "tickSpacing" },
+                    { type: "address", name: "hooks" },
+                    { type: "bytes", name: "hookData" },
+                  ],
+                },
+                { type: "uint128", name: "amountIn" },
+                { type: "uint128", name: "amountOutMinimum" },
+              ],
+            },
+          ],
+          encoded,
+        )[0],
+    );
+    const [sweepCurrency, sweepRecipient, sweepMinimum] = decodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "uint256" }],
+      inputs[1]!,
+    );
+
+    expect(commands).toBe("0x1004");
+    expect(actions).toBe("0x07070b0e");
+    expect(firstSwap!.amountIn).toBe(600_000n);
+    expect(secondSwap!.amountIn).toBe(400_001n);
+    expect(firstSwap!.amountOutMinimum).toBe(0n);
+    expect(sweepCurrency).toBe(UNICHAIN_TOKENS.ETH);
+    expect(sweepRecipient.toLowerCase()).toBe(TEST_RECIPIENT.toLowerCase());
+    expect(sweepMinimum).toBe(123n);
+    expect(value).toBe("0");
+  });
+
+  it("caps split exact-output input by pulling maxAmountIn into the router and refunding the rest", async () => {
+    const client = createPinnedUnichainClient();
+    const sdk = UniswapSDK.create(client, unichain.id);
+    const pool = await sdk.getPool(UNICHAIN_POOL_KEY);
+
+    const { calldata, value } = await sdk.buildSwapCallData({
+      splitRoutes: [
+        { route: [{ pool }], percentage: 5000 },
+        { route: [{ pool }], percentage: 5000 },
+      ],
+      exactOutput: {
+        currency: UNICHAIN_TOKENS.ETH,
+        amount: 1_000_000n,
+      },
+      maxAmountIn: 5_000_000n,
+      recipient: TEST_RECIPIENT,
+    });
+
+    const decoded = decodeFunctionData({
+      abi: utility.UniversalRouterArtifact.abi,
+      data: calldata,
+    });
+
+    const [commands, inputs] = decoded.args as [Hex, Hex[], bigint];
+    const [actions, v4Params] = decodeAbiParameters([{ type: "bytes" }, { type: "bytes[]" }], inputs[1]!);
+    const [transferToken, , transferAmount] = decodeAbiParameters(
+      [{ type: "address" }, { type: "address" }, { type: "uint160" }],
+      inputs[0]!,
+    );
+    const [, settleAmount, payerIsUser] = decodeAbiParameters(
+      [{ type: "address" }, { type: "uint256" }, { type: "bool" }],
+      v4Params[2]!,
+    );
+
+    expect(commands).toBe("0x021004");
+    expect(actions).toBe("0x09090b0e");
+    expect(transferToken.toLowerCase()).toBe(UNICHAIN_TOKENS.USDC);
+    expect(transferAmount).toBe(5_000_000n);
+    expect(settleAmount).toBe(0n);
+    expect(payerIsUser).toBe(false);
+    expect(value).toBe("0");
+  });
 });
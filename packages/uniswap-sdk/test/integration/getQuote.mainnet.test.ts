@@ -34,6 +34,10 @@ describe("getQuote (unichain rpc)", () => {
       resolvedCurrencyOut: UNICHAIN_TOKENS.ETH,
     });
     expect(quote.timestamp).toBe(blockTimestampMs);
+    // a 1 USDC swap barely moves the price; the impact is dominated by the 0.05% LP fee
+    expect(quote.midPrice?.baseCurrency.wrapped.address.toLowerCase()).toBe(UNICHAIN_TOKENS.USDC);
+    expect(Number(quote.priceImpact?.toFixed(4))).toBeGreaterThan(0.04);
+    expect(Number(quote.priceImpact?.toFixed(4))).toBeLessThan(0.1);
   });
 
   it("returns an exact-output quote for a single-hop route", async () => {
@@ -66,4 +70,35 @@ describe("getQuote (unichain rpc)", () => {
     });
     expect(quote.timestamp).toBe(blockTimestampMs);
   });
+
+  it("matches the on-chain quoter when simulating a hookless pool locally", async () => {
+    const client = createPinnedUnichainClient();
+    const sdk = UniswapSDK.create(client, unichain.id);
+    const route = [{ poolKey: UNICHAIN_POOL_KEY }] as const;
+    const pool = await sdk.getPoolWithTicks(UNICHAIN_POOL_KEY);
+
+    for (const amount of [1_000_000n, 250_000_000n]) {
+      const quoterQuote = await sdk.getQuote({ route, exactInput: { currency: UNICHAIN_TOKENS.USDC, amount } });
+      const localQuote = await sdk.getQuote({
+        route,
+        exactInput: { currency: UNICHAIN_TOKENS.USDC, amount },
+        simulation: "local",
+        pools: [pool],
+      });
+
+      expect(localQuote.amountOut).toBe(quoterQuote.amountOut);
+    }
+
+    const quoterExactOutput = await sdk.getQuote({
+      route,
+      exactOutput: { currency: UNICHAIN_TOKENS.ETH, amount: 518374739793346n },
+    });
+    const localExactOutput = await sdk.getQuote({
+      route,
+      exactOutput: { currency: UNICHAIN_TOKENS.ETH, amount: 518374739793346n },
+      simulation: "local",
+    });
+
+    expect(localExactOutput.amountIn).toBe(quoterExactOutput.amountIn);
+  });
 });
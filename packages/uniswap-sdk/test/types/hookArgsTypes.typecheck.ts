@@ -0,0 +1,78 @@
+import type { Address, Hex, PublicClient } from "viem";
+
+import type { AddLiquidityHookArgs, HookAdapter, SwapHookArgs } from "@/helpers/hookAdapters";
+import type { SwapRouteWithPools } from "@/utils/swapRoute";
+
+import { UniswapSDK } from "@/core/sdk";
+
+type Expect<T extends true> = T;
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+
+interface ReferralArgs {
+  referrer: Address;
+}
+
+interface TierArgs {
+  tier: number;
+}
+
+declare const client: PublicClient;
+declare const address: Address;
+declare const hookData: Hex;
+declare const route: SwapRouteWithPools;
+
+const REFERRAL_HOOK = "0x00000000000000000000000000000000000000c0";
+const SWAP_ONLY_HOOK = "0x00000000000000000000000000000000000000d0";
+
+const referralAdapter: HookAdapter<ReferralArgs, ReferralArgs, ReferralArgs> = {
+  encodeSwapHookData: () => hookData,
+  encodeAddLiquidityHookData: () => hookData,
+  encodeRemoveLiquidityHookData: () => hookData,
+};
+
+const swapOnlyAdapter: HookAdapter<TierArgs, never, never> = {
+  encodeSwapHookData: () => hookData,
+};
+
+const sdk = UniswapSDK.create(client, 1, {
+  hookAdapters: { [REFERRAL_HOOK]: referralAdapter, [SWAP_ONLY_HOOK]: swapOnlyAdapter },
+});
+
+type Registry = typeof sdk extends UniswapSDK<infer TRegistry> ? TRegistry : never;
+
+type _SwapHookArgsPerHook = Expect<
+  Equal<SwapHookArgs<Registry>, { [REFERRAL_HOOK]?: ReferralArgs; [SWAP_ONLY_HOOK]?: TierArgs }>
+>;
+type _LiquidityHookArgs = Expect<Equal<AddLiquidityHookArgs<Registry>, ReferralArgs>>;
+type _UntypedSwapHookArgs = Expect<Equal<SwapHookArgs[Address], unknown>>;
+
+void sdk.buildSwapCallData({
+  route,
+  recipient: address,
+  exactInput: { currency: address, amount: 1n },
+  minAmountOut: 0n,
+  hookArgs: { [REFERRAL_HOOK]: { referrer: address }, [SWAP_ONLY_HOOK]: { tier: 1 } },
+});
+
+void sdk.buildSwapCallData({
+  route,
+  recipient: address,
+  exactInput: { currency: address, amount: 1n },
+  minAmountOut: 0n,
+  // @ts-expect-error the swap-only adapter reads TierArgs
+  hookArgs: { [SWAP_ONLY_HOOK]: { referrer: address } },
+});
+
+void sdk.buildAddLiquidityCallData({
+  pool: route[0].pool,
+  amount0: "1",
+  recipient: address,
+  hookArgs: { referrer: address },
+});
+
+void sdk.buildRemoveLiquidityCallData({
+  tokenId: "1",
+  liquidityPercentage: 10_000,
+  // @ts-expect-error no adapter encodes remove-liquidity hookData from TierArgs
+  hookArgs: { tier: 1 },
+});
@@ -48,6 +48,31 @@ const exactOutputCallDataArgs: BuildSwapCallDataArgs = {
   maxAmountIn: 2n,
 };
 
+const splitRouteCallDataArgs: BuildSwapCallDataArgs = {
+  splitRoutes: [
+    { route: routeWithPools, percentage: 6000 },
+    { route: routeWithPools, percentage: 4000 },
+  ],
+  recipient: address,
+  exactInput: {
+    currency: address,
+    amount: 1n,
+  },
+  minAmountOut: 0n,
+};
+
+const conflictingRouteCallDataArgs: BuildSwapCallDataArgs = {
+  route: routeWithPools,
+  // @ts-expect-error route and splitRoutes are mutually exclusive
+  splitRoutes: [{ route: routeWithPools, percentage: 10_000 }],
+  recipient: address,
+  exactInput: {
+    currency: address,
+    amount: 1n,
+  },
+  minAmountOut: 0n,
+};
+
 const invalidCustomActionsArgs: BuildSwapCallDataArgs = {
   route: routeWithPools,
   recipient: address,
@@ -71,6 +96,10 @@ type _QuoteParamsExactOutputAmount = Expect<
 type _CallDataArgsExactInputAmount = Expect<Equal<(typeof exactInputCallDataArgs)["exactInput"]["amount"], bigint>>;
 type _CallDataArgsHasMinAmountOut = Expect<Equal<(typeof exactInputCallDataArgs)["minAmountOut"], bigint>>;
 type _CallDataArgsHasMaxAmountIn = Expect<Equal<(typeof exactOutputCallDataArgs)["maxAmountIn"], bigint>>;
+type _SplitCallDataArgsPercentage = Expect<
+  Equal<(typeof splitRouteCallDataArgs)["splitRoutes"][number]["percentage"], number>
+>;
+type _ConflictingRouteCallDataArgs = Expect<Equal<(typeof conflictingRouteCallDataArgs)["recipient"], Address>>;
 type _InvalidCustomActionsArgs = Expect<Equal<(typeof invalidCustomActionsArgs)["recipient"], Address>>;
 
 type _QuoteResponseHasMeta = Expect<Equal<HasKey<QuoteResponse, "meta">, true>>;
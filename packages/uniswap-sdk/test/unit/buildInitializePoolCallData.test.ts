@@ -0,0 +1,79 @@
+import { Ether, Token } from "@uniswap/sdk-core";
+import { DYNAMIC_FEE_FLAG } from "@uniswap/v4-sdk";
+import { v4 } from "hookmate/abi";
+import { decodeFunctionData, type Hex, zeroAddress } from "viem";
+
+import { priceToSqrtPriceX96 } from "@/helpers/prices";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { buildInitializePoolCallData } from "@/utils/buildInitializePoolCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+const mockedGetTokens = vi.mocked(getTokens);
+
+const USDC = "0x0000000000000000000000000000000000000011";
+const HOOKS = "0x0000000000000000000000000000000000002000";
+const POOL_MANAGER = "0x0000000000000000000000000000000000000044";
+const POSITION_MANAGER = "0x0000000000000000000000000000000000000055";
+
+const poolKey = { currency0: zeroAddress, currency1: USDC, fee: 3000, tickSpacing: 60, hooks: HOOKS };
+
+const instance = createMockInstance({
+  contracts: { poolManager: POOL_MANAGER, positionManager: POSITION_MANAGER },
+});
+
+beforeEach(() => {
+  mockedGetTokens.mockReset();
+  mockedGetTokens.mockResolvedValue([Ether.onChain(1), new Token(1, USDC, 6)] as never);
+});
+
+describe("buildInitializePoolCallData", () => {
+  it("initializes through the PositionManager at a price scaled by the currency decimals", async () => {
+    const result = await buildInitializePoolCallData({ poolKey, initialPrice: "3000" }, instance);
+    const sqrtPriceX96 = priceToSqrtPriceX96("3000", 18, 6);
+
+    expect(result).toMatchObject({ to: POSITION_MANAGER, value: "0x00", sqrtPriceX96, tick: -196257 });
+    expect(decodePositionManagerCalldata(result.calldata as Hex).calls).toEqual([
+      { functionName: "initializePool", args: [poolKey, sqrtPriceX96] },
+    ]);
+  });
+
+  it("initializes through the PoolManager with an explicit sqrtPriceX96", async () => {
+    const result = await buildInitializePoolCallData(
+      { poolKey: { ...poolKey, fee: DYNAMIC_FEE_FLAG }, sqrtPriceX96: 2n ** 96n, target: "poolManager" },
+      instance,
+    );
+
+    expect(result).toMatchObject({ to: POOL_MANAGER, value: "0", tick: 0 });
+    expect(decodeFunctionData({ abi: v4.PoolManagerArtifact.abi, data: result.calldata as Hex })).toEqual({
+      functionName: "initialize",
+      args: [{ ...poolKey, fee: DYNAMIC_FEE_FLAG }, 2n ** 96n],
+    });
+    expect(mockedGetTokens).not.toHaveBeenCalled();
+  });
+
+  it("rejects unsorted currencies, invalid fees and tick spacings", async () => {
+    await expect(
+      buildInitializePoolCallData(
+        { poolKey: { ...poolKey, currency0: USDC, currency1: zeroAddress }, sqrtPriceX96: 2n ** 96n },
+        instance,
+      ),
+    ).rejects.toThrow("must sort before currency1");
+    await expect(
+      buildInitializePoolCallData({ poolKey: { ...poolKey, fee: 1_000_001 }, sqrtPriceX96: 2n ** 96n }, instance),
+    ).rejects.toThrow("Invalid poolKey fee: 1000001.");
+    await expect(
+      buildInitializePoolCallData({ poolKey: { ...poolKey, tickSpacing: 0 }, sqrtPriceX96: 2n ** 96n }, instance),
+    ).rejects.toThrow("Invalid poolKey tickSpacing: 0.");
+  });
+
+  it("rejects prices outside the v4 range", async () => {
+    await expect(buildInitializePoolCallData({ poolKey, sqrtPriceX96: 1n }, instance)).rejects.toThrow(
+      "Invalid sqrtPriceX96: 1 is outside the range of v4 prices.",
+    );
+  });
+});
@@ -0,0 +1,232 @@
+import { NONFUNGIBLE_POSITION_MANAGER_ADDRESSES, Token } from "@uniswap/sdk-core";
+import { decodeFunctionData, type Hex, parseAbi, parseSignature, recoverTypedDataAddress, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { PositionNotFoundError } from "@/core/errors";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { buildMigrateV3PositionCallData } from "@/utils/buildMigrateV3PositionCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+import { decodeUniversalRouterCalldata } from "@/utils/decodeUniversalRouterCalldata";
+import { getPool } from "@/utils/getPool";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getPool", () => ({
+  getPool: vi.fn(),
+}));
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+const mockedGetPool = vi.mocked(getPool);
+const mockedGetTokens = vi.mocked(getTokens);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000011";
+const TOKEN_B = "0x0000000000000000000000000000000000000022";
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const OWNER_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const OWNER = privateKeyToAccount(OWNER_KEY).address;
+const V3_FACTORY = "0x1F98431c8aD98523631AE4a59f267346ea31F984";
+const V3_POSITION_MANAGER = NONFUNGIBLE_POSITION_MANAGER_ADDRESSES[1]!;
+const POSITION_MANAGER = "0x0000000000000000000000000000000000000044";
+const UNIVERSAL_ROUTER = "0x0000000000000000000000000000000000000055";
+
+const v3PositionManagerAbi = parseAbi([
+  "function decreaseLiquidity((uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params)",
+  "function collect((uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) params)",
+  "function burn(uint256 tokenId)",
+  "function permit(address spender, uint256 tokenId, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+]);
+
+const poolKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+
+function createInstance(token0: string, token1: string) {
+  const multicall = vi
+    .fn()
+    .mockResolvedValueOnce([
+      {
+        status: "success",
+        // nonce, operator, token0, token1, fee, tickLower, tickUpper, liquidity, feeGrowth0, feeGrowth1, owed0, owed1
+        result: [3n, zeroAddress, token0, token1, 3000, -600, 600, 10n ** 18n, 0n, 0n, 1_000n, 2_000n],
+      },
+      { status: "success", result: OWNER },
+      { status: "success", result: V3_FACTORY },
+    ])
+    .mockResolvedValueOnce([[2n ** 96n, 0, 0, 1, 1, 0, true], 10n ** 21n]);
+
+  const instance = createMockInstance({
+    client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }), multicall },
+    chainId: 1,
+    contracts: { positionManager: POSITION_MANAGER, universalRouter: UNIVERSAL_ROUTER, weth: WETH },
+    defaultDeadline: 600,
+    defaultSlippageTolerance: 50,
+  });
+
+  return { instance, multicall };
+}
+
+beforeEach(() => {
+  mockedGetPool.mockReset();
+  mockedGetPool.mockImplementation(async (key) => createPoolAtTick(key));
+  mockedGetTokens.mockReset();
+  mockedGetTokens.mockImplementation(
+    async ({ addresses }) => addresses.map((address) => new Token(1, address, 18)) as never,
+  );
+});
+
+describe("buildMigrateV3PositionCallData", () => {
+  it("removes the v3 position into the v4 PositionManager and mints from its balance", async () => {
+    const { instance } = createInstance(TOKEN_A, TOKEN_B);
+
+    const result = await buildMigrateV3PositionCallData(
+      { v3TokenId: "42", v4PoolKey: poolKey, tickLower: -1200, tickUpper: 1200 },
+      instance,
+    );
+
+    expect(result.owner).toBe(OWNER);
+    expect(result.value).toBe("0");
+    expect(result.liquidity).toBeGreaterThan(0n);
+
+    const { commands, deadline } = decodeUniversalRouterCalldata(result.calldata as Hex);
+    expect(deadline).toBe(1_600n);
+    expect(commands.map(({ type }) => type)).toEqual([
+      "V3_POSITION_MANAGER_CALL",
+      "V3_POSITION_MANAGER_CALL",
+      "V3_POSITION_MANAGER_CALL",
+      "V4_POSITION_MANAGER_CALL",
+    ]);
+
+    const [decrease, collect, burn] = commands.slice(0, 3).map((command) => {
+      if (command.type !== "V3_POSITION_MANAGER_CALL") {
+        throw new Error("Expected a V3_POSITION_MANAGER_CALL command");
+      }
+      return decodeFunctionData({ abi: v3PositionManagerAbi, data: command.params.calldata });
+    });
+    expect(decrease).toMatchObject({
+      functionName: "decreaseLiquidity",
+      args: [{ tokenId: 42n, liquidity: 10n ** 18n, deadline: 1_600n }],
+    });
+    expect(collect).toMatchObject({
+      functionName: "collect",
+      args: [{ tokenId: 42n, recipient: POSITION_MANAGER, amount0Max: 2n ** 128n - 1n, amount1Max: 2n ** 128n - 1n }],
+    });
+    expect(burn).toEqual({ functionName: "burn", args: [42n] });
+
+    const mintCommand = commands[3]!;
+    if (mintCommand.type !== "V4_POSITION_MANAGER_CALL") {
+      throw new Error("Expected a V4_POSITION_MANAGER_CALL command");
+    }
+    expect(decodePositionManagerCalldata(mintCommand.params.calldata).calls).toMatchObject([
+      {
+        functionName: "modifyLiquidities",
+        actions: [
+          {
+            type: "MINT_POSITION",
+            params: {
+              poolKey,
+              tickLower: -1200,
+              tickUpper: 1200,
+              liquidity: result.liquidity,
+              amount0Max: result.amount0Max,
+              amount1Max: result.amount1Max,
+              owner: OWNER,
+            },
+          },
+          { type: "SETTLE", params: { currency: TOKEN_A, payerIsUser: false } },
+          { type: "SETTLE", params: { currency: TOKEN_B, payerIsUser: false } },
+          { type: "SWEEP", params: { currency: TOKEN_A, recipient: OWNER } },
+          { type: "SWEEP", params: { currency: TOKEN_B, recipient: OWNER } },
+        ],
+      },
+    ]);
+  });
+
+  it("returns permit data that, once signed, adds a V3_POSITION_MANAGER_PERMIT command", async () => {
+    const { instance } = createInstance(TOKEN_A, TOKEN_B);
+    const result = await buildMigrateV3PositionCallData(
+      { v3TokenId: "42", v4PoolKey: poolKey, tickLower: -1200, tickUpper: 1200 },
+      instance,
+    );
+
+    expect(result.toSign).toMatchObject({
+      domain: { name: "Uniswap V3 Positions NFT-V1", version: "1", chainId: 1, verifyingContract: V3_POSITION_MANAGER },
+      primaryType: "Permit",
+      message: { spender: UNIVERSAL_ROUTER, tokenId: 42n, nonce: 3n, deadline: 1_600n },
+    });
+
+    const signature = await privateKeyToAccount(OWNER_KEY).signTypedData(result.toSign);
+    expect(await recoverTypedDataAddress({ ...result.toSign, signature })).toBe(OWNER);
+
+    const { calldata } = result.buildCallDataWithSignature(signature);
+    const { commands } = decodeUniversalRouterCalldata(calldata as Hex);
+    expect(commands.map(({ type }) => type)).toEqual([
+      "V3_POSITION_MANAGER_PERMIT",
+      "V3_POSITION_MANAGER_CALL",
+      "V3_POSITION_MANAGER_CALL",
+      "V3_POSITION_MANAGER_CALL",
+      "V4_POSITION_MANAGER_CALL",
+    ]);
+    if (commands[0]!.type !== "V3_POSITION_MANAGER_PERMIT") {
+      throw new Error("Expected a V3_POSITION_MANAGER_PERMIT command");
+    }
+    const { r, s, v } = parseSignature(signature);
+    expect(decodeFunctionData({ abi: v3PositionManagerAbi, data: commands[0]!.params.calldata })).toEqual({
+      functionName: "permit",
+      args: [UNIVERSAL_ROUTER, 42n, 1_600n, Number(v), r, s],
+    });
+  });
+
+  it("unwraps WETH when the v4 pool uses native ETH", async () => {
+    // WETH sorts after TOKEN_B in v3, while native ETH is always currency0 in v4
+    const { instance } = createInstance(TOKEN_B, WETH);
+    const nativeKey = { ...poolKey, currency0: zeroAddress, currency1: TOKEN_B };
+
+    const result = await buildMigrateV3PositionCallData(
+      { v3TokenId: "42", v4PoolKey: nativeKey, tickLower: -1200, tickUpper: 1200, recipient: TOKEN_A },
+      instance,
+    );
+
+    const mintCommand = decodeUniversalRouterCalldata(result.calldata as Hex).commands[3]!;
+    if (mintCommand.type !== "V4_POSITION_MANAGER_CALL") {
+      throw new Error("Expected a V4_POSITION_MANAGER_CALL command");
+    }
+    const [mintCall] = decodePositionManagerCalldata(mintCommand.params.calldata).calls;
+    expect(mintCall).toMatchObject({
+      actions: [
+        { type: "MINT_POSITION", params: { owner: TOKEN_A } },
+        { type: "UNWRAP" },
+        { type: "SETTLE", params: { currency: zeroAddress } },
+        { type: "SETTLE", params: { currency: TOKEN_B } },
+        { type: "SWEEP", params: { currency: WETH, recipient: TOKEN_A } },
+        { type: "SWEEP", params: { currency: TOKEN_B, recipient: TOKEN_A } },
+      ],
+    });
+  });
+
+  it("rejects a v4 pool with other currencies", async () => {
+    const { instance } = createInstance(TOKEN_A, WETH);
+
+    await expect(
+      buildMigrateV3PositionCallData(
+        { v3TokenId: "42", v4PoolKey: poolKey, tickLower: -1200, tickUpper: 1200 },
+        instance,
+      ),
+    ).rejects.toThrow("v4 pool currencies do not match the tokens of v3 position 42.");
+  });
+
+  it("throws PositionNotFoundError for a burned v3 position", async () => {
+    const { instance, multicall } = createInstance(TOKEN_A, TOKEN_B);
+    multicall.mockReset().mockResolvedValueOnce([
+      { status: "failure", error: new Error("Invalid token ID") },
+      { status: "failure", error: new Error("ERC721: owner query for nonexistent token") },
+      { status: "success", result: V3_FACTORY },
+    ]);
+
+    await expect(
+      buildMigrateV3PositionCallData(
+        { v3TokenId: "42", v4PoolKey: poolKey, tickLower: -1200, tickUpper: 1200 },
+        instance,
+      ),
+    ).rejects.toThrow(PositionNotFoundError);
+  });
+});
@@ -0,0 +1,93 @@
+import { tickToPrice } from "@uniswap/v4-sdk";
+import { type Hex, zeroAddress } from "viem";
+
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { buildRangeOrderCallData } from "@/utils/buildRangeOrderCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+import { getPool } from "@/utils/getPool";
+
+vi.mock("@/utils/getPool", () => ({
+  getPool: vi.fn(),
+}));
+
+const mockedGetPool = vi.mocked(getPool);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000011";
+const TOKEN_B = "0x0000000000000000000000000000000000000022";
+const RECIPIENT = "0x0000000000000000000000000000000000000033";
+
+const poolKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const pool = createPoolAtTick(poolKey);
+
+const instance = createMockInstance({
+  client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }) },
+  defaultDeadline: 600,
+  defaultSlippageTolerance: 50,
+});
+
+beforeEach(() => {
+  mockedGetPool.mockReset();
+  mockedGetPool.mockResolvedValue(pool);
+});
+
+describe("buildRangeOrderCallData", () => {
+  it("mints a currency0 order one tick spacing above the snapped target price", async () => {
+    const result = await buildRangeOrderCallData(
+      {
+        poolKey,
+        sellCurrency: TOKEN_A,
+        amount: 10n ** 18n,
+        targetPrice: tickToPrice(pool.currency0, pool.currency1, 200),
+        recipient: RECIPIENT,
+      },
+      instance,
+    );
+
+    expect(result).toMatchObject({ tickLower: 180, tickUpper: 240 });
+    expect(decodePositionManagerCalldata(result.calldata as Hex).calls).toMatchObject([
+      {
+        functionName: "modifyLiquidities",
+        deadline: 1_600n,
+        actions: [
+          {
+            type: "MINT_POSITION",
+            params: { poolKey, tickLower: 180, tickUpper: 240, liquidity: result.liquidity, amount1Max: 0n },
+          },
+          { type: "SETTLE_PAIR" },
+        ],
+      },
+    ]);
+  });
+
+  it("mints a currency1 order below the price, whichever way the target price is quoted", async () => {
+    const result = await buildRangeOrderCallData(
+      {
+        poolKey,
+        sellCurrency: TOKEN_B,
+        amount: 10n ** 18n,
+        // Price of TOKEN_B in TOKEN_A, i.e. tick -200
+        targetPrice: tickToPrice(pool.currency1, pool.currency0, -200),
+        recipient: RECIPIENT,
+      },
+      instance,
+    );
+
+    expect(result).toMatchObject({ tickLower: -240, tickUpper: -180 });
+  });
+
+  it("rejects a target price on the wrong side of the current price", async () => {
+    await expect(
+      buildRangeOrderCallData(
+        {
+          poolKey,
+          sellCurrency: TOKEN_A,
+          amount: 10n ** 18n,
+          targetPrice: tickToPrice(pool.currency0, pool.currency1, -200),
+          recipient: RECIPIENT,
+        },
+        instance,
+      ),
+    ).rejects.toThrow("Invalid targetPrice: the order range [-180, -120] must be above the current tick (0).");
+  });
+});
@@ -0,0 +1,234 @@
+import { Position as V4Position } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import { InsufficientLiquidityError } from "@/core/errors";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { buildRebalanceCallData } from "@/utils/buildRebalanceCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+import { decodeUniversalRouterCalldata } from "@/utils/decodeUniversalRouterCalldata";
+import { getPoolTickData } from "@/utils/getPoolTickData";
+import { getPosition } from "@/utils/getPosition";
+import { getUncollectedFees } from "@/utils/getUncollectedFees";
+
+vi.mock("@/utils/getPoolTickData", () => ({
+  getPoolTickData: vi.fn(),
+}));
+vi.mock("@/utils/getPosition", () => ({
+  getPosition: vi.fn(),
+}));
+vi.mock("@/utils/getUncollectedFees", () => ({
+  getUncollectedFees: vi.fn(),
+}));
+
+const mockedGetPoolTickData = vi.mocked(getPoolTickData);
+const mockedGetPosition = vi.mocked(getPosition);
+const mockedGetUncollectedFees = vi.mocked(getUncollectedFees);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000011";
+const TOKEN_B = "0x0000000000000000000000000000000000000022";
+const RECIPIENT = "0x0000000000000000000000000000000000000033";
+const POSITION_MANAGER = "0x0000000000000000000000000000000000000044";
+const UNIVERSAL_ROUTER = "0x0000000000000000000000000000000000000055";
+
+const poolKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const pool = createPoolAtTick(poolKey);
+// Active liquidity of createPoolAtTick, and of the position burned by default
+const POOL_LIQUIDITY = 10n ** 21n;
+const POSITION_LIQUIDITY = 10n ** 18n;
+
+const instance = createMockInstance({
+  client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }) },
+  contracts: { positionManager: POSITION_MANAGER, universalRouter: UNIVERSAL_ROUTER },
+  defaultDeadline: 600,
+  defaultSlippageTolerance: 50,
+});
+
+const positionResponse = (positionAtPool: V4Position, poolOfPosition = pool) => ({
+  position: positionAtPool,
+  pool: poolOfPosition,
+  currency0: positionAtPool.pool.currency0,
+  currency1: positionAtPool.pool.currency1,
+  poolId: positionAtPool.pool.poolId as `0x${string}`,
+  tokenId: "7",
+  currentTick: positionAtPool.pool.tickCurrent,
+});
+
+/** Initialized ticks of the burned position over [-600, 600] and of the rest of the liquidity over `ranges` */
+function mockTicks(
+  positionLiquidity: bigint,
+  ranges: readonly [tickLower: number, tickUpper: number, liquidity: bigint][],
+) {
+  const ticks = new Map<number, { index: number; liquidityGross: bigint; liquidityNet: bigint }>();
+  for (const [tickLower, tickUpper, liquidity] of [[-600, 600, positionLiquidity] as const, ...ranges]) {
+    for (const [index, liquidityNet] of [
+      [tickLower, liquidity],
+      [tickUpper, -liquidity],
+    ] as const) {
+      const tick = ticks.get(index) ?? { index, liquidityGross: 0n, liquidityNet: 0n };
+      ticks.set(index, {
+        index,
+        liquidityGross: tick.liquidityGross + liquidity,
+        liquidityNet: tick.liquidityNet + liquidityNet,
+      });
+    }
+  }
+
+  mockedGetPoolTickData.mockResolvedValue({
+    tickSpacing: 60,
+    minWord: -2,
+    maxWord: 2,
+    ticks: [...ticks.values()].sort((a, b) => a.index - b.index),
+  });
+}
+
+beforeEach(() => {
+  mockedGetPoolTickData.mockReset();
+  mockTicks(POSITION_LIQUIDITY, [[-6000, 6000, POOL_LIQUIDITY - POSITION_LIQUIDITY]]);
+  mockedGetPosition.mockReset();
+  mockedGetPosition.mockResolvedValue(
+    positionResponse(
+      new V4Position({ pool, liquidity: POSITION_LIQUIDITY.toString(), tickLower: -600, tickUpper: 600 }),
+    ),
+  );
+  mockedGetUncollectedFees.mockReset();
+  mockedGetUncollectedFees.mockResolvedValue({ amount0: 1_000n, amount1: 2_000n });
+});
+
+describe("buildRebalanceCallData", () => {
+  it("burns into the router, swaps to the new range's ratio and mints the new position", async () => {
+    const result = await buildRebalanceCallData(
+      { tokenId: "7", newTickLower: 600, newTickUpper: 1200, recipient: RECIPIENT },
+      instance,
+    );
+
+    expect(mockedGetPoolTickData).toHaveBeenCalledWith({ poolKey, tickCurrent: 0, wordRadius: undefined }, instance);
+    expect(result.atomicRequired).toBe(true);
+    // The new range is above the price, so it only holds currency0
+    expect(result.zeroForOne).toBe(false);
+    expect(result.amount1Max).toBe(0n);
+    expect(result.liquidity).toBeGreaterThan(0n);
+
+    const [burnCall, mintCall] = result.calls;
+    expect(burnCall).toMatchObject({ to: POSITION_MANAGER, value: 0n });
+    expect(decodePositionManagerCalldata(burnCall.data!).calls).toMatchObject([
+      {
+        functionName: "modifyLiquidities",
+        deadline: 1_600n,
+        actions: [
+          { type: "BURN_POSITION", params: { tokenId: 7n } },
+          { type: "TAKE_PAIR", params: { currency0: TOKEN_A, currency1: TOKEN_B, recipient: UNIVERSAL_ROUTER } },
+        ],
+      },
+    ]);
+
+    // Everything of currency1 the burn guarantees is swapped
+    const [burnModify] = decodePositionManagerCalldata(burnCall.data!).calls;
+    const burnAction = burnModify?.functionName === "modifyLiquidities" ? burnModify.actions[0] : undefined;
+    if (burnAction?.type !== "BURN_POSITION") {
+      throw new Error("Expected a BURN_POSITION action");
+    }
+    expect(result.swapAmount).toBe(burnAction.params.amount1Min + 2_000n);
+    expect(result.amount0Max).toBe(burnAction.params.amount0Min + 1_000n + result.minAmountOut);
+
+    expect(mintCall).toMatchObject({ to: UNIVERSAL_ROUTER, value: 0n });
+    const { commands } = decodeUniversalRouterCalldata(mintCall.data!);
+    expect(commands.map(({ type }) => type)).toEqual(["V4_SWAP", "SWEEP", "SWEEP", "V4_POSITION_MANAGER_CALL"]);
+    expect(commands[0]).toMatchObject({
+      actions: [
+        {
+          type: "SWAP_EXACT_IN_SINGLE",
+          params: { poolKey, zeroForOne: false, amountIn: result.swapAmount, amountOutMinimum: result.minAmountOut },
+        },
+        { type: "SETTLE", params: { currency: TOKEN_B } },
+        { type: "TAKE", params: { currency: TOKEN_A } },
+      ],
+    });
+
+    const mintCommand = commands[3]!;
+    if (mintCommand.type !== "V4_POSITION_MANAGER_CALL") {
+      throw new Error("Expected a V4_POSITION_MANAGER_CALL command");
+    }
+    expect(decodePositionManagerCalldata(mintCommand.params.calldata).calls[0]).toMatchObject({
+      actions: [
+        {
+          type: "MINT_POSITION",
+          params: {
+            tickLower: 600,
+            tickUpper: 1200,
+            liquidity: result.liquidity,
+            amount0Max: result.amount0Max,
+            amount1Max: 0n,
+            owner: RECIPIENT,
+          },
+        },
+        { type: "SETTLE" },
+        { type: "SETTLE" },
+        { type: "SWEEP", params: { currency: TOKEN_A, recipient: RECIPIENT } },
+        { type: "SWEEP", params: { currency: TOKEN_B, recipient: RECIPIENT } },
+      ],
+    });
+  });
+
+  it("keeps a balanced position's ratio with only a small swap", async () => {
+    const result = await buildRebalanceCallData(
+      { tokenId: "7", newTickLower: -1200, newTickUpper: 1200, recipient: RECIPIENT },
+      instance,
+    );
+
+    // Both ranges are centered on the price, so only the fee difference is rebalanced
+    expect(result.swapAmount).toBeLessThan(10n ** 15n);
+    expect(result.liquidity).toBeGreaterThan(0n);
+  });
+
+  it("simulates the swap of hookless pools across the ticks left after the burn", async () => {
+    // The burned position is most of the active liquidity, and half of the rest ends at tick 300
+    const positionLiquidity = POOL_LIQUIDITY - 10n ** 20n;
+    const rebalance = async (poolOfPosition: typeof pool) => {
+      mockedGetPosition.mockResolvedValue(
+        positionResponse(
+          new V4Position({
+            pool: poolOfPosition,
+            liquidity: positionLiquidity.toString(),
+            tickLower: -600,
+            tickUpper: 600,
+          }),
+          poolOfPosition,
+        ),
+      );
+      return buildRebalanceCallData(
+        { tokenId: "7", newTickLower: 600, newTickUpper: 1200, recipient: RECIPIENT },
+        instance,
+      );
+    };
+    mockTicks(positionLiquidity, [
+      [-300, 300, 5n * 10n ** 19n],
+      [-12000, 12000, 5n * 10n ** 19n],
+    ]);
+
+    const result = await rebalance(pool);
+    // Hooked pools keep the liquidity left at the current tick for the whole swap
+    const hookedResult = await rebalance(
+      createPoolAtTick({ ...poolKey, hooks: "0x0000000000000000000000000000000000000080" }),
+    );
+
+    expect(mockedGetPoolTickData).toHaveBeenCalledOnce();
+    expect(result.minAmountOut).toBeLessThan(hookedResult.minAmountOut);
+  });
+
+  it("rejects when the burned position is the pool's only active liquidity", async () => {
+    mockedGetPosition.mockResolvedValueOnce(
+      positionResponse(new V4Position({ pool, liquidity: pool.liquidity.toString(), tickLower: -600, tickUpper: 600 })),
+    );
+
+    await expect(
+      buildRebalanceCallData({ tokenId: "7", newTickLower: 600, newTickUpper: 1200, recipient: RECIPIENT }, instance),
+    ).rejects.toThrow(InsufficientLiquidityError);
+  });
+
+  it("rejects a new range off the pool's tick spacing", async () => {
+    await expect(
+      buildRebalanceCallData({ tokenId: "7", newTickLower: -610, newTickUpper: 600, recipient: RECIPIENT }, instance),
+    ).rejects.toThrow("newTickLower (-610) is not a multiple of tickSpacing (60).");
+  });
+});
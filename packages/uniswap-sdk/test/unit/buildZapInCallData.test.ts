@@ -0,0 +1,215 @@
+import { Pool } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import { InsufficientLiquidityError } from "@/core/errors";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { buildZapInCallData } from "@/utils/buildZapInCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+import { decodeUniversalRouterCalldata } from "@/utils/decodeUniversalRouterCalldata";
+
+const TOKEN_A = "0x0000000000000000000000000000000000000011";
+const TOKEN_B = "0x0000000000000000000000000000000000000022";
+const RECIPIENT = "0x0000000000000000000000000000000000000033";
+const POSITION_MANAGER = "0x0000000000000000000000000000000000000044";
+const ROUTER_AS_RECIPIENT = "0x0000000000000000000000000000000000000002";
+
+const poolKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+
+/** Pool at tick 0 without active liquidity */
+const createEmptyPool = () => {
+  const pool = createPoolAtTick(poolKey);
+  return new Pool(
+    pool.currency0,
+    pool.currency1,
+    pool.fee,
+    pool.tickSpacing,
+    pool.hooks,
+    pool.sqrtRatioX96.toString(),
+    "0",
+    pool.tickCurrent,
+  );
+};
+
+const instance = createMockInstance({
+  client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }) },
+  contracts: { positionManager: POSITION_MANAGER },
+  defaultDeadline: 600,
+  defaultSlippageTolerance: 50,
+});
+
+describe("buildZapInCallData", () => {
+  it("swaps part of the input and mints with the remainder in one router transaction", async () => {
+    const pool = createPoolAtTick(poolKey);
+    const inputAmount = 10n ** 18n;
+
+    const result = await buildZapInCallData(
+      { pool, inputCurrency: TOKEN_A, inputAmount, tickLower: -600, tickUpper: 600, recipient: RECIPIENT },
+      instance,
+    );
+
+    // A range centered on the price needs about equal values, less the swap's own price impact
+    expect(result.swapAmount).toBeGreaterThan((inputAmount * 45n) / 100n);
+    expect(result.swapAmount).toBeLessThan(inputAmount / 2n);
+    expect(result.minAmountOut).toBeLessThan(result.swapAmount);
+    expect(result.amount0Max).toBe(inputAmount - result.swapAmount);
+    expect(result.amount1Max).toBe(result.minAmountOut);
+    expect(result.value).toBe("0");
+
+    const { commands, deadline } = decodeUniversalRouterCalldata(result.calldata);
+    expect(deadline).toBe(1_600n);
+    expect(commands.map(({ type }) => type)).toEqual([
+      "PERMIT2_TRANSFER_FROM",
+      "V4_SWAP",
+      "SWEEP",
+      "SWEEP",
+      "V4_POSITION_MANAGER_CALL",
+    ]);
+    expect(commands[0]).toMatchObject({
+      params: { token: TOKEN_A, recipient: ROUTER_AS_RECIPIENT, amount: inputAmount },
+    });
+    expect(commands[1]).toMatchObject({
+      actions: [
+        {
+          type: "SWAP_EXACT_IN_SINGLE",
+          params: {
+            poolKey,
+            zeroForOne: true,
+            amountIn: result.swapAmount,
+            amountOutMinimum: result.minAmountOut,
+          },
+        },
+        { type: "SETTLE", params: { currency: TOKEN_A, amount: 0n, payerIsUser: false } },
+        { type: "TAKE", params: { currency: TOKEN_B, recipient: ROUTER_AS_RECIPIENT, amount: 0n } },
+      ],
+    });
+    expect(commands[2]).toMatchObject({ params: { token: TOKEN_A, recipient: POSITION_MANAGER } });
+    expect(commands[3]).toMatchObject({ params: { token: TOKEN_B, recipient: POSITION_MANAGER } });
+
+    const mintCommand = commands[4]!;
+    if (mintCommand.type !== "V4_POSITION_MANAGER_CALL") {
+      throw new Error("Expected a V4_POSITION_MANAGER_CALL command");
+    }
+    expect(decodePositionManagerCalldata(mintCommand.params.calldata).calls).toEqual([
+      {
+        functionName: "modifyLiquidities",
+        deadline: 1_600n,
+        actions: [
+          {
+            type: "MINT_POSITION",
+            params: {
+              poolKey,
+              tickLower: -600,
+              tickUpper: 600,
+              liquidity: result.liquidity,
+              amount0Max: result.amount0Max,
+              amount1Max: result.amount1Max,
+              owner: RECIPIENT,
+              hookData: "0x",
+            },
+          },
+          { type: "SETTLE", params: { currency: TOKEN_A, amount: 0n, payerIsUser: false } },
+          { type: "SETTLE", params: { currency: TOKEN_B, amount: 0n, payerIsUser: false } },
+          { type: "SWEEP", params: { currency: TOKEN_A, recipient: RECIPIENT } },
+          { type: "SWEEP", params: { currency: TOKEN_B, recipient: RECIPIENT } },
+        ],
+      },
+    ]);
+  });
+
+  it("sends native input as value and forwards it with the mint instead of sweeping it", async () => {
+    const pool = createPoolAtTick({ ...poolKey, currency0: zeroAddress });
+    const inputAmount = 10n ** 18n;
+
+    const result = await buildZapInCallData(
+      { pool, inputCurrency: zeroAddress, inputAmount, tickLower: -600, tickUpper: 600, recipient: RECIPIENT },
+      instance,
+    );
+
+    expect(result.value).toBe(inputAmount.toString());
+    const { commands } = decodeUniversalRouterCalldata(result.calldata);
+    expect(commands.map(({ type }) => type)).toEqual(["V4_SWAP", "SWEEP", "V4_POSITION_MANAGER_CALL"]);
+    expect(commands[1]).toMatchObject({ params: { token: TOKEN_B, recipient: POSITION_MANAGER } });
+  });
+
+  it("skips the swap when the range only holds the input currency", async () => {
+    const pool = createPoolAtTick(poolKey);
+
+    const result = await buildZapInCallData(
+      { pool, inputCurrency: TOKEN_A, inputAmount: 10n ** 18n, tickLower: 600, tickUpper: 1200, recipient: RECIPIENT },
+      instance,
+    );
+
+    expect(result.swapAmount).toBe(0n);
+    expect(result.amount0Max).toBe(10n ** 18n);
+    expect(result.amount1Max).toBe(0n);
+    expect(decodeUniversalRouterCalldata(result.calldata).commands.map(({ type }) => type)).toEqual([
+      "PERMIT2_TRANSFER_FROM",
+      "SWEEP",
+      "SWEEP",
+      "V4_POSITION_MANAGER_CALL",
+    ]);
+  });
+
+  it("swaps the whole input when the range only holds the other currency", async () => {
+    const pool = createPoolAtTick(poolKey);
+
+    const result = await buildZapInCallData(
+      { pool, inputCurrency: TOKEN_B, inputAmount: 10n ** 18n, tickLower: 600, tickUpper: 1200, recipient: RECIPIENT },
+      instance,
+    );
+
+    expect(result.swapAmount).toBe(10n ** 18n);
+    expect(result.amount0Max).toBe(result.minAmountOut);
+    expect(result.amount1Max).toBe(0n);
+  });
+
+  it.each([
+    { inputCurrency: TOKEN_A, tickLower: 600, tickUpper: 1200 },
+    { inputCurrency: TOKEN_B, tickLower: -1200, tickUpper: -600 },
+  ] as const)(
+    "mints a range outside the price of a pool without liquidity from the currency it holds ($tickLower, $tickUpper)",
+    async ({ inputCurrency, tickLower, tickUpper }) => {
+      const result = await buildZapInCallData(
+        { pool: createEmptyPool(), inputCurrency, inputAmount: 10n ** 18n, tickLower, tickUpper, recipient: RECIPIENT },
+        instance,
+      );
+
+      expect(result.swapAmount).toBe(0n);
+      expect(result.liquidity).toBeGreaterThan(0n);
+      expect(decodeUniversalRouterCalldata(result.calldata).commands.map(({ type }) => type)).not.toContain("V4_SWAP");
+    },
+  );
+
+  it("throws when the input must be swapped in a pool without liquidity", async () => {
+    await expect(
+      buildZapInCallData(
+        {
+          pool: createEmptyPool(),
+          inputCurrency: TOKEN_A,
+          inputAmount: 10n ** 18n,
+          tickLower: -600,
+          tickUpper: 600,
+          recipient: RECIPIENT,
+        },
+        instance,
+      ),
+    ).rejects.toThrow(InsufficientLiquidityError);
+  });
+
+  it("rejects an input currency outside the pool", async () => {
+    await expect(
+      buildZapInCallData(
+        {
+          pool: createPoolAtTick(poolKey),
+          inputCurrency: RECIPIENT,
+          inputAmount: 1n,
+          tickLower: -600,
+          tickUpper: 600,
+          recipient: RECIPIENT,
+        },
+        instance,
+      ),
+    ).rejects.toThrow(`Invalid inputCurrency: ${RECIPIENT} is not a currency of the pool.`);
+  });
+});
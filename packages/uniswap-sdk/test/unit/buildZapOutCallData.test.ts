@@ -0,0 +1,285 @@
+import { Position as V4Position } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import type { QuoteResponse } from "@/utils/getQuote";
+
+import { InsufficientLiquidityError, InvalidRouteError } from "@/core/errors";
+import { PoolWithFees } from "@/helpers/pools";
+import { PoolTickDataProvider } from "@/helpers/ticks";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { buildZapOutCallData } from "@/utils/buildZapOutCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+import { decodeUniversalRouterCalldata } from "@/utils/decodeUniversalRouterCalldata";
+import { getPoolTickData } from "@/utils/getPoolTickData";
+import { getPosition } from "@/utils/getPosition";
+import { getQuote } from "@/utils/getQuote";
+import { getUncollectedFees } from "@/utils/getUncollectedFees";
+
+vi.mock("@/utils/getPoolTickData", () => ({
+  getPoolTickData: vi.fn(),
+  getPoolWithTicks: vi.fn(),
+}));
+vi.mock("@/utils/getPosition", () => ({
+  getPosition: vi.fn(),
+}));
+vi.mock("@/utils/getUncollectedFees", () => ({
+  getUncollectedFees: vi.fn(),
+}));
+vi.mock("@/utils/getQuote", () => ({
+  getQuote: vi.fn(),
+}));
+
+const { getQuote: actualGetQuote } = await vi.importActual<typeof import("@/utils/getQuote")>("@/utils/getQuote");
+
+const mockedGetPoolTickData = vi.mocked(getPoolTickData);
+const mockedGetPosition = vi.mocked(getPosition);
+const mockedGetUncollectedFees = vi.mocked(getUncollectedFees);
+const mockedGetQuote = vi.mocked(getQuote);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000011";
+const TOKEN_B = "0x0000000000000000000000000000000000000022";
+const TOKEN_C = "0x0000000000000000000000000000000000000023";
+const RECIPIENT = "0x0000000000000000000000000000000000000033";
+const POSITION_MANAGER = "0x0000000000000000000000000000000000000044";
+const UNIVERSAL_ROUTER = "0x0000000000000000000000000000000000000055";
+const WETH = "0x0000000000000000000000000000000000000066";
+const ROUTER_AS_RECIPIENT = "0x0000000000000000000000000000000000000002";
+const CONTRACT_BALANCE = 2n ** 255n;
+
+const poolKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const pool = createPoolAtTick(poolKey);
+// Active liquidity of createPoolAtTick
+const POOL_LIQUIDITY = 10n ** 21n;
+const position = new V4Position({ pool, liquidity: (10n ** 18n).toString(), tickLower: -600, tickUpper: 600 });
+
+/** Initialized ticks of a position over [-600, 600] and of the rest of the pool's liquidity over [-6000, 6000] */
+const tickDataWith = (positionLiquidity: bigint) => ({
+  tickSpacing: 60,
+  minWord: -2,
+  maxWord: 2,
+  ticks: [
+    {
+      index: -6000,
+      liquidityGross: POOL_LIQUIDITY - positionLiquidity,
+      liquidityNet: POOL_LIQUIDITY - positionLiquidity,
+    },
+    { index: -600, liquidityGross: positionLiquidity, liquidityNet: positionLiquidity },
+    { index: 600, liquidityGross: positionLiquidity, liquidityNet: -positionLiquidity },
+    {
+      index: 6000,
+      liquidityGross: POOL_LIQUIDITY - positionLiquidity,
+      liquidityNet: positionLiquidity - POOL_LIQUIDITY,
+    },
+  ],
+});
+
+const instance = createMockInstance({
+  client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }) },
+  contracts: { positionManager: POSITION_MANAGER, universalRouter: UNIVERSAL_ROUTER, weth: WETH },
+  defaultDeadline: 600,
+  defaultSlippageTolerance: 50,
+});
+
+const positionResponse = (positionAtPool: V4Position) => ({
+  position: positionAtPool,
+  pool,
+  currency0: pool.currency0,
+  currency1: pool.currency1,
+  poolId: pool.poolId as `0x${string}`,
+  tokenId: "7",
+  currentTick: 0,
+});
+
+beforeEach(() => {
+  mockedGetPoolTickData.mockReset();
+  mockedGetPoolTickData.mockResolvedValue(tickDataWith(10n ** 18n));
+  mockedGetPosition.mockReset();
+  mockedGetPosition.mockResolvedValue(positionResponse(position));
+  mockedGetUncollectedFees.mockReset();
+  mockedGetUncollectedFees.mockResolvedValue({ amount0: 1_000n, amount1: 2_000n });
+  mockedGetQuote.mockReset();
+  mockedGetQuote.mockImplementation(
+    async (params) => ({ amountIn: BigInt(params.exactInput!.amount), amountOut: 10n ** 15n }) as QuoteResponse,
+  );
+});
+
+describe("buildZapOutCallData", () => {
+  it("decreases into the router, swaps the other currency and sweeps one currency to the recipient", async () => {
+    const result = await buildZapOutCallData(
+      { tokenId: "7", liquidityPercentage: 5_000, outputCurrency: TOKEN_A, recipient: RECIPIENT },
+      instance,
+    );
+
+    const removed = new V4Position({ pool, liquidity: (5n * 10n ** 17n).toString(), tickLower: -600, tickUpper: 600 });
+    const removed0 = BigInt(removed.amount0.quotient.toString()) + 1_000n;
+    const removed1 = BigInt(removed.amount1.quotient.toString()) + 2_000n;
+
+    expect(result.swapAmountIn).toBe(removed1);
+    expect(result.expectedAmountOut).toBe(removed0 + 10n ** 15n);
+    expect(result.minAmountOut).toBe((result.expectedAmountOut * 9_950n) / 10_000n);
+    expect(result.atomicRequired).toBe(true);
+    // The default route swaps through the position's own pool, after the decrease
+    expect(mockedGetQuote).toHaveBeenCalledWith(
+      {
+        route: [{ poolKey }],
+        exactInput: { currency: TOKEN_B, amount: removed1 },
+        simulation: "local",
+        pools: [expect.any(PoolWithFees)],
+      },
+      instance,
+    );
+    expect(mockedGetQuote.mock.calls[0]![0].pools![0]!.liquidity.toString()).toBe(
+      (POOL_LIQUIDITY - 5n * 10n ** 17n).toString(),
+    );
+
+    const [decreaseCall, swapCall] = result.calls;
+    expect(decreaseCall).toMatchObject({ to: POSITION_MANAGER, value: 0n });
+    expect(decodePositionManagerCalldata(decreaseCall.data!).calls).toMatchObject([
+      {
+        functionName: "modifyLiquidities",
+        deadline: 1_600n,
+        actions: [
+          { type: "DECREASE_LIQUIDITY", params: { tokenId: 7n, liquidity: 5n * 10n ** 17n } },
+          { type: "TAKE_PAIR", params: { currency0: TOKEN_A, currency1: TOKEN_B, recipient: UNIVERSAL_ROUTER } },
+        ],
+      },
+    ]);
+
+    expect(swapCall).toMatchObject({ to: UNIVERSAL_ROUTER, value: 0n });
+    expect(decodeUniversalRouterCalldata(swapCall.data!)).toEqual({
+      deadline: 1_600n,
+      commands: [
+        {
+          type: "V4_SWAP",
+          allowRevert: false,
+          actions: [
+            { type: "SETTLE", params: { currency: TOKEN_B, amount: CONTRACT_BALANCE, payerIsUser: false } },
+            {
+              type: "SWAP_EXACT_IN",
+              params: {
+                currencyIn: TOKEN_B,
+                path: [
+                  { intermediateCurrency: TOKEN_A, fee: 3000, tickSpacing: 60, hooks: zeroAddress, hookData: "0x" },
+                ],
+                amountIn: 0n,
+                amountOutMinimum: 0n,
+              },
+            },
+            { type: "TAKE", params: { currency: TOKEN_A, recipient: ROUTER_AS_RECIPIENT, amount: 0n } },
+          ],
+        },
+        {
+          type: "SWEEP",
+          allowRevert: false,
+          params: { token: TOKEN_A, recipient: RECIPIENT, amountMin: result.minAmountOut },
+        },
+      ],
+    });
+  });
+
+  it("quotes the swap against the pool without the liquidity of a position holding most of it", async () => {
+    const positionLiquidity = (POOL_LIQUIDITY * 9n) / 10n;
+    mockedGetPoolTickData.mockResolvedValue(tickDataWith(positionLiquidity));
+    mockedGetPosition.mockResolvedValue(
+      positionResponse(
+        new V4Position({ pool, liquidity: positionLiquidity.toString(), tickLower: -600, tickUpper: 600 }),
+      ),
+    );
+    mockedGetQuote.mockImplementation(actualGetQuote);
+
+    const result = await buildZapOutCallData(
+      { tokenId: "7", liquidityPercentage: 10_000, outputCurrency: TOKEN_A, recipient: RECIPIENT },
+      instance,
+    );
+
+    // The same swap against the pool before the decrease
+    const poolBeforeDecrease = new PoolWithFees(
+      { lpFee: 3000, protocolFee: 0 },
+      pool.currency0,
+      pool.currency1,
+      pool.fee,
+      pool.tickSpacing,
+      pool.hooks,
+      pool.sqrtRatioX96.toString(),
+      pool.liquidity.toString(),
+      pool.tickCurrent,
+      new PoolTickDataProvider(tickDataWith(positionLiquidity)),
+    );
+    const overstated = await actualGetQuote(
+      {
+        route: [{ poolKey }],
+        exactInput: { currency: TOKEN_B, amount: result.swapAmountIn },
+        simulation: "local",
+        pools: [poolBeforeDecrease],
+      },
+      instance,
+    );
+    const keptAmount = BigInt(
+      new V4Position({
+        pool,
+        liquidity: positionLiquidity.toString(),
+        tickLower: -600,
+        tickUpper: 600,
+      }).amount0.quotient.toString(),
+    );
+
+    // With a tenth of the liquidity left, the swap moves the price far more than at the current state
+    expect(result.expectedAmountOut).toBeLessThan(((keptAmount + 1_000n + overstated.amountOut) * 99n) / 100n);
+    expect(result.minAmountOut).toBeLessThan(result.expectedAmountOut);
+  });
+
+  it("rejects when a swap through its own pool has no liquidity left after the decrease", async () => {
+    mockedGetPosition.mockResolvedValueOnce(
+      positionResponse(new V4Position({ pool, liquidity: POOL_LIQUIDITY.toString(), tickLower: -600, tickUpper: 600 })),
+    );
+
+    await expect(
+      buildZapOutCallData(
+        { tokenId: "7", liquidityPercentage: 10_000, outputCurrency: TOKEN_A, recipient: RECIPIENT },
+        instance,
+      ),
+    ).rejects.toThrow(InsufficientLiquidityError);
+  });
+
+  it("quotes routes that avoid its own pool with the Quoter", async () => {
+    const route = [{ poolKey: { ...poolKey, fee: 500, tickSpacing: 10 } }] as const;
+
+    await buildZapOutCallData(
+      { tokenId: "7", liquidityPercentage: 5_000, outputCurrency: TOKEN_A, recipient: RECIPIENT, route },
+      instance,
+    );
+
+    expect(mockedGetPoolTickData).not.toHaveBeenCalled();
+    expect(mockedGetQuote).toHaveBeenCalledWith({ route, exactInput: expect.any(Object) }, instance);
+  });
+
+  it("skips the swap when nothing of the other currency is removed", async () => {
+    const outOfRange = new V4Position({ pool, liquidity: (10n ** 18n).toString(), tickLower: 600, tickUpper: 1200 });
+    mockedGetPosition.mockResolvedValueOnce(positionResponse(outOfRange));
+    mockedGetUncollectedFees.mockResolvedValueOnce({ amount0: 0n, amount1: 0n });
+
+    const result = await buildZapOutCallData(
+      { tokenId: "7", liquidityPercentage: 10_000, outputCurrency: TOKEN_A, recipient: RECIPIENT },
+      instance,
+    );
+
+    expect(result.swapAmountIn).toBe(0n);
+    expect(mockedGetQuote).not.toHaveBeenCalled();
+    expect(decodeUniversalRouterCalldata(result.calls[1].data!).commands.map(({ type }) => type)).toEqual([
+      "SWEEP",
+      "SWEEP",
+    ]);
+  });
+
+  it("rejects a route that does not end in the output currency", async () => {
+    const route = [{ poolKey: { ...poolKey, currency0: TOKEN_B, currency1: TOKEN_C } }] as const;
+
+    await expect(
+      buildZapOutCallData(
+        { tokenId: "7", liquidityPercentage: 10_000, outputCurrency: TOKEN_A, recipient: RECIPIENT, route },
+        instance,
+      ),
+    ).rejects.toThrow(InvalidRouteError);
+  });
+});
@@ -0,0 +1,100 @@
+import { Ether, Percent, Token } from "@uniswap/sdk-core";
+import { TickMath } from "@uniswap/v3-sdk";
+import { Pool, Position, V4PositionManager } from "@uniswap/v4-sdk";
+import { encodeFunctionData, erc20Abi, zeroAddress, type Hex } from "viem";
+
+import { createMockInstance } from "@/test/fixtures/instance";
+import { buildAddLiquidityCallData } from "@/utils/buildAddLiquidityCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+
+const TOKEN = "0x0000000000000000000000000000000000000011";
+const RECIPIENT = "0x0000000000000000000000000000000000000033";
+const MSG_SENDER = "0x0000000000000000000000000000000000000001";
+
+const POOL_KEY = { currency0: zeroAddress, currency1: TOKEN, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+
+const instance = createMockInstance({
+  client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }) },
+  defaultDeadline: 600,
+  defaultSlippageTolerance: 50,
+});
+
+const createPool = (liquidity: string) =>
+  new Pool(
+    Ether.onChain(1),
+    new Token(1, TOKEN, 18),
+    POOL_KEY.fee,
+    POOL_KEY.tickSpacing,
+    POOL_KEY.hooks,
+    TickMath.getSqrtRatioAtTick(0).toString(),
+    liquidity,
+    0,
+  );
+
+describe("decodePositionManagerCalldata", () => {
+  it("unpacks the multicall and mint actions built by buildAddLiquidityCallData", async () => {
+    const { calldata } = await buildAddLiquidityCallData(
+      {
+        pool: createPool("0"),
+        amount0: "1000000000000000000",
+        amount1: "1000000000000000000",
+        recipient: RECIPIENT,
+      },
+      instance,
+    );
+
+    expect(decodePositionManagerCalldata(calldata as Hex)).toEqual({
+      calls: [
+        { functionName: "initializePool", args: [POOL_KEY, 2n ** 96n] },
+        {
+          functionName: "modifyLiquidities",
+          deadline: 1_600n,
+          actions: [
+            {
+              type: "MINT_POSITION",
+              params: {
+                poolKey: POOL_KEY,
+                tickLower: -887220,
+                tickUpper: 887220,
+                liquidity: 10n ** 18n,
+                amount0Max: 1002509414234171022n,
+                amount1Max: 1002496882788171068n,
+                owner: RECIPIENT,
+                hookData: "0x",
+              },
+            },
+            { type: "SETTLE_PAIR", params: { currency0: zeroAddress, currency1: TOKEN } },
+            { type: "SWEEP", params: { currency: zeroAddress, recipient: MSG_SENDER } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("decodes decrease actions of a single modifyLiquidities call", () => {
+    const position = new Position({ pool: createPool("1000000"), tickLower: -60, tickUpper: 60, liquidity: "1000000" });
+    const { calldata } = V4PositionManager.removeCallParameters(position, {
+      tokenId: 7,
+      liquidityPercentage: new Percent(1, 2),
+      slippageTolerance: new Percent(0),
+      deadline: "1600",
+    });
+
+    const { calls } = decodePositionManagerCalldata(calldata as Hex);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      functionName: "modifyLiquidities",
+      actions: [
+        { type: "DECREASE_LIQUIDITY", params: { tokenId: 7n, liquidity: 500_000n } },
+        { type: "TAKE_PAIR", params: { currency0: zeroAddress, currency1: TOKEN, recipient: MSG_SENDER } },
+      ],
+    });
+  });
+
+  it("rejects calldata of other contracts", () => {
+    const calldata = encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [RECIPIENT, 1n] });
+
+    expect(() => decodePositionManagerCalldata(calldata)).toThrow();
+  });
+});
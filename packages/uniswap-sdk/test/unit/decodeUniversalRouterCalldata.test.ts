@@ -0,0 +1,126 @@
+import { utility } from "hookmate/abi";
+import { encodeAbiParameters, encodeFunctionData, parseAbiParameters, zeroAddress } from "viem";
+
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { buildSwapCallData } from "@/utils/buildSwapCallData";
+import { decodeUniversalRouterCalldata } from "@/utils/decodeUniversalRouterCalldata";
+
+const TOKEN_IN = "0x0000000000000000000000000000000000000011";
+const WETH = "0x0000000000000000000000000000000000000022";
+const RECIPIENT = "0x0000000000000000000000000000000000000033";
+const ROUTER_AS_RECIPIENT = "0x0000000000000000000000000000000000000002";
+
+const instance = createMockInstance({
+  client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }) },
+  contracts: { weth: WETH },
+  defaultDeadline: 600,
+});
+
+describe("decodeUniversalRouterCalldata", () => {
+  it("decodes swap calldata built by buildSwapCallData, including its v4 actions", async () => {
+    const pool = createPoolAtTick({
+      currency0: TOKEN_IN,
+      currency1: WETH,
+      fee: 3000,
+      tickSpacing: 60,
+      hooks: zeroAddress,
+    });
+
+    const { calldata } = await buildSwapCallData(
+      {
+        route: [{ pool }],
+        exactInput: { currency: TOKEN_IN, amount: 1_000n },
+        minAmountOut: 900n,
+        recipient: RECIPIENT,
+        useNativeToken: true,
+      },
+      instance,
+    );
+
+    expect(decodeUniversalRouterCalldata(calldata)).toEqual({
+      deadline: 1_600n,
+      commands: [
+        {
+          type: "V4_SWAP",
+          allowRevert: false,
+          actions: [
+            {
+              type: "SWAP_EXACT_IN",
+              params: {
+                currencyIn: TOKEN_IN,
+                path: [{ intermediateCurrency: WETH, fee: 3000, tickSpacing: 60, hooks: zeroAddress, hookData: "0x" }],
+                amountIn: 1_000n,
+                amountOutMinimum: 900n,
+              },
+            },
+            { type: "SETTLE", params: { currency: TOKEN_IN, amount: 0n, payerIsUser: true } },
+            { type: "TAKE", params: { currency: WETH, recipient: ROUTER_AS_RECIPIENT, amount: 0n } },
+          ],
+        },
+        { type: "UNWRAP_WETH", allowRevert: false, params: { recipient: RECIPIENT, amountMin: 900n } },
+      ],
+    });
+  });
+
+  it("decodes sub-plans, revert flags and unknown commands", () => {
+    const sweepInput = encodeAbiParameters(parseAbiParameters("address token, address recipient, uint256 amountMin"), [
+      TOKEN_IN,
+      RECIPIENT,
+      5n,
+    ]);
+    const subPlanInput = encodeAbiParameters(parseAbiParameters("bytes commands, bytes[] inputs"), [
+      "0x04",
+      [sweepInput],
+    ]);
+    const calldata = encodeFunctionData({
+      abi: utility.UniversalRouterArtifact.abi,
+      functionName: "execute",
+      args: ["0xa13f", [subPlanInput, "0x1234"]],
+    });
+
+    expect(decodeUniversalRouterCalldata(calldata)).toEqual({
+      deadline: undefined,
+      commands: [
+        {
+          type: "EXECUTE_SUB_PLAN",
+          allowRevert: true,
+          commands: [
+            { type: "SWEEP", allowRevert: false, params: { token: TOKEN_IN, recipient: RECIPIENT, amountMin: 5n } },
+          ],
+        },
+        { type: "UNKNOWN", allowRevert: false, commandType: 0x3f, input: "0x1234" },
+      ],
+    });
+  });
+
+  it("keeps command types above 0x3f intact instead of aliasing them onto lower commands", () => {
+    const payPortionInput = encodeAbiParameters(
+      parseAbiParameters("address token, address recipient, uint256 portion"),
+      [TOKEN_IN, RECIPIENT, 10n ** 16n],
+    );
+    const calldata = encodeFunctionData({
+      abi: utility.UniversalRouterArtifact.abi,
+      functionName: "execute",
+      args: ["0x0740", [payPortionInput, "0x1234"]],
+    });
+
+    expect(decodeUniversalRouterCalldata(calldata)).toEqual({
+      deadline: undefined,
+      commands: [
+        {
+          type: "PAY_PORTION_FULL_PRECISION",
+          allowRevert: false,
+          params: { token: TOKEN_IN, recipient: RECIPIENT, portion: 10n ** 16n },
+        },
+        { type: "UNKNOWN", allowRevert: false, commandType: 0x40, input: "0x1234" },
+      ],
+    });
+  });
+
+  it("rejects calldata of other functions", () => {
+    const calldata = encodeFunctionData({ abi: utility.UniversalRouterArtifact.abi, functionName: "msgSender" });
+
+    expect(() => decodeUniversalRouterCalldata(calldata)).toThrow("expected execute, received msgSender");
+  });
+});
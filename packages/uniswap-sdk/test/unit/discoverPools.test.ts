@@ -0,0 +1,137 @@
+import { DYNAMIC_FEE_FLAG, type PoolKey } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { discoverPools } from "@/utils/discoverPools";
+
+const TOKEN0 = "0x0000000000000000000000000000000000000001";
+const TOKEN1 = "0x0000000000000000000000000000000000000002";
+const HOOKS = "0x0000000000000000000000000000000000002080";
+const POOL_MANAGER = "0x0000000000000000000000000000000000000007";
+
+const STATIC_KEY = { currency0: TOKEN0, currency1: TOKEN1, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const HOOKED_KEY = { currency0: TOKEN0, currency1: TOKEN1, fee: DYNAMIC_FEE_FLAG, tickSpacing: 10, hooks: HOOKS };
+
+function createLog(poolKey: PoolKey, blockNumber: bigint) {
+  return {
+    args: {
+      id: getPoolIdFromPoolKey(poolKey),
+      ...poolKey,
+      sqrtPriceX96: 2n ** 96n,
+      tick: 0,
+    },
+    blockNumber,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+  };
+}
+
+function createInstance() {
+  const getLogs = vi.fn(async ({ fromBlock }: { fromBlock: bigint }) =>
+    fromBlock === 100n ? [createLog(STATIC_KEY, 150n)] : fromBlock === 300n ? [createLog(HOOKED_KEY, 320n)] : [],
+  );
+  const multicall = vi.fn(async ({ contracts }: { contracts: { functionName: string }[] }) =>
+    contracts[0]!.functionName === "getSlot0"
+      ? [
+          [2n ** 96n, 5, 0, 3000],
+          [2n ** 96n, -7, 0, 500],
+        ]
+      : [1_000n, 0n],
+  );
+
+  const instance = createMockInstance({
+    client: { getBlockNumber: vi.fn().mockResolvedValue(350n), getLogs, multicall },
+    contracts: { poolManager: POOL_MANAGER, stateView: "0x0000000000000000000000000000000000000008" },
+  });
+
+  return { instance, getLogs, multicall };
+}
+
+describe("discoverPools", () => {
+  it("scans Initialize logs of the sorted pair in chunks and decodes every pool key", async () => {
+    const { instance, getLogs, multicall } = createInstance();
+
+    const pools = await discoverPools(
+      { currencyA: TOKEN1, currencyB: TOKEN0, fromBlock: 100n, blockRange: 100n },
+      instance,
+    );
+
+    expect(getLogs.mock.calls.map(([{ fromBlock, toBlock }]: any) => [fromBlock, toBlock])).toEqual([
+      [100n, 199n],
+      [200n, 299n],
+      [300n, 350n],
+    ]);
+    expect(getLogs.mock.calls[0]![0]).toMatchObject({
+      address: POOL_MANAGER,
+      args: { currency0: TOKEN0, currency1: TOKEN1 },
+    });
+    expect(pools).toEqual([
+      {
+        poolKey: STATIC_KEY,
+        poolId: getPoolIdFromPoolKey(STATIC_KEY),
+        initialSqrtPriceX96: 2n ** 96n,
+        initialTick: 0,
+        blockNumber: 150n,
+        transactionHash: expect.any(String),
+      },
+      expect.objectContaining({ poolKey: HOOKED_KEY, poolId: getPoolIdFromPoolKey(HOOKED_KEY), blockNumber: 320n }),
+    ]);
+    expect(multicall).not.toHaveBeenCalled();
+  });
+
+  it("reads slot0 and liquidity at toBlock with includeState", async () => {
+    const { instance, multicall } = createInstance();
+
+    const pools = await discoverPools(
+      { currencyA: TOKEN0, currencyB: TOKEN1, fromBlock: 100n, toBlock: 340n, blockRange: 100n, includeState: true },
+      instance,
+    );
+
+    expect(multicall).toHaveBeenCalledTimes(2);
+    expect(multicall.mock.calls[0]![0]).toMatchObject({ blockNumber: 340n });
+    expect(pools.map(({ state }) => state)).toEqual([
+      { sqrtPriceX96: 2n ** 96n, tick: 5, protocolFee: 0, lpFee: 3000, liquidity: 1_000n },
+      { sqrtPriceX96: 2n ** 96n, tick: -7, protocolFee: 0, lpFee: 500, liquidity: 0n },
+    ]);
+  });
+
+  it("scans from the PoolManager deployment block in 10,000-block chunks by default", async () => {
+    const { instance, getLogs } = createInstance();
+    const mainnetInstance = {
+      ...instance,
+      chainId: 1,
+      contracts: { ...instance.contracts, poolManager: "0x000000000004444c5dc75cB358380D2e3dE08A90" },
+    } satisfies UniswapSDKInstance;
+
+    await discoverPools({ currencyA: TOKEN0, currencyB: TOKEN1, toBlock: 21_703_328n }, mainnetInstance);
+
+    expect(getLogs.mock.calls.map(([{ fromBlock, toBlock }]: any) => [fromBlock, toBlock])).toEqual([
+      [21_688_329n, 21_698_328n],
+      [21_698_329n, 21_703_328n],
+    ]);
+  });
+
+  it("scans from block 0 with PoolManagers other than the canonical deployment", async () => {
+    const { instance, getLogs } = createInstance();
+
+    await discoverPools({ currencyA: TOKEN0, currencyB: TOKEN1 }, { ...instance, chainId: 1 });
+
+    expect(getLogs.mock.calls.map(([{ fromBlock, toBlock }]: any) => [fromBlock, toBlock])).toEqual([[0n, 350n]]);
+  });
+
+  it("rejects identical currencies and invalid block ranges", async () => {
+    const { instance } = createInstance();
+
+    await expect(discoverPools({ currencyA: TOKEN0, currencyB: TOKEN0 }, instance)).rejects.toThrow(
+      "Invalid currency pair",
+    );
+    await expect(discoverPools({ currencyA: TOKEN0, currencyB: TOKEN1, fromBlock: 400n }, instance)).rejects.toThrow(
+      "Invalid block range: fromBlock 400 is after toBlock 350.",
+    );
+    await expect(discoverPools({ currencyA: TOKEN0, currencyB: TOKEN1, blockRange: 0n }, instance)).rejects.toThrow(
+      "Invalid blockRange: 0.",
+    );
+  });
+});
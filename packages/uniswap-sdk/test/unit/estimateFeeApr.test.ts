@@ -0,0 +1,145 @@
+import { zeroAddress } from "viem";
+
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { estimateFeeApr } from "@/utils/estimateFeeApr";
+import { getPool } from "@/utils/getPool";
+
+vi.mock("@/utils/getPool", () => ({
+  getPool: vi.fn(),
+}));
+
+const mockedGetPool = vi.mocked(getPool);
+
+const POOL_KEY = {
+  currency0: "0x0000000000000000000000000000000000000001",
+  currency1: "0x0000000000000000000000000000000000000002",
+  fee: 3000,
+  tickSpacing: 60,
+  hooks: zeroAddress,
+};
+const Q128 = 2n ** 128n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const ONE_DAY = 86_400n;
+
+interface Sample {
+  tick: number;
+  global: readonly [bigint, bigint];
+  /** liquidityGross and feeGrowthOutside of tickLower and tickUpper */
+  lower: readonly [bigint, bigint, bigint];
+  upper: readonly [bigint, bigint, bigint];
+}
+
+/** StateView reads at the start (block 900) and end (block 1000) of a one-day window. */
+function createInstance(startSample: Sample, endSample: Sample) {
+  const samples = new Map([
+    [900n, { ...startSample, timestamp: 1_000_000n }],
+    [1000n, { ...endSample, timestamp: 1_000_000n + ONE_DAY }],
+  ]);
+
+  const multicall = vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => {
+    const { global, tick, lower, upper } = samples.get(blockNumber)!;
+    return [global, [2n ** 96n, tick, 0, 3000], [lower[0], 0n, lower[1], lower[2]], [upper[0], 0n, upper[1], upper[2]]];
+  });
+
+  return createMockInstance({
+    client: {
+      getBlockNumber: vi.fn().mockResolvedValue(1000n),
+      getBlock: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({
+        timestamp: samples.get(blockNumber)!.timestamp,
+      })),
+      multicall,
+    },
+    contracts: { stateView: "0x0000000000000000000000000000000000000008" },
+  });
+}
+
+beforeEach(() => {
+  mockedGetPool.mockReset();
+  mockedGetPool.mockImplementation(async (poolKey) => createPoolAtTick(poolKey));
+});
+
+describe("estimateFeeApr", () => {
+  it("projects fee growth inside the range onto the proposed position", async () => {
+    // 0.02% pool-wide growth per unit of liquidity per day, half of it accrued below tickLower.
+    // The lower tick's feeGrowthOutside of token0 overflows during the window.
+    const globalGrowth = Q128 / 5_000n;
+    const belowGrowth = Q128 / 10_000n;
+    const instance = createInstance(
+      { tick: 0, global: [10n, 20n], lower: [1n, MAX_UINT256, 5n], upper: [1n, 3n, 3n] },
+      {
+        tick: 0,
+        global: [10n + globalGrowth, 20n + globalGrowth],
+        lower: [1n, belowGrowth - 1n, 5n + belowGrowth],
+        upper: [1n, 3n, 3n],
+      },
+    );
+
+    const estimate = await estimateFeeApr(
+      { poolKey: POOL_KEY, tickLower: -600, tickUpper: 600, amount0: 10n ** 18n, lookbackBlocks: 100n },
+      instance,
+    );
+
+    expect(estimate.fromBlock).toBe(900n);
+    expect(estimate.toBlock).toBe(1000n);
+    expect(estimate.elapsedSeconds).toBe(86_400);
+    expect(estimate.fees0).toBe(((globalGrowth - belowGrowth) * estimate.liquidity) / Q128);
+    expect(estimate.fees1).toBe(estimate.fees0);
+    expect(estimate.inRangeShare.toFixed(0)).toBe("50");
+
+    // At tick 0 the symmetric range holds about 1e18 of each token, so a day's fees0 per 1e18 is the daily yield
+    const dailyYieldPercent = (Number(estimate.fees0) / 1e18) * 100;
+    expect(Number(estimate.apr.toFixed(2))).toBeCloseTo(dailyYieldPercent * 365, 0);
+  });
+
+  it("splits the growth of a window in which the price leaves a range of uninitialized ticks", async () => {
+    const globalGrowth = Q128 / 5_000n;
+    const uninitialized = [0n, 0n, 0n] as const;
+    // Uninitialized ticks report a zero feeGrowthOutside, so StateView's inside growth drops from global to 0
+    const instance = createInstance(
+      { tick: 0, global: [10n, 20n], lower: uninitialized, upper: uninitialized },
+      { tick: 900, global: [10n + globalGrowth, 20n + globalGrowth], lower: uninitialized, upper: uninitialized },
+    );
+
+    const estimate = await estimateFeeApr(
+      { poolKey: POOL_KEY, tickLower: -600, tickUpper: 600, amount0: 10n ** 18n, lookbackBlocks: 100n },
+      instance,
+    );
+
+    expect(estimate.fees0).toBe(((globalGrowth / 2n) * estimate.liquidity) / Q128);
+    expect(estimate.fees1).toBe(estimate.fees0);
+    expect(estimate.inRangeShare.toFixed(0)).toBe("50");
+  });
+
+  it("reports no fees for a range of uninitialized ticks the price stayed outside of", async () => {
+    const globalGrowth = Q128 / 5_000n;
+    const uninitialized = [0n, 0n, 0n] as const;
+    const instance = createInstance(
+      { tick: -900, global: [10n, 20n], lower: uninitialized, upper: uninitialized },
+      { tick: -700, global: [10n + globalGrowth, 20n + globalGrowth], lower: uninitialized, upper: uninitialized },
+    );
+
+    const estimate = await estimateFeeApr(
+      { poolKey: POOL_KEY, tickLower: -600, tickUpper: 600, amount0: 10n ** 18n, lookbackBlocks: 100n },
+      instance,
+    );
+
+    expect(estimate.fees0).toBe(0n);
+    expect(estimate.fees1).toBe(0n);
+    expect(estimate.inRangeShare.toFixed(0)).toBe("0");
+  });
+
+  it("rejects a missing amount and an invalid window", async () => {
+    const sample = { tick: 0, global: [0n, 0n], lower: [0n, 0n, 0n], upper: [0n, 0n, 0n] } as const;
+    const instance = createInstance(sample, sample);
+    const args = { poolKey: POOL_KEY, tickLower: -600, tickUpper: 600 };
+
+    await expect(estimateFeeApr(args, instance)).rejects.toThrow("at least one of amount0 or amount1");
+    await expect(estimateFeeApr({ ...args, amount1: 1n, lookbackBlocks: 0n }, instance)).rejects.toThrow(
+      "Invalid lookbackBlocks",
+    );
+    await expect(estimateFeeApr({ ...args, amount1: 1n, lookbackBlocks: 2000n }, instance)).rejects.toThrow(
+      "Exceeds the chain height",
+    );
+  });
+});
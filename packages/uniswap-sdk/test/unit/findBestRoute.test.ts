@@ -0,0 +1,183 @@
+import type { PoolKey } from "@uniswap/v4-sdk";
+
+import { zeroAddress } from "viem";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick, getFixtureTokens } from "@/test/fixtures/pools";
+import { findBestRoute } from "@/utils/findBestRoute";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+vi.mocked(getTokens).mockImplementation(getFixtureTokens);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000001";
+const TOKEN_B = "0x0000000000000000000000000000000000000003";
+const BASE = "0x0000000000000000000000000000000000000002";
+
+const poolKey = (currency0: string, currency1: string, fee: number, tickSpacing: number): PoolKey => ({
+  currency0,
+  currency1,
+  fee,
+  tickSpacing,
+  hooks: zeroAddress,
+});
+
+const DIRECT_POOL = poolKey(TOKEN_A, TOKEN_B, 3000, 60);
+const FIRST_LEG_POOL = poolKey(TOKEN_A, BASE, 500, 10);
+const SECOND_LEG_POOL = poolKey(BASE, TOKEN_B, 500, 10);
+
+function createInstance(livePools: PoolKey[], quoteByHops: Record<number, bigint>) {
+  const liveIds = new Set(livePools.map((pool) => getPoolIdFromPoolKey(pool)));
+
+  const quotedPaths: unknown[] = [];
+  const multicall = vi.fn().mockImplementation(async ({ contracts }) =>
+    contracts.map(({ functionName, args }: { functionName: string; args: [unknown] }) => {
+      if (functionName === "quoteExactInput" || functionName === "quoteExactOutput") {
+        const { path } = args[0] as { path: unknown[] };
+        quotedPaths.push(path);
+        return { status: "success", result: [quoteByHops[path.length] ?? 0n, BigInt(path.length) * 100_000n] };
+      }
+
+      const live = liveIds.has(args[0] as `0x${string}`);
+      if (functionName === "getSlot0") {
+        return { status: "success", result: [live ? 79228162514264337593543950336n : 0n, 0, 0, 3000] };
+      }
+      return { status: "success", result: live ? 1_000_000n : 0n };
+    }),
+  );
+
+  return {
+    multicall,
+    quotedPaths,
+    instance: createMockInstance({
+      client: { multicall },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        stateView: "0x0000000000000000000000000000000000000008",
+        weth: BASE,
+      },
+    }),
+  };
+}
+
+describe("findBestRoute", () => {
+  it("quotes only live candidate pools and ranks exact-input routes by output", async () => {
+    const { instance, multicall, quotedPaths } = createInstance([DIRECT_POOL, FIRST_LEG_POOL, SECOND_LEG_POOL], {
+      1: 100n,
+      2: 150n,
+    });
+
+    const routes = await findBestRoute(
+      {
+        currencyIn: TOKEN_A,
+        currencyOut: TOKEN_B,
+        amount: 1000n,
+        tradeType: "exactInput",
+        baseCurrencies: [BASE],
+        feeTiers: [
+          { fee: 500, tickSpacing: 10 },
+          { fee: 3000, tickSpacing: 60 },
+        ],
+      },
+      instance,
+    );
+
+    // one multicall for pool state, one for every route quote
+    expect(multicall).toHaveBeenCalledTimes(2);
+    expect(quotedPaths).toHaveLength(2);
+    expect(routes.map(({ route }) => route.map(({ poolKey }) => poolKey))).toEqual([
+      [FIRST_LEG_POOL, SECOND_LEG_POOL],
+      [DIRECT_POOL],
+    ]);
+    expect(routes[0]!.quote.amountOut).toBe(150n);
+  });
+
+  it("ranks exact-output routes by lowest input", async () => {
+    const { instance } = createInstance([DIRECT_POOL, FIRST_LEG_POOL, SECOND_LEG_POOL], { 1: 900n, 2: 1100n });
+
+    const routes = await findBestRoute(
+      {
+        currencyIn: TOKEN_A,
+        currencyOut: TOKEN_B,
+        amount: "500",
+        tradeType: "exactOutput",
+        baseCurrencies: [BASE],
+        feeTiers: [
+          { fee: 500, tickSpacing: 10 },
+          { fee: 3000, tickSpacing: 60 },
+        ],
+      },
+      instance,
+    );
+
+    expect(routes.map(({ quote }) => quote.amountIn)).toEqual([900n, 1100n]);
+    expect(routes[0]!.route).toEqual([{ poolKey: DIRECT_POOL }]);
+  });
+
+  it("ranks exact-input routes by output net of gas when gas pricing is provided", async () => {
+    const { instance } = createInstance([DIRECT_POOL, FIRST_LEG_POOL, SECOND_LEG_POOL], {
+      1: 1_000_000n,
+      2: 1_100_000n,
+    });
+    // 1 ETH = 1 TOKEN_B: each hop costs 100_000 gas * 2 wei = 200_000 TOKEN_B units
+    const pricePool = createPoolAtTick({
+      currency0: zeroAddress,
+      currency1: TOKEN_B,
+      fee: 500,
+      tickSpacing: 10,
+      hooks: zeroAddress,
+    });
+
+    const routes = await findBestRoute(
+      {
+        currencyIn: TOKEN_A,
+        currencyOut: TOKEN_B,
+        amount: 1000n,
+        tradeType: "exactInput",
+        baseCurrencies: [BASE],
+        feeTiers: [
+          { fee: 500, tickSpacing: 10 },
+          { fee: 3000, tickSpacing: 60 },
+        ],
+        gasPricing: { pricePool, gasPrice: 2n },
+      },
+      instance,
+    );
+
+    expect(routes.map(({ quote }) => [quote.amountOut, quote.netAmountOut])).toEqual([
+      [1_000_000n, 800_000n],
+      [1_100_000n, 700_000n],
+    ]);
+  });
+
+  it("respects maxHops when enumerating paths", async () => {
+    const { instance, multicall } = createInstance([FIRST_LEG_POOL, SECOND_LEG_POOL], { 2: 150n });
+
+    const routes = await findBestRoute(
+      {
+        currencyIn: TOKEN_A,
+        currencyOut: TOKEN_B,
+        amount: 1000n,
+        tradeType: "exactInput",
+        baseCurrencies: [BASE],
+        maxHops: 1,
+      },
+      instance,
+    );
+
+    expect(routes).toEqual([]);
+    expect(multicall).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects identical input and output currencies", async () => {
+    const { instance } = createInstance([], {});
+
+    await expect(
+      findBestRoute({ currencyIn: TOKEN_A, currencyOut: TOKEN_A, amount: 1n, tradeType: "exactInput" }, instance),
+    ).rejects.toThrow("currencyIn and currencyOut must differ");
+  });
+});
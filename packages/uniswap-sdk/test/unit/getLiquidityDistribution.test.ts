@@ -0,0 +1,106 @@
+import { Position } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { getLiquidityDistribution } from "@/utils/getLiquidityDistribution";
+import { getPool } from "@/utils/getPool";
+import { getPoolTickData } from "@/utils/getPoolTickData";
+
+vi.mock("@/utils/getPool", () => ({
+  getPool: vi.fn(),
+}));
+vi.mock("@/utils/getPoolTickData", () => ({
+  getPoolTickData: vi.fn(),
+}));
+
+const mockedGetPool = vi.mocked(getPool);
+const mockedGetPoolTickData = vi.mocked(getPoolTickData);
+
+const POOL_KEY = {
+  currency0: "0x0000000000000000000000000000000000000001",
+  currency1: "0x0000000000000000000000000000000000000002",
+  fee: 3000,
+  tickSpacing: 60,
+  hooks: zeroAddress,
+};
+// Active liquidity of createPoolAtTick
+const LIQUIDITY = 10n ** 21n;
+const instance = createMockInstance({});
+
+/** A single position of LIQUIDITY between `tickLower` and `tickUpper` */
+function mockTicks(tickLower: number, tickUpper: number) {
+  mockedGetPoolTickData.mockResolvedValue({
+    tickSpacing: 60,
+    minWord: -1,
+    maxWord: 0,
+    ticks: [
+      { index: tickLower, liquidityGross: LIQUIDITY, liquidityNet: LIQUIDITY },
+      { index: tickUpper, liquidityGross: LIQUIDITY, liquidityNet: -LIQUIDITY },
+    ],
+  });
+}
+
+beforeEach(() => {
+  mockedGetPool.mockReset();
+  mockedGetPool.mockImplementation(async (poolKey) => createPoolAtTick(poolKey));
+  mockedGetPoolTickData.mockReset();
+});
+
+describe("getLiquidityDistribution", () => {
+  it("rebuilds the active liquidity and locked amounts of every bucket", async () => {
+    mockTicks(-120, 120);
+
+    const { buckets } = await getLiquidityDistribution(POOL_KEY, instance, { tickRange: 240 });
+
+    expect(mockedGetPoolTickData).toHaveBeenCalledWith({ poolKey: POOL_KEY, tickCurrent: 0, wordRadius: 1 }, instance);
+    expect(buckets.map(({ tickLower, liquidity }) => [tickLower, liquidity])).toEqual([
+      [-240, 0n],
+      [-180, 0n],
+      [-120, LIQUIDITY],
+      [-60, LIQUIDITY],
+      [0, LIQUIDITY],
+      [60, LIQUIDITY],
+      [120, 0n],
+      [180, 0n],
+      [240, 0n],
+    ]);
+    expect(buckets.at(-1)!.tickUpper).toBe(300);
+    expect(buckets[3]!.amount0).toBe(0n);
+    expect(buckets[4]!.amount1).toBe(0n);
+    expect(buckets[4]!.priceLower.toFixed(2)).toBe("1.00");
+
+    const position = new Position({
+      pool: createPoolAtTick(POOL_KEY),
+      liquidity: LIQUIDITY.toString(),
+      tickLower: -120,
+      tickUpper: 120,
+    });
+    const total0 = buckets.reduce((sum, { amount0 }) => sum + amount0, 0n);
+    const total1 = buckets.reduce((sum, { amount1 }) => sum + amount1, 0n);
+    // Each bucket rounds down on its own
+    expect(BigInt(position.amount0.quotient.toString()) - total0).toBeLessThanOrEqual(2n);
+    expect(BigInt(position.amount1.quotient.toString()) - total1).toBeLessThanOrEqual(2n);
+  });
+
+  it("splits buckets wider than the tick spacing at initialized ticks", async () => {
+    mockTicks(-60, 60);
+
+    const { buckets } = await getLiquidityDistribution(POOL_KEY, instance, { tickRange: 120, bucketSize: 120 });
+
+    expect(buckets.map(({ tickLower, tickUpper, liquidity }) => [tickLower, tickUpper, liquidity])).toEqual([
+      [-120, 0, 0n],
+      [0, 120, LIQUIDITY],
+      [120, 240, 0n],
+    ]);
+    // Only [-60, 0) of the first bucket holds liquidity
+    expect(buckets[0]!.amount1).toBeGreaterThan(0n);
+    expect(buckets[1]!.amount0).toBeGreaterThan(0n);
+  });
+
+  it("rejects buckets that are not a multiple of the tick spacing", async () => {
+    await expect(getLiquidityDistribution(POOL_KEY, instance, { bucketSize: 90 })).rejects.toThrow(
+      "Invalid bucketSize",
+    );
+  });
+});
@@ -5,6 +5,8 @@ import { zeroAddress } from "viem";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
 
+import { PoolNotFoundError } from "@/core/errors";
+import { getPoolIdFromPoolKey, PoolWithFees } from "@/helpers/pools";
 import { getPool } from "@/utils/getPool";
 import { getTokens } from "@/utils/getTokens";
 
@@ -42,4 +44,65 @@ describe("getPool", () => {
 
     expect(pool.liquidity.toString()).toBe("0");
   });
+
+  it("attaches the lpFee and protocolFee from slot0, the hook-set fee for dynamic-fee pools", async () => {
+    mockedGetTokens.mockResolvedValue([
+      new Token(1, "0x0000000000000000000000000000000000000001", 18, "TK0", "Token 0"),
+      new Token(1, "0x0000000000000000000000000000000000000002", 18, "TK1", "Token 1"),
+    ]);
+
+    const instance = {
+      client: {
+        multicall: vi
+          .fn()
+          .mockResolvedValue([[79228162514264337593543950336n, 0, (200 << 12) | 100, 2500], 10n ** 18n]),
+      },
+      contracts: {
+        stateView: "0x0000000000000000000000000000000000000003",
+      },
+    } as unknown as UniswapSDKInstance;
+
+    const pool = await getPool(
+      {
+        currency0: "0x0000000000000000000000000000000000000001",
+        currency1: "0x0000000000000000000000000000000000000002",
+        fee: 0x800000,
+        tickSpacing: 60,
+        hooks: "0x0000000000000000000000000000000000000080",
+      },
+      instance,
+    );
+
+    expect(pool).toBeInstanceOf(PoolWithFees);
+    expect(pool).toMatchObject({ fee: 0x800000, lpFee: 2500, protocolFee: (200 << 12) | 100 });
+  });
+
+  it("throws PoolNotFoundError for pools that are not initialized", async () => {
+    mockedGetTokens.mockResolvedValue([
+      new Token(1, "0x0000000000000000000000000000000000000001", 18, "TK0", "Token 0"),
+      new Token(1, "0x0000000000000000000000000000000000000002", 18, "TK1", "Token 1"),
+    ]);
+
+    const instance = {
+      client: {
+        multicall: vi.fn().mockResolvedValue([[0n, 0, 0, 0], 0n]),
+      },
+      contracts: {
+        stateView: "0x0000000000000000000000000000000000000003",
+      },
+    } as unknown as UniswapSDKInstance;
+
+    const poolKey = {
+      currency0: "0x0000000000000000000000000000000000000001",
+      currency1: "0x0000000000000000000000000000000000000002",
+      fee: 3000,
+      tickSpacing: 60,
+      hooks: zeroAddress,
+    } satisfies PoolKey;
+
+    const error = await getPool(poolKey, instance).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(PoolNotFoundError);
+    expect(error).toMatchObject({ message: "Pool does not exist", poolKey, poolId: getPoolIdFromPoolKey(poolKey) });
+  });
 });
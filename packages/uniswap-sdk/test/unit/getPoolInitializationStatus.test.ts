@@ -0,0 +1,55 @@
+import { zeroAddress } from "viem";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { getPoolInitializationStatus } from "@/utils/getPoolInitializationStatus";
+
+const poolKey = {
+  currency0: zeroAddress,
+  currency1: "0x0000000000000000000000000000000000000011",
+  fee: 3000,
+  tickSpacing: 60,
+  hooks: zeroAddress,
+};
+
+function createInstance(slot0: readonly [bigint, number, number, number], liquidity: bigint) {
+  const multicall = vi.fn().mockResolvedValue([slot0, liquidity]);
+  const instance = createMockInstance({
+    client: { multicall },
+    contracts: { stateView: "0x0000000000000000000000000000000000000066" },
+  });
+
+  return { instance, multicall };
+}
+
+describe("getPoolInitializationStatus", () => {
+  it("reports an uninitialized pool without throwing", async () => {
+    const { instance, multicall } = createInstance([0n, 0, 0, 0], 0n);
+
+    expect(await getPoolInitializationStatus(poolKey, instance)).toEqual({
+      status: "uninitialized",
+      poolId: getPoolIdFromPoolKey(poolKey),
+      sqrtPriceX96: 0n,
+      tick: 0,
+      liquidity: 0n,
+    });
+    expect(multicall.mock.calls[0]![0].contracts.map(({ args }: { args: unknown[] }) => args)).toEqual([
+      [getPoolIdFromPoolKey(poolKey)],
+      [getPoolIdFromPoolKey(poolKey)],
+    ]);
+  });
+
+  it("tells an initialized pool without liquidity apart from an active one", async () => {
+    const empty = createInstance([2n ** 96n, 0, 0, 3000], 0n).instance;
+    const active = createInstance([2n ** 96n, 0, 0, 3000], 10n ** 18n).instance;
+
+    expect(await getPoolInitializationStatus(poolKey, empty)).toMatchObject({
+      status: "empty",
+      sqrtPriceX96: 2n ** 96n,
+    });
+    expect(await getPoolInitializationStatus(poolKey, active)).toMatchObject({
+      status: "active",
+      liquidity: 10n ** 18n,
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { zeroAddress } from "viem";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { getPoolTickData } from "@/utils/getPoolTickData";
+
+const POOL_KEY = {
+  currency0: zeroAddress,
+  currency1: "0x0000000000000000000000000000000000000002",
+  fee: 3000,
+  tickSpacing: 60,
+  hooks: zeroAddress,
+};
+
+describe("getPoolTickData", () => {
+  it("loads bitmap words around the current tick and the liquidity of every initialized tick", async () => {
+    const poolId = getPoolIdFromPoolKey(POOL_KEY);
+    const multicall = vi
+      .fn()
+      // words -3..1 around tick -100 (word -1); ticks -15360 (word -1, bit 0) and 60 (word 0, bit 1)
+      .mockResolvedValueOnce([0n, 0n, 1n, 0b10n, 0n])
+      .mockResolvedValueOnce([
+        [100n, 100n],
+        [100n, -100n],
+      ]);
+    const instance = createMockInstance({
+      client: { multicall },
+      contracts: { stateView: "0x0000000000000000000000000000000000000008" },
+    });
+
+    const tickData = await getPoolTickData({ poolKey: POOL_KEY, tickCurrent: -100 }, instance);
+
+    expect(multicall.mock.calls[0]![0].contracts.map(({ args }: { args: unknown[] }) => args)).toEqual([
+      [poolId, -3],
+      [poolId, -2],
+      [poolId, -1],
+      [poolId, 0],
+      [poolId, 1],
+    ]);
+    expect(multicall.mock.calls[1]![0].contracts.map(({ args }: { args: unknown[] }) => args)).toEqual([
+      [poolId, -15_360],
+      [poolId, 60],
+    ]);
+    expect(tickData).toEqual({
+      tickSpacing: 60,
+      minWord: -3,
+      maxWord: 1,
+      ticks: [
+        { index: -15_360, liquidityGross: 100n, liquidityNet: 100n },
+        { index: 60, liquidityGross: 100n, liquidityNet: -100n },
+      ],
+    });
+  });
+
+  it("skips the tick liquidity read when no tick is initialized", async () => {
+    const multicall = vi.fn().mockResolvedValueOnce([0n]);
+    const instance = createMockInstance({
+      client: { multicall },
+      contracts: { stateView: "0x0000000000000000000000000000000000000008" },
+    });
+
+    const tickData = await getPoolTickData({ poolKey: POOL_KEY, tickCurrent: 0, wordRadius: 0 }, instance);
+
+    expect(multicall).toHaveBeenCalledTimes(1);
+    expect(tickData).toEqual({ tickSpacing: 60, minWord: 0, maxWord: 0, ticks: [] });
+  });
+});
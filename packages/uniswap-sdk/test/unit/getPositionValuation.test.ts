@@ -0,0 +1,138 @@
+import { TickMath } from "@uniswap/v3-sdk";
+import { Position as V4Position } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import { InvalidRouteError, PoolNotFoundError } from "@/core/errors";
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { getPool } from "@/utils/getPool";
+import { getPosition } from "@/utils/getPosition";
+import { getPositionValuation } from "@/utils/getPositionValuation";
+import { getUncollectedFees } from "@/utils/getUncollectedFees";
+
+vi.mock("@/utils/getPool", () => ({
+  getPool: vi.fn(),
+}));
+vi.mock("@/utils/getPosition", () => ({
+  getPosition: vi.fn(),
+}));
+vi.mock("@/utils/getUncollectedFees", () => ({
+  getUncollectedFees: vi.fn(),
+}));
+
+const mockedGetPool = vi.mocked(getPool);
+const mockedGetPosition = vi.mocked(getPosition);
+const mockedGetUncollectedFees = vi.mocked(getUncollectedFees);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000001";
+const TOKEN_B = "0x0000000000000000000000000000000000000002";
+const TOKEN_C = "0x0000000000000000000000000000000000000003";
+
+const A_B_KEY = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+// 1.0001^-6932 ≈ 0.5: TOKEN_B is worth ~0.5 TOKEN_C.
+const B_C_KEY = { currency0: TOKEN_B, currency1: TOKEN_C, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+
+const instance = createMockInstance({
+  client: { readContract: vi.fn() },
+  contracts: { stateView: "0x0000000000000000000000000000000000000008" },
+});
+
+beforeEach(() => {
+  const pool = createPoolAtTick(A_B_KEY);
+  const position = new V4Position({ pool, liquidity: (10n ** 18n).toString(), tickLower: -600, tickUpper: 600 });
+
+  mockedGetPosition.mockReset();
+  mockedGetPosition.mockResolvedValue({
+    position,
+    pool,
+    currency0: pool.currency0,
+    currency1: pool.currency1,
+    poolId: pool.poolId as `0x${string}`,
+    tokenId: "1",
+    currentTick: 0,
+  });
+  mockedGetUncollectedFees.mockReset();
+  mockedGetUncollectedFees.mockResolvedValue({ amount0: 10n ** 16n, amount1: 3n * 10n ** 16n });
+  mockedGetPool.mockReset();
+  mockedGetPool.mockImplementation(async (poolKey) => createPoolAtTick(poolKey, -6932));
+  vi.mocked(instance.client.readContract).mockReset();
+});
+
+describe("getPositionValuation", () => {
+  it("values amounts and uncollected fees in a pool currency", async () => {
+    const valuation = await getPositionValuation("1", instance, { quoteCurrency: TOKEN_B });
+
+    expect(valuation.quoteCurrency.wrapped.address).toBe(TOKEN_B);
+    expect(valuation.price0.toFixed(2)).toBe("1.00");
+    expect(valuation.price1.toFixed(2)).toBe("1.00");
+    // Tick 0 prices TOKEN_A at exactly 1 TOKEN_B
+    expect(BigInt(valuation.positionValue.quotient.toString())).toBe(
+      BigInt(valuation.amount0.quotient.toString()) + BigInt(valuation.amount1.quotient.toString()),
+    );
+    expect(valuation.feesValue.toExact()).toBe("0.04");
+    expect(valuation.totalValue.equalTo(valuation.positionValue.add(valuation.feesValue))).toBe(true);
+    expect(valuation.impermanentLoss).toBeUndefined();
+    expect(mockedGetPosition).toHaveBeenCalledWith("1", instance, { allowZeroLiquidity: true });
+  });
+
+  it("prices through a pricing route when the quote currency is outside the pool", async () => {
+    const inB = await getPositionValuation("1", instance, { quoteCurrency: TOKEN_B });
+    const inC = await getPositionValuation("1", instance, {
+      quoteCurrency: TOKEN_C,
+      pricingRoute: [{ poolKey: B_C_KEY }],
+    });
+
+    expect(inC.quoteCurrency.wrapped.address).toBe(TOKEN_C);
+    expect(inC.price0.toFixed(2)).toBe("0.50");
+    expect(inC.totalValue.toFixed(4)).toBe(inB.totalValue.divide(2).toFixed(4));
+  });
+
+  it("requires a pricing route that reaches the quote currency", async () => {
+    await expect(getPositionValuation("1", instance, { quoteCurrency: TOKEN_C })).rejects.toThrow(InvalidRouteError);
+    await expect(
+      getPositionValuation("1", instance, {
+        quoteCurrency: zeroAddress,
+        pricingRoute: [{ poolKey: B_C_KEY }],
+      }),
+    ).rejects.toThrow("does not end in quote currency");
+  });
+
+  it("reports impermanent loss against the deposit price", async () => {
+    vi.mocked(instance.client.readContract).mockResolvedValue([
+      BigInt(TickMath.getSqrtRatioAtTick(-300).toString()),
+      -300,
+      0,
+      3000,
+    ]);
+
+    const { amount0, positionValue, impermanentLoss } = await getPositionValuation("1", instance, {
+      quoteCurrency: TOKEN_B,
+      depositBlock: 100n,
+    });
+
+    expect(instance.client.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "getSlot0", blockNumber: 100n }),
+    );
+    // TOKEN_A appreciated since the deposit, so the position sold part of it
+    expect(impermanentLoss!.depositAmount0.greaterThan(amount0)).toBe(true);
+    expect(impermanentLoss!.hodlValue.greaterThan(positionValue)).toBe(true);
+    expect(impermanentLoss!.loss.equalTo(impermanentLoss!.hodlValue.subtract(positionValue))).toBe(true);
+    expect(Number(impermanentLoss!.lossPercent.toFixed(4))).toBeGreaterThan(0);
+  });
+
+  it("rejects a deposit block before the pool was initialized", async () => {
+    vi.mocked(instance.client.readContract).mockResolvedValue([0n, 0, 0, 0]);
+
+    const error = await getPositionValuation("1", instance, { quoteCurrency: TOKEN_B, depositBlock: 100n }).catch(
+      (error: unknown) => error,
+    );
+
+    expect(error).toBeInstanceOf(PoolNotFoundError);
+    expect(error).toMatchObject({
+      message: "Pool does not exist at block 100",
+      poolId: getPoolIdFromPoolKey(A_B_KEY),
+      blockNumber: 100n,
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { Token } from "@uniswap/sdk-core";
+import { zeroAddress } from "viem";
+
+import { InsufficientLiquidityError, PositionNotFoundError } from "@/core/errors";
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { getPositions } from "@/utils/getPositions";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+const mockedGetTokens = vi.mocked(getTokens);
+
+const TOKEN0 = "0x0000000000000000000000000000000000000001";
+const TOKEN1 = "0x0000000000000000000000000000000000000002";
+
+const POOL_A = { currency0: TOKEN0, currency1: TOKEN1, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const POOL_B = { currency0: TOKEN0, currency1: TOKEN1, fee: 500, tickSpacing: 10, hooks: zeroAddress };
+const EMPTY_POOL = { currency0: zeroAddress, currency1: zeroAddress, fee: 0, tickSpacing: 0, hooks: zeroAddress };
+const SLOT0 = [79228162514264337593543950336n, 0, 0, 3000] as const;
+// tickLower -60, tickUpper 60, packed as in PositionInfo
+const POSITION_INFO = (BigInt(0x1000000 - 60) << 8n) | (60n << 32n);
+
+function positionResults(poolKey: typeof POOL_A, liquidity: bigint) {
+  return [
+    { status: "success", result: [poolKey, poolKey.tickSpacing === 0 ? 0n : POSITION_INFO] },
+    { status: "success", result: liquidity },
+  ];
+}
+
+function createInstance() {
+  const multicall = vi
+    .fn()
+    .mockResolvedValueOnce([
+      ...positionResults(POOL_A, 500n),
+      ...positionResults(POOL_A, 300n),
+      ...positionResults(EMPTY_POOL, 0n),
+      ...positionResults(POOL_A, 0n),
+      ...positionResults(POOL_B, 100n),
+    ])
+    .mockResolvedValueOnce([
+      { status: "success", result: SLOT0 },
+      { status: "success", result: 10_000n },
+      { status: "failure", error: new Error("execution reverted") },
+      { status: "success", result: 0n },
+    ]);
+
+  const instance = createMockInstance({
+    client: { multicall },
+    contracts: {
+      positionManager: "0x0000000000000000000000000000000000000007",
+      stateView: "0x0000000000000000000000000000000000000008",
+    },
+  });
+
+  return { instance, multicall };
+}
+
+beforeEach(() => {
+  mockedGetTokens.mockReset();
+  mockedGetTokens.mockResolvedValue([new Token(1, TOKEN0, 18), new Token(1, TOKEN1, 18)]);
+});
+
+describe("getPositions", () => {
+  it("loads every position in one multicall and reads each pool once", async () => {
+    const { instance, multicall } = createInstance();
+
+    const results = await getPositions(["1", "2", "3", "4", "abc", "5"], instance);
+
+    expect(multicall).toHaveBeenCalledTimes(2);
+    expect(multicall.mock.calls[0]![0].contracts).toHaveLength(10);
+    expect(multicall.mock.calls[1]![0].contracts.map(({ args }: { args: [string] }) => args[0])).toEqual([
+      getPoolIdFromPoolKey(POOL_A),
+      getPoolIdFromPoolKey(POOL_A),
+      getPoolIdFromPoolKey(POOL_B),
+      getPoolIdFromPoolKey(POOL_B),
+    ]);
+    expect(mockedGetTokens).toHaveBeenCalledTimes(1);
+
+    expect(results.map(({ status }) => status)).toEqual([
+      "success",
+      "success",
+      "failure",
+      "failure",
+      "failure",
+      "failure",
+    ]);
+    expect(results[0]).toMatchObject({
+      status: "success",
+      result: { tokenId: "1", poolId: getPoolIdFromPoolKey(POOL_A), currentTick: 0 },
+    });
+    expect(results[0]!.status === "success" && results[0]!.result.position.liquidity.toString()).toBe("500");
+    expect(results[1]!.status === "success" && results[1]!.result.position.tickLower).toBe(-60);
+    expect(results[2]).toEqual({ status: "failure", error: expect.any(PositionNotFoundError) });
+    expect(results[3]).toEqual({ status: "failure", error: expect.any(InsufficientLiquidityError) });
+    expect(results[4]).toMatchObject({ status: "failure", error: { message: "Invalid tokenId: abc" } });
+    expect(results[5]).toMatchObject({
+      status: "failure",
+      error: { message: `Failed to fetch pool state for ${getPoolIdFromPoolKey(POOL_B)}` },
+    });
+  });
+
+  it("keeps positions without liquidity when allowZeroLiquidity is set", async () => {
+    const { instance } = createInstance();
+
+    const results = await getPositions(["1", "2", "3", "4", "abc", "5"], instance, { allowZeroLiquidity: true });
+
+    expect(results[3]).toMatchObject({ status: "success", result: { tokenId: "4" } });
+  });
+
+  it("skips RPC calls for an empty batch", async () => {
+    const { instance, multicall } = createInstance();
+
+    await expect(getPositions([], instance)).resolves.toEqual([]);
+    expect(multicall).not.toHaveBeenCalled();
+  });
+});
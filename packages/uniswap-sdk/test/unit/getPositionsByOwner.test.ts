@@ -0,0 +1,144 @@
+import { Token } from "@uniswap/sdk-core";
+import { zeroAddress } from "viem";
+
+import type { UniswapSDKInstance } from "@/core/sdk";
+
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { getPositionsByOwner } from "@/utils/getPositionsByOwner";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+const mockedGetTokens = vi.mocked(getTokens);
+
+const OWNER = "0x00000000000000000000000000000000000000a1";
+const OTHER = "0x00000000000000000000000000000000000000b2";
+const TOKEN0 = "0x0000000000000000000000000000000000000001";
+const TOKEN1 = "0x0000000000000000000000000000000000000002";
+
+const POOL_KEY = { currency0: TOKEN0, currency1: TOKEN1, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const SLOT0 = [79228162514264337593543950336n, 0, 0, 3000] as const;
+// tickLower -60, tickUpper 60, packed as in PositionInfo
+const POSITION_INFO = (BigInt(0x1000000 - 60) << 8n) | (60n << 32n);
+
+function createInstance() {
+  const getLogs = vi.fn(async ({ fromBlock }: { fromBlock: bigint }) =>
+    fromBlock === 0n
+      ? [{ args: { id: 3n } }, { args: { id: 1n } }]
+      : [{ args: { id: 2n } }, { args: { id: 4n } }, { args: { id: 1n } }],
+  );
+  const multicall = vi
+    .fn()
+    .mockResolvedValueOnce([
+      // token 1: owned, open
+      { status: "success", result: OWNER },
+      { status: "success", result: [POOL_KEY, POSITION_INFO] },
+      { status: "success", result: 500n },
+      // token 2: transferred away
+      { status: "success", result: OTHER },
+      { status: "success", result: [POOL_KEY, POSITION_INFO] },
+      { status: "success", result: 700n },
+      // token 3: burned
+      { status: "failure", error: new Error("NOT_MINTED") },
+      { status: "success", result: [POOL_KEY, 0n] },
+      { status: "success", result: 0n },
+      // token 4: owned, closed
+      { status: "success", result: OWNER },
+      { status: "success", result: [POOL_KEY, POSITION_INFO] },
+      { status: "success", result: 0n },
+    ])
+    .mockResolvedValueOnce([
+      { status: "success", result: SLOT0 },
+      { status: "success", result: 10_000n },
+    ]);
+
+  const instance = createMockInstance({
+    client: {
+      getBlockNumber: vi.fn().mockResolvedValue(250n),
+      readContract: vi.fn().mockResolvedValue(2n),
+      getLogs,
+      multicall,
+    },
+    contracts: {
+      positionManager: "0x0000000000000000000000000000000000000007",
+      stateView: "0x0000000000000000000000000000000000000008",
+    },
+  });
+
+  return { instance, getLogs, multicall };
+}
+
+beforeEach(() => {
+  mockedGetTokens.mockReset();
+  mockedGetTokens.mockResolvedValue([new Token(1, TOKEN0, 18), new Token(1, TOKEN1, 18)]);
+});
+
+describe("getPositionsByOwner", () => {
+  it("rebuilds ownership from transfer logs and loads the positions still held", async () => {
+    const { instance, getLogs, multicall } = createInstance();
+
+    const positions = await getPositionsByOwner(OWNER, instance, { blockRange: 200n });
+
+    expect(getLogs).toHaveBeenCalledTimes(2);
+    expect(getLogs.mock.calls.map(([{ fromBlock, toBlock }]: any) => [fromBlock, toBlock])).toEqual([
+      [0n, 199n],
+      [200n, 250n],
+    ]);
+    expect(multicall.mock.calls[0]![0].contracts).toHaveLength(12);
+    expect(positions).toEqual([
+      {
+        tokenId: "1",
+        tickLower: -60,
+        tickUpper: 60,
+        liquidity: 500n,
+        poolKey: POOL_KEY,
+        currentTick: 0,
+        slot0: SLOT0,
+        poolLiquidity: 10_000n,
+        lpFee: 3000,
+        protocolFee: 0,
+        poolId: getPoolIdFromPoolKey(POOL_KEY),
+        currency0: expect.any(Token),
+        currency1: expect.any(Token),
+      },
+    ]);
+  });
+
+  it("includes owned positions without liquidity when includeClosed is set", async () => {
+    const { instance } = createInstance();
+
+    const positions = await getPositionsByOwner(OWNER, instance, { blockRange: 200n, includeClosed: true });
+
+    expect(positions.map(({ tokenId, liquidity }) => [tokenId, liquidity])).toEqual([
+      ["1", 500n],
+      ["4", 0n],
+    ]);
+  });
+
+  it("scans from the v4 deployment block in 10,000-block chunks by default", async () => {
+    const { instance, getLogs } = createInstance();
+    getLogs.mockResolvedValue([]);
+    const mainnetInstance = {
+      ...instance,
+      chainId: 1,
+      contracts: { ...instance.contracts, poolManager: "0x000000000004444c5dc75cB358380D2e3dE08A90" },
+    } satisfies UniswapSDKInstance;
+
+    await expect(getPositionsByOwner(OWNER, mainnetInstance, { toBlock: 21_703_328n })).resolves.toEqual([]);
+    expect(getLogs.mock.calls.map(([{ fromBlock, toBlock }]: any) => [fromBlock, toBlock])).toEqual([
+      [21_688_329n, 21_698_328n],
+      [21_698_329n, 21_703_328n],
+    ]);
+  });
+
+  it("skips log scanning when the owner holds no positions", async () => {
+    const { instance, getLogs } = createInstance();
+    vi.mocked(instance.client.readContract).mockResolvedValueOnce(0n);
+
+    await expect(getPositionsByOwner(OWNER, instance)).resolves.toEqual([]);
+    expect(getLogs).not.toHaveBeenCalled();
+  });
+});
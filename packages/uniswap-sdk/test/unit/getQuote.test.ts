@@ -1,8 +1,67 @@
-import { zeroAddress } from "viem";
+import { CurrencyAmount, Percent, Price, Token } from "@uniswap/sdk-core";
+import { TickMath } from "@uniswap/v3-sdk";
+import { Pool, type PoolKey } from "@uniswap/v4-sdk";
+import { v4 } from "hookmate/abi";
+import { type Address, BaseError, encodeErrorResult, parseAbi, RawContractError, zeroAddress } from "viem";
 
 import type { UniswapSDKInstance } from "@/core/sdk";
 
+import { InvalidRouteError, QuoteRevertedError } from "@/core/errors";
+import { getPoolIdFromPoolKey, PoolWithFees } from "@/helpers/pools";
+import { PoolTickDataProvider } from "@/helpers/ticks";
+import { answerPoolStateCalls, createPoolAtTick, getFixtureTokens } from "@/test/fixtures/pools";
 import { getQuote } from "@/utils/getQuote";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+vi.mocked(getTokens).mockImplementation(getFixtureTokens);
+
+const poolKey = (currency0: string, currency1: string, fee: number, tickSpacing: number, hooks: string = zeroAddress) =>
+  ({ currency0, currency1, fee, tickSpacing, hooks }) satisfies PoolKey;
+
+// Every pool the Quoter-backed tests route through
+const POOL_KEYS = [
+  poolKey("0x0000000000000000000000000000000000000001", "0x0000000000000000000000000000000000000002", 500, 10),
+  poolKey("0x0000000000000000000000000000000000000002", "0x0000000000000000000000000000000000000003", 3000, 60),
+  poolKey("0x0000000000000000000000000000000000000001", "0x0000000000000000000000000000000000000002", 3000, 60),
+  poolKey("0x0000000000000000000000000000000000000001", "0x0000000000000000000000000000000000000004", 3000, 60),
+  poolKey(
+    "0x0000000000000000000000000000000000000001",
+    "0x0000000000000000000000000000000000000002",
+    500,
+    10,
+    "0x00000000000000000000000000000000000000aa",
+  ),
+  poolKey(
+    "0x0000000000000000000000000000000000000001",
+    "0x0000000000000000000000000000000000000002",
+    500,
+    10,
+    "0x0000000000000000000000000000000000000080",
+  ),
+  poolKey(
+    "0x0000000000000000000000000000000000000002",
+    "0x0000000000000000000000000000000000000003",
+    0x800000,
+    10,
+    "0x0000000000000000000000000000000000000088",
+  ),
+];
+
+/**
+ * Multicall mock answering the StateView reads of the route pools with the fixture pools.
+ */
+function mockPoolStateMulticall() {
+  return vi.fn().mockImplementation(
+    answerPoolStateCalls(POOL_KEYS, ({ functionName }) => ({
+      status: "failure",
+      error: new Error(`Unexpected ${functionName} call`),
+    })),
+  );
+}
 
 describe("getQuote", () => {
   it("quotes a multi-hop exact-input route through quoteExactInput", async () => {
@@ -13,6 +72,7 @@ describe("getQuote", () => {
     const instance = {
       client: {
         simulateContract,
+        multicall: mockPoolStateMulticall(),
       },
       contracts: {
         quoter: "0x0000000000000000000000000000000000000009",
@@ -53,6 +113,15 @@ describe("getQuote", () => {
     expect(quote).toEqual({
       amountIn: 1000n,
       amountOut: 12345n,
+      midPrice: expect.any(Price),
+      executionPrice: expect.any(Price),
+      priceImpact: expect.any(Percent),
+      gasEstimate: 987n,
+      fees: [
+        { lpFee: 500, protocolFee: 0, swapFee: 500 },
+        { lpFee: 3000, protocolFee: 0, swapFee: 3000 },
+      ],
+      hookWarnings: [],
       timestamp: Date.now(),
       meta: {
         resolvedCurrencyIn: "0x0000000000000000000000000000000000000001",
@@ -99,6 +168,7 @@ describe("getQuote", () => {
     const instance = {
       client: {
         simulateContract,
+        multicall: mockPoolStateMulticall(),
       },
       contracts: {
         quoter: "0x0000000000000000000000000000000000000009",
@@ -139,6 +209,15 @@ describe("getQuote", () => {
     expect(quote).toEqual({
       amountIn: 2000n,
       amountOut: 12345n,
+      midPrice: expect.any(Price),
+      executionPrice: expect.any(Price),
+      priceImpact: expect.any(Percent),
+      gasEstimate: 987n,
+      fees: [
+        { lpFee: 500, protocolFee: 0, swapFee: 500 },
+        { lpFee: 3000, protocolFee: 0, swapFee: 3000 },
+      ],
+      hookWarnings: [],
       timestamp: Date.now(),
       meta: {
         resolvedCurrencyIn: "0x0000000000000000000000000000000000000001",
@@ -177,6 +256,121 @@ describe("getQuote", () => {
     vi.useRealTimers();
   });
 
+  it("derives mid-price, execution price and price impact from the route pools", async () => {
+    const simulateContract = vi.fn().mockResolvedValue({ result: [997n, 0n] });
+    const multicall = mockPoolStateMulticall();
+    const instance = {
+      client: { simulateContract, multicall },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+        stateView: "0x0000000000000000000000000000000000000008",
+      },
+    } as unknown as UniswapSDKInstance;
+    const route = [{ poolKey: POOL_KEYS[2]! }] as const;
+    const poolId = getPoolIdFromPoolKey(route[0].poolKey);
+
+    const quote = await getQuote(
+      {
+        route,
+        exactInput: { currency: "0x0000000000000000000000000000000000000001", amount: 1000n },
+      },
+      instance,
+    );
+
+    expect(multicall).toHaveBeenCalledTimes(1);
+    expect(multicall.mock.calls[0]![0]).toMatchObject({
+      contracts: [
+        { address: instance.contracts.stateView, functionName: "getSlot0", args: [poolId] },
+        { address: instance.contracts.stateView, functionName: "getLiquidity", args: [poolId] },
+      ],
+    });
+    expect(quote.midPrice?.toSignificant(6)).toBe("1");
+    expect(quote.executionPrice?.toSignificant(6)).toBe("0.997");
+    expect(quote.priceImpact?.toFixed(2)).toBe("0.30");
+  });
+
+  it("returns the Quoter amounts without prices when the route pools cannot be read", async () => {
+    const simulateContract = vi.fn().mockResolvedValue({ result: [997n, 0n] });
+    const instance = {
+      client: { simulateContract, multicall: vi.fn().mockRejectedValue(new Error("StateView read failed")) },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+        stateView: "0x0000000000000000000000000000000000000008",
+      },
+    } as unknown as UniswapSDKInstance;
+
+    const quote = await getQuote(
+      {
+        route: [{ poolKey: POOL_KEYS[2]! }],
+        exactInput: { currency: "0x0000000000000000000000000000000000000001", amount: 1000n },
+      },
+      instance,
+    );
+
+    expect(quote).toMatchObject({ amountIn: 1000n, amountOut: 997n, gasEstimate: 0n });
+    expect(quote.midPrice).toBeUndefined();
+    expect(quote.executionPrice).toBeUndefined();
+    expect(quote.priceImpact).toBeUndefined();
+    expect(quote.fees).toBeUndefined();
+  });
+
+  it("prices the Quoter gas estimate in the output currency through the gas price pool", async () => {
+    const simulateContract = vi.fn().mockResolvedValue({ result: [12_345_678n, 100_000n] });
+    const getGasPrice = vi.fn().mockResolvedValue(10n);
+    const instance = {
+      client: { simulateContract, multicall: mockPoolStateMulticall(), getGasPrice },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+      },
+    } as unknown as UniswapSDKInstance;
+    const route = [
+      {
+        poolKey: {
+          currency0: "0x0000000000000000000000000000000000000001",
+          currency1: "0x0000000000000000000000000000000000000002",
+          fee: 3000,
+          tickSpacing: 60,
+          hooks: zeroAddress,
+        },
+      },
+    ] as const;
+    // 1 ETH = 1 output token at tick 0, so 100_000 gas * 10 wei costs 1_000_000 output units
+    const pricePool = createPoolAtTick({
+      currency0: zeroAddress,
+      currency1: "0x0000000000000000000000000000000000000002",
+      fee: 500,
+      tickSpacing: 10,
+      hooks: zeroAddress,
+    });
+
+    const quote = await getQuote(
+      {
+        route,
+        exactInput: { currency: "0x0000000000000000000000000000000000000001", amount: 1000n },
+        gasPricing: { pricePool },
+      },
+      instance,
+    );
+
+    expect(getGasPrice).toHaveBeenCalledTimes(1);
+    expect(quote.gasEstimate).toBe(100_000n);
+    expect(quote.netAmountOut).toBe(11_345_678n);
+
+    await expect(
+      getQuote(
+        {
+          route,
+          exactInput: { currency: "0x0000000000000000000000000000000000000002", amount: 1000n },
+          gasPricing: { pricePool, gasPrice: 1n },
+        },
+        instance,
+      ),
+    ).rejects.toThrow("Invalid gasPricing.pricePool: must pair the native currency or WETH with the output currency.");
+  });
+
   it("resolves native token metadata when useNativeToken is enabled on WETH route edges", async () => {
     const simulateContract = vi.fn().mockResolvedValue({ result: [2000n, 987n] });
     const weth = "0x0000000000000000000000000000000000000004";
@@ -273,4 +467,230 @@ describe("getQuote", () => {
       }),
     );
   });
+
+  it("warns about hops whose hooks can change the swapped amounts or the fee", async () => {
+    const instance = {
+      client: {
+        simulateContract: vi.fn().mockResolvedValue({ result: [900n, 0n] }),
+        multicall: mockPoolStateMulticall(),
+      },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+      },
+    } as unknown as UniswapSDKInstance;
+    // beforeSwap + beforeSwapReturnsDelta
+    const deltaHook = "0x0000000000000000000000000000000000000088";
+
+    const quote = await getQuote(
+      {
+        route: [
+          {
+            poolKey: {
+              currency0: "0x0000000000000000000000000000000000000001",
+              currency1: "0x0000000000000000000000000000000000000002",
+              fee: 500,
+              tickSpacing: 10,
+              hooks: "0x0000000000000000000000000000000000000080",
+            },
+          },
+          {
+            poolKey: {
+              currency0: "0x0000000000000000000000000000000000000002",
+              currency1: "0x0000000000000000000000000000000000000003",
+              fee: 0x800000,
+              tickSpacing: 10,
+              hooks: deltaHook,
+            },
+          },
+        ],
+        exactInput: { currency: "0x0000000000000000000000000000000000000001", amount: "1000" },
+      },
+      instance,
+    );
+
+    expect(quote.hookWarnings).toEqual([{ hop: 2, hooks: deltaHook, risks: ["swapReturnsDelta", "dynamicFee"] }]);
+  });
+
+  it("quotes hookless routes off-chain with simulation: local", async () => {
+    const token0 = new Token(1, "0x0000000000000000000000000000000000000001", 18);
+    const token1 = new Token(1, "0x0000000000000000000000000000000000000002", 18);
+    const pool = new Pool(
+      token0,
+      token1,
+      500,
+      10,
+      zeroAddress,
+      TickMath.getSqrtRatioAtTick(0),
+      (10n ** 21n).toString(),
+      0,
+      new PoolTickDataProvider({ tickSpacing: 10, minWord: -1, maxWord: 0, ticks: [] }),
+    );
+    const multicall = vi.fn();
+    const instance = {
+      client: { multicall },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+      },
+    } as unknown as UniswapSDKInstance;
+    const route = [{ poolKey: pool.poolKey }] as const;
+    const [expectedAmountOut] = await pool.getOutputAmount(CurrencyAmount.fromRawAmount(token0, "1000000"));
+    const [expectedAmountIn] = await pool.getInputAmount(CurrencyAmount.fromRawAmount(token0, "1000000"));
+
+    const exactInputQuote = await getQuote(
+      {
+        route,
+        exactInput: { currency: token0.address as Address, amount: 1_000_000n },
+        simulation: "local",
+        pools: [pool],
+      },
+      instance,
+    );
+    const exactOutputQuote = await getQuote(
+      {
+        route,
+        exactOutput: { currency: token0.address as Address, amount: 1_000_000n },
+        simulation: "local",
+        pools: [pool],
+      },
+      instance,
+    );
+
+    expect(multicall).not.toHaveBeenCalled();
+    expect(exactInputQuote.amountOut).toBe(BigInt(expectedAmountOut.quotient.toString()));
+    expect(exactOutputQuote.amountIn).toBe(BigInt(expectedAmountIn.quotient.toString()));
+  });
+
+  it("simulates locally at the swap fee of each direction, protocol fee included", async () => {
+    const token0 = new Token(1, "0x0000000000000000000000000000000000000001", 18);
+    const token1 = new Token(1, "0x0000000000000000000000000000000000000002", 18);
+    const poolArgs = (fee: number) =>
+      [
+        token0,
+        token1,
+        fee,
+        10,
+        zeroAddress,
+        TickMath.getSqrtRatioAtTick(0),
+        (10n ** 21n).toString(),
+        0,
+        new PoolTickDataProvider({ tickSpacing: 10, minWord: -1, maxWord: 0, ticks: [] }),
+      ] as const;
+    const createPool = (fee: number) => new Pool(...poolArgs(fee));
+    // 0.01% protocol fee on zeroForOne swaps, 0.02% on oneForZero swaps
+    const pool = new PoolWithFees({ lpFee: 500, protocolFee: (200 << 12) | 100 }, ...poolArgs(500));
+    const instance = {
+      client: { multicall: vi.fn() },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+      },
+    } as unknown as UniswapSDKInstance;
+    const route = [{ poolKey: pool.poolKey }] as const;
+    const [zeroForOneOut] = await createPool(600).getOutputAmount(CurrencyAmount.fromRawAmount(token0, "1000000"));
+    const [oneForZeroOut] = await createPool(700).getOutputAmount(CurrencyAmount.fromRawAmount(token1, "1000000"));
+
+    const zeroForOneQuote = await getQuote(
+      {
+        route,
+        exactInput: { currency: token0.address as Address, amount: 1_000_000n },
+        simulation: "local",
+        pools: [pool],
+      },
+      instance,
+    );
+    const oneForZeroQuote = await getQuote(
+      {
+        route,
+        exactInput: { currency: token1.address as Address, amount: 1_000_000n },
+        simulation: "local",
+        pools: [pool],
+      },
+      instance,
+    );
+
+    expect(zeroForOneQuote.amountOut).toBe(BigInt(zeroForOneOut.quotient.toString()));
+    expect(zeroForOneQuote.fees).toEqual([{ lpFee: 500, protocolFee: 100, swapFee: 600 }]);
+    expect(oneForZeroQuote.amountOut).toBe(BigInt(oneForZeroOut.quotient.toString()));
+    expect(oneForZeroQuote.fees).toEqual([{ lpFee: 500, protocolFee: 200, swapFee: 700 }]);
+  });
+
+  it("rejects local simulation for hooked pools", async () => {
+    const instance = {
+      client: { multicall: vi.fn() },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+      },
+    } as unknown as UniswapSDKInstance;
+
+    await expect(
+      getQuote(
+        {
+          route: [
+            {
+              poolKey: {
+                currency0: "0x0000000000000000000000000000000000000001",
+                currency1: "0x0000000000000000000000000000000000000002",
+                fee: 500,
+                tickSpacing: 10,
+                hooks: "0x0000000000000000000000000000000000000080",
+              },
+            },
+          ],
+          exactInput: { currency: "0x0000000000000000000000000000000000000001", amount: 1n },
+          simulation: "local",
+        },
+        instance,
+      ),
+    ).rejects.toThrow(InvalidRouteError);
+  });
+
+  it("throws a QuoteRevertedError carrying the hook revert the Quoter wrapped", async () => {
+    const hook = "0x0000000000000000000000000000000000000080";
+    const hookRevert = encodeErrorResult({
+      abi: parseAbi(["error HookNotImplemented()"]),
+      errorName: "HookNotImplemented",
+    });
+    const wrapped = encodeErrorResult({
+      abi: parseAbi(["error WrappedError(address target, bytes4 selector, bytes reason, bytes details)"]),
+      errorName: "WrappedError",
+      args: [hook, "0x575e24b4", hookRevert, "0x"],
+    });
+    const data = encodeErrorResult({ abi: v4.QuoterArtifact.abi, errorName: "UnexpectedRevertBytes", args: [wrapped] });
+    const cause = new BaseError("Execution reverted.", { cause: new RawContractError({ data }) });
+    const instance = {
+      client: { simulateContract: vi.fn().mockRejectedValue(cause) },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000004",
+      },
+    } as unknown as UniswapSDKInstance;
+
+    const error = await getQuote(
+      {
+        route: [
+          {
+            poolKey: {
+              currency0: "0x0000000000000000000000000000000000000001",
+              currency1: "0x0000000000000000000000000000000000000002",
+              fee: 500,
+              tickSpacing: 10,
+              hooks: hook,
+            },
+          },
+        ],
+        exactInput: { currency: "0x0000000000000000000000000000000000000001", amount: 1n },
+      },
+      instance,
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(QuoteRevertedError);
+    expect(error).toMatchObject({
+      message: `Failed to fetch quote: Unknown revert: ${hookRevert}`,
+      cause,
+      revert: { data, target: hook, reason: `Unknown revert: ${hookRevert}` },
+    });
+  });
 });
@@ -0,0 +1,194 @@
+import { Percent, Price } from "@uniswap/sdk-core";
+import { v4 } from "hookmate/abi";
+import { BaseError, encodeErrorResult, RawContractError, zeroAddress } from "viem";
+
+import type { SwapRoute } from "@/utils/swapRoute";
+
+import { InsufficientLiquidityError, UniswapSDKError } from "@/core/errors";
+import { getPoolIdFromPoolKey } from "@/helpers/pools";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { answerPoolStateCalls, getFixtureTokens } from "@/test/fixtures/pools";
+import { getQuotes } from "@/utils/getQuotes";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+vi.mocked(getTokens).mockImplementation(getFixtureTokens);
+
+const TOKEN_IN = "0x0000000000000000000000000000000000000001";
+const TOKEN_OUT = "0x0000000000000000000000000000000000000002";
+const WETH = "0x0000000000000000000000000000000000000004";
+
+const ROUTE: SwapRoute = [
+  {
+    poolKey: {
+      currency0: TOKEN_IN,
+      currency1: TOKEN_OUT,
+      fee: 3000,
+      tickSpacing: 60,
+      hooks: zeroAddress,
+    },
+  },
+];
+
+const WETH_ROUTE: SwapRoute = [
+  {
+    poolKey: {
+      currency0: TOKEN_IN,
+      currency1: WETH,
+      fee: 500,
+      tickSpacing: 10,
+      hooks: zeroAddress,
+    },
+  },
+];
+
+/**
+ * Multicall mock answering the Quoter calls with `quoterResults` in order and the StateView reads with the
+ * fixture pools of both routes.
+ */
+function mockQuoterMulticall(
+  quoterResults: ({ status: "success"; result: unknown } | { status: "failure"; error: Error })[],
+) {
+  return vi
+    .fn()
+    .mockImplementation(answerPoolStateCalls([ROUTE[0].poolKey, WETH_ROUTE[0].poolKey], () => quoterResults.shift()!));
+}
+
+function createInstance(multicall: ReturnType<typeof vi.fn>) {
+  return createMockInstance({
+    client: { multicall },
+    contracts: {
+      quoter: "0x0000000000000000000000000000000000000009",
+      stateView: "0x0000000000000000000000000000000000000008",
+      weth: WETH,
+    },
+  });
+}
+
+describe("getQuotes", () => {
+  it("bundles every quoter call into one multicall and returns results in input order", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-04-10T00:00:00.000Z"));
+
+    const poolId = getPoolIdFromPoolKey(ROUTE[0].poolKey);
+    const data = encodeErrorResult({ abi: v4.QuoterArtifact.abi, errorName: "NotEnoughLiquidity", args: [poolId] });
+    const multicall = mockQuoterMulticall([
+      { status: "success", result: [900n, 0n] },
+      { status: "failure", error: new BaseError("Execution reverted.", { cause: new RawContractError({ data }) }) },
+      { status: "success", result: [2000n, 0n] },
+    ]);
+    const instance = createInstance(multicall);
+
+    const results = await getQuotes(
+      [
+        { route: ROUTE, exactInput: { currency: TOKEN_IN, amount: 1000n } },
+        { route: ROUTE, exactInput: { currency: TOKEN_IN, amount: 10n ** 30n } },
+        { route: WETH_ROUTE, exactOutput: { currency: WETH, amount: "500" }, useNativeToken: true },
+      ],
+      instance,
+    );
+
+    const wethPoolId = getPoolIdFromPoolKey(WETH_ROUTE[0].poolKey);
+    expect(multicall).toHaveBeenCalledTimes(1);
+    // the first two entries share a pool, whose state is read once
+    expect(multicall.mock.calls[0]![0]).toMatchObject({
+      allowFailure: true,
+      contracts: [
+        { address: instance.contracts.quoter, functionName: "quoteExactInput" },
+        { address: instance.contracts.quoter, functionName: "quoteExactInput" },
+        { address: instance.contracts.quoter, functionName: "quoteExactOutput" },
+        { address: instance.contracts.stateView, functionName: "getSlot0", args: [poolId] },
+        { address: instance.contracts.stateView, functionName: "getLiquidity", args: [poolId] },
+        { address: instance.contracts.stateView, functionName: "getSlot0", args: [wethPoolId] },
+        { address: instance.contracts.stateView, functionName: "getLiquidity", args: [wethPoolId] },
+      ],
+    });
+    expect(results).toEqual([
+      {
+        status: "success",
+        result: {
+          amountIn: 1000n,
+          amountOut: 900n,
+          midPrice: expect.any(Price),
+          executionPrice: expect.any(Price),
+          priceImpact: expect.any(Percent),
+          gasEstimate: 0n,
+          fees: [{ lpFee: 3000, protocolFee: 0, swapFee: 3000 }],
+          hookWarnings: [],
+          timestamp: Date.now(),
+          meta: { resolvedCurrencyIn: TOKEN_IN, resolvedCurrencyOut: TOKEN_OUT },
+        },
+      },
+      { status: "failure", error: expect.any(InsufficientLiquidityError) },
+      {
+        status: "success",
+        result: {
+          amountIn: 2000n,
+          amountOut: 500n,
+          midPrice: expect.any(Price),
+          executionPrice: expect.any(Price),
+          priceImpact: expect.any(Percent),
+          gasEstimate: 0n,
+          fees: [{ lpFee: 500, protocolFee: 0, swapFee: 500 }],
+          hookWarnings: [],
+          timestamp: Date.now(),
+          meta: { resolvedCurrencyIn: TOKEN_IN, resolvedCurrencyOut: zeroAddress },
+        },
+      },
+    ]);
+    expect(results[1]).toMatchObject({
+      error: { message: `Failed to fetch quote: NotEnoughLiquidity(${poolId})`, poolId },
+    });
+
+    vi.useRealTimers();
+  });
+
+  it("reports invalid entries as failures without sending them to the Quoter", async () => {
+    const multicall = mockQuoterMulticall([{ status: "success", result: [900n, 0n] }]);
+
+    const results = await getQuotes(
+      [
+        { route: ROUTE, exactInput: { currency: TOKEN_IN, amount: 0n } },
+        { route: ROUTE, exactInput: { currency: TOKEN_IN, amount: 1000n } },
+      ],
+      createInstance(multicall),
+    );
+
+    expect(multicall.mock.calls[0]![0].contracts).toMatchObject([
+      { functionName: "quoteExactInput" },
+      { functionName: "getSlot0" },
+      { functionName: "getLiquidity" },
+    ]);
+    expect(results[0]).toEqual({ status: "failure", error: expect.any(UniswapSDKError) });
+    expect(results[0]).toMatchObject({
+      error: { message: "Failed to fetch quote: Invalid exactInput.amount: 0. Must be a positive value." },
+    });
+    expect(results[1]).toMatchObject({ status: "success", result: { amountOut: 900n } });
+  });
+
+  it("skips the multicall when no entry needs the Quoter", async () => {
+    const multicall = vi.fn();
+
+    await expect(getQuotes([], createInstance(multicall))).resolves.toEqual([]);
+    expect(multicall).not.toHaveBeenCalled();
+  });
+
+  it("keeps a successful Quoter result when the state of its pools cannot be read", async () => {
+    // The StateView reads of the WETH route pool fail
+    const multicall = vi
+      .fn()
+      .mockImplementation(answerPoolStateCalls([ROUTE[0].poolKey], () => ({ status: "success", result: [500n, 0n] })));
+
+    const [result] = await getQuotes(
+      [{ route: WETH_ROUTE, exactOutput: { currency: WETH, amount: "250" } }],
+      createInstance(multicall),
+    );
+
+    expect(result).toMatchObject({ status: "success", result: { amountIn: 500n, amountOut: 250n } });
+    expect(result).not.toHaveProperty("result.priceImpact");
+    expect(result).toHaveProperty("result.fees", undefined);
+  });
+});
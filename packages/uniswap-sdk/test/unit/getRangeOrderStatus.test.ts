@@ -0,0 +1,62 @@
+import { Position as V4Position } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { getPosition } from "@/utils/getPosition";
+import { getRangeOrderStatus } from "@/utils/getRangeOrderStatus";
+
+vi.mock("@/utils/getPosition", () => ({
+  getPosition: vi.fn(),
+}));
+
+const mockedGetPosition = vi.mocked(getPosition);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000011";
+const TOKEN_B = "0x0000000000000000000000000000000000000022";
+
+const poolKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const instance = createMockInstance({});
+
+function mockOrderAtTick(tick: number) {
+  const pool = createPoolAtTick(poolKey, tick);
+  const position = new V4Position({ pool, liquidity: (10n ** 18n).toString(), tickLower: 180, tickUpper: 240 });
+  mockedGetPosition.mockResolvedValueOnce({
+    position,
+    pool,
+    currency0: pool.currency0,
+    currency1: pool.currency1,
+    poolId: pool.poolId as `0x${string}`,
+    tokenId: "7",
+    currentTick: tick,
+  });
+}
+
+describe("getRangeOrderStatus", () => {
+  it.each([
+    [0, TOKEN_A, "unfilled"],
+    [200, TOKEN_A, "partiallyFilled"],
+    [240, TOKEN_A, "filled"],
+    [0, TOKEN_B, "filled"],
+    [200, TOKEN_B, "partiallyFilled"],
+    [300, TOKEN_B, "unfilled"],
+  ] as const)("at tick %i, an order selling %s is %s", async (tick, sellCurrency, status) => {
+    mockOrderAtTick(tick);
+
+    await expect(getRangeOrderStatus("7", instance, { sellCurrency })).resolves.toMatchObject({
+      status,
+      tickLower: 180,
+      tickUpper: 240,
+      currentTick: tick,
+    });
+  });
+
+  it("reports the amounts the order holds", async () => {
+    mockOrderAtTick(300);
+
+    const result = await getRangeOrderStatus("7", instance, { sellCurrency: TOKEN_A });
+
+    expect(result.amount0).toBe(0n);
+    expect(result.amount1).toBeGreaterThan(0n);
+  });
+});
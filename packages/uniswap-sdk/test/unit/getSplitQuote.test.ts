@@ -0,0 +1,120 @@
+import { zeroAddress } from "viem";
+
+import type { SwapRoute } from "@/utils/swapRoute";
+
+import { createMockInstance } from "@/test/fixtures/instance";
+import { answerPoolStateCalls, getFixtureTokens } from "@/test/fixtures/pools";
+import { getSplitQuote } from "@/utils/getSplitQuote";
+import { getTokens } from "@/utils/getTokens";
+
+vi.mock("@/utils/getTokens", () => ({
+  getTokens: vi.fn(),
+}));
+
+vi.mocked(getTokens).mockImplementation(getFixtureTokens);
+
+const TOKEN_IN = "0x0000000000000000000000000000000000000001";
+const TOKEN_OUT = "0x0000000000000000000000000000000000000002";
+
+const route = (fee: number, tickSpacing: number): SwapRoute => [
+  {
+    poolKey: {
+      currency0: TOKEN_IN,
+      currency1: TOKEN_OUT,
+      fee,
+      tickSpacing,
+      hooks: zeroAddress,
+    },
+  },
+];
+
+const LOW_FEE_ROUTE = route(500, 10);
+const HIGH_FEE_ROUTE = route(3000, 60);
+
+function createInstance(outputByFee: Record<number, (amountIn: bigint) => bigint>) {
+  const multicall = vi.fn().mockImplementation(
+    answerPoolStateCalls([LOW_FEE_ROUTE[0].poolKey, HIGH_FEE_ROUTE[0].poolKey], ({ args }) => {
+      const { path, exactAmount } = args[0] as { path: { fee: number }[]; exactAmount: bigint };
+      const output = outputByFee[path[0]!.fee];
+      if (output === undefined) {
+        return { status: "failure", error: new Error("NotEnoughLiquidity") };
+      }
+      return { status: "success", result: [output(exactAmount), 0n] };
+    }),
+  );
+
+  return {
+    multicall,
+    instance: createMockInstance({
+      client: { multicall },
+      contracts: {
+        quoter: "0x0000000000000000000000000000000000000009",
+        weth: "0x0000000000000000000000000000000000000008",
+      },
+    }),
+  };
+}
+
+describe("getSplitQuote", () => {
+  it("selects the allocation with the highest combined output", async () => {
+    const { instance, multicall } = createInstance({
+      500: (amountIn) => amountIn - (amountIn * amountIn) / 1000n,
+      3000: (amountIn) => (amountIn * 9n) / 10n - (amountIn * amountIn) / 4000n,
+    });
+
+    const quote = await getSplitQuote(
+      {
+        routes: [LOW_FEE_ROUTE, HIGH_FEE_ROUTE],
+        exactInput: { currency: TOKEN_IN, amount: 1000n },
+        stepBps: 2500,
+      },
+      instance,
+    );
+
+    expect(multicall).toHaveBeenCalledTimes(1);
+    // 8 Quoter calls and the slot0 and liquidity reads of both pools
+    expect(multicall.mock.calls[0]![0].contracts).toHaveLength(12);
+    expect(quote.splits.map(({ route, percentage }) => ({ route, percentage }))).toEqual([
+      { route: LOW_FEE_ROUTE, percentage: 2500 },
+      { route: HIGH_FEE_ROUTE, percentage: 7500 },
+    ]);
+    expect(quote.amountIn).toBe(1000n);
+    expect(quote.amountOut).toBe(723n);
+  });
+
+  it("routes everything through the remaining route when another cannot be quoted", async () => {
+    const { instance } = createInstance({ 500: (amountIn) => amountIn / 2n });
+
+    const quote = await getSplitQuote(
+      {
+        routes: [LOW_FEE_ROUTE, HIGH_FEE_ROUTE],
+        exactInput: { currency: TOKEN_IN, amount: "1000" },
+        stepBps: 5000,
+      },
+      instance,
+    );
+
+    expect(quote.splits).toHaveLength(1);
+    expect(quote.splits[0]).toMatchObject({ route: LOW_FEE_ROUTE, percentage: 10_000 });
+    expect(quote.amountOut).toBe(500n);
+  });
+
+  it("throws when no allocation can be quoted", async () => {
+    const { instance } = createInstance({});
+
+    await expect(
+      getSplitQuote({ routes: [LOW_FEE_ROUTE], exactInput: { currency: TOKEN_IN, amount: 1000n } }, instance),
+    ).rejects.toThrow("no allocation of the amount could be quoted");
+  });
+
+  it("rejects steps that do not divide 10000 evenly", async () => {
+    const { instance } = createInstance({});
+
+    await expect(
+      getSplitQuote(
+        { routes: [LOW_FEE_ROUTE], exactInput: { currency: TOKEN_IN, amount: 1000n }, stepBps: 300 },
+        instance,
+      ),
+    ).rejects.toThrow("Invalid stepBps: 300");
+  });
+});
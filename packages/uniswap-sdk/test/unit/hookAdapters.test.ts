@@ -0,0 +1,276 @@
+import { Position } from "@uniswap/v4-sdk";
+import { encodeAbiParameters, type Hex, parseAbiParameters, zeroAddress } from "viem";
+
+import { type HookAdapter, normalizeHookAdapters } from "@/helpers/hookAdapters";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+import { buildAddLiquidityCallData } from "@/utils/buildAddLiquidityCallData";
+import { buildCollectFeesCallData } from "@/utils/buildCollectFeesCallData";
+import { buildRebalanceCallData } from "@/utils/buildRebalanceCallData";
+import { buildRemoveLiquidityCallData } from "@/utils/buildRemoveLiquidityCallData";
+import { buildSwapCallData } from "@/utils/buildSwapCallData";
+import { buildZapInCallData } from "@/utils/buildZapInCallData";
+import { buildZapOutCallData } from "@/utils/buildZapOutCallData";
+import { decodePositionManagerCalldata } from "@/utils/decodePositionManagerCalldata";
+import { decodeUniversalRouterCalldata } from "@/utils/decodeUniversalRouterCalldata";
+import { getPosition } from "@/utils/getPosition";
+import { getQuote } from "@/utils/getQuote";
+import { getUncollectedFees } from "@/utils/getUncollectedFees";
+
+vi.mock("@/utils/getPosition", () => ({
+  getPosition: vi.fn(),
+}));
+
+vi.mock("@/utils/getQuote", () => ({
+  getQuote: vi.fn(),
+}));
+
+vi.mock("@/utils/getUncollectedFees", () => ({
+  getUncollectedFees: vi.fn(),
+}));
+
+const mockedGetPosition = vi.mocked(getPosition);
+const mockedGetQuote = vi.mocked(getQuote);
+const mockedGetUncollectedFees = vi.mocked(getUncollectedFees);
+
+const TOKEN_A = "0x0000000000000000000000000000000000000011";
+const TOKEN_B = "0x0000000000000000000000000000000000000022";
+const TOKEN_C = "0x0000000000000000000000000000000000000033";
+const RECIPIENT = "0x0000000000000000000000000000000000000044";
+const REFERRER = "0x0000000000000000000000000000000000000055";
+const HOOKS = "0x00000000000000000000000000000000000000C0";
+const OTHER_HOOKS = "0x00000000000000000000000000000000000000D0";
+
+const hookedKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: HOOKS };
+const hooklessKey = { currency0: TOKEN_B, currency1: TOKEN_C, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+const otherHookedKey = { currency0: TOKEN_B, currency1: TOKEN_C, fee: 500, tickSpacing: 10, hooks: OTHER_HOOKS };
+const hookedPool = createPoolAtTick(hookedKey);
+const hooklessPool = createPoolAtTick(hooklessKey);
+const otherHookedPool = createPoolAtTick(otherHookedKey);
+
+interface ReferralArgs {
+  referrer: `0x${string}`;
+}
+
+const encodeReferrer = (referrer: `0x${string}`, action: number): Hex =>
+  encodeAbiParameters(parseAbiParameters("address referrer, uint8 action"), [referrer, action]);
+
+const adapter: HookAdapter<ReferralArgs, ReferralArgs, ReferralArgs> = {
+  encodeSwapHookData: ({ hookArgs }) => encodeReferrer(hookArgs?.referrer ?? zeroAddress, 0),
+  encodeAddLiquidityHookData: ({ hookArgs }) => encodeReferrer(hookArgs?.referrer ?? zeroAddress, 1),
+  encodeRemoveLiquidityHookData: ({ hookArgs }) => encodeReferrer(hookArgs?.referrer ?? zeroAddress, 2),
+};
+
+const swapOnlyAdapter: HookAdapter<ReferralArgs> = {
+  encodeSwapHookData: ({ hookArgs, hop }) => encodeReferrer(hookArgs?.referrer ?? zeroAddress, 10 + hop),
+};
+
+function createInstance(
+  hookAdapters: Record<string, HookAdapter> = { [HOOKS]: adapter, [OTHER_HOOKS]: swapOnlyAdapter },
+) {
+  return createMockInstance({
+    client: { getBlock: vi.fn().mockResolvedValue({ timestamp: 1_000n }) },
+    contracts: {
+      positionManager: "0x00000000000000000000000000000000000000aa",
+      universalRouter: "0x00000000000000000000000000000000000000bb",
+      weth: "0x00000000000000000000000000000000000000ff",
+    },
+    defaultDeadline: 600,
+    defaultSlippageTolerance: 50,
+    hookAdapters: normalizeHookAdapters(hookAdapters),
+  });
+}
+
+function getSwapPath(calldata: Hex) {
+  const [command] = decodeUniversalRouterCalldata(calldata).commands;
+  if (command?.type !== "V4_SWAP" || command.actions[0]?.type !== "SWAP_EXACT_IN") {
+    throw new Error("Expected a V4_SWAP command with SWAP_EXACT_IN");
+  }
+  return command.actions[0].params.path;
+}
+
+beforeEach(() => {
+  const position = new Position({
+    pool: hookedPool,
+    tickLower: -600,
+    tickUpper: 600,
+    liquidity: "1000000000000000000",
+  });
+  mockedGetPosition.mockReset();
+  mockedGetPosition.mockResolvedValue({ position, pool: hookedPool } as never);
+  mockedGetUncollectedFees.mockResolvedValue({ amount0: 0n, amount1: 0n } as never);
+});
+
+describe("normalizeHookAdapters", () => {
+  it("lowercases the hook addresses", () => {
+    expect(Object.keys(normalizeHookAdapters({ [HOOKS]: adapter }))).toEqual([HOOKS.toLowerCase()]);
+  });
+
+  it("rejects keys that are not addresses", () => {
+    expect(() => normalizeHookAdapters({ "0x1234": adapter })).toThrow("Invalid hookAdapters key: 0x1234.");
+  });
+});
+
+describe("buildSwapCallData with hook adapters", () => {
+  const swapArgs = {
+    route: [{ pool: hookedPool }, { pool: hooklessPool }] as const,
+    exactInput: { currency: TOKEN_A, amount: 1_000n },
+    minAmountOut: 900n,
+    recipient: RECIPIENT,
+  } as const;
+
+  it("encodes the hookData of hops whose hook has an adapter with the hookArgs of that hook", async () => {
+    const { calldata } = await buildSwapCallData(
+      { ...swapArgs, hookArgs: { [HOOKS]: { referrer: REFERRER } } },
+      createInstance(),
+    );
+
+    expect(getSwapPath(calldata).map(({ hookData }) => hookData)).toEqual([encodeReferrer(REFERRER, 0), "0x"]);
+  });
+
+  it("passes each hook its own hookArgs", async () => {
+    const { calldata } = await buildSwapCallData(
+      {
+        ...swapArgs,
+        route: [{ pool: hookedPool }, { pool: otherHookedPool }],
+        hookArgs: { [HOOKS]: { referrer: REFERRER }, [OTHER_HOOKS.toLowerCase()]: { referrer: RECIPIENT } },
+      },
+      createInstance(),
+    );
+
+    expect(getSwapPath(calldata).map(({ hookData }) => hookData)).toEqual([
+      encodeReferrer(REFERRER, 0),
+      encodeReferrer(RECIPIENT, 12),
+    ]);
+  });
+
+  it("keeps explicit hookData over the adapter's", async () => {
+    const { calldata } = await buildSwapCallData(
+      { ...swapArgs, route: [{ pool: hookedPool, hookData: "0x1234" }, { pool: hooklessPool }] },
+      createInstance(),
+    );
+
+    expect(getSwapPath(calldata)[0]?.hookData).toBe("0x1234");
+  });
+
+  it("rejects hookArgs for a hook without a swap adapter", async () => {
+    await expect(
+      buildSwapCallData({ ...swapArgs, hookArgs: { [HOOKS]: { referrer: REFERRER } } }, createInstance({})),
+    ).rejects.toThrow(`Invalid hookArgs: no hook adapter for ${HOOKS} encodes swap hookData.`);
+  });
+
+  it("rejects hookArgs for a hook the route does not go through", async () => {
+    await expect(
+      buildSwapCallData({ ...swapArgs, hookArgs: { [OTHER_HOOKS]: { referrer: REFERRER } } }, createInstance()),
+    ).rejects.toThrow(`Invalid hookArgs: the route has no pool with hook ${OTHER_HOOKS.toLowerCase()}.`);
+  });
+});
+
+describe("liquidity builders with hook adapters", () => {
+  it("encodes the mint hookData with the per-call hookArgs", async () => {
+    const { calldata } = await buildAddLiquidityCallData(
+      {
+        pool: hookedPool,
+        amount0: "1000000",
+        recipient: RECIPIENT,
+        tickLower: -600,
+        tickUpper: 600,
+        hookArgs: { referrer: RECIPIENT },
+      },
+      createInstance(),
+    );
+
+    expect(decodePositionManagerCalldata(calldata as Hex).calls).toMatchObject([
+      { actions: [{ type: "MINT_POSITION", params: { hookData: encodeReferrer(RECIPIENT, 1) } }, {}] },
+    ]);
+  });
+
+  it("encodes remove and collect hookData with encodeRemoveLiquidityHookData", async () => {
+    const instance = createInstance();
+    const removed = await buildRemoveLiquidityCallData({ tokenId: "1", liquidityPercentage: 10_000 }, instance);
+    const collected = await buildCollectFeesCallData({ tokenId: "1", recipient: RECIPIENT }, instance);
+
+    for (const { calldata } of [removed, collected]) {
+      expect(decodePositionManagerCalldata(calldata as Hex).calls[0]).toMatchObject({
+        actions: expect.arrayContaining([
+          expect.objectContaining({
+            type: "DECREASE_LIQUIDITY",
+            params: expect.objectContaining({ hookData: encodeReferrer(zeroAddress, 2) }),
+          }),
+        ]),
+      });
+    }
+  });
+
+  it("rejects hookArgs when the pool's hook has no adapter", async () => {
+    await expect(
+      buildAddLiquidityCallData(
+        { pool: hookedPool, amount0: "1000000", recipient: RECIPIENT, hookArgs: { referrer: RECIPIENT } },
+        createInstance({}),
+      ),
+    ).rejects.toThrow(`Invalid hookArgs: no hook adapter for ${HOOKS} encodes add-liquidity hookData.`);
+  });
+});
+
+describe("zap and rebalance builders with hook adapters", () => {
+  it("encodes the zap-in swap and mint hookData without hookArgs", async () => {
+    const { calldata } = await buildZapInCallData(
+      {
+        pool: hookedPool,
+        inputCurrency: TOKEN_A,
+        inputAmount: 1_000_000n,
+        tickLower: -600,
+        tickUpper: 600,
+        recipient: RECIPIENT,
+      },
+      createInstance(),
+    );
+
+    const commands = decodeUniversalRouterCalldata(calldata).commands;
+    const swap = commands.find(({ type }) => type === "V4_SWAP");
+    const mint = commands.find(({ type }) => type === "V4_POSITION_MANAGER_CALL");
+    if (swap?.type !== "V4_SWAP" || mint?.type !== "V4_POSITION_MANAGER_CALL") {
+      throw new Error("Expected V4_SWAP and V4_POSITION_MANAGER_CALL commands");
+    }
+
+    expect(swap.actions[0]).toMatchObject({
+      type: "SWAP_EXACT_IN_SINGLE",
+      params: { hookData: encodeReferrer(zeroAddress, 0) },
+    });
+    expect(decodePositionManagerCalldata(mint.params.calldata).calls).toMatchObject([
+      { actions: [{ type: "MINT_POSITION", params: { hookData: encodeReferrer(zeroAddress, 1) } }, {}, {}, {}, {}] },
+    ]);
+  });
+
+  it("encodes the rebalance burn hookData with encodeRemoveLiquidityHookData", async () => {
+    const { calls } = await buildRebalanceCallData(
+      { tokenId: "1", newTickLower: 600, newTickUpper: 1200, recipient: RECIPIENT },
+      createInstance(),
+    );
+
+    expect(decodePositionManagerCalldata(calls[0].data!).calls).toMatchObject([
+      { actions: [{ type: "BURN_POSITION", params: { hookData: encodeReferrer(zeroAddress, 2) } }, {}] },
+    ]);
+  });
+
+  it("encodes the zap-out decrease and swap route hookData", async () => {
+    mockedGetQuote.mockResolvedValue({ amountOut: 1_000n } as never);
+
+    const { calls } = await buildZapOutCallData(
+      { tokenId: "1", liquidityPercentage: 5_000, outputCurrency: TOKEN_A, recipient: RECIPIENT },
+      createInstance(),
+    );
+
+    expect(decodePositionManagerCalldata(calls[0].data!).calls).toMatchObject([
+      { actions: [{ type: "DECREASE_LIQUIDITY", params: { hookData: encodeReferrer(zeroAddress, 2) } }, {}] },
+    ]);
+    expect(mockedGetQuote.mock.calls[0]![0].route).toEqual([
+      { poolKey: hookedKey, hookData: encodeReferrer(zeroAddress, 0) },
+    ]);
+    const [swap] = decodeUniversalRouterCalldata(calls[1].data!).commands;
+    expect(swap).toMatchObject({
+      type: "V4_SWAP",
+      actions: [{}, { type: "SWAP_EXACT_IN", params: { path: [{ hookData: encodeReferrer(zeroAddress, 0) }] } }, {}],
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { zeroAddress } from "viem";
+
+import { decodeHookPermissions, getHookInfo, getRouteHookWarnings } from "@/helpers/hooks";
+
+const TOKEN_A = "0x0000000000000000000000000000000000000001";
+const TOKEN_B = "0x0000000000000000000000000000000000000002";
+
+const poolKey = { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress };
+
+describe("decodeHookPermissions", () => {
+  it("reads the callbacks from the low 14 bits of the hook address", () => {
+    // beforeInitialize (bit 13), afterSwap (bit 6), afterSwapReturnsDelta (bit 2)
+    const permissions = decodeHookPermissions("0x1234000000000000000000000000000000002044");
+
+    expect(Object.entries(permissions).filter(([, enabled]) => enabled)).toEqual([
+      ["beforeInitialize", true],
+      ["afterSwap", true],
+      ["afterSwapReturnsDelta", true],
+    ]);
+  });
+});
+
+describe("getHookInfo", () => {
+  it("reports no callbacks and no risks for hookless pools", () => {
+    expect(getHookInfo(poolKey)).toEqual({
+      hooks: zeroAddress,
+      permissions: decodeHookPermissions(zeroAddress),
+      enabledCallbacks: [],
+      hasSwapCallbacks: false,
+      swapReturnsDelta: false,
+      isDynamicFee: false,
+      risks: [],
+    });
+  });
+
+  it("does not flag hooks that only observe swaps", () => {
+    const info = getHookInfo({ ...poolKey, hooks: "0x00000000000000000000000000000000000000c0" });
+
+    expect(info).toMatchObject({ enabledCallbacks: ["beforeSwap", "afterSwap"], hasSwapCallbacks: true, risks: [] });
+  });
+
+  it("flags hooks that return swap deltas and dynamic fee pools", () => {
+    const info = getHookInfo({ ...poolKey, fee: 0x800000, hooks: "0x0000000000000000000000000000000000000088" });
+
+    expect(info).toMatchObject({
+      enabledCallbacks: ["beforeSwap", "beforeSwapReturnsDelta"],
+      swapReturnsDelta: true,
+      isDynamicFee: true,
+      risks: ["swapReturnsDelta", "dynamicFee"],
+    });
+  });
+});
+
+describe("getRouteHookWarnings", () => {
+  it("lists only the risky hops, by 1-based index", () => {
+    const hooks = "0x0000000000000000000000000000000000000084";
+
+    expect(getRouteHookWarnings([{ poolKey }, { poolKey: { ...poolKey, hooks } }])).toEqual([
+      { hop: 2, hooks, risks: ["swapReturnsDelta"] },
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+import { calculateSwapFee, getDirectionalProtocolFee } from "@/helpers/pools";
+
+// 0.01% protocol fee on zeroForOne swaps, 0.1% (the maximum) on oneForZero swaps
+const PROTOCOL_FEE = (1000 << 12) | 100;
+
+describe("getDirectionalProtocolFee", () => {
+  it("unpacks the protocol fee of each swap direction", () => {
+    expect(getDirectionalProtocolFee(PROTOCOL_FEE, true)).toBe(100);
+    expect(getDirectionalProtocolFee(PROTOCOL_FEE, false)).toBe(1000);
+  });
+});
+
+describe("calculateSwapFee", () => {
+  it("is the LP fee when the pool charges no protocol fee", () => {
+    expect(calculateSwapFee({ lpFee: 3000, protocolFee: 0 }, true)).toBe(3000);
+  });
+
+  it("applies the LP fee to the input left after the protocol fee, rounding down like the PoolManager", () => {
+    // 100 + 3000 - 100 * 3000 / 1e6
+    expect(calculateSwapFee({ lpFee: 3000, protocolFee: PROTOCOL_FEE }, true)).toBe(3100);
+    // 1000 + 3000 - 1000 * 3000 / 1e6
+    expect(calculateSwapFee({ lpFee: 3000, protocolFee: PROTOCOL_FEE }, false)).toBe(3997);
+  });
+});
@@ -0,0 +1,108 @@
+import { encodeSqrtRatioX96, TickMath } from "@uniswap/v3-sdk";
+import { zeroAddress } from "viem";
+
+import {
+  getQuotePrices,
+  getRouteMidPrice,
+  priceToSqrtPriceX96,
+  sqrtPriceX96ToPrice,
+  sqrtPriceX96ToTick,
+  tickToSqrtPriceX96,
+} from "@/helpers/prices";
+import { createPoolAtTick } from "@/test/fixtures/pools";
+
+const TOKEN_A = "0x0000000000000000000000000000000000000001";
+const TOKEN_B = "0x0000000000000000000000000000000000000002";
+const TOKEN_C = "0x0000000000000000000000000000000000000003";
+
+// 1.0001^6932 ≈ 2: TOKEN_B is worth ~2 TOKEN_A in the first pool, TOKEN_C ~0.5 TOKEN_B in the second.
+const A_B_POOL = createPoolAtTick(
+  { currency0: TOKEN_A, currency1: TOKEN_B, fee: 3000, tickSpacing: 60, hooks: zeroAddress },
+  6932,
+);
+const B_C_POOL = createPoolAtTick(
+  { currency0: TOKEN_B, currency1: TOKEN_C, fee: 3000, tickSpacing: 60, hooks: zeroAddress },
+  -6932,
+);
+
+describe("getRouteMidPrice", () => {
+  it("multiplies hop prices in the direction of the route", () => {
+    const forward = getRouteMidPrice([A_B_POOL, B_C_POOL], TOKEN_A);
+    const backward = getRouteMidPrice([B_C_POOL, A_B_POOL], TOKEN_C);
+
+    expect(forward.baseCurrency.wrapped.address).toBe(TOKEN_A);
+    expect(forward.quoteCurrency.wrapped.address).toBe(TOKEN_C);
+    expect(forward.toFixed(2)).toBe("1.00");
+    expect(getRouteMidPrice([A_B_POOL], TOKEN_A).toFixed(2)).toBe("2.00");
+    expect(getRouteMidPrice([A_B_POOL], TOKEN_B).toFixed(2)).toBe("0.50");
+    expect(backward.quoteCurrency.wrapped.address).toBe(TOKEN_A);
+  });
+
+  it("rejects pools that do not connect", () => {
+    expect(() => getRouteMidPrice([B_C_POOL], TOKEN_A)).toThrow("hop 1 does not connect to currency");
+  });
+});
+
+describe("getQuotePrices", () => {
+  it("measures the quoted output against the mid-price output", () => {
+    const { midPrice, executionPrice, priceImpact } = getQuotePrices({
+      pools: [A_B_POOL],
+      currencyIn: TOKEN_A,
+      amountIn: 1000n,
+      amountOut: 1900n,
+    });
+
+    expect(midPrice.toFixed(2)).toBe("2.00");
+    expect(executionPrice.toFixed(2)).toBe("1.90");
+    expect(priceImpact.toFixed(1)).toBe("5.0");
+  });
+});
+
+describe("priceToSqrtPriceX96", () => {
+  it("scales the price by the currency decimals", () => {
+    expect(priceToSqrtPriceX96("1", 18, 18)).toBe(2n ** 96n);
+    expect(priceToSqrtPriceX96("4", 6, 6)).toBe(2n ** 97n);
+    // 1 WETH (18 decimals) = 3000 USDC (6 decimals) is a raw price of 3000e6 / 1e18
+    expect(priceToSqrtPriceX96("3000", 18, 6)).toBe(
+      BigInt(encodeSqrtRatioX96("3000000000", "1000000000000000000").toString()),
+    );
+    expect(priceToSqrtPriceX96("0.25", 18, 18)).toBe(2n ** 95n);
+  });
+
+  it("rejects malformed, zero and out-of-range prices", () => {
+    expect(() => priceToSqrtPriceX96("-1", 18, 18)).toThrow("Invalid price: -1.");
+    expect(() => priceToSqrtPriceX96("1e3", 18, 18)).toThrow("Invalid price: 1e3.");
+    expect(() => priceToSqrtPriceX96("0.0", 18, 18)).toThrow("Invalid price: 0.0.");
+    expect(() => priceToSqrtPriceX96("1", 0, 77)).toThrow("outside the range of v4 prices");
+    expect(() => priceToSqrtPriceX96("1", 1.5, 18)).toThrow("Invalid decimals0: 1.5.");
+  });
+});
+
+describe("sqrtPriceX96ToPrice", () => {
+  it("converts back to a decimal price with the currency decimals", () => {
+    expect(sqrtPriceX96ToPrice(2n ** 96n, 18, 18)).toBe("1");
+    expect(sqrtPriceX96ToPrice(2n ** 95n, 18, 18)).toBe("0.25");
+    expect(sqrtPriceX96ToPrice(priceToSqrtPriceX96("3000", 18, 6), 18, 6, 2)).toBe("2999.99");
+    expect(sqrtPriceX96ToPrice(priceToSqrtPriceX96("3000", 18, 6) + 1n, 18, 6, 2)).toBe("3000");
+  });
+});
+
+describe("sqrtPriceX96ToTick / tickToSqrtPriceX96", () => {
+  it("matches TickMath", () => {
+    for (const tick of [TickMath.MIN_TICK, -196_257, -1, 0, 1, 6932, TickMath.MAX_TICK - 1]) {
+      const sqrtPriceX96 = tickToSqrtPriceX96(tick);
+      expect(sqrtPriceX96).toBe(BigInt(TickMath.getSqrtRatioAtTick(tick).toString()));
+      expect(sqrtPriceX96ToTick(sqrtPriceX96)).toBe(tick);
+      expect(sqrtPriceX96ToTick(sqrtPriceX96 + 1n)).toBe(tick);
+    }
+
+    const sqrtPriceX96 = priceToSqrtPriceX96("3000", 18, 6);
+    expect(sqrtPriceX96ToTick(sqrtPriceX96)).toBe(
+      TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96("3000000000", "1000000000000000000")),
+    );
+  });
+
+  it("rejects prices outside the v4 range", () => {
+    expect(() => sqrtPriceX96ToTick(0n)).toThrow("Invalid sqrtPriceX96: 0 is outside the range of v4 prices.");
+  });
+});
@@ -23,6 +23,12 @@ describe("UniswapSDK.create", () => {
     expect(sdk.getContractAddress("poolManager")).toBe(customContracts.poolManager);
   });
 
+  it("rejects hook adapters that are not keyed by a hook address", () => {
+    expect(() =>
+      UniswapSDK.create(client, 999_999, { contracts: customContracts, hookAdapters: { "0xhooks": {} } }),
+    ).toThrow("Invalid hookAdapters key: 0xhooks. Must be a hook address.");
+  });
+
   it("requires hookmate support when custom contracts are omitted", () => {
     expect(() => UniswapSDK.create(client, 999_999)).toThrow();
   });
@@ -0,0 +1,147 @@
+import type { Address } from "viem";
+
+import { utility } from "hookmate/abi";
+import {
+  BaseError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  erc20Abi,
+  HttpRequestError,
+  MethodNotFoundRpcError,
+  parseAbi,
+  parseAbiParameters,
+  RawContractError,
+  zeroAddress,
+} from "viem";
+
+import { ContractRevertedError, SlippageExceededError } from "@/core/errors";
+import { createMockInstance } from "@/test/fixtures/instance";
+import { simulateCall } from "@/utils/simulateCall";
+
+const ACCOUNT = "0x00000000000000000000000000000000000000a1";
+const RECIPIENT = "0x00000000000000000000000000000000000000b2";
+const ROUTER = "0x00000000000000000000000000000000000000c3";
+const TOKEN = "0x0000000000000000000000000000000000000011";
+const NATIVE_TRANSFER_EMITTER = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const transferLog = (address: Address, from: Address, to: Address, value: bigint) => ({
+  address,
+  topics: encodeEventTopics({ abi: erc20Abi, eventName: "Transfer", args: { from, to } }),
+  data: encodeAbiParameters(parseAbiParameters("uint256"), [value]),
+});
+
+describe("simulateCall", () => {
+  it("nets traced transfers into balance changes of the account and recipient", async () => {
+    const simulateBlocks = vi.fn().mockResolvedValue([
+      {
+        calls: [
+          {
+            status: "success",
+            data: "0x",
+            gasUsed: 120_000n,
+            logs: [
+              transferLog(TOKEN, ACCOUNT, ROUTER, 1_000n),
+              transferLog(NATIVE_TRANSFER_EMITTER, ROUTER, RECIPIENT, 900n),
+              transferLog(TOKEN, ROUTER, ACCOUNT, 100n),
+            ],
+          },
+        ],
+      },
+    ]);
+
+    const result = await simulateCall(
+      { to: ROUTER, data: "0x1234", value: "5", account: ACCOUNT, recipient: RECIPIENT },
+      createMockInstance({ client: { simulateBlocks } }),
+    );
+
+    expect(simulateBlocks).toHaveBeenCalledWith({
+      blocks: [{ calls: [{ account: ACCOUNT, to: ROUTER, data: "0x1234", value: 5n }], stateOverrides: undefined }],
+      traceTransfers: true,
+    });
+    expect(result).toEqual({
+      success: true,
+      method: "eth_simulateV1",
+      gasUsed: 120_000n,
+      balanceChanges: {
+        account: [{ token: TOKEN, delta: -900n }],
+        recipient: [{ token: zeroAddress, delta: 900n }],
+      },
+      revert: undefined,
+    });
+  });
+
+  it("unwraps router execution failures into the underlying revert reason", async () => {
+    const abi = utility.UniversalRouterArtifact.abi;
+    const inner = encodeErrorResult({ abi, errorName: "V4TooLittleReceived", args: [900n, 850n] });
+    const data = encodeErrorResult({ abi, errorName: "ExecutionFailed", args: [0n, inner] });
+    const simulateBlocks = vi
+      .fn()
+      .mockResolvedValue([{ calls: [{ status: "failure", data, gasUsed: 80_000n, logs: [] }] }]);
+
+    const result = await simulateCall(
+      { to: ROUTER, data: "0x1234", account: ACCOUNT },
+      createMockInstance({ client: { simulateBlocks } }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(SlippageExceededError);
+    expect(result.error).toMatchObject({ limit: 900n, amount: 850n });
+    expect(result.revert).toEqual({
+      data,
+      errorName: "V4TooLittleReceived",
+      args: [900n, 850n],
+      reason: "V4TooLittleReceived(900, 850)",
+    });
+  });
+
+  it("falls back to eth_call when eth_simulateV1 is unavailable", async () => {
+    const data = encodeErrorResult({
+      abi: parseAbi(["error Error(string)"]),
+      errorName: "Error",
+      args: ["TRANSFER_FROM_FAILED"],
+    });
+    const client = {
+      simulateBlocks: vi
+        .fn()
+        .mockRejectedValue(new MethodNotFoundRpcError(new Error("the method eth_simulateV1 does not exist"))),
+      call: vi
+        .fn()
+        .mockRejectedValueOnce(new BaseError("Execution reverted.", { cause: new RawContractError({ data }) }))
+        .mockResolvedValueOnce({ data: "0x" }),
+    };
+
+    const instance = createMockInstance({ client });
+    const reverted = await simulateCall({ to: ROUTER, data: "0x1234", account: ACCOUNT }, instance);
+    const succeeded = await simulateCall({ to: ROUTER, data: "0x1234", account: ACCOUNT }, instance);
+
+    expect(reverted).toEqual({
+      success: false,
+      method: "eth_call",
+      revert: { data, errorName: "Error", args: ["TRANSFER_FROM_FAILED"], reason: "TRANSFER_FROM_FAILED" },
+      error: expect.any(ContractRevertedError),
+    });
+    expect(reverted.error?.message).toBe("Simulated call reverted: TRANSFER_FROM_FAILED");
+    // balance changes are reported as unknown, not as an empty list
+    expect(reverted).toHaveProperty("balanceChanges", undefined);
+    expect(succeeded).toStrictEqual({ success: true, method: "eth_call", balanceChanges: undefined });
+  });
+
+  it("rethrows eth_simulateV1 failures other than an unsupported method instead of falling back", async () => {
+    const client = {
+      simulateBlocks: vi.fn().mockRejectedValue(new HttpRequestError({ url: "https://rpc.example", status: 429 })),
+      call: vi.fn(),
+    };
+
+    await expect(
+      simulateCall({ to: ROUTER, data: "0x1234", account: ACCOUNT }, createMockInstance({ client })),
+    ).rejects.toBeInstanceOf(HttpRequestError);
+    expect(client.call).not.toHaveBeenCalled();
+  });
+
+  it("rejects malformed calldata", async () => {
+    await expect(
+      simulateCall({ to: ROUTER, data: "not-hex", account: ACCOUNT }, createMockInstance({})),
+    ).rejects.toThrow("Invalid data");
+  });
+});
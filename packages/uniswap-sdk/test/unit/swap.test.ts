@@ -1,4 +1,5 @@
 import { calculateMaximumInput, calculateMinimumOutput } from "@/helpers/swap";
+import { assertSplitPercentages, splitAmountByPercentages } from "@/internal/swap";
 
 describe("calculateMinimumOutput", () => {
   it("returns the expected output for common slippage values", () => {
@@ -23,3 +24,22 @@ describe("calculateMaximumInput", () => {
     expect(calculateMaximumInput(5n, 33)).toBe(5n);
   });
 });
+
+describe("splitAmountByPercentages", () => {
+  it("rounds every share down and gives the remainder to the last share", () => {
+    expect(splitAmountByPercentages(1_000_001n, [6000, 4000])).toEqual([600_000n, 400_001n]);
+    expect(splitAmountByPercentages(10n, [3333, 3333, 3334])).toEqual([3n, 3n, 4n]);
+  });
+});
+
+describe("assertSplitPercentages", () => {
+  it("accepts positive percentages that add up to 10000", () => {
+    expect(() => assertSplitPercentages([2500, 7500])).not.toThrow();
+  });
+
+  it("rejects empty, zero, and incomplete splits", () => {
+    expect(() => assertSplitPercentages([])).toThrow("at least one route is required");
+    expect(() => assertSplitPercentages([0, 10_000])).toThrow("Must be greater than zero");
+    expect(() => assertSplitPercentages([5000, 4000])).toThrow("percentages add up to 9000");
+  });
+});
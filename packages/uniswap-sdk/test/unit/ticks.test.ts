@@ -0,0 +1,96 @@
+import { CurrencyAmount, Token } from "@uniswap/sdk-core";
+import { TickListDataProvider, TickMath, type TickDataProvider } from "@uniswap/v3-sdk";
+import { Pool } from "@uniswap/v4-sdk";
+import { zeroAddress } from "viem";
+
+import { decodeTickBitmap, getTickBitmapWordPosition, PoolTickDataProvider, type PoolTick } from "@/helpers/ticks";
+
+const TOKEN0 = new Token(1, "0x0000000000000000000000000000000000000001", 18);
+const TOKEN1 = new Token(1, "0x0000000000000000000000000000000000000002", 18);
+const LIQUIDITY = 10n ** 21n;
+
+const POOL_TICKS: PoolTick[] = [
+  { index: -12_000, liquidityGross: 2n * LIQUIDITY, liquidityNet: 2n * LIQUIDITY },
+  { index: -600, liquidityGross: LIQUIDITY, liquidityNet: LIQUIDITY },
+  { index: 600, liquidityGross: LIQUIDITY, liquidityNet: -LIQUIDITY },
+  { index: 12_000, liquidityGross: 2n * LIQUIDITY, liquidityNet: -2n * LIQUIDITY },
+];
+
+function createPool(ticks: TickDataProvider) {
+  return new Pool(
+    TOKEN0,
+    TOKEN1,
+    3000,
+    60,
+    zeroAddress,
+    TickMath.getSqrtRatioAtTick(0),
+    (3n * LIQUIDITY).toString(),
+    0,
+    ticks,
+  );
+}
+
+describe("getTickBitmapWordPosition", () => {
+  it("rounds compressed ticks toward negative infinity", () => {
+    expect(getTickBitmapWordPosition(0, 60)).toBe(0);
+    expect(getTickBitmapWordPosition(15_359, 60)).toBe(0);
+    expect(getTickBitmapWordPosition(15_360, 60)).toBe(1);
+    expect(getTickBitmapWordPosition(-1, 60)).toBe(-1);
+    expect(getTickBitmapWordPosition(-15_360, 60)).toBe(-1);
+    expect(getTickBitmapWordPosition(-15_361, 60)).toBe(-2);
+  });
+});
+
+describe("decodeTickBitmap", () => {
+  it("maps set bits to initialized ticks", () => {
+    expect(decodeTickBitmap(0, 0b101n, 10)).toEqual([0, 20]);
+    expect(decodeTickBitmap(-1, 1n << 255n, 60)).toEqual([-60]);
+    expect(decodeTickBitmap(2, 0n, 60)).toEqual([]);
+  });
+});
+
+describe("PoolTickDataProvider", () => {
+  const provider = new PoolTickDataProvider({ tickSpacing: 60, minWord: -1, maxWord: 0, ticks: POOL_TICKS });
+
+  it("finds the next initialized tick within a word like TickBitmap", async () => {
+    await expect(provider.nextInitializedTickWithinOneWord(0, true, 60)).resolves.toEqual([0, false]);
+    await expect(provider.nextInitializedTickWithinOneWord(-1, true, 60)).resolves.toEqual([-600, true]);
+    await expect(provider.nextInitializedTickWithinOneWord(0, false, 60)).resolves.toEqual([600, true]);
+    await expect(provider.nextInitializedTickWithinOneWord(600, false, 60)).resolves.toEqual([12_000, true]);
+    await expect(provider.nextInitializedTickWithinOneWord(12_000, false, 60)).resolves.toEqual([15_300, false]);
+    await expect(provider.nextInitializedTickWithinOneWord(-12_001, true, 60)).resolves.toEqual([-15_360, false]);
+  });
+
+  it("swaps exactly like a full tick list inside the loaded range", async () => {
+    const windowedPool = createPool(provider);
+    const listPool = createPool(
+      new TickListDataProvider(
+        POOL_TICKS.map(({ index, liquidityNet, liquidityGross }) => ({
+          index,
+          liquidityNet: liquidityNet.toString(),
+          liquidityGross: liquidityGross.toString(),
+        })),
+        60,
+      ),
+    );
+
+    const amountIn = CurrencyAmount.fromRawAmount(TOKEN0, (10n ** 20n).toString());
+    const amountOut = CurrencyAmount.fromRawAmount(TOKEN0, (10n ** 20n).toString());
+
+    const [windowedOutput] = await windowedPool.getOutputAmount(amountIn);
+    const [listOutput] = await listPool.getOutputAmount(amountIn);
+    const [windowedInput] = await windowedPool.getInputAmount(amountOut);
+    const [listInput] = await listPool.getInputAmount(amountOut);
+
+    expect(windowedOutput.quotient.toString()).toBe(listOutput.quotient.toString());
+    expect(windowedInput.quotient.toString()).toBe(listInput.quotient.toString());
+  });
+
+  it("throws when a swap leaves the loaded words", async () => {
+    const pool = createPool(new PoolTickDataProvider({ tickSpacing: 60, minWord: 0, maxWord: 0, ticks: [] }));
+
+    await expect(pool.getOutputAmount(CurrencyAmount.fromRawAmount(TOKEN0, (10n ** 24n).toString()))).rejects.toThrow(
+      "Swap left the loaded tick range (words 0 to 0)",
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { Actions, V4Planner } from "@uniswap/v4-sdk";
+import { encodeAbiParameters, parseAbiParameters, zeroAddress, type Hex } from "viem";
+
+import { decodeV4Actions } from "@/utils/v4Actions";
+
+const TOKEN = "0x0000000000000000000000000000000000000011";
+const OWNER = "0x0000000000000000000000000000000000000033";
+
+const POOL_KEY = { currency0: zeroAddress, currency1: TOKEN, fee: 3000, tickSpacing: 60, hooks: zeroAddress } as const;
+
+function encodeActions(actions: { actionType: number; input: Hex }[]): Hex {
+  const actionBytes = `0x${actions.map(({ actionType }) => actionType.toString(16).padStart(2, "0")).join("")}` as Hex;
+  return encodeAbiParameters(parseAbiParameters("bytes actions, bytes[] params"), [
+    actionBytes,
+    actions.map(({ input }) => input),
+  ]);
+}
+
+describe("decodeV4Actions", () => {
+  it("decodes the actions encoded by the v4 SDK V4Planner", () => {
+    const planner = new V4Planner();
+    planner.addAction(Actions.SETTLE_ALL, [TOKEN, "1000"]);
+    planner.addAction(Actions.TAKE_ALL, [zeroAddress, "900"]);
+    planner.addAction(Actions.UNWRAP, ["900"]);
+
+    expect(decodeV4Actions(planner.finalize() as Hex)).toEqual([
+      { type: "SETTLE_ALL", params: { currency: TOKEN, maxAmount: 1000n } },
+      { type: "TAKE_ALL", params: { currency: zeroAddress, minAmount: 900n } },
+      { type: "UNWRAP", params: { amount: 900n } },
+    ]);
+  });
+
+  it("decodes the v4-periphery actions that the v4 SDK Actions enum leaves out", () => {
+    const data = encodeActions([
+      {
+        actionType: 0x04,
+        input: encodeAbiParameters(parseAbiParameters("uint256, uint128, uint128, bytes"), [7n, 100n, 200n, "0x"]),
+      },
+      {
+        actionType: 0x05,
+        input: encodeAbiParameters(
+          parseAbiParameters([
+            "(address, address, uint24, int24, address), int24, int24, uint128, uint128, address, bytes",
+          ]),
+          [
+            [POOL_KEY.currency0, POOL_KEY.currency1, POOL_KEY.fee, POOL_KEY.tickSpacing, POOL_KEY.hooks],
+            -60,
+            60,
+            100n,
+            200n,
+            OWNER,
+            "0x01",
+          ],
+        ),
+      },
+      { actionType: 0x13, input: encodeAbiParameters(parseAbiParameters("address, uint256"), [TOKEN, 5n]) },
+      { actionType: 0x15, input: encodeAbiParameters(parseAbiParameters("uint256"), [0n]) },
+    ]);
+
+    expect(decodeV4Actions(data)).toEqual([
+      {
+        type: "INCREASE_LIQUIDITY_FROM_DELTAS",
+        params: { tokenId: 7n, amount0Max: 100n, amount1Max: 200n, hookData: "0x" },
+      },
+      {
+        type: "MINT_POSITION_FROM_DELTAS",
+        params: {
+          poolKey: POOL_KEY,
+          tickLower: -60,
+          tickUpper: 60,
+          amount0Max: 100n,
+          amount1Max: 200n,
+          owner: OWNER,
+          hookData: "0x01",
+        },
+      },
+      { type: "CLEAR_OR_TAKE", params: { currency: TOKEN, amountMax: 5n } },
+      { type: "WRAP", params: { amount: 0n } },
+    ]);
+  });
+
+  it("keeps the raw input of reserved and unknown actions", () => {
+    const data = encodeActions([
+      { actionType: 0x0a, input: "0x01" },
+      { actionType: 0x17, input: "0x02" },
+      { actionType: 0x18, input: "0x03" },
+      { actionType: 0x30, input: "0x04" },
+    ]);
+
+    expect(decodeV4Actions(data)).toEqual([
+      { type: "DONATE", input: "0x01" },
+      { type: "MINT_6909", input: "0x02" },
+      { type: "BURN_6909", input: "0x03" },
+      { type: "UNKNOWN", actionType: 0x30, input: "0x04" },
+    ]);
+  });
+
+  it("rejects payloads whose action and param counts differ", () => {
+    const data = encodeAbiParameters(parseAbiParameters("bytes actions, bytes[] params"), ["0x0b0c", ["0x"]]);
+
+    expect(() => decodeV4Actions(data)).toThrow("Invalid v4 actions: 2 actions but 1 params.");
+  });
+});